@@ -0,0 +1,269 @@
+import fs from "node:fs";
+import path from "path";
+import { escapeHtml } from './html.js';
+import type { DataRow, DatasetSchema, Statistics } from './types.js';
+import {
+  collectColumns,
+  createColumnTypeAccumulator,
+  describeSchema,
+  inferSchema,
+  isNumericType,
+  toNumber
+} from './schema.js';
+import type { ColumnTypeAccumulator } from './schema.js';
+import {
+  computeCategoricalStats,
+  computeNumericStats,
+  createFrequencyAccumulator,
+  createNumericAccumulator,
+  createReservoir,
+  numericValues
+} from './stats.js';
+import type { FrequencyAccumulator, NumericAccumulator } from './stats.js';
+import { streamCsvRows } from './loader.js';
+import { renderHeatmapTable } from './charts.js';
+import type { ChartImage } from './charts.js';
+import { computeCorrelations, describeRelationships } from './correlation.js';
+
+// Profiled dataset (a CSV file or one workbook sheet) with its column groupings
+export interface DatasetProfile {
+  name: string;
+  data: DataRow[];
+  columns: string[];
+  numericColumns: string[];
+  categoricalColumns: string[];
+  statistics: Statistics;
+  // Position in the source of each row in data, when data is a sample
+  rowNumbers?: number[];
+}
+
+// Rows kept by the streaming profiler for correlations and charts
+export const STREAMING_ROW_SAMPLE = 20000;
+
+// CSV files larger than this are profiled in streaming mode
+export const STREAMING_THRESHOLD_BYTES = 20 * 1024 * 1024;
+
+// Column groupings derived from the inferred schema
+function groupColumns(schema: DatasetSchema) {
+  const columns = Object.keys(schema);
+  const numericColumns = columns.filter(col => isNumericType(schema[col].type));
+  const categoricalColumns = columns.filter(col =>
+    !isNumericType(schema[col].type) && schema[col].type !== 'empty'
+  );
+  // Cramér's V only makes sense for low-cardinality columns
+  const nominalColumns = columns.filter(col =>
+    (schema[col].type === 'categorical' || schema[col].type === 'boolean') && schema[col].uniqueCount <= 50
+  );
+  return { columns, numericColumns, categoricalColumns, nominalColumns };
+}
+
+// Profile rows held in memory, with exact statistics
+export function profileData(name: string, data: DataRow[]): DatasetProfile {
+  // Infer column types from every cell, not just the first row
+  const schema = inferSchema(data, collectColumns(data));
+  const { columns, numericColumns, categoricalColumns, nominalColumns } = groupColumns(schema);
+
+  const statistics: Statistics = {
+    rowCount: data.length,
+    columnCount: columns.length,
+    schema,
+    numericStats: {},
+    categoricalStats: {},
+    correlations: computeCorrelations(data, numericColumns, nominalColumns)
+  };
+
+  // Calculate numeric statistics
+  for (const col of numericColumns) {
+    statistics.numericStats[col] = computeNumericStats(numericValues(data, col));
+  }
+
+  // Profile every other non-empty column by its value frequencies
+  for (const col of categoricalColumns) {
+    statistics.categoricalStats[col] = computeCategoricalStats(data, col);
+  }
+
+  return { name, data, columns, numericColumns, categoricalColumns, statistics };
+}
+
+// Profile a CSV file in a single streaming pass with bounded memory. Counts, means,
+// variances, min/max and missing values are exact; quantiles and frequencies use
+// bounded sketches, and correlations and charts use a uniform sample of rows that
+// is returned as the profile's data.
+export async function profileCsvFile(name: string, filePath: string): Promise<DatasetProfile> {
+  const columnOrder = new Set<string>();
+  const typeAccumulators = new Map<string, ColumnTypeAccumulator>();
+  const numericAccumulators = new Map<string, NumericAccumulator>();
+  const frequencyAccumulators = new Map<string, FrequencyAccumulator>();
+  const rowSample = createReservoir<{ row: DataRow; index: number }>(STREAMING_ROW_SAMPLE);
+  let rowCount = 0;
+
+  await streamCsvRows(filePath, row => {
+    for (const column of Object.keys(row)) {
+      if (!columnOrder.has(column)) {
+        columnOrder.add(column);
+        typeAccumulators.set(column, createColumnTypeAccumulator(column));
+        numericAccumulators.set(column, createNumericAccumulator());
+        frequencyAccumulators.set(column, createFrequencyAccumulator());
+      }
+    }
+    for (const column of columnOrder) {
+      const value = row[column];
+      typeAccumulators.get(column)!.add(value, rowCount);
+      frequencyAccumulators.get(column)!.add(value);
+      const number = toNumber(value);
+      if (number !== null) {
+        numericAccumulators.get(column)!.add(number);
+      }
+    }
+    rowSample.add({ row, index: rowCount });
+    rowCount++;
+  });
+
+  const schema: DatasetSchema = {};
+  for (const column of columnOrder) {
+    schema[column] = typeAccumulators.get(column)!.result(rowCount);
+  }
+  const { columns, numericColumns, categoricalColumns, nominalColumns } = groupColumns(schema);
+  // Keep the sample in file order so row-based charts and checks read naturally
+  const sampled = [...rowSample.items()].sort((a, b) => a.index - b.index);
+  const sample = sampled.map(item => item.row);
+
+  const statistics: Statistics = {
+    rowCount,
+    columnCount: columns.length,
+    schema,
+    numericStats: {},
+    categoricalStats: {},
+    correlations: computeCorrelations(sample, numericColumns, nominalColumns),
+    ...(rowCount > sample.length ? { sampling: { sampleSize: sample.length, totalRows: rowCount } } : {})
+  };
+
+  for (const col of numericColumns) {
+    statistics.numericStats[col] = numericAccumulators.get(col)!.result();
+  }
+  for (const col of categoricalColumns) {
+    // The type pass tracks far more distinct values than the frequency counters
+    statistics.categoricalStats[col] = {
+      ...frequencyAccumulators.get(col)!.result(),
+      cardinality: schema[col].uniqueCount
+    };
+  }
+
+  return {
+    name,
+    data: sample,
+    columns,
+    numericColumns,
+    categoricalColumns,
+    statistics,
+    ...(statistics.sampling ? { rowNumbers: sampled.map(item => item.index) } : {})
+  };
+}
+
+// Save each chart as an .svg file in plotsDir and return the paths.
+// The prefix keeps file names apart when several sheets share a folder.
+export function writeCharts(charts: ChartImage[], plotsDir: string, timestamp: number, prefix = ''): string[] {
+  return charts.map(chart => {
+    const plotPath = path.join(plotsDir, `${prefix}${chart.id}_${timestamp}.svg`);
+    fs.writeFileSync(plotPath, chart.svg);
+    return plotPath;
+  });
+}
+
+// Prompt section describing one profiled dataset
+export function describeProfile(profile: DatasetProfile): string {
+  const { schema: _schema, ...summaryStatistics } = profile.statistics;
+  const { sampling } = profile.statistics;
+  const samplingNote = sampling
+    ? `Counts, means, standard deviations and ranges cover all ${sampling.totalRows} rows; quantiles and frequencies are approximate and correlations use a uniform sample of ${sampling.sampleSize} rows.
+
+        `
+    : '';
+  return `${samplingNote}Inferred column types (use these when interpreting the statistics):
+        ${describeSchema(profile.statistics.schema)}
+
+        Strongest computed relationships (base any statements about correlation on these numbers only):
+        ${describeRelationships(profile.statistics.correlations.topRelationships)}
+
+        Basic statistics:
+        ${JSON.stringify(summaryStatistics, null, 2)}`;
+}
+
+// Report styles shared by every dataset section
+export const REPORT_STYLES = `
+    body { font-family: Arial, sans-serif; margin: 20px; }
+    .container { max-width: 1200px; margin: 0 auto; }
+    .stats { background: #f5f5f5; padding: 20px; border-radius: 5px; }
+    .plots { display: grid; grid-template-columns: repeat(auto-fit, minmax(400px, 1fr)); gap: 20px; }
+    .plot { border: 1px solid #ddd; padding: 10px; }
+    .plot svg { width: 100%; height: auto; }
+    .schema { border-collapse: collapse; background: white; }
+    .schema th, .schema td { border: 1px solid #ddd; padding: 6px 10px; text-align: left; }
+    .heatmap { border-collapse: collapse; background: white; }
+    .heatmap th, .heatmap td { border: 1px solid #ddd; padding: 6px 10px; text-align: center; }`;
+
+// Dataset information and relationship sections of the HTML report
+export function renderProfileSection(profile: DatasetProfile): string {
+  const { statistics } = profile;
+  return `
+    <h2>Dataset Information</h2>
+    <div class="stats">
+      <p>Rows: ${statistics.rowCount}</p>
+      <p>Columns: ${statistics.columnCount}</p>
+      ${statistics.sampling ? `<p><em>Profiled in streaming mode: quantiles and frequencies are approximate, and correlations and charts use a uniform sample of ${statistics.sampling.sampleSize} of ${statistics.sampling.totalRows} rows.</em></p>` : ''}
+      <h3>Column Schema</h3>
+      <table class="schema">
+        <tr><th>Column</th><th>Type</th><th>Confidence</th><th>Missing</th><th>Unique</th><th>Mixed-type cells</th></tr>
+        ${Object.values(statistics.schema).map(col => `
+        <tr>
+          <td>${escapeHtml(col.name)}</td>
+          <td>${col.type}</td>
+          <td>${col.confidenceLevel} (${(col.confidence * 100).toFixed(1)}%)</td>
+          <td>${col.missingCount}</td>
+          <td>${col.uniqueCount}</td>
+          <td>${col.mixedCount}${col.mixedCells.length ? ` (rows ${col.mixedCells.map(cell => `${cell.row + 1}: "${escapeHtml(String(cell.value))}"`).join(', ')})` : ''}</td>
+        </tr>`).join('')}
+      </table>
+      <h3>Numeric Statistics</h3>
+      <pre>${escapeHtml(JSON.stringify(statistics.numericStats, null, 2))}</pre>
+      <h3>Categorical Statistics</h3>
+      ${Object.entries(statistics.categoricalStats).map(([col, stats]) => `
+      <h4>${escapeHtml(col)}</h4>
+      <p>Cardinality: ${statistics.schema[col].uniqueCountCapped ? '≥ ' : ''}${stats.cardinality} | Mode: ${escapeHtml(String(stats.mode))} (${stats.modeCount}) | Entropy: ${stats.entropy} bits | Missing: ${stats.missingCount}${stats.approximate ? ' | <em>approximate counts</em>' : ''}</p>
+      <table class="schema">
+        <tr><th>Value</th><th>Count</th><th>Share</th></tr>
+        ${[...stats.topValues, ...(stats.otherCount ? [{ value: '(other)', count: stats.otherCount }] : [])].map(v => `
+        <tr><td>${escapeHtml(String(v.value))}</td><td>${v.count}</td><td>${(v.count / (statistics.rowCount - stats.missingCount) * 100).toFixed(1)}%</td></tr>`).join('')}
+      </table>`).join('')}
+    </div>
+
+    <h2>Relationships</h2>
+    <div class="stats">
+      ${statistics.correlations.pearson.columns.length > 1 ? `
+      <h3>Pearson Correlation</h3>
+      ${renderHeatmapTable(statistics.correlations.pearson.columns, statistics.correlations.pearson.values)}
+      <h3>Spearman Correlation</h3>
+      ${renderHeatmapTable(statistics.correlations.spearman.columns, statistics.correlations.spearman.values)}` : ''}
+      ${statistics.correlations.cramersV.columns.length > 1 ? `
+      <h3>Cramér's V (categorical association)</h3>
+      ${renderHeatmapTable(statistics.correlations.cramersV.columns, statistics.correlations.cramersV.values)}` : ''}
+      <h3>Strongest Relationships</h3>
+      <table class="schema">
+        <tr><th>Columns</th><th>Method</th><th>Value</th><th>Rows</th></tr>
+        ${statistics.correlations.topRelationships.map(rel => `
+        <tr><td>${escapeHtml(`${rel.columns[0]} ~ ${rel.columns[1]}`)}</td><td>${rel.method}</td><td>${rel.value}</td><td>${rel.n}</td></tr>`).join('')}
+      </table>
+    </div>`;
+}
+
+// Grid of charts inlined as SVG, so the report is a single self-contained file
+export function renderPlotsSection(charts: ChartImage[]): string {
+  return `
+    <div class="plots">
+      ${charts.map(chart => `
+        <div class="plot">
+          ${chart.svg}
+        </div>
+      `).join('')}
+    </div>`;
+}
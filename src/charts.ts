@@ -0,0 +1,357 @@
+import { Resvg } from '@resvg/resvg-js';
+import { escapeHtml } from './html.js';
+import { sanitizeFileName } from './workspace.js';
+import type { BoxPlotStats } from './types.js';
+
+// Charts are rendered on the server as standalone SVG, so reports work offline and
+// survive being emailed or moved. PNG copies are produced for MCP image content.
+
+export const CHART_WIDTH = 800;
+export const CHART_HEIGHT = 400;
+const MARGIN = { top: 50, right: 30, bottom: 80, left: 70 };
+const PLOT_WIDTH = CHART_WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+
+const FILL = 'rgba(54, 162, 235, 0.5)';
+const STROKE = 'rgba(54, 162, 235, 1)';
+const OUTLIER = 'rgba(235, 54, 54, 0.8)';
+const PALETTE = ['#368fe0', '#e0683a', '#3aa55d', '#9b59b6', '#d4a017', '#17a2b8'];
+const FONT = 'font-family="Arial, Helvetica, sans-serif"';
+
+export interface ChartImage {
+  // Short file-system friendly identifier, e.g. "price_histogram"
+  id: string;
+  title: string;
+  svg: string;
+}
+
+// File-system friendly chart identifier from column names and the chart kind. A slash
+// in a column name such as "Revenue/Cost" is part of the name, not a folder
+export function chartId(...parts: string[]): string {
+  return sanitizeFileName(parts.join('_').replace(/[\\/]/g, '_'), 'chart');
+}
+
+// Columns such as "a b" and "a_b" give the same id; number the repeats so no chart
+// file overwrites another
+export function uniqueChartIds(charts: ChartImage[]): ChartImage[] {
+  const taken = new Set<string>();
+  return charts.map(chart => {
+    let id = chart.id;
+    for (let count = 2; taken.has(id); count++) {
+      id = `${chart.id}_${count}`;
+    }
+    taken.add(id);
+    return id === chart.id ? chart : { ...chart, id };
+  });
+}
+
+export interface BarChartOptions {
+  title: string;
+  labels: string[];
+  values: number[];
+  xLabel: string;
+  yLabel: string;
+}
+
+export interface ScatterChartOptions {
+  title: string;
+  points: { x: number; y: number }[];
+  xLabel: string;
+  yLabel: string;
+}
+
+export interface BoxPlotSeries extends BoxPlotStats {
+  label: string;
+}
+
+export interface BoxPlotOptions {
+  title: string;
+  series: BoxPlotSeries[];
+}
+
+export interface LineSeries {
+  label: string;
+  points: { x: number; y: number }[];
+  // Optional shaded band, e.g. a forecast interval
+  band?: { x: number; low: number; high: number }[];
+  dashed?: boolean;
+}
+
+export interface LineChartOptions {
+  title: string;
+  series: LineSeries[];
+  xLabel: string;
+  yLabel: string;
+  // Format X values as dates (values are epoch milliseconds)
+  timeAxis?: boolean;
+}
+
+export interface MissingMatrixOptions {
+  title: string;
+  columns: string[];
+  // One entry per row bucket: share of missing cells (0..1) for each column
+  buckets: number[][];
+  rowsPerBucket: number;
+  // Rows in the file when the buckets cover a sample of them
+  sampleOf?: number;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// Round tick values ("nice numbers") covering [min, max]
+function niceTicks(min: number, max: number, count = 5): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    return [0, 1];
+  }
+  if (min === max) {
+    const pad = Math.abs(min) > 0 ? Math.abs(min) * 0.1 : 1;
+    min -= pad;
+    max += pad;
+  }
+  const rawStep = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const residual = rawStep / magnitude;
+  const step = (residual > 5 ? 10 : residual > 2 ? 5 : residual > 1 ? 2 : 1) * magnitude;
+  const ticks: number[] = [];
+  for (let tick = Math.floor(min / step) * step; tick <= max + step / 2; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  if (ticks[ticks.length - 1] < max) {
+    ticks.push(Number((ticks[ticks.length - 1] + step).toPrecision(12)));
+  }
+  return ticks;
+}
+
+function formatTick(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e6) return `${Number((value / 1e6).toPrecision(3))}M`;
+  if (abs >= 1e3) return `${Number((value / 1e3).toPrecision(3))}k`;
+  return String(Number(value.toPrecision(4)));
+}
+
+function linearScale(domainMin: number, domainMax: number, rangeMin: number, rangeMax: number) {
+  const span = domainMax - domainMin || 1;
+  return (value: number) => rangeMin + (value - domainMin) / span * (rangeMax - rangeMin);
+}
+
+function svgDocument(title: string, body: string, height = CHART_HEIGHT): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CHART_WIDTH}" height="${height}" viewBox="0 0 ${CHART_WIDTH} ${height}" role="img" aria-label="${escapeHtml(title)}">
+  <rect width="${CHART_WIDTH}" height="${height}" fill="white"/>
+  <text x="${CHART_WIDTH / 2}" y="28" text-anchor="middle" font-size="16" font-weight="bold" ${FONT}>${escapeHtml(truncate(title, 80))}</text>
+${body}
+</svg>`;
+}
+
+// Y axis with grid lines plus the axis titles
+function yAxis(ticks: number[], y: (value: number) => number, xLabel: string, yLabel: string): string {
+  const grid = ticks.map(tick => `
+  <line x1="${MARGIN.left}" x2="${MARGIN.left + PLOT_WIDTH}" y1="${y(tick).toFixed(1)}" y2="${y(tick).toFixed(1)}" stroke="#e5e5e5"/>
+  <text x="${MARGIN.left - 8}" y="${(y(tick) + 4).toFixed(1)}" text-anchor="end" font-size="11" fill="#555" ${FONT}>${formatTick(tick)}</text>`).join('');
+  return `${grid}
+  <line x1="${MARGIN.left}" x2="${MARGIN.left}" y1="${MARGIN.top}" y2="${MARGIN.top + PLOT_HEIGHT}" stroke="#999"/>
+  <line x1="${MARGIN.left}" x2="${MARGIN.left + PLOT_WIDTH}" y1="${MARGIN.top + PLOT_HEIGHT}" y2="${MARGIN.top + PLOT_HEIGHT}" stroke="#999"/>
+  <text x="${MARGIN.left + PLOT_WIDTH / 2}" y="${CHART_HEIGHT - 10}" text-anchor="middle" font-size="12" ${FONT}>${escapeHtml(truncate(xLabel, 60))}</text>
+  <text x="18" y="${MARGIN.top + PLOT_HEIGHT / 2}" text-anchor="middle" font-size="12" transform="rotate(-90 18 ${MARGIN.top + PLOT_HEIGHT / 2})" ${FONT}>${escapeHtml(truncate(yLabel, 40))}</text>`;
+}
+
+// Numeric X axis ticks
+function xAxisTicks(ticks: number[], x: (value: number) => number): string {
+  return ticks.map(tick => `
+  <text x="${x(tick).toFixed(1)}" y="${MARGIN.top + PLOT_HEIGHT + 18}" text-anchor="middle" font-size="11" fill="#555" ${FONT}>${formatTick(tick)}</text>`).join('');
+}
+
+// Category X axis labels, rotated when they would overlap
+function xAxisCategories(labels: string[], center: (index: number) => number): string {
+  const band = PLOT_WIDTH / Math.max(1, labels.length);
+  const rotate = band < 60;
+  const every = Math.max(1, Math.ceil(labels.length / 40));
+  return labels.map((label, i) => {
+    if (i % every !== 0) {
+      return '';
+    }
+    const x = center(i).toFixed(1);
+    const y = MARGIN.top + PLOT_HEIGHT + 16;
+    return rotate
+      ? `
+  <text x="${x}" y="${y}" text-anchor="end" font-size="10" fill="#555" transform="rotate(-40 ${x} ${y})" ${FONT}>${escapeHtml(truncate(label, 14))}</text>`
+      : `
+  <text x="${x}" y="${y}" text-anchor="middle" font-size="11" fill="#555" ${FONT}>${escapeHtml(truncate(label, 14))}</text>`;
+  }).join('');
+}
+
+export function renderBarChartSvg({ title, labels, values, xLabel, yLabel }: BarChartOptions): string {
+  // Bars grow from zero, downwards for negative values
+  const maxValue = values.reduce((max, value) => Math.max(max, value), 0);
+  const minValue = values.reduce((min, value) => Math.min(min, value), 0);
+  const ticks = niceTicks(minValue, maxValue || (minValue ? 0 : 1));
+  const y = linearScale(ticks[0], ticks[ticks.length - 1], MARGIN.top + PLOT_HEIGHT, MARGIN.top);
+  const band = PLOT_WIDTH / Math.max(1, labels.length);
+  const barWidth = Math.max(1, band * 0.8);
+  const center = (i: number) => MARGIN.left + band * i + band / 2;
+
+  const bars = values.map((value, i) => `
+  <rect x="${(center(i) - barWidth / 2).toFixed(1)}" y="${y(Math.max(value, 0)).toFixed(1)}" width="${barWidth.toFixed(1)}" height="${Math.abs(y(value) - y(0)).toFixed(1)}" fill="${FILL}" stroke="${STROKE}"><title>${escapeHtml(`${labels[i]}: ${value}`)}</title></rect>`).join('');
+
+  return svgDocument(title, `${yAxis(ticks, y, xLabel, yLabel)}${bars}${xAxisCategories(labels, center)}`);
+}
+
+export function renderScatterChartSvg({ title, points, xLabel, yLabel }: ScatterChartOptions): string {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (const { x, y } of points) {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  const xTicks = niceTicks(minX, maxX);
+  const yTicks = niceTicks(minY, maxY);
+  const x = linearScale(xTicks[0], xTicks[xTicks.length - 1], MARGIN.left, MARGIN.left + PLOT_WIDTH);
+  const y = linearScale(yTicks[0], yTicks[yTicks.length - 1], MARGIN.top + PLOT_HEIGHT, MARGIN.top);
+
+  const dots = points.map(point => `
+  <circle cx="${x(point.x).toFixed(1)}" cy="${y(point.y).toFixed(1)}" r="3" fill="${FILL}" stroke="${STROKE}" stroke-width="0.5"/>`).join('');
+
+  return svgDocument(title, `${yAxis(yTicks, y, xLabel, yLabel)}${xAxisTicks(xTicks, x)}${dots}`);
+}
+
+// Horizontal box plots, one row per series, each drawn on its own scale so
+// columns with different units can share a chart
+export function renderBoxPlotSvg({ title, series }: BoxPlotOptions): string {
+  const rowHeight = 50;
+  const top = MARGIN.top;
+  const labelWidth = 140;
+  const left = MARGIN.left + labelWidth - 40;
+  const width = CHART_WIDTH - left - MARGIN.right - 60;
+  const height = top + series.length * rowHeight + 30;
+
+  const rows = series.map((s, i) => {
+    const cy = top + i * rowHeight + rowHeight / 2;
+    const low = Math.min(s.min, s.lowerWhisker);
+    const high = Math.max(s.max, s.upperWhisker);
+    const x = linearScale(low, high === low ? low + 1 : high, left, left + width);
+    const outliers = s.outliers.map(value => `
+  <circle cx="${x(value).toFixed(1)}" cy="${cy}" r="3" fill="none" stroke="${OUTLIER}"><title>${escapeHtml(String(value))}</title></circle>`).join('');
+    return `
+  <text x="${left - 12}" y="${cy + 4}" text-anchor="end" font-size="12" ${FONT}>${escapeHtml(truncate(s.label, 20))}</text>
+  <line x1="${x(s.lowerWhisker).toFixed(1)}" x2="${x(s.q1).toFixed(1)}" y1="${cy}" y2="${cy}" stroke="${STROKE}"/>
+  <line x1="${x(s.q3).toFixed(1)}" x2="${x(s.upperWhisker).toFixed(1)}" y1="${cy}" y2="${cy}" stroke="${STROKE}"/>
+  <line x1="${x(s.lowerWhisker).toFixed(1)}" x2="${x(s.lowerWhisker).toFixed(1)}" y1="${cy - 8}" y2="${cy + 8}" stroke="${STROKE}"/>
+  <line x1="${x(s.upperWhisker).toFixed(1)}" x2="${x(s.upperWhisker).toFixed(1)}" y1="${cy - 8}" y2="${cy + 8}" stroke="${STROKE}"/>
+  <rect x="${x(s.q1).toFixed(1)}" y="${cy - 14}" width="${Math.max(1, x(s.q3) - x(s.q1)).toFixed(1)}" height="28" fill="${FILL}" stroke="${STROKE}"><title>${escapeHtml(`Q1 ${s.q1}, median ${s.median}, Q3 ${s.q3}`)}</title></rect>
+  <line x1="${x(s.median).toFixed(1)}" x2="${x(s.median).toFixed(1)}" y1="${cy - 14}" y2="${cy + 14}" stroke="#1b4f8a" stroke-width="2"/>${outliers}
+  <text x="${left}" y="${cy + 26}" font-size="10" fill="#777" ${FONT}>${formatTick(low)}</text>
+  <text x="${left + width}" y="${cy + 26}" text-anchor="end" font-size="10" fill="#777" ${FONT}>${formatTick(high)}</text>`;
+  }).join('');
+
+  return svgDocument(title, rows, height);
+}
+
+function formatDate(ms: number, spanMs: number): string {
+  const iso = new Date(ms).toISOString();
+  return spanMs > 2 * 365 * 86400000 ? iso.slice(0, 7) : iso.slice(0, 10);
+}
+
+// One or more line series sharing both axes, with an optional shaded band per series
+export function renderLineChartSvg({ title, series, xLabel, yLabel, timeAxis }: LineChartOptions): string {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (const s of series) {
+    for (const point of s.points) {
+      minX = Math.min(minX, point.x);
+      maxX = Math.max(maxX, point.x);
+      minY = Math.min(minY, point.y);
+      maxY = Math.max(maxY, point.y);
+    }
+    for (const point of s.band ?? []) {
+      minX = Math.min(minX, point.x);
+      maxX = Math.max(maxX, point.x);
+      minY = Math.min(minY, point.low);
+      maxY = Math.max(maxY, point.high);
+    }
+  }
+  const yTicks = niceTicks(minY, maxY);
+  const x = linearScale(minX, maxX, MARGIN.left, MARGIN.left + PLOT_WIDTH);
+  const y = linearScale(yTicks[0], yTicks[yTicks.length - 1], MARGIN.top + PLOT_HEIGHT, MARGIN.top);
+
+  const xTickValues = timeAxis
+    ? Array.from({ length: 6 }, (_, i) => minX + (maxX - minX) * i / 5)
+    : niceTicks(minX, maxX).filter(tick => tick >= minX && tick <= maxX);
+  // Anchor the outermost labels inwards so long dates stay inside the image
+  const anchor = (i: number) => i === 0 ? 'start' : i === xTickValues.length - 1 ? 'end' : 'middle';
+  const xTicks = xTickValues.map((tick, i) => `
+  <text x="${x(tick).toFixed(1)}" y="${MARGIN.top + PLOT_HEIGHT + 18}" text-anchor="${timeAxis ? anchor(i) : 'middle'}" font-size="11" fill="#555" ${FONT}>${timeAxis ? formatDate(tick, maxX - minX) : formatTick(tick)}</text>`).join('');
+
+  const lines = series.map((s, i) => {
+    const color = PALETTE[i % PALETTE.length];
+    const band = s.band && s.band.length > 1 ? `
+  <polygon points="${[...s.band.map(p => `${x(p.x).toFixed(1)},${y(p.high).toFixed(1)}`), ...[...s.band].reverse().map(p => `${x(p.x).toFixed(1)},${y(p.low).toFixed(1)}`)].join(' ')}" fill="${color}" fill-opacity="0.15" stroke="none"/>` : '';
+    const path = s.points.map(p => `${x(p.x).toFixed(1)},${y(p.y).toFixed(1)}`).join(' ');
+    const markers = s.points.length <= 60 ? s.points.map(p => `
+  <circle cx="${x(p.x).toFixed(1)}" cy="${y(p.y).toFixed(1)}" r="2.5" fill="${color}"/>`).join('') : '';
+    return `${band}
+  <polyline points="${path}" fill="none" stroke="${color}" stroke-width="2"${s.dashed ? ' stroke-dasharray="6 4"' : ''}/>${markers}`;
+  }).join('');
+
+  const legend = series.length > 1 ? series.map((s, i) => `
+  <rect x="${MARGIN.left + 10 + i * 150}" y="${MARGIN.top - 14}" width="12" height="4" fill="${PALETTE[i % PALETTE.length]}"/>
+  <text x="${MARGIN.left + 28 + i * 150}" y="${MARGIN.top - 9}" font-size="11" ${FONT}>${escapeHtml(truncate(s.label, 18))}</text>`).join('') : '';
+
+  return svgDocument(title, `${yAxis(yTicks, y, xLabel, yLabel)}${xTicks}${lines}${legend}`);
+}
+
+// Grid of columns by row buckets, shaded by the share of missing cells
+export function renderMissingMatrixSvg({ title, columns, buckets, rowsPerBucket, sampleOf }: MissingMatrixOptions): string {
+  const top = MARGIN.top + 60;
+  const left = MARGIN.left;
+  const width = CHART_WIDTH - left - MARGIN.right;
+  const height = 300;
+  const cellWidth = width / Math.max(1, columns.length);
+  const cellHeight = height / Math.max(1, buckets.length);
+
+  const headers = columns.map((col, i) => {
+    const cx = (left + cellWidth * i + cellWidth / 2).toFixed(1);
+    return `
+  <text x="${cx}" y="${top - 8}" text-anchor="start" font-size="10" fill="#555" transform="rotate(-40 ${cx} ${top - 8})" ${FONT}>${escapeHtml(truncate(col, 16))}</text>`;
+  }).join('');
+
+  const cells = buckets.map((bucket, row) => bucket.map((share, i) => share > 0 ? `
+  <rect x="${(left + cellWidth * i).toFixed(1)}" y="${(top + cellHeight * row).toFixed(1)}" width="${cellWidth.toFixed(1)}" height="${Math.max(0.5, cellHeight).toFixed(1)}" fill="rgba(60, 60, 60, ${Math.max(0.15, share).toFixed(2)})"/>` : '').join('')).join('');
+
+  const body = `
+  <rect x="${left}" y="${top}" width="${width}" height="${height}" fill="#f4f8fc" stroke="#999"/>${headers}${cells}
+  <text x="${left - 8}" y="${top + 10}" text-anchor="end" font-size="10" fill="#555" ${FONT}>row 1</text>
+  <text x="${left - 8}" y="${top + height}" text-anchor="end" font-size="10" fill="#555" ${FONT}>row ${sampleOf ?? buckets.length * rowsPerBucket}</text>
+  <text x="${left}" y="${top + height + 24}" font-size="11" fill="#555" ${FONT}>Dark cells are missing values${rowsPerBucket > 1 ? ` (each band covers ${rowsPerBucket} ${sampleOf ? 'sampled ' : ''}rows, shaded by share missing)` : ''}</text>`;
+
+  return svgDocument(title, body, top + height + 40);
+}
+
+// Rasterize an SVG chart for clients that only display bitmap images.
+// Text uses the system fonts available to the server.
+export function svgToPng(svg: string): Buffer {
+  const resvg = new Resvg(svg, {
+    font: { loadSystemFonts: true, defaultFontFamily: 'Arial' },
+    background: 'white'
+  });
+  return Buffer.from(resvg.render().asPng());
+}
+
+// Blue for positive, red for negative, with opacity following the strength
+function heatmapColor(value: number | null): string {
+  if (value === null) {
+    return '#eeeeee';
+  }
+  const alpha = Math.min(1, Math.abs(value)).toFixed(2);
+  return value >= 0 ? `rgba(54, 162, 235, ${alpha})` : `rgba(235, 54, 54, ${alpha})`;
+}
+
+// HTML table fragment colouring each cell of a correlation matrix
+export function renderHeatmapTable(columns: string[], values: (number | null)[][]): string {
+  return `
+      <table class="heatmap">
+        <tr><th></th>${columns.map(col => `<th>${escapeHtml(col)}</th>`).join('')}</tr>
+        ${columns.map((row, i) => `
+        <tr><th>${escapeHtml(row)}</th>${values[i].map(value => `<td style="background-color: ${heatmapColor(value)}">${value === null ? '–' : value.toFixed(2)}</td>`).join('')}</tr>`).join('')}
+      </table>`;
+}
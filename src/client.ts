@@ -0,0 +1,282 @@
+// Model client shared by all tools. It wraps the provider so that calls are:
+// - answered from an on-disk cache when the same prompt and settings were seen before
+// - retried with exponential backoff on rate limits, server errors and timeouts,
+//   waiting as long as the provider's Retry-After asks
+// - limited in how many run at once and per minute
+// - abandoned when they take longer than the timeout
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import path from 'path';
+import { defineProvider, providerError } from './llm.js';
+import type { Completion, GenerateOptions, LLMProvider, ProviderError } from './llm.js';
+
+export interface ClientSettings {
+  // Time allowed for one request; 0 waits indefinitely
+  timeoutMs: number;
+  // Retries after the first request
+  maxRetries: number;
+  // First backoff delay, doubled for each further retry
+  retryBaseMs: number;
+  // Longest wait before a retry; a longer Retry-After fails the call instead
+  retryMaxMs: number;
+  // Requests in flight at once
+  maxConcurrent: number;
+  // Requests started per minute; 0 for no limit
+  requestsPerMinute: number;
+  cache: {
+    enabled: boolean;
+    // Cached responses older than this are not used; 0 keeps them
+    ttlHours: number;
+    // Most responses kept, oldest removed first
+    maxEntries: number;
+  };
+}
+
+// Statuses worth another try: timeouts, rate limits and temporary server errors
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function isRetryable(error: unknown): boolean {
+  const { status, retryable, name, message } = error as ProviderError;
+  if (retryable !== undefined) {
+    return retryable;
+  }
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.has(status);
+  }
+  // fetch rejects with a TypeError when the connection fails
+  return name === 'TypeError' && /fetch failed/i.test(message);
+}
+
+export function createLimiter(maxConcurrent: number, requestsPerMinute: number) {
+  const waiting: (() => void)[] = [];
+  const starts: number[] = [];
+  let active = 0;
+  let timer: NodeJS.Timeout | undefined;
+
+  // Start as many waiting requests as the limits allow
+  function pump(): void {
+    while (waiting.length && active < maxConcurrent) {
+      const now = Date.now();
+      while (starts.length && starts[0] <= now - MINUTE_MS) {
+        starts.shift();
+      }
+      if (requestsPerMinute > 0 && starts.length >= requestsPerMinute) {
+        timer ??= setTimeout(() => {
+          timer = undefined;
+          pump();
+        }, starts[0] + MINUTE_MS - now);
+        return;
+      }
+      starts.push(now);
+      active++;
+      waiting.shift()!();
+    }
+  }
+
+  // Wait for a free slot; the returned function gives it back
+  async function acquire(): Promise<() => void> {
+    await new Promise<void>(resolve => {
+      waiting.push(resolve);
+      pump();
+    });
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        active--;
+        pump();
+      }
+    };
+  }
+
+  async function run<T>(task: () => Promise<T>): Promise<T> {
+    const release = await acquire();
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  return {
+    run,
+    acquire,
+    state: () => ({ active, queued: waiting.length, startedLastMinute: starts.filter(start => start > Date.now() - MINUTE_MS).length })
+  };
+}
+
+export type Limiter = ReturnType<typeof createLimiter>;
+
+// Timeout error carrying the abandoned request, which may still be running when the
+// provider can't abort it
+interface TimeoutError extends ProviderError {
+  settled: Promise<void>;
+}
+
+// Give up on a request after timeoutMs; fetch-based providers are aborted as well
+export function withTimeout(provider: LLMProvider, timeoutMs: number): LLMProvider {
+  if (timeoutMs <= 0) {
+    return provider;
+  }
+  return defineProvider(provider.name, provider.model, async (prompt, options) => {
+    const controller = new AbortController();
+    const request = provider.complete(prompt, { ...options, signal: controller.signal });
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        const settled = request.then(() => {}, () => {});
+        reject(Object.assign(providerError(`Model call timed out after ${timeoutMs} ms`, { retryable: true }), { settled }));
+      }, timeoutMs);
+    });
+    try {
+      return await Promise.race([request, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  });
+}
+
+// A timed-out request that is still running keeps its slot until it ends, so retries
+// of slow calls can't exceed maxConcurrent
+export function withRateLimit(provider: LLMProvider, limiter: Limiter): LLMProvider {
+  return defineProvider(provider.name, provider.model, async (prompt, options) => {
+    const release = await limiter.acquire();
+    try {
+      const completion = await provider.complete(prompt, options);
+      release();
+      return completion;
+    } catch (error) {
+      const { settled } = error as Partial<TimeoutError>;
+      if (settled) {
+        void settled.then(release);
+      } else {
+        release();
+      }
+      throw error;
+    }
+  });
+}
+
+// Backoff before retry number `retry` (1-based): the provider's Retry-After when it
+// sent one, otherwise doubling delays with jitter
+export function retryDelay(error: unknown, retry: number, settings: Pick<ClientSettings, 'retryBaseMs' | 'retryMaxMs'>): number {
+  const { retryAfterMs } = error as ProviderError;
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+  const backoff = Math.min(settings.retryMaxMs, settings.retryBaseMs * 2 ** (retry - 1));
+  return Math.round(backoff * (0.5 + Math.random() / 2));
+}
+
+export function withRetry(provider: LLMProvider, settings: Pick<ClientSettings, 'maxRetries' | 'retryBaseMs' | 'retryMaxMs'>): LLMProvider {
+  return defineProvider(provider.name, provider.model, async (prompt, options) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const completion = await provider.complete(prompt, options);
+        return { ...completion, attempts: attempt };
+      } catch (error) {
+        const failure = error as ProviderError & { attempts?: number };
+        failure.attempts = attempt;
+        if (attempt > settings.maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+        const delay = retryDelay(error, attempt, settings);
+        if (delay > settings.retryMaxMs) {
+          failure.message = `${failure.message} (retry requested after ${Math.ceil(delay / 1000)} s, more than the ${Math.ceil(settings.retryMaxMs / 1000)} s allowed)`;
+          throw error;
+        }
+        console.error(`Model call failed (attempt ${attempt}/${settings.maxRetries + 1}): ${failure.message}; retrying in ${delay} ms`);
+        await sleep(delay);
+      }
+    }
+  });
+}
+
+interface CacheEntry {
+  createdAt: string;
+  provider: string;
+  model: string;
+  text: string;
+  usage?: Completion['usage'];
+}
+
+// Cache key: the prompt and every setting that changes the response
+export function cacheKey(provider: LLMProvider, prompt: string, options: GenerateOptions = {}): string {
+  const settings = {
+    provider: provider.name,
+    model: options.model ?? provider.model,
+    temperature: options.temperature,
+    topP: options.topP,
+    topK: options.topK,
+    maxOutputTokens: options.maxOutputTokens
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(settings)).update('\n').update(prompt).digest('hex');
+}
+
+export function withCache(provider: LLMProvider, directory: string, settings: ClientSettings['cache']): LLMProvider {
+  if (!settings.enabled) {
+    return provider;
+  }
+  const ttlMs = settings.ttlHours * HOUR_MS;
+  // Pruning lists and stats the whole directory, so it runs once per tenth of maxEntries
+  // new responses; the cache may briefly hold that many more entries
+  const pruneEvery = Math.max(1, Math.ceil(settings.maxEntries / 10));
+  let writes = 0;
+
+  // Remove the oldest entries beyond maxEntries, and expired ones
+  function prune(): void {
+    const entries = fs.readdirSync(directory)
+      .filter(name => name.endsWith('.json'))
+      .map(name => ({ file: path.join(directory, name), mtime: fs.statSync(path.join(directory, name)).mtimeMs }))
+      .sort((a, b) => b.mtime - a.mtime);
+    entries
+      .filter((entry, index) => index >= settings.maxEntries || (ttlMs > 0 && Date.now() - entry.mtime > ttlMs))
+      .forEach(entry => fs.rmSync(entry.file, { force: true }));
+  }
+
+  return defineProvider(provider.name, provider.model, async (prompt, options = {}) => {
+    const file = path.join(directory, `${cacheKey(provider, prompt, options)}.json`);
+    if (options.cache !== false && fs.existsSync(file) && (ttlMs === 0 || Date.now() - fs.statSync(file).mtimeMs <= ttlMs)) {
+      try {
+        const entry = JSON.parse(fs.readFileSync(file, 'utf-8')) as CacheEntry;
+        return { text: entry.text, usage: entry.usage, cached: true, attempts: 0 };
+      } catch {
+        // A damaged entry is replaced below
+      }
+    }
+
+    const completion = await provider.complete(prompt, options);
+    const entry: CacheEntry = {
+      createdAt: new Date().toISOString(),
+      provider: provider.name,
+      model: options.model ?? provider.model,
+      text: completion.text,
+      usage: completion.usage
+    };
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(entry));
+    if (++writes >= pruneEvery) {
+      writes = 0;
+      prune();
+    }
+    return completion;
+  });
+}
+
+// The provider with every safeguard applied, innermost first: timeout per request,
+// rate limit per request, retries around both, and the cache outside everything
+export function createClient(provider: LLMProvider, settings: ClientSettings, cacheDirectory: string) {
+  const limiter = createLimiter(settings.maxConcurrent, settings.requestsPerMinute);
+  const client = withCache(
+    withRetry(withRateLimit(withTimeout(provider, settings.timeoutMs), limiter), settings),
+    cacheDirectory,
+    settings.cache
+  );
+  return { provider: client, limiter };
+}
@@ -0,0 +1,278 @@
+// Server configuration. Settings come from three layers, later ones winning: the
+// JSON config file named by CONFIG_FILE, if any, environment variables, and the
+// model and temperature a single tool call asks for. The file and environment are
+// merged and validated once at startup.
+import fs from 'node:fs';
+import path from 'path';
+import { z } from 'zod';
+import { expandEnv } from './mail.js';
+import type { GenerateOptions, ProviderConfig } from './llm.js';
+import type { WorkspaceConfig } from './workspace.js';
+
+// Tools that call the model and accept model settings
+export const MODEL_TOOLS = ['generate-thinking', 'send-email', 'draft-email', 'generate-subject', 'analyze-data', 'ask-data', 'email-report', 'mail-merge'] as const;
+export type ModelTool = typeof MODEL_TOOLS[number];
+
+const PROVIDERS = ['gemini', 'openai', 'ollama', 'fixture'] as const;
+
+const temperature = z.number().min(0).max(2);
+const topP = z.number().gt(0).max(1);
+const topK = z.number().int().positive();
+const maxOutputTokens = z.number().int().positive();
+const modelName = z.string().min(1);
+
+// Model and generation parameters one tool uses instead of the defaults
+const ToolSettingsSchema = z.object({
+  model: modelName.optional(),
+  temperature: temperature.optional(),
+  topP: topP.optional(),
+  topK: topK.optional(),
+  maxOutputTokens: maxOutputTokens.optional()
+}).strict();
+
+export const ConfigSchema = z.object({
+  llm: z.object({
+    provider: z.enum(PROVIDERS).optional(),
+    model: modelName.optional(),
+    apiKey: z.string().min(1).optional(),
+    baseUrl: z.string().url().optional(),
+    fixtureFile: z.string().min(1).optional(),
+    recordFile: z.string().min(1).optional()
+  }).strict().default({}),
+  // Timeouts, retries, rate limits and the response cache of model calls
+  client: z.object({
+    timeoutMs: z.number().int().min(0).default(120000),
+    maxRetries: z.number().int().min(0).max(10).default(4),
+    retryBaseMs: z.number().int().positive().default(1000),
+    retryMaxMs: z.number().int().positive().default(60000),
+    maxConcurrent: z.number().int().positive().default(4),
+    requestsPerMinute: z.number().int().min(0).default(60),
+    cache: z.object({
+      enabled: z.boolean().default(true),
+      ttlHours: z.number().min(0).default(168),
+      maxEntries: z.number().int().positive().default(2000)
+    }).strict().default({})
+  }).strict().default({}),
+  generation: z.object({
+    temperature: temperature.default(0.7),
+    topP: topP.default(0.95),
+    topK: topK.default(64),
+    maxOutputTokens: maxOutputTokens.default(8192)
+  }).strict().default({}),
+  tools: z.record(z.string(), ToolSettingsSchema).default({}).superRefine((tools, ctx) => {
+    for (const name of Object.keys(tools)) {
+      if (!MODEL_TOOLS.includes(name as ModelTool)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [name], message: `Unknown tool; expected one of ${MODEL_TOOLS.join(', ')}` });
+      }
+    }
+  }),
+  workspace: z.object({
+    root: z.string().min(1).optional(),
+    outputDir: z.string().min(1).default('output'),
+    inputDirs: z.array(z.string().min(1)).default(['data']),
+    retentionDays: z.number().int().min(0).default(30),
+    maxRuns: z.number().int().min(0).default(200)
+  }).strict().default({}),
+  mail: z.object({
+    profile: z.string().min(1).optional(),
+    profilesFile: z.string().min(1).optional(),
+    // Login for the profile built from the SMTP_* settings
+    user: z.string().min(1).optional(),
+    password: z.string().min(1).optional(),
+    verifyOnStartup: z.boolean().default(true)
+  }).strict().default({}),
+  debug: z.boolean().default(false)
+}).strict();
+
+export type Config = z.infer<typeof ConfigSchema>;
+export type ToolSettings = z.infer<typeof ToolSettingsSchema>;
+
+// Settings a caller may pass with a single tool call
+export const ModelOverridesSchema = z.object({
+  model: modelName.optional().describe('Model to use for this call instead of the configured one'),
+  temperature: temperature.optional().describe('Sampling temperature for this call, 0-2; lower is more predictable'),
+  cache: z.boolean().optional().describe('Set to false to ask the model again instead of reusing a cached response')
+});
+
+export type ModelOverrides = z.infer<typeof ModelOverridesSchema>;
+
+type Layer = Record<string, unknown>;
+
+function isObject(value: unknown): value is Layer {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Merge two layers; defined values of the second win, arrays are replaced whole
+function mergeLayers(base: Layer, override: Layer): Layer {
+  const merged: Layer = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) {
+      continue;
+    }
+    merged[key] = isObject(value) && isObject(merged[key]) ? mergeLayers(merged[key] as Layer, value) : value;
+  }
+  return merged;
+}
+
+// Environment values are strings; numbers and booleans are converted when they parse,
+// otherwise the string is kept so validation names the setting
+function envValue(env: NodeJS.ProcessEnv, name: string, type: 'string' | 'number' | 'boolean' | 'list' = 'string'): unknown {
+  const value = env[name]?.trim();
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  switch (type) {
+    case 'number':
+      return Number.isNaN(Number(value)) ? value : Number(value);
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'list':
+      return value.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+function fromEnv(env: NodeJS.ProcessEnv, file: Layer): Layer {
+  const provider = envValue(env, 'LLM_PROVIDER')?.toString().toLowerCase()
+    ?? (isObject(file.llm) ? file.llm.provider : undefined);
+  return {
+    llm: {
+      provider,
+      model: envValue(env, 'LLM_MODEL'),
+      // Gemini keeps its own key so an OpenAI-compatible key is never sent to Google
+      apiKey: envValue(env, !provider || provider === 'gemini' ? 'GEMINI_API_KEY' : 'LLM_API_KEY'),
+      baseUrl: envValue(env, 'LLM_BASE_URL'),
+      fixtureFile: envValue(env, 'LLM_FIXTURE_FILE'),
+      recordFile: envValue(env, 'LLM_RECORD_FILE')
+    },
+    client: {
+      timeoutMs: envValue(env, 'LLM_TIMEOUT_MS', 'number'),
+      maxRetries: envValue(env, 'LLM_MAX_RETRIES', 'number'),
+      maxConcurrent: envValue(env, 'LLM_MAX_CONCURRENT', 'number'),
+      requestsPerMinute: envValue(env, 'LLM_REQUESTS_PER_MINUTE', 'number'),
+      cache: {
+        enabled: envValue(env, 'LLM_CACHE', 'boolean'),
+        ttlHours: envValue(env, 'LLM_CACHE_TTL_HOURS', 'number'),
+        maxEntries: envValue(env, 'LLM_CACHE_MAX_ENTRIES', 'number')
+      }
+    },
+    generation: {
+      temperature: envValue(env, 'LLM_TEMPERATURE', 'number'),
+      topP: envValue(env, 'LLM_TOP_P', 'number'),
+      topK: envValue(env, 'LLM_TOP_K', 'number'),
+      maxOutputTokens: envValue(env, 'LLM_MAX_OUTPUT_TOKENS', 'number')
+    },
+    workspace: {
+      root: envValue(env, 'WORKSPACE_ROOT'),
+      outputDir: envValue(env, 'WORKSPACE_OUTPUT_DIR'),
+      inputDirs: envValue(env, 'WORKSPACE_INPUT_DIRS', 'list'),
+      retentionDays: envValue(env, 'WORKSPACE_RETENTION_DAYS', 'number'),
+      maxRuns: envValue(env, 'WORKSPACE_MAX_RUNS', 'number')
+    },
+    mail: {
+      profile: envValue(env, 'MAIL_PROFILE'),
+      profilesFile: envValue(env, 'MAIL_PROFILES_FILE'),
+      user: envValue(env, 'NODEMAILER_EMAIL'),
+      password: envValue(env, 'NODEMAILER_PASSWORD'),
+      verifyOnStartup: envValue(env, 'MAIL_VERIFY_ON_STARTUP', 'boolean')
+    },
+    debug: envValue(env, 'DEBUG', 'boolean')
+  };
+}
+
+// A ${VAR} reference to an unset variable leaves the setting unset
+function withoutEmpty(data: Layer): Layer {
+  return Object.fromEntries(Object.entries(data)
+    .filter(([, value]) => value !== '')
+    .map(([key, value]) => [key, isObject(value) ? withoutEmpty(value) : value]));
+}
+
+// Flat keys of older config files
+function fromLegacyKeys(data: Layer): Layer {
+  const { geminiApiKey, nodemailerEmail, nodemailerPassword, ...rest } = data;
+  return mergeLayers({ llm: { apiKey: geminiApiKey }, mail: { user: nodemailerEmail, password: nodemailerPassword } }, rest);
+}
+
+function readConfigFile(file: string, env: NodeJS.ProcessEnv): Layer {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Config file not found: ${file}`);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Config file ${file} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!isObject(data)) {
+    throw new Error(`Config file ${file} must hold a JSON object`);
+  }
+  // Values may reference environment variables, e.g. "apiKey": "${GEMINI_API_KEY}"
+  return fromLegacyKeys(withoutEmpty(expandEnv(data, env)));
+}
+
+// Only a file named explicitly is read, so a stray config.json in the working
+// directory never supplies keys or passwords
+export function configFile(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  return env.CONFIG_FILE ? path.resolve(env.CONFIG_FILE) : undefined;
+}
+
+// Defaults, then the config file, then the environment, validated together
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  const file = configFile(env);
+  const fileLayer = file ? readConfigFile(file, env) : {};
+  const parsed = ConfigSchema.safeParse(mergeLayers(fileLayer, fromEnv(env, fileLayer)));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`);
+    throw new Error(`Invalid configuration${file ? ` (${file} and environment)` : ' (environment)'}: ${issues.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+// Without a provider we use Gemini when a key is present and the offline fixture
+// provider otherwise
+export function providerConfig(config: Config): ProviderConfig {
+  const { provider, ...settings } = config.llm;
+  return { provider: provider ?? (settings.apiKey ? 'gemini' : 'fixture'), ...settings };
+}
+
+export function workspaceConfig(config: Config): WorkspaceConfig {
+  const { root, ...settings } = config.workspace;
+  return { root: path.resolve(root ?? process.cwd()), ...settings };
+}
+
+// Environment for mailConfigFromEnv, with the configured profile and login filled in
+// and the pickup folder placed inside the output folder
+export function mailEnvironment(config: Config, outputRoot: string, env: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+  const { profile, profilesFile, user, password } = config.mail;
+  return {
+    ...env,
+    ...(profile ? { MAIL_PROFILE: profile } : {}),
+    ...(profilesFile ? { MAIL_PROFILES_FILE: profilesFile } : {}),
+    ...(user ? { NODEMAILER_EMAIL: user } : {}),
+    ...(password ? { NODEMAILER_PASSWORD: password } : {}),
+    MAIL_PICKUP_DIR: env.MAIL_PICKUP_DIR || path.join(outputRoot, 'emails', 'pickup')
+  };
+}
+
+// Options for one call of a tool: generation defaults, the configured model, the
+// tool's own settings, then what the caller asked for
+export function generationOptions(config: Config, tool: ModelTool, overrides: ModelOverrides = {}): GenerateOptions {
+  const options: GenerateOptions = { ...config.generation, model: config.llm.model, ...config.tools[tool] };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      options[key as keyof ModelOverrides] = value as never;
+    }
+  }
+  return options;
+}
+
+// Configuration safe to log: keys and passwords are masked
+export function redactConfig(config: Config): Config {
+  const mask = (value?: string) => value === undefined ? undefined : '***';
+  return {
+    ...config,
+    llm: { ...config.llm, apiKey: mask(config.llm.apiKey) },
+    mail: { ...config.mail, password: mask(config.mail.password) }
+  };
+}
@@ -0,0 +1,176 @@
+import type { CorrelationMatrix, CorrelationStats, DataRow, Relationship } from './types.js';
+import { isMissing, toNumber } from './schema.js';
+
+// Pairs need at least this many complete rows to get a coefficient
+const MIN_PAIRED_ROWS = 3;
+
+// Number of relationships kept in the ranked list
+const TOP_RELATIONSHIPS = 10;
+
+// Rows where both columns hold a number
+export function pairedValues(data: DataRow[], a: string, b: string): [number[], number[]] {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const row of data) {
+    const x = toNumber(row[a]);
+    const y = toNumber(row[b]);
+    if (x !== null && y !== null) {
+      xs.push(x);
+      ys.push(y);
+    }
+  }
+  return [xs, ys];
+}
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < MIN_PAIRED_ROWS) {
+    return null;
+  }
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    cov += dx * dy;
+    varX += dx * dx;
+    varY += dy * dy;
+  }
+  if (varX === 0 || varY === 0) {
+    return null;
+  }
+  return cov / Math.sqrt(varX * varY);
+}
+
+// Fractional ranks, with ties sharing the average of their positions
+function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) {
+      j++;
+    }
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      ranks[order[k].index] = averageRank;
+    }
+    i = j + 1;
+  }
+  return ranks;
+}
+
+export function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(rank(xs), rank(ys));
+}
+
+// Cramér's V between two categorical columns, over rows where both are present
+export function cramersV(data: DataRow[], a: string, b: string): { value: number | null; n: number } {
+  const table = new Map<string, Map<string, number>>();
+  const rowTotals = new Map<string, number>();
+  const colTotals = new Map<string, number>();
+  let n = 0;
+
+  for (const row of data) {
+    if (isMissing(row[a]) || isMissing(row[b])) {
+      continue;
+    }
+    const x = String(row[a]).trim();
+    const y = String(row[b]).trim();
+    if (!table.has(x)) {
+      table.set(x, new Map());
+    }
+    const cells = table.get(x)!;
+    cells.set(y, (cells.get(y) ?? 0) + 1);
+    rowTotals.set(x, (rowTotals.get(x) ?? 0) + 1);
+    colTotals.set(y, (colTotals.get(y) ?? 0) + 1);
+    n++;
+  }
+
+  const k = Math.min(rowTotals.size, colTotals.size);
+  if (n < MIN_PAIRED_ROWS || k < 2) {
+    return { value: null, n };
+  }
+
+  let chiSquared = 0;
+  for (const [x, rowTotal] of rowTotals) {
+    const cells = table.get(x)!;
+    for (const [y, colTotal] of colTotals) {
+      const expected = rowTotal * colTotal / n;
+      const observed = cells.get(y) ?? 0;
+      chiSquared += Math.pow(observed - expected, 2) / expected;
+    }
+  }
+
+  return { value: Math.sqrt(chiSquared / (n * (k - 1))), n };
+}
+
+function emptyMatrix(columns: string[]): CorrelationMatrix {
+  return {
+    columns,
+    values: columns.map((_, i) => columns.map((_, j) => i === j ? 1 : null))
+  };
+}
+
+function round(value: number | null): number | null {
+  return value === null ? null : Number(value.toFixed(4));
+}
+
+// Pearson/Spearman for numeric columns, Cramér's V for categorical ones, and the
+// strongest pairs across all three ranked by absolute strength
+export function computeCorrelations(data: DataRow[], numericColumns: string[], categoricalColumns: string[]): CorrelationStats {
+  const pearsonMatrix = emptyMatrix(numericColumns);
+  const spearmanMatrix = emptyMatrix(numericColumns);
+  const cramersVMatrix = emptyMatrix(categoricalColumns);
+  const relationships: Relationship[] = [];
+
+  for (let i = 0; i < numericColumns.length; i++) {
+    for (let j = i + 1; j < numericColumns.length; j++) {
+      const [xs, ys] = pairedValues(data, numericColumns[i], numericColumns[j]);
+      const r = round(pearson(xs, ys));
+      const rho = round(spearman(xs, ys));
+      pearsonMatrix.values[i][j] = pearsonMatrix.values[j][i] = r;
+      spearmanMatrix.values[i][j] = spearmanMatrix.values[j][i] = rho;
+      if (r !== null) {
+        relationships.push({ columns: [numericColumns[i], numericColumns[j]], method: 'pearson', value: r, n: xs.length });
+      }
+      if (rho !== null) {
+        relationships.push({ columns: [numericColumns[i], numericColumns[j]], method: 'spearman', value: rho, n: xs.length });
+      }
+    }
+  }
+
+  for (let i = 0; i < categoricalColumns.length; i++) {
+    for (let j = i + 1; j < categoricalColumns.length; j++) {
+      const { value, n } = cramersV(data, categoricalColumns[i], categoricalColumns[j]);
+      const v = round(value);
+      cramersVMatrix.values[i][j] = cramersVMatrix.values[j][i] = v;
+      if (v !== null) {
+        relationships.push({ columns: [categoricalColumns[i], categoricalColumns[j]], method: 'cramersV', value: v, n });
+      }
+    }
+  }
+
+  relationships.sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+
+  return {
+    pearson: pearsonMatrix,
+    spearman: spearmanMatrix,
+    cramersV: cramersVMatrix,
+    topRelationships: relationships.slice(0, TOP_RELATIONSHIPS)
+  };
+}
+
+export function describeRelationships(relationships: Relationship[]): string {
+  if (relationships.length === 0) {
+    return '- No relationships could be computed';
+  }
+  const names = { pearson: 'Pearson r', spearman: 'Spearman rho', cramersV: "Cramér's V" };
+  return relationships
+    .map(rel => `- ${rel.columns[0]} ~ ${rel.columns[1]}: ${names[rel.method]} = ${rel.value} (n=${rel.n})`)
+    .join('\n');
+}
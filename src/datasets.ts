@@ -0,0 +1,218 @@
+// Registry of datasets that are loaded once and then queried, sliced and analyzed by
+// id. Each dataset is saved in the datasets folder as <id>.csv with its metadata in
+// <id>.json, so ids stay valid across restarts and analyze-data can read the CSV
+// directly. Recently used datasets are also kept in memory.
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import path from 'path';
+import Papa from 'papaparse';
+import { z } from 'zod';
+import { escapeHtml } from './html.js';
+import { inferSchema, isMissing } from './schema.js';
+import { sanitizeFileName } from './workspace.js';
+import type { Table } from './query.js';
+import type { CellValue, ColumnType, DataRow } from './types.js';
+
+export interface DatasetColumn {
+  name: string;
+  type: ColumnType;
+  missing: number;
+  unique: number;
+}
+
+export interface DatasetInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  rows: number;
+  columns: DatasetColumn[];
+  // CSV file holding the rows
+  file: string;
+  // Where the rows came from: a loaded file, or a query over other datasets
+  source: {
+    file?: string;
+    sheet?: string;
+    datasetId?: string;
+    steps?: string[];
+  };
+}
+
+// Metadata files are checked when read, so a damaged one can't pass for a dataset
+const DatasetInfoSchema: z.ZodType<DatasetInfo, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  rows: z.number(),
+  columns: z.array(z.object({
+    name: z.string(),
+    type: z.enum(['numeric', 'integer', 'boolean', 'date', 'datetime', 'categorical', 'text', 'identifier', 'empty']),
+    missing: z.number(),
+    unique: z.number()
+  })),
+  file: z.string(),
+  source: z.object({
+    file: z.string().optional(),
+    sheet: z.string().optional(),
+    datasetId: z.string().optional(),
+    steps: z.array(z.string()).optional()
+  })
+});
+
+const DATASET_ID = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// Cells kept in memory across all cached datasets before the least recently used go
+const MAX_CACHED_CELLS = 5000000;
+
+// Longest name part of a dataset id
+const MAX_ID_NAME_LENGTH = 40;
+
+// Dates are written as plain dates when they fall on midnight UTC
+function csvCell(value: CellValue | undefined): string | number | boolean {
+  if (isMissing(value)) {
+    return '';
+  }
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  return value as string | number | boolean;
+}
+
+// Rows as they read back from the CSV file: every cell a string, missing ones empty
+function csvRows(data: Table): DataRow[] {
+  return data.rows.map(row => Object.fromEntries(data.columns.map(column => [column, String(csvCell(row[column]))])));
+}
+
+export function createDatasetRegistry(directory: string) {
+  const cache = new Map<string, Table>();
+
+  const metaFile = (id: string) => path.join(directory, `${id}.json`);
+
+  function remember(id: string, table: Table): void {
+    cache.delete(id);
+    cache.set(id, table);
+    let cells = [...cache.values()].reduce((sum, cached) => sum + cached.rows.length * cached.columns.length, 0);
+    // Evict the least recently used, but always keep the newest
+    for (const [cachedId, cached] of cache) {
+      if (cells <= MAX_CACHED_CELLS || cachedId === id) {
+        break;
+      }
+      cache.delete(cachedId);
+      cells -= cached.rows.length * cached.columns.length;
+    }
+  }
+
+  function read(name: string): DatasetInfo | undefined {
+    try {
+      return DatasetInfoSchema.parse(JSON.parse(fs.readFileSync(path.join(directory, name), 'utf-8')));
+    } catch (error) {
+      console.error(`Skipping unreadable dataset file ${name}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  function get(id: string): DatasetInfo {
+    const info = DATASET_ID.test(id) && fs.existsSync(metaFile(id)) ? read(`${id}.json`) : undefined;
+    if (!info) {
+      throw new Error(`Unknown dataset: ${id}. Load a file with load-dataset first`);
+    }
+    return info;
+  }
+
+  function table(id: string): Table {
+    const cached = cache.get(id);
+    if (cached) {
+      remember(id, cached);
+      return cached;
+    }
+    const info = get(id);
+    const parsed = Papa.parse<DataRow>(fs.readFileSync(info.file, 'utf-8'), { header: true, skipEmptyLines: true });
+    const loaded = { columns: info.columns.map(column => column.name), rows: parsed.data };
+    remember(id, loaded);
+    return loaded;
+  }
+
+  // Save rows as a new dataset and return its metadata
+  function register(name: string, data: Table, source: DatasetInfo['source']): DatasetInfo {
+    const slug = sanitizeFileName(name.replace(/\.[^.]+$/, ''), 'dataset').toLowerCase().replace(/\./g, '_').slice(0, MAX_ID_NAME_LENGTH);
+    const id = `${slug}-${crypto.randomBytes(3).toString('hex')}`;
+    const schema = inferSchema(data.rows, data.columns);
+    const info: DatasetInfo = {
+      id,
+      name,
+      createdAt: new Date().toISOString(),
+      rows: data.rows.length,
+      columns: data.columns.map(column => ({
+        name: column,
+        type: schema[column].type,
+        missing: schema[column].missingCount,
+        unique: schema[column].uniqueCount
+      })),
+      file: path.join(directory, `${id}.csv`),
+      source
+    };
+    // The cached copy holds the rows as the CSV file gives them back, so a query has
+    // the same answer whether the dataset comes from memory or from disk
+    const saved = { columns: data.columns, rows: csvRows(data) };
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(info.file, Papa.unparse({
+      fields: saved.columns,
+      data: saved.rows.map(row => saved.columns.map(column => row[column]))
+    }));
+    fs.writeFileSync(metaFile(id), JSON.stringify(info, null, 2));
+    remember(id, saved);
+    return info;
+  }
+
+  // Registered datasets, newest first
+  function list(): DatasetInfo[] {
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+    return fs.readdirSync(directory)
+      .filter(name => name.endsWith('.json'))
+      .map(read)
+      .filter((info): info is DatasetInfo => info !== undefined)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  return { get, table, register, list };
+}
+
+export type DatasetRegistry = ReturnType<typeof createDatasetRegistry>;
+
+const CELL_STYLE = 'border: 1px solid #ddd; padding: 6px; text-align: left;';
+
+function displayValue(value: CellValue | undefined): string {
+  const cell = csvCell(value);
+  return typeof cell === 'number' && !Number.isInteger(cell) ? String(Number(cell.toPrecision(6))) : String(cell);
+}
+
+// First rows of a table as HTML
+export function renderRowsTable(data: Table, limit: number): string {
+  if (!data.rows.length || limit === 0) {
+    return '<p>No rows.</p>';
+  }
+  const shown = data.rows.slice(0, limit);
+  return `<table style="border-collapse: collapse; width: 100%; font-size: 13px;">
+      <tr>${data.columns.map(column => `<th style="${CELL_STYLE}">${escapeHtml(column)}</th>`).join('')}</tr>
+      ${shown.map(row => `<tr>${data.columns.map(column => `<td style="${CELL_STYLE}">${escapeHtml(displayValue(row[column]))}</td>`).join('')}</tr>`).join('\n      ')}
+    </table>${data.rows.length > shown.length ? `
+    <p><em>Showing ${shown.length} of ${data.rows.length} rows.</em></p>` : ''}`;
+}
+
+// Column names, types and missing/unique counts of a dataset
+export function renderColumnsTable(info: DatasetInfo): string {
+  return `<table style="border-collapse: collapse; width: 100%; font-size: 13px;">
+      <tr>${['Column', 'Type', 'Missing', 'Unique'].map(header => `<th style="${CELL_STYLE}">${header}</th>`).join('')}</tr>
+      ${info.columns.map(column => `<tr>${[escapeHtml(column.name), column.type, String(column.missing), String(column.unique)].map(cell => `<td style="${CELL_STYLE}">${cell}</td>`).join('')}</tr>`).join('\n      ')}
+    </table>`;
+}
+
+// Rows for a JSON response, with dates written like in the CSV file
+export function previewRows(data: Table, limit: number): Record<string, string | number | boolean | null>[] {
+  return data.rows.slice(0, limit).map(row => Object.fromEntries(data.columns.map(column => {
+    const cell = csvCell(row[column]);
+    return [column, cell === '' ? null : cell];
+  })));
+}
@@ -0,0 +1,168 @@
+// HTML bodies for outgoing email. Attached images are referenced by Content-ID, so
+// they display inline instead of arriving as loose attachments.
+import { escapeHtml } from './html.js';
+
+export interface InlineImage {
+  // File name the caller used, matched by {{image:name}} placeholders
+  name: string;
+  cid: string;
+  caption?: string;
+}
+
+// {{image:name}}, where name is the image file name with or without its extension
+const IMAGE_PLACEHOLDER = /\{\{\s*image:\s*([^}]+?)\s*\}\}/g;
+
+// Line of plain text holding nothing but a placeholder
+const IMAGE_PLACEHOLDER_LINE = /^\{\{\s*image:\s*[^}]+?\s*\}\}$/;
+
+// Placeholder used as an attribute value, e.g. <img src="{{image:chart.png}}">
+const IMAGE_PLACEHOLDER_IN_SRC = /(\bsrc\s*=\s*["']?)\{\{\s*image:\s*([^}]+?)\s*\}\}/gi;
+
+function findImage(images: InlineImage[], name: string): InlineImage {
+  const image = images.find(candidate => candidate.name === name)
+    ?? images.find(candidate => candidate.name.replace(/\.[^.]+$/, '') === name);
+  if (!image) {
+    throw new Error(`Unknown image placeholder {{image:${name}}}. Attached images: ${images.map(candidate => candidate.name).join(', ') || 'none'}`);
+  }
+  return image;
+}
+
+// Check placeholders before any work is spent on the message
+export function validateImagePlaceholders(content: string, images: InlineImage[]): void {
+  for (const [, name] of content.matchAll(IMAGE_PLACEHOLDER)) {
+    findImage(images, name);
+  }
+}
+
+// Image block with inline styles, since many mail clients drop <style> rules
+export function renderImageFigure(image: InlineImage): string {
+  const alt = escapeHtml(image.caption ?? image.name);
+  return `<figure style="margin: 20px 0; text-align: center;">
+      <img src="cid:${image.cid}" alt="${alt}" style="max-width: 100%; height: auto; border: 1px solid #ddd; border-radius: 4px;">${image.caption ? `
+      <figcaption style="font-size: 13px; color: #666; margin-top: 6px;">${escapeHtml(image.caption)}</figcaption>` : ''}
+    </figure>`;
+}
+
+// Images shown together, for the ones the body doesn't place itself
+export function renderImageGallery(images: InlineImage[]): string {
+  if (images.length === 0) {
+    return '';
+  }
+  return `<div class="gallery" style="margin-top: 25px; padding-top: 15px; border-top: 1px solid #eee;">
+    ${images.map(renderImageFigure).join('\n    ')}
+  </div>`;
+}
+
+// Replace {{image:name}} placeholders: inside src attributes with the cid: URL,
+// elsewhere with a captioned figure. Returns the images that were placed.
+export function resolveImagePlaceholders(html: string, images: InlineImage[]): { html: string; placed: InlineImage[] } {
+  const placed = new Set<InlineImage>();
+  const resolved = html
+    .replace(IMAGE_PLACEHOLDER_IN_SRC, (_, prefix: string, name: string) => {
+      const image = findImage(images, name);
+      placed.add(image);
+      return `${prefix}cid:${image.cid}`;
+    })
+    .replace(IMAGE_PLACEHOLDER, (_, name: string) => {
+      const image = findImage(images, name);
+      placed.add(image);
+      return renderImageFigure(image);
+    });
+  // Bodies may also reference the Content-IDs directly
+  for (const image of images) {
+    if (resolved.includes(`cid:${image.cid}`)) {
+      placed.add(image);
+    }
+  }
+  return { html: resolved, placed: [...placed] };
+}
+
+// Plain-text part: placeholders become a short marker naming the image
+export function resolveTextPlaceholders(text: string, images: InlineImage[]): string {
+  return text.replace(IMAGE_PLACEHOLDER, (_, name: string) => {
+    const image = findImage(images, name);
+    return `[Image: ${image.caption ?? image.name}]`;
+  });
+}
+
+// Caller-supplied HTML with placeholders resolved and any unplaced images added as a
+// gallery at the end of the body
+export function renderHtmlEmail(html: string, images: InlineImage[]): string {
+  const { html: resolved, placed } = resolveImagePlaceholders(html, images);
+  const gallery = renderImageGallery(images.filter(image => !placed.includes(image)));
+  if (!gallery) {
+    return resolved;
+  }
+  return /<\/body>/i.test(resolved)
+    ? resolved.replace(/<\/body>/i, `${gallery}\n</body>`)
+    : `${resolved}\n${gallery}`;
+}
+
+// Escape plain text, leaving {{image:name}} placeholders for resolveImagePlaceholders
+function escapeText(text: string): string {
+  return text.split(/(\{\{\s*image:[^}]+?\}\})/).map((part, index) => index % 2 ? part : escapeHtml(part)).join('');
+}
+
+// Styled HTML version of a plain-text email. A line holding only a placeholder
+// becomes a figure; images that aren't placed go into a gallery below the text.
+export function renderTextEmail(subject: string, text: string, images: InlineImage[]): string {
+  const { html: content, placed } = resolveImagePlaceholders(
+    text.split('\n').map(line => IMAGE_PLACEHOLDER_LINE.test(line.trim()) ? line.trim() : `<p>${escapeText(line)}</p>`).join(''),
+    images
+  );
+  const gallery = renderImageGallery(images.filter(image => !placed.includes(image)));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(subject)}</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      max-width: 650px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    .header {
+      border-bottom: 2px solid #4169E1;
+      padding-bottom: 10px;
+      margin-bottom: 20px;
+    }
+    .header h1 {
+      color: #4169E1;
+      font-size: 24px;
+      margin: 0;
+    }
+    .content {
+      padding: 15px 0;
+    }
+    .footer {
+      margin-top: 30px;
+      padding-top: 10px;
+      border-top: 1px solid #eee;
+      font-size: 12px;
+      color: #777;
+    }
+    p {
+      margin: 0 0 15px;
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>${escapeHtml(subject)}</h1>
+  </div>
+  <div class="content">
+    ${content}
+  </div>
+  ${gallery}
+  <div class="footer">
+    <p>This email was sent using Gemini Email Subject Generator</p>
+  </div>
+</body>
+</html>`;
+}
@@ -0,0 +1,127 @@
+// Exponential smoothing forecasts: additive Holt-Winters for seasonal series and
+// Holt's linear trend method otherwise. Smoothing parameters are chosen by a grid
+// search over the one-step-ahead errors of the history, and prediction intervals
+// widen with the horizon using the variance formula for additive Holt-Winters.
+
+export const FORECAST_CONFIDENCE_LEVELS = [0.8, 0.9, 0.95, 0.99] as const;
+export type ForecastConfidence = typeof FORECAST_CONFIDENCE_LEVELS[number];
+
+// Two-sided standard normal quantiles for the confidence levels
+const Z_SCORES: Record<ForecastConfidence, number> = { 0.8: 1.2816, 0.9: 1.6449, 0.95: 1.96, 0.99: 2.5758 };
+
+// Candidate values for alpha, beta and gamma
+const SMOOTHING_GRID = [0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+// Fewest points Holt's method is fitted to
+export const MIN_FORECAST_POINTS = 4;
+
+export interface SmoothingForecast {
+  method: 'holt-winters' | 'holt';
+  alpha: number;
+  beta: number;
+  gamma: number | null;
+  rmse: number;
+  mae: number;
+  // One entry per step ahead
+  values: { value: number; low: number; high: number }[];
+}
+
+interface SmoothingState {
+  level: number;
+  trend: number;
+  seasonal: number[];
+  sse: number;
+  sae: number;
+  errors: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Run the smoothing equations over the history. Seasonal fits start from the first
+// cycle's mean and the change between the first two cycles; non-seasonal fits start
+// from the first two values, so their first error is not counted.
+function smooth(values: number[], seasonLength: number, alpha: number, beta: number, gamma: number): SmoothingState {
+  let level: number;
+  let trend: number;
+  let seasonal: number[] = [];
+  let start: number;
+  if (seasonLength > 0) {
+    level = mean(values.slice(0, seasonLength));
+    trend = (mean(values.slice(seasonLength, 2 * seasonLength)) - level) / seasonLength;
+    seasonal = values.slice(0, seasonLength).map(value => value - level);
+    start = seasonLength;
+  } else {
+    level = values[0];
+    trend = values[1] - values[0];
+    start = 1;
+  }
+
+  let sse = 0;
+  let sae = 0;
+  let errors = 0;
+  for (let t = start; t < values.length; t++) {
+    const season = seasonLength > 0 ? seasonal[t % seasonLength] : 0;
+    const error = values[t] - (level + trend + season);
+    if (seasonLength > 0 || t > 1) {
+      sse += error * error;
+      sae += Math.abs(error);
+      errors++;
+    }
+    const previousLevel = level;
+    level = alpha * (values[t] - season) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    if (seasonLength > 0) {
+      seasonal[t % seasonLength] = gamma * (values[t] - level) + (1 - gamma) * season;
+    }
+  }
+  return { level, trend, seasonal, sse, sae, errors };
+}
+
+// Forecast `horizon` periods past the end of the series. Seasonal smoothing needs two
+// full cycles; shorter series (or seasonLength 0) use Holt's method. Null when the
+// series is too short for either.
+export function forecastSeries(values: number[], seasonLength: number, horizon: number, confidence: ForecastConfidence): SmoothingForecast | null {
+  const seasonal = seasonLength >= 2 && values.length >= 2 * seasonLength;
+  if (!seasonal && values.length < MIN_FORECAST_POINTS) {
+    return null;
+  }
+  const m = seasonal ? seasonLength : 0;
+
+  let best: { alpha: number; beta: number; gamma: number; state: SmoothingState } | null = null;
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      for (const gamma of seasonal ? SMOOTHING_GRID : [0]) {
+        const state = smooth(values, m, alpha, beta, gamma);
+        if (!best || state.sse < best.state.sse) {
+          best = { alpha, beta, gamma, state };
+        }
+      }
+    }
+  }
+  const { alpha, beta, gamma, state } = best!;
+  const sigma = state.errors ? Math.sqrt(state.sse / state.errors) : 0;
+  const z = Z_SCORES[confidence];
+
+  const forecast: SmoothingForecast['values'] = [];
+  let variance = 1;
+  for (let h = 1; h <= horizon; h++) {
+    if (h > 1) {
+      const j = h - 1;
+      const c = alpha * (1 + j * beta) + (m && j % m === 0 ? gamma : 0);
+      variance += c * c;
+    }
+    const value = state.level + h * state.trend + (m ? state.seasonal[(values.length - 1 + h) % m] : 0);
+    const margin = z * sigma * Math.sqrt(variance);
+    forecast.push({ value, low: value - margin, high: value + margin });
+  }
+
+  return {
+    method: seasonal ? 'holt-winters' : 'holt',
+    alpha,
+    beta,
+    gamma: seasonal ? gamma : null,
+    rmse: sigma,
+    mae: state.errors ? state.sae / state.errors : 0,
+    values: forecast
+  };
+}
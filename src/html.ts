@@ -0,0 +1,30 @@
+// Escaping shared by all HTML and SVG output. Column names, cell values, caller
+// input and model text all pass through here before they are put into markup.
+
+const ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+// Text for element content or a quoted attribute value
+export function escapeHtml(value: string | number | boolean | null | undefined): string {
+  return String(value ?? '').replace(/[&<>"']/g, char => ENTITIES[char]);
+}
+
+// URL schemes generated links and images may use; anything else (javascript:,
+// data:, vbscript:, ...) is dropped
+const SAFE_SCHEMES = new Set(['http', 'https', 'mailto', 'cid']);
+
+// The URL if it is safe to put in href or src, otherwise null. Relative URLs are allowed.
+export function safeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  // Browsers ignore control characters and whitespace inside the scheme
+  const scheme = trimmed.replace(/[\u0000-\u0020\u007f]+/g, '').match(/^([a-z][a-z0-9+.-]*):/i);
+  if (scheme && !SAFE_SCHEMES.has(scheme[1].toLowerCase())) {
+    return null;
+  }
+  return trimmed;
+}
@@ -3,55 +3,103 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import dotenv from 'dotenv';
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from 'zod';
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import fs from "node:fs";
 import path from "path";
 import nodemailer from 'nodemailer';
-import type { SentMessageInfo } from 'nodemailer';
-import * as XLSX from 'xlsx';
-import Papa from 'papaparse';
-import { Chart } from 'chart.js/auto';
-import type { DataRow, Statistics } from './types.js';
+import { createProvider, withOptions } from './llm.js';
+import type { LLMProvider } from './llm.js';
+import { generationOptions, loadConfig, mailEnvironment, MODEL_TOOLS, ModelOverridesSchema, providerConfig, redactConfig, workspaceConfig } from './config.js';
+import type { ModelOverrides, ModelTool } from './config.js';
+import { loadSheets } from './loader.js';
+import { collectColumns } from './schema.js';
+import type { LoadedSheet } from './loader.js';
+import {
+  describeProfile,
+  profileCsvFile,
+  profileData,
+  renderPlotsSection,
+  renderProfileSection,
+  REPORT_STYLES,
+  STREAMING_THRESHOLD_BYTES,
+  writeCharts
+} from './analysis.js';
+import type { DatasetProfile } from './analysis.js';
+import { svgToPng, uniqueChartIds } from './charts.js';
+import { buildCharts } from './plots.js';
+import { analyzeSheetTimeSeries, buildTimeSeriesCharts, describeTimeSeries, renderSkippedTimeSeries, renderTimeSeriesSection } from './timeseries.js';
+import { describeJoinKeys, detectJoinKeys } from './joins.js';
+import { assessQuality, describeQuality, renderQualitySection } from './quality.js';
+import { buildInsightsPrompt, generateInsights, renderInsightsSection } from './insights.js';
+import { renderHtmlEmail, renderTextEmail, resolveTextPlaceholders, validateImagePlaceholders } from './email.js';
+import { escapeHtml } from './html.js';
+import { renderMarkdown } from './markdown.js';
+import { createMailer, loadAttachments, mailConfigFromEnv, parseAddresses, validateHeaders } from './mail.js';
+import { emailSafeReport, fallbackEmailSummary, generateEmailSummary, loadRun, renderReportEmail, renderReportText } from './reports.js';
+import { countByStatus, createMergeJob, loadMergeJob, loadMergeRows, renderMergeMessage, saveMergeJob, sendMerge } from './merge.js';
+import type { MergeJob, RenderedMessage } from './merge.js';
+import { createOutbox, MAX_SEND_ATTEMPTS, PENDING_STATUSES } from './outbox.js';
+import type { DraftSummary, OutboxItem } from './outbox.js';
+import { generateSubjects, lockSubject, SUBJECT_TONES, SubjectOptionsSchema } from './subjects.js';
+import { createWorkspace, sanitizeFileName } from './workspace.js';
+import { createRunCatalog, runFolder, runUri } from './resources.js';
+import { createClient } from './client.js';
+import { createDatasetRegistry, previewRows, renderColumnsTable, renderRowsTable } from './datasets.js';
+import type { DatasetInfo } from './datasets.js';
+import { describeStep, QueryPlanSchema, runQuery } from './query.js';
+import type { Table } from './query.js';
+import { planQuestion, renderAnswerChart, summarizeAnswer } from './questions.js';
+import { createUsageLog, withUsage } from './usage.js';
+import type { UsageTotals } from './usage.js';
+import type { RunManifest } from './types.js';
 
 // Load environment variables
 dotenv.config();
 
-// Gemini API setup
-const apiKey = process.env.GEMINI_API_KEY;
-if (!apiKey) {
-  throw new Error('GEMINI_API_KEY environment variable is not set');
+// Settings from the config file and environment, validated before anything starts
+const config = loadConfig();
+if (config.debug) {
+  console.error('Configuration:', JSON.stringify(redactConfig(config)));
 }
 
-// Initialize the Google Generative AI client with the beta endpoint
-// @ts-ignore - Ignore TypeScript errors for the custom initialization
-const genAI = new GoogleGenerativeAI(apiKey, {
-  apiEndpoint: 'https://generativelanguage.googleapis.com/v1beta'
-});
+// Workspace sandbox: results go to its output folder, local files are read from allowlisted folders
+const workspace = createWorkspace(workspaceConfig(config));
 
-// Use the Gemini Flash 2 model
-// @ts-ignore - Ignore TypeScript errors for the beta model
-const model = genAI.getGenerativeModel({
-  model: "gemini-2.0-flash"
-});
+// LLM provider setup (Gemini, OpenAI-compatible, Ollama or offline fixtures), with
+// retries, rate limiting, timeouts and a response cache around it
+const llm = createClient(createProvider(providerConfig(config)), config.client, workspace.output('.cache', 'llm'));
+const model = llm.provider;
+console.error(`Using LLM provider "${model.name}" with model "${model.model}"`);
 
-// Configuration with appropriate settings for the model
-// @ts-ignore - Ignore TypeScript errors for beta features
-const generationConfig = {
-  temperature: 0.7,
-  topP: 0.95,
-  topK: 64,
-  maxOutputTokens: 65536
-};
+// Tokens, latency, retries and cache hits of every model call, reported by usage-stats
+const usage = createUsageLog(workspace.output('usage', 'llm-calls.jsonl'));
+
+// Email accounts (SMTP, sendmail or a pickup directory), one transport per profile
+const mailer = createMailer(mailConfigFromEnv(mailEnvironment(config, workspace.outputRoot)));
+
+// Saved runs exposed as MCP resources
+const runs = createRunCatalog(workspace.outputRoot);
+
+// Datasets loaded once and then queried or analyzed by id
+const datasets = createDatasetRegistry(workspace.output('datasets'));
+
+// Composed messages waiting to be sent, scheduled or retried
+const outbox = createOutbox(workspace.output('emails', 'outbox'), mailer);
 
-// Ensure output directory exists
-const outputDir = path.join(process.cwd(), 'output');
-if (!fs.existsSync(outputDir)) {
-  fs.mkdirSync(outputDir, { recursive: true });
+// Provider for one tool call, with the tool's configured settings and the caller's
+// overrides; its calls are counted under the tool's name
+function modelFor(tool: ModelTool, overrides: ModelOverrides): LLMProvider {
+  return withUsage(withOptions(model, generationOptions(config, tool, overrides)), usage, tool);
 }
 
+// Maximum number of charts returned as image content from analyze-data
+const MAX_IMAGE_CONTENT = 10;
+
 // Create server instance
 const server = new Server(
   {
@@ -61,6 +109,7 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: { listChanged: true },
     },
   }
 );
@@ -68,29 +117,562 @@ const server = new Server(
 // Schema for generate-thinking tool
 const GenerateThinkingSchema = z.object({
   prompt: z.string().describe('Prompt for generating thinking process text'),
-  outputDir: z.string().optional().describe('Directory to save output responses'),
+  outputDir: z.string().optional().describe('Folder inside the output folder to save responses to (defaults to thinking)'),
+  ...ModelOverridesSchema.shape
 });
 
 // Schema for email sending tool
+const AddressListSchema = z.union([z.string(), z.array(z.string()).min(1)]);
+
 const SendEmailSchema = z.object({
-  to: z.string().describe('Recipient email address'),
-  subjectPrompt: z.string().describe('Prompt for Gemini to generate email subject'),
+  to: AddressListSchema.describe('Recipient address or list of addresses ("Name <address>" allowed)'),
+  cc: AddressListSchema.optional().describe('Carbon copy recipients'),
+  bcc: AddressListSchema.optional().describe('Blind carbon copy recipients'),
+  replyTo: z.string().optional().describe('Reply-To address'),
+  fromName: z.string().optional().describe('Display name shown for the sender'),
+  headers: z.record(z.string()).optional().describe('Additional message headers, e.g. X-Campaign'),
+  subjectPrompt: z.string().optional().describe('Prompt for Gemini to generate email subject'),
+  subject: z.string().optional().describe('Subject to use as is instead of generating one'),
+  subjectOptions: SubjectOptionsSchema.omit({ variants: true }).optional().describe('Tone, language, length and word rules for the generated subject'),
   text: z.string().describe('Plain text version of the email'),
   html: z.string().optional().describe('HTML version of the email'),
   images: z.array(z.object({
     name: z.string().describe('Image filename'),
-    data: z.string().describe('Base64 encoded image data with mime type (data:image/jpeg;base64,...)')
-  })).optional().default([]).describe('Images to attach to the email')
+    data: z.string().describe('Base64 encoded image data with mime type (data:image/jpeg;base64,...)'),
+    caption: z.string().optional().describe('Caption shown under the image')
+  })).optional().default([]).describe('Images shown inline: placed with {{image:name}} placeholders in html or text, otherwise in a gallery'),
+  attachments: z.array(z.object({
+    filename: z.string().optional().describe('File name shown to the recipient (defaults to the basename of path)'),
+    path: z.string().optional().describe('Local file to attach, inside the workspace input folders'),
+    content: z.string().optional().describe('Base64 file content, optionally as a data URI'),
+    contentType: z.string().optional().describe('MIME type (inferred from the file name when omitted)')
+  })).optional().default([]).describe('Files to attach (PDF, CSV, XLSX, ...)'),
+  profile: z.string().optional().describe('Mail profile to send with (defaults to MAIL_PROFILE or the environment settings)'),
+  ...ModelOverridesSchema.shape
+}).refine(input => input.subjectPrompt || input.subject, {
+  message: 'Either subjectPrompt or subject is required'
+});
+
+// Schema for subject generation: ranked variants, or a locked subject passed through
+const GenerateSubjectSchema = SubjectOptionsSchema.extend({
+  subjectPrompt: z.string().optional().describe('What the email is about'),
+  lockedSubject: z.string().optional().describe('Subject to use as is; Gemini is not called'),
+  ...ModelOverridesSchema.shape
+}).refine(input => input.subjectPrompt || input.lockedSubject, {
+  message: 'Either subjectPrompt or lockedSubject is required'
+});
+
+// Schemas for the outbox tools (draft-email takes the send-email arguments)
+const SendDraftSchema = z.object({
+  draftId: z.string().describe('Draft id returned by draft-email'),
+  sendAt: z.string().datetime({ offset: true }).optional().describe('ISO 8601 time to send at; sends now when omitted or in the past')
+});
+
+const ListOutboxSchema = z.object({
+  status: z.enum(['pending', 'all', 'draft', 'scheduled', 'queued', 'sending', 'sent', 'failed']).optional().default('pending').describe('Messages to list; pending covers drafts, scheduled and queued messages'),
+  limit: z.number().int().positive().max(500).optional().default(50).describe('Most messages listed, newest first')
 });
 
+// Validate a send-email request, generate its subject and build the message.
+// The sending account, addresses and attachments are checked before the model is called.
+async function composeEmail(input: z.infer<typeof SendEmailSchema>, tool: ModelTool) {
+  const { to, cc, bcc, replyTo, fromName, headers, subjectPrompt, subject, subjectOptions, text, html, images, attachments: attachmentInputs, profile, model: modelName, temperature, cache } = input;
+  const transport = mailer.get(profile);
+  const recipients = {
+    to: parseAddresses('to', to),
+    cc: parseAddresses('cc', cc),
+    bcc: parseAddresses('bcc', bcc),
+    replyTo: parseAddresses('replyTo', replyTo)
+  };
+  const [sender] = parseAddresses('from', transport.from);
+  const customHeaders = headers ? validateHeaders(headers) : undefined;
+  const inlineImages = loadAttachments(images.map(image => ({ filename: image.name, content: image.data })))
+    .map((image, index) => ({ ...image, cid: `image${index}` }));
+  const fileAttachments = loadAttachments(
+    attachmentInputs.map(attachment => attachment.path ? { ...attachment, path: workspace.input(attachment.path, ['analysis']) } : attachment),
+    inlineImages
+  );
+  const imageRefs = images.map((image, index) => ({ name: image.name, cid: inlineImages[index].cid, caption: image.caption }));
+  validateImagePlaceholders(`${html ?? ''}\n${text}`, imageRefs);
+
+  const subjects = subject
+    ? lockSubject(subject)
+    : await generateSubjects(modelFor(tool, { model: modelName, temperature, cache }), subjectPrompt!, SubjectOptionsSchema.parse({ ...subjectOptions, variants: 1 }));
+  const generatedSubject = subjects.variants[0].subject;
+  console.error(`Subject: "${generatedSubject}"${subjects.locked ? ' (locked)' : ''}`);
+
+  // Place the images inline: placeholders where the sender put them, the rest in a gallery
+  const htmlContent = html
+    ? renderHtmlEmail(html, imageRefs)
+    : renderTextEmail(generatedSubject, text, imageRefs);
+
+  const mailOptions: nodemailer.SendMailOptions = {
+    from: fromName ? { name: fromName, address: sender.address } : transport.from,
+    to: recipients.to,
+    ...(recipients.cc.length ? { cc: recipients.cc } : {}),
+    ...(recipients.bcc.length ? { bcc: recipients.bcc } : {}),
+    ...(recipients.replyTo.length ? { replyTo: recipients.replyTo } : {}),
+    ...(customHeaders ? { headers: customHeaders } : {}),
+    subject: generatedSubject,
+    text: resolveTextPlaceholders(text, imageRefs),
+    html: htmlContent,
+    attachments: [...inlineImages, ...fileAttachments]
+  };
+  const summary: DraftSummary = {
+    profile: transport.profile,
+    from: sender.address,
+    to: recipients.to.map(address => address.address),
+    cc: recipients.cc.map(address => address.address),
+    bcc: recipients.bcc.map(address => address.address),
+    attachments: fileAttachments.map(attachment => attachment.filename)
+  };
+  return { mailOptions, summary };
+}
+
+// Recipient, subject and account lines shared by the outbox tool responses
+function renderDraftDetails(item: OutboxItem): string {
+  return `<p><strong>To:</strong> ${escapeHtml(item.to.join(', '))}</p>
+    ${item.cc.length ? `<p><strong>Cc:</strong> ${escapeHtml(item.cc.join(', '))}</p>` : ''}
+    ${item.bcc.length ? `<p><strong>Bcc:</strong> ${item.bcc.length} recipient(s)</p>` : ''}
+    ${item.attachments.length ? `<p><strong>Attachments:</strong> ${escapeHtml(item.attachments.join(', '))}</p>` : ''}
+    <p><strong>Subject:</strong> "${escapeHtml(item.subject)}"</p>
+    <p><strong>Message ID:</strong> ${escapeHtml(item.messageId)}</p>
+    <p><strong>Mail Profile:</strong> ${item.profile}</p>`;
+}
+
 // Schema for data analysis tool
 const AnalyzeDataSchema = z.object({
-  fileData: z.string().describe('Base64 encoded file data'),
-  fileName: z.string().describe('Name of the file (must be .xlsx, .xls, or .csv)'),
-  analysisType: z.enum(['basic', 'detailed']).describe('Type of analysis to perform'),
-  outputDir: z.string().optional().describe('Directory to save analysis results')
+  fileData: z.string().optional().describe('Base64 encoded file data'),
+  filePath: z.string().optional().describe('Path to a local .xlsx, .xls or .csv file in the workspace input folders, read directly instead of fileData'),
+  datasetId: z.string().optional().describe('Dataset registered by load-dataset or query-dataset, analyzed instead of a file'),
+  fileName: z.string().optional().describe('Name of the file (must be .xlsx, .xls, or .csv); defaults to the basename of filePath'),
+  analysisType: z.enum(['basic', 'detailed', 'timeseries']).describe('Type of analysis to perform; timeseries analyzes values over a date column'),
+  outputDir: z.string().optional().describe('Folder inside the output folder to save analysis runs to (defaults to analysis)'),
+  sheet: z.union([z.string(), z.number().int().nonnegative()]).optional().describe('Excel sheet name or zero-based index (defaults to the first sheet)'),
+  allSheets: z.boolean().optional().default(false).describe('Profile every sheet of an Excel workbook and detect join keys between them'),
+  streaming: z.boolean().optional().describe('Force (true) or disable (false) single-pass streaming profiling of CSV files; by default large files stream'),
+  charts: z.array(z.object({
+    type: z.enum(['histogram', 'box', 'scatter', 'bar', 'line', 'missing']).describe('Chart type'),
+    columns: z.array(z.string()).optional().describe('Columns to plot; scatter takes [x, y], line takes [dateColumn, ...valueColumns]'),
+    granularity: z.enum(['auto', 'day', 'week', 'month']).optional().describe('Line charts: resampling period'),
+    aggregation: z.enum(['sum', 'mean', 'count', 'min', 'max']).optional().describe('Line charts: aggregation per period')
+  })).optional().describe('Specific charts to draw instead of the automatic selection'),
+  timeSeries: z.object({
+    dateColumn: z.string().optional().describe('Date column (defaults to the date column with the fewest missing values)'),
+    valueColumns: z.array(z.string()).min(1).max(10).optional().describe('Numeric columns to analyze (defaults to the first three)'),
+    granularity: z.enum(['auto', 'day', 'week', 'month']).optional().describe('Resampling period'),
+    aggregation: z.enum(['sum', 'mean', 'count', 'min', 'max']).optional().describe('Aggregation per period (defaults to sum)'),
+    seasonLength: z.number().int().min(2).max(366).optional().describe('Periods per seasonal cycle'),
+    horizon: z.number().int().min(1).max(365).optional().describe('Periods to forecast'),
+    window: z.number().int().min(2).max(366).optional().describe('Periods per rolling window'),
+    confidence: z.union([z.literal(0.8), z.literal(0.9), z.literal(0.95), z.literal(0.99)]).optional().describe('Forecast interval level (defaults to 0.95)')
+  }).optional().describe('Settings for analysisType timeseries'),
+  ...ModelOverridesSchema.shape
+}).refine(input => input.fileData || input.filePath || input.datasetId, {
+  message: 'One of fileData, filePath or datasetId is required'
+}).refine(input => input.filePath || input.datasetId || input.fileName, {
+  message: 'fileName is required with fileData'
+}).refine(input => !(input.analysisType === 'timeseries' && input.streaming), {
+  message: 'Time-series analysis needs every row, so it does not run in streaming mode'
+});
+
+// Schemas for the dataset registry
+const LoadDatasetSchema = z.object({
+  filePath: z.string().optional().describe('Path to a local .xlsx, .xls or .csv file in the workspace input folders'),
+  fileData: z.string().optional().describe('Base64 encoded file data'),
+  fileName: z.string().optional().describe('Name of the file (must be .xlsx, .xls, or .csv); defaults to the basename of filePath'),
+  sheet: z.union([z.string(), z.number().int().nonnegative()]).optional().describe('Excel sheet name or zero-based index (defaults to the first sheet)'),
+  allSheets: z.boolean().optional().default(false).describe('Register every sheet of an Excel workbook as its own dataset'),
+  name: z.string().optional().describe('Name for the dataset (defaults to the file name, plus the sheet name for workbooks)'),
+  previewRows: z.number().int().min(0).max(100).optional().default(10).describe('Rows shown in the response')
+}).refine(input => input.fileData || input.filePath, {
+  message: 'Either fileData or filePath is required'
+}).refine(input => input.filePath || input.fileName, {
+  message: 'fileName is required with fileData'
+});
+
+const QueryDatasetSchema = z.object({
+  datasetId: z.string().describe('Dataset to query'),
+  steps: QueryPlanSchema.describe('Operations applied in order'),
+  saveAs: z.string().optional().describe('Name of the result dataset (defaults to the source name with "(query)")'),
+  save: z.boolean().optional().default(true).describe('Register the result as a new dataset'),
+  previewRows: z.number().int().min(0).max(100).optional().default(20).describe('Rows shown in the response')
+});
+
+const AskDataSchema = z.object({
+  question: z.string().min(1).describe('Question about the data, e.g. "which region had the highest average order value last quarter?"'),
+  datasetId: z.string().optional().describe('Registered dataset to ask about'),
+  filePath: z.string().optional().describe('Path to a local .xlsx, .xls or .csv file in the workspace input folders, instead of a dataset'),
+  fileData: z.string().optional().describe('Base64 encoded file data'),
+  fileName: z.string().optional().describe('Name of the file (must be .xlsx, .xls, or .csv); defaults to the basename of filePath'),
+  sheet: z.union([z.string(), z.number().int().nonnegative()]).optional().describe('Excel sheet name or zero-based index (defaults to the first sheet)'),
+  chart: z.boolean().optional().default(true).describe('Draw the chart the plan suggests, if any'),
+  saveAs: z.string().optional().describe('Register the answer table as a dataset with this name'),
+  previewRows: z.number().int().min(0).max(100).optional().default(20).describe('Rows shown in the response'),
+  ...ModelOverridesSchema.shape
+}).refine(input => input.datasetId || input.filePath || input.fileData, {
+  message: 'One of datasetId, filePath or fileData is required'
+}).refine(input => input.datasetId || input.filePath || input.fileName, {
+  message: 'fileName is required with fileData'
 });
 
+const ListDatasetsSchema = z.object({
+  limit: z.number().int().positive().max(500).optional().default(50).describe('Most datasets listed, newest first')
+});
+
+// Schema for emailing a saved analysis report
+const EmailReportSchema = z.object({
+  reportPath: z.string().optional().describe('Path to report_<runId>.html, or any other file of the analyze-data run'),
+  runId: z.string().optional().describe('Run id printed by analyze-data'),
+  outputDir: z.string().optional().describe('Folder inside the output folder the run was saved to, for runId (defaults to analysis)'),
+  to: AddressListSchema.describe('Recipient address or list of addresses ("Name <address>" allowed)'),
+  cc: AddressListSchema.optional().describe('Carbon copy recipients'),
+  bcc: AddressListSchema.optional().describe('Blind carbon copy recipients'),
+  replyTo: z.string().optional().describe('Reply-To address'),
+  fromName: z.string().optional().describe('Display name shown for the sender'),
+  instructions: z.string().optional().describe('Guidance for the executive summary, e.g. audience or focus'),
+  maxCharts: z.number().int().min(0).max(30).optional().default(12).describe('Most charts embedded in the email'),
+  attachReport: z.boolean().optional().default(false).describe('Also attach the original HTML report'),
+  profile: z.string().optional().describe('Mail profile to send with (defaults to MAIL_PROFILE or the environment settings)'),
+  draft: z.boolean().optional().default(false).describe('Save the email to the outbox for review instead of sending it'),
+  ...ModelOverridesSchema.shape
+}).refine(input => input.reportPath || input.runId, {
+  message: 'Either reportPath or runId is required'
+});
+
+// Schema for mail merge: a dry run creates the merge, sending needs its mergeId
+const MailMergeSchema = z.object({
+  mergeId: z.string().optional().describe('Merge created by a previous dry run, to send, retry or preview again'),
+  send: z.boolean().optional().default(false).describe('Send the previewed merge given by mergeId'),
+  retryFailed: z.boolean().optional().default(false).describe('When sending, also resend recipients that failed'),
+  filePath: z.string().optional().describe('Path to a local .xlsx, .xls or .csv contact list in the workspace input folders'),
+  fileData: z.string().optional().describe('Base64 encoded contact list'),
+  fileName: z.string().optional().describe('Name of the file (must be .xlsx, .xls, or .csv); defaults to the basename of filePath'),
+  sheet: z.union([z.string(), z.number().int().nonnegative()]).optional().describe('Excel sheet name or zero-based index'),
+  emailColumn: z.string().optional().default('email').describe('Column holding the recipient address'),
+  nameColumn: z.string().optional().describe('Column holding the recipient display name'),
+  subject: z.string().optional().describe('Subject template with {{column}} placeholders'),
+  text: z.string().optional().describe('Plain text body template with {{column}} placeholders'),
+  html: z.string().optional().describe('HTML body template with {{column}} placeholders'),
+  personalizePrompt: z.string().optional().describe('Prompt with {{column}} placeholders; the generated text fills {{personalized}}'),
+  previewCount: z.number().int().min(1).max(20).optional().default(3).describe('Messages rendered in the dry-run preview'),
+  fromName: z.string().optional().describe('Display name shown for the sender'),
+  replyTo: z.string().optional().describe('Reply-To address'),
+  profile: z.string().optional().describe('Mail profile to send with'),
+  ratePerMinute: z.number().positive().max(600).optional().default(60).describe('Most messages sent per minute'),
+  maxMessages: z.number().int().positive().max(500).optional().default(25).describe('Most messages sent in this call'),
+  ...ModelOverridesSchema.shape
+}).refine(input => input.mergeId || ((input.filePath || input.fileData) && input.subject && input.text), {
+  message: 'A new mail merge needs a dataset (filePath or fileData), subject and text'
+}).refine(input => input.mergeId || input.filePath || input.fileName, {
+  message: 'fileName is required with fileData'
+}).refine(input => !input.send || input.mergeId, {
+  message: 'Sending needs the mergeId of a dry run: call mail-merge without send first and check the preview'
+});
+
+// Schema for the model usage report
+const UsageStatsSchema = z.object({
+  since: z.string().datetime({ offset: true }).optional().describe('Only count calls made from this ISO 8601 time on'),
+  tool: z.enum(MODEL_TOOLS).optional().describe('Only count calls made by this tool'),
+  recent: z.number().int().min(0).max(100).optional().default(10).describe('Most recent calls listed')
+});
+
+// Table of usage totals, one row per tool or model
+function renderUsageTable(label: string, groups: Record<string, UsageTotals>): string {
+  const rows = Object.entries(groups);
+  if (!rows.length) {
+    return '';
+  }
+  return `<table style="border-collapse: collapse; width: 100%; margin-bottom: 15px;">
+      <tr>${[label, 'Calls', 'Failed', 'Cached', 'Retries', 'Prompt Tokens', 'Output Tokens', 'Avg Latency', 'p95 Latency'].map(header => `<th style="border: 1px solid #ddd; padding: 6px; text-align: left;">${header}</th>`).join('')}</tr>
+      ${rows.map(([name, totals]) => `<tr>${[
+        escapeHtml(name),
+        String(totals.calls),
+        String(totals.failed),
+        String(totals.cached),
+        String(totals.retries),
+        totals.promptTokens.toLocaleString('en-US'),
+        totals.outputTokens.toLocaleString('en-US'),
+        `${totals.latencyMs.average} ms`,
+        `${totals.latencyMs.p95} ms`
+      ].map(cell => `<td style="border: 1px solid #ddd; padding: 6px;">${cell}</td>`).join('')}</tr>`).join('\n      ')}
+    </table>`;
+}
+
+// Subject generation controls, used by generate-subject and inside send-email's subjectOptions
+const subjectStyleProperties = {
+  tone: {
+    type: "string",
+    enum: [...SUBJECT_TONES],
+    description: "Tone of the subject line (optional, default professional)"
+  },
+  language: {
+    type: "string",
+    description: "Language to write the subject in, e.g. English or Arabic (optional, default English)"
+  },
+  maxLength: {
+    type: "integer",
+    description: "Maximum length in characters including the brand prefix, 10-200 (optional, default 60)"
+  },
+  bannedWords: {
+    type: "array",
+    items: { type: "string" },
+    description: "Words the subject must not contain (optional)"
+  },
+  brandPrefix: {
+    type: "string",
+    description: "Text put in front of every subject, e.g. [Acme] (optional)"
+  }
+};
+
+const subjectOptionsProperties = {
+  ...subjectStyleProperties,
+  variants: {
+    type: "integer",
+    description: "Number of ranked variants with rationales, 1-10, e.g. 2 or more for A/B tests (optional, default 1)"
+  }
+};
+
+// Per-call model settings accepted by every tool that calls the model
+const modelOverrideProperties = {
+  model: {
+    type: "string",
+    description: "Model to use for this call instead of the configured one (optional)"
+  },
+  temperature: {
+    type: "number",
+    description: "Sampling temperature for this call, 0-2; lower is more predictable (optional, defaults to the configured value for the tool)"
+  },
+  cache: {
+    type: "boolean",
+    description: "Set to false to ask the model again instead of reusing a cached response (optional, default true)"
+  }
+};
+
+// One query-dataset step; which fields apply depends on op
+const queryStepSchema = {
+  type: "object",
+  properties: {
+    op: {
+      type: "string",
+      enum: ["filter", "select", "sort", "group", "pivot", "join", "limit"],
+      description: "Operation"
+    },
+    conditions: {
+      type: "array",
+      description: "filter: conditions on columns",
+      items: {
+        type: "object",
+        properties: {
+          column: { type: "string" },
+          operator: {
+            type: "string",
+            enum: ["eq", "ne", "gt", "gte", "lt", "lte", "between", "in", "notIn", "contains", "startsWith", "endsWith", "isMissing", "notMissing"],
+            description: "Numbers, dates and text compare naturally; text ignores case"
+          },
+          value: {
+            description: "Value to compare with; [low, high] for between (inclusive), a list for in and notIn"
+          }
+        },
+        required: ["column", "operator"]
+      }
+    },
+    match: {
+      type: "string",
+      enum: ["all", "any"],
+      description: "filter: keep rows matching all conditions (default) or any of them"
+    },
+    columns: {
+      description: "select: columns to keep, in order (array); pivot: the column whose values become columns (string)"
+    },
+    rename: {
+      type: "object",
+      additionalProperties: { type: "string" },
+      description: "select: new names for selected columns"
+    },
+    by: {
+      type: "array",
+      description: "sort: [{ column, direction: asc|desc }]; group: column names to group by (empty for one total row)"
+    },
+    aggregates: {
+      type: "array",
+      description: "group: [{ function, column, as }] with function count, countDistinct, sum, mean, median, min, max, first or last",
+      items: {
+        type: "object",
+        properties: {
+          function: { type: "string", enum: ["count", "countDistinct", "sum", "mean", "median", "min", "max", "first", "last"] },
+          column: { type: "string" },
+          as: { type: "string" }
+        },
+        required: ["function"]
+      }
+    },
+    index: {
+      type: "array",
+      items: { type: "string" },
+      description: "pivot: columns identifying a result row"
+    },
+    values: {
+      type: "string",
+      description: "pivot: column aggregated into each cell"
+    },
+    function: {
+      type: "string",
+      enum: ["count", "countDistinct", "sum", "mean", "median", "min", "max", "first", "last"],
+      description: "pivot: aggregate function (default sum)"
+    },
+    fill: {
+      description: "pivot: value for empty cells (default null)"
+    },
+    datasetId: {
+      type: "string",
+      description: "join: dataset joined on the right"
+    },
+    on: {
+      type: "array",
+      items: { type: "string" },
+      description: "join: key columns present in both datasets"
+    },
+    leftOn: {
+      type: "array",
+      items: { type: "string" },
+      description: "join: key columns of the current rows, when the names differ"
+    },
+    rightOn: {
+      type: "array",
+      items: { type: "string" },
+      description: "join: matching key columns of the joined dataset"
+    },
+    type: {
+      type: "string",
+      enum: ["inner", "left", "right", "full"],
+      description: "join: join type (default inner)"
+    },
+    suffix: {
+      type: "string",
+      description: "join: added to joined column names that are already taken (default _right)"
+    },
+    count: {
+      type: "integer",
+      description: "limit: rows kept"
+    },
+    offset: {
+      type: "integer",
+      description: "limit: rows skipped first (default 0)"
+    }
+  },
+  required: ["op"]
+};
+
+// Input schema shared by send-email and draft-email
+const sendEmailInputSchema = {
+  type: "object",
+  properties: {
+    to: {
+      type: ["string", "array"],
+      items: { type: "string" },
+      description: "Recipient address or list of addresses (\"Name <address>\" allowed)"
+    },
+    cc: {
+      type: ["string", "array"],
+      items: { type: "string" },
+      description: "Carbon copy recipients (optional)"
+    },
+    bcc: {
+      type: ["string", "array"],
+      items: { type: "string" },
+      description: "Blind carbon copy recipients (optional)"
+    },
+    replyTo: {
+      type: "string",
+      description: "Reply-To address (optional)"
+    },
+    fromName: {
+      type: "string",
+      description: "Display name shown for the sender (optional)"
+    },
+    headers: {
+      type: "object",
+      additionalProperties: { type: "string" },
+      description: "Additional message headers such as X-Campaign (optional; addressing and content headers can't be overridden)"
+    },
+    subjectPrompt: {
+      type: "string",
+      description: "Prompt for Gemini to generate email subject (required unless subject is given)"
+    },
+    subject: {
+      type: "string",
+      description: "Subject to use exactly as given, skipping Gemini (optional)"
+    },
+    subjectOptions: {
+      type: "object",
+      properties: subjectStyleProperties,
+      description: "Tone, language, maximum length, banned words and brand prefix for the generated subject (optional)"
+    },
+    text: {
+      type: "string",
+      description: "Plain text version of the email"
+    },
+    html: {
+      type: "string",
+      description: "HTML version of the email (optional)"
+    },
+    images: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description: "Image filename"
+          },
+          data: {
+            type: "string",
+            description: "Base64 encoded image data with mime type (data:image/jpeg;base64,...)"
+          },
+          caption: {
+            type: "string",
+            description: "Caption shown under the image (optional)"
+          }
+        },
+        required: ["name", "data"]
+      },
+      description: "Images shown inline: place them with {{image:name}} placeholders in html or text (an <img src=\"{{image:name}}\"> attribute also works); images not placed appear in a gallery at the end (optional)"
+    },
+    attachments: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          filename: {
+            type: "string",
+            description: "File name shown to the recipient (defaults to the basename of path)"
+          },
+          path: {
+            type: "string",
+            description: "Local file to attach, inside the workspace input folders (WORKSPACE_INPUT_DIRS)"
+          },
+          content: {
+            type: "string",
+            description: "Base64 file content, optionally as a data URI"
+          },
+          contentType: {
+            type: "string",
+            description: "MIME type (inferred from the file name when omitted)"
+          }
+        }
+      },
+      description: "Files to attach, given as a local path or base64 content; at most 10 MB each and 18 MB per message (optional)"
+    },
+    profile: {
+      type: "string",
+      description: "Name of the mail profile to send with (optional, defaults to MAIL_PROFILE or the SMTP settings in the environment)"
+    },
+    ...modelOverrideProperties
+  },
+  required: ["to", "text"]
+};
+
 // List available tools
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
@@ -107,8 +689,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             outputDir: {
               type: "string",
-              description: "Directory to save output responses (optional)",
+              description: "Folder inside the output folder to save responses to (optional, defaults to thinking); each response gets its own run folder",
             },
+            ...modelOverrideProperties
           },
           required: ["prompt"],
         },
@@ -116,330 +699,560 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: "send-email",
         description: "Send an email with AI-generated subject using Gemini Flash 2",
+        inputSchema: sendEmailInputSchema
+      },
+      {
+        name: "generate-subject",
+        description: "Generate ranked email subject line variants with rationales, with control over tone, language, length, banned words and a brand prefix",
         inputSchema: {
           type: "object",
           properties: {
-            to: {
+            subjectPrompt: {
               type: "string",
-              description: "Recipient email address"
+              description: "What the email is about (required unless lockedSubject is given)"
             },
-            subjectPrompt: {
+            lockedSubject: {
               type: "string",
-              description: "Prompt for Gemini to generate email subject"
+              description: "Subject to use exactly as given; Gemini is not called (optional)"
             },
-            text: {
+            ...subjectOptionsProperties,
+            ...modelOverrideProperties
+          }
+        }
+      },
+      {
+        name: "draft-email",
+        description: "Compose an email like send-email (AI-generated subject, inline images, attachments) and save it to the outbox without sending; returns a preview and a draft id",
+        inputSchema: sendEmailInputSchema
+      },
+      {
+        name: "send-draft",
+        description: "Send an outbox draft now or schedule it for later",
+        inputSchema: {
+          type: "object",
+          properties: {
+            draftId: {
               type: "string",
-              description: "Plain text version of the email"
+              description: "Draft id returned by draft-email"
             },
-            html: {
+            sendAt: {
+              type: "string",
+              description: "ISO 8601 date and time with offset to send at, e.g. 2025-03-01T09:00:00Z (optional, sends now when omitted)"
+            }
+          },
+          required: ["draftId"]
+        }
+      },
+      {
+        name: "list-outbox",
+        description: "List drafts, scheduled messages and messages waiting for a retry",
+        inputSchema: {
+          type: "object",
+          properties: {
+            status: {
+              type: "string",
+              enum: ["pending", "all", "draft", "scheduled", "queued", "sending", "sent", "failed"],
+              description: "Messages to list (optional, default pending: drafts, scheduled and queued messages)"
+            },
+            limit: {
+              type: "integer",
+              description: "Most messages listed, newest first (optional, default 50)"
+            }
+          }
+        }
+      },
+      {
+        name: "analyze-data",
+        description: "Analyze Excel/CSV data using EDA and Gemini AI",
+        inputSchema: {
+          type: "object",
+          properties: {
+            fileData: {
+              type: "string",
+              description: "Base64 encoded file data (required unless filePath is given)"
+            },
+            filePath: {
+              type: "string",
+              description: "Path to a local .xlsx, .xls or .csv file on the server, read directly without base64 encoding; must be in the workspace input folders (optional)"
+            },
+            datasetId: {
+              type: "string",
+              description: "Dataset registered by load-dataset or query-dataset, analyzed instead of a file (optional)"
+            },
+            fileName: {
+              type: "string",
+              description: "Name of the file (must be .xlsx, .xls, or .csv); defaults to the basename of filePath"
+            },
+            analysisType: {
+              type: "string",
+              enum: ["basic", "detailed", "timeseries"],
+              description: "Type of analysis to perform; timeseries adds trend, seasonality, rolling statistics, change points and a forecast over a date column"
+            },
+            outputDir: {
               type: "string",
-              description: "HTML version of the email (optional)"
+              description: "Folder inside the output folder to save analysis runs to (optional, defaults to analysis); each run gets its own folder"
+            },
+            sheet: {
+              type: ["string", "integer"],
+              description: "Excel sheet name or zero-based index (optional, defaults to the first sheet)"
+            },
+            allSheets: {
+              type: "boolean",
+              description: "Profile every sheet of an Excel workbook, with a section per sheet and likely join keys between them (optional)"
+            },
+            streaming: {
+              type: "boolean",
+              description: "Force (true) or disable (false) single-pass streaming profiling of CSV files with bounded memory; by default files over 20 MB stream (optional)"
             },
-            images: {
+            charts: {
               type: "array",
+              description: "Specific charts to draw instead of the automatic selection chosen from the column types (optional)",
               items: {
                 type: "object",
                 properties: {
-                  name: {
+                  type: {
                     type: "string",
-                    description: "Image filename"
+                    enum: ["histogram", "box", "scatter", "bar", "line", "missing"],
+                    description: "Chart type"
                   },
-                  data: {
+                  columns: {
+                    type: "array",
+                    items: { type: "string" },
+                    description: "Columns to plot; scatter takes [x, y], line takes [dateColumn, ...valueColumns]"
+                  },
+                  granularity: {
+                    type: "string",
+                    enum: ["auto", "day", "week", "month"],
+                    description: "Line charts: resampling period (default auto)"
+                  },
+                  aggregation: {
                     type: "string",
-                    description: "Base64 encoded image data with mime type (data:image/jpeg;base64,...)"
+                    enum: ["sum", "mean", "count", "min", "max"],
+                    description: "Line charts: aggregation per period (default mean)"
                   }
                 },
-                required: ["name", "data"]
-              },
-              description: "Images to attach to the email (optional)"
-            }
+                required: ["type"]
+              }
+            },
+            timeSeries: {
+              type: "object",
+              description: "Settings for analysisType timeseries (optional)",
+              properties: {
+                dateColumn: {
+                  type: "string",
+                  description: "Date column (defaults to the date column with the fewest missing values)"
+                },
+                valueColumns: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Numeric columns to analyze (defaults to the first three; with none, rows are counted)"
+                },
+                granularity: {
+                  type: "string",
+                  enum: ["auto", "day", "week", "month"],
+                  description: "Resampling period (default auto, from the date span)"
+                },
+                aggregation: {
+                  type: "string",
+                  enum: ["sum", "mean", "count", "min", "max"],
+                  description: "Aggregation per period (default sum)"
+                },
+                seasonLength: {
+                  type: "integer",
+                  description: "Periods per seasonal cycle (default 7 for days, 52 for weeks, 12 for months)"
+                },
+                horizon: {
+                  type: "integer",
+                  description: "Periods to forecast, 1-365 (default one cycle)"
+                },
+                window: {
+                  type: "integer",
+                  description: "Periods per rolling window (default one cycle)"
+                },
+                confidence: {
+                  type: "number",
+                  enum: [0.8, 0.9, 0.95, 0.99],
+                  description: "Forecast interval level (default 0.95)"
+                }
+              }
+            },
+            ...modelOverrideProperties
           },
-          required: ["to", "subjectPrompt", "text"]
+          required: ["analysisType"]
         }
       },
       {
-        name: "analyze-data",
-        description: "Analyze Excel/CSV data using EDA and Gemini AI",
+        name: "load-dataset",
+        description: "Load a CSV/XLSX file once into the dataset registry; returns a dataset id with the inferred schema for query-dataset and analyze-data",
         inputSchema: {
           type: "object",
           properties: {
+            filePath: {
+              type: "string",
+              description: "Path to a local .xlsx, .xls or .csv file in the workspace input folders (required unless fileData is given)"
+            },
             fileData: {
               type: "string",
-              description: "Base64 encoded file data"
+              description: "Base64 encoded file data (optional)"
             },
             fileName: {
               type: "string",
-              description: "Name of the file (must be .xlsx, .xls, or .csv)"
+              description: "Name of the file (must be .xlsx, .xls, or .csv); required with fileData"
             },
-            analysisType: {
+            sheet: {
+              type: ["string", "integer"],
+              description: "Excel sheet name or zero-based index (optional, defaults to the first sheet)"
+            },
+            allSheets: {
+              type: "boolean",
+              description: "Register every sheet of a workbook as its own dataset (optional, default false)"
+            },
+            name: {
               type: "string",
-              enum: ["basic", "detailed"],
-              description: "Type of analysis to perform"
+              description: "Name for the dataset (optional, defaults to the file name)"
             },
-            outputDir: {
+            previewRows: {
+              type: "integer",
+              description: "Rows shown in the response, 0-100 (optional, default 10)"
+            }
+          }
+        }
+      },
+      {
+        name: "query-dataset",
+        description: "Filter, select, sort, group/aggregate, pivot and join registered datasets locally, without the model; the result is saved as a new dataset that analyze-data can target",
+        inputSchema: {
+          type: "object",
+          properties: {
+            datasetId: {
+              type: "string",
+              description: "Dataset to query"
+            },
+            steps: {
+              type: "array",
+              items: queryStepSchema,
+              description: "Operations applied in order, e.g. [{\"op\": \"filter\", \"conditions\": [{\"column\": \"region\", \"operator\": \"eq\", \"value\": \"EMEA\"}]}]"
+            },
+            saveAs: {
               type: "string",
-              description: "Directory to save analysis results (optional)"
+              description: "Name of the result dataset (optional)"
+            },
+            save: {
+              type: "boolean",
+              description: "Register the result as a new dataset (optional, default true)"
+            },
+            previewRows: {
+              type: "integer",
+              description: "Rows shown in the response, 0-100 (optional, default 20)"
             }
           },
-          required: ["fileData", "fileName", "analysisType"]
+          required: ["datasetId", "steps"]
         }
-      }
-    ],
-  };
-});
-
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case "generate-thinking": {
-        const { prompt, outputDir: customOutputDir } = GenerateThinkingSchema.parse(args);
-        const saveDir = customOutputDir ? path.resolve(customOutputDir) : outputDir;
-        
-        // Create directory if it doesn't exist
-        if (!fs.existsSync(saveDir)) {
-          fs.mkdirSync(saveDir, { recursive: true });
+      },
+      {
+        name: "list-datasets",
+        description: "List registered datasets with their ids, sizes and origin, newest first",
+        inputSchema: {
+          type: "object",
+          properties: {
+            limit: {
+              type: "integer",
+              description: "Most datasets listed (optional, default 50)"
+            }
+          }
         }
-        
-        // Generate content with Gemini
-        console.error(`Sending prompt to Gemini: "${prompt}"`);
-        const result = await model.generateContent(prompt);
-        const responseText = result.response.text();
-        
-        console.error(`Received response from Gemini (${responseText.length} chars)`);
-        
-        // Save the response to a file
-        const timestamp = Date.now();
-        const filename = `gemini_thinking_${timestamp}.txt`;
-        const filePath = path.join(saveDir, filename);
-        fs.writeFileSync(filePath, responseText);
-        console.error(`Saved response to: ${filePath}`);
-
-        // Format the response as HTML
-        // Convert markdown-like syntax to HTML
-        let htmlResponse = responseText
-          // Convert headers
-          .replace(/^# (.*?)$/gm, '<h1>$1</h1>')
-          .replace(/^## (.*?)$/gm, '<h2>$1</h2>')
-          .replace(/^### (.*?)$/gm, '<h3>$1</h3>')
-          .replace(/^#### (.*?)$/gm, '<h4>$1</h4>')
-          // Convert bold and italic
-          .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-          .replace(/\*(.*?)\*/g, '<em>$1</em>')
-          // Convert lists
-          .replace(/^- (.*?)$/gm, '<li>$1</li>')
-          // Convert code blocks
-          .replace(/```(.*?)```/gs, '<pre><code>$1</code></pre>')
-          // Convert paragraphs (lines with content)
-          .replace(/^([^<\s].*?)$/gm, '<p>$1</p>');
-        
-        // Wrap lists in <ul> tags
-        htmlResponse = htmlResponse.replace(/<li>.*?<\/li>/gs, match => {
-          return '<ul>' + match + '</ul>';
-        });
-        
-        // Fix nested lists
-        htmlResponse = htmlResponse.replace(/<\/ul>\s*<ul>/g, '');
-
-        // Wrap the response in a styled div
-        const styledHtmlResponse = `
-<div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; line-height: 1.5; color: #333;">
-  <div style="background-color: #f0f8ff; padding: 15px; border-radius: 8px; margin-bottom: 20px; border-left: 5px solid #4169e1;">
-    <h2 style="margin-top: 0; color: #4169e1;">Gemini Thinking Response</h2>
-    <p style="font-style: italic; color: #666;">Generated based on prompt: "${prompt}"</p>
-  </div>
-
-  <div style="background-color: white; padding: 20px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
-    ${htmlResponse}
-  </div>
-  
-  <div style="background-color: #f5f5f5; padding: 10px; border-radius: 8px; margin-top: 20px; font-size: 0.9em; color: #666;">
-    <p>Response saved to: ${filePath}</p>
-  </div>
-</div>`;
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: styledHtmlResponse,
+      },
+      {
+        name: "ask-data",
+        description: "Answer a question about a dataset precisely: the model turns the question into a validated query plan, which runs locally on every row; returns the answer table, the plan and an optional chart",
+        inputSchema: {
+          type: "object",
+          properties: {
+            question: {
+              type: "string",
+              description: "Question about the data, e.g. \"which region had the highest average order value last quarter?\""
             },
-          ],
-        };
-      }
-
-      case "send-email": {
-        const { to, subjectPrompt, text, html, images } = SendEmailSchema.parse(args);
-        
-        // Generate email subject using Gemini Flash 2 with improved prompt
-        console.error(`Generating email subject using prompt: "${subjectPrompt}"`);
-        
-        // Create a more specific prompt that emphasizes professional formatting
-        const enhancedPrompt = `Create a single, professional email subject line (maximum 50-60 characters) for: ${subjectPrompt}. 
-        The subject should be direct, clear, and professional. 
-        Do not include numbering, asterisks, or formatting characters. 
-        Do not provide multiple options - just give me one perfect subject line.
-        Do not include phrases like "Subject line:" or "Email subject:" in your response.`;
-        
-        const subjectResult = await model.generateContent(enhancedPrompt);
-        let generatedSubject = subjectResult.response.text();
-        
-        // Advanced cleanup for the generated subject
-        generatedSubject = generatedSubject
-          // Remove any remaining formatting markers
-          .replace(/\*\*|\*|__|_/g, '')
-          // Remove phrases like "Subject line:" or "Email subject:"
-          .replace(/^(subject|subject line|email subject|title)(:|\s-)\s*/i, '')
-          // Remove quotes if they wrap the entire subject
-          .replace(/^["'](.+)["']$/, '$1')
-          // Remove any line breaks and extra whitespace
-          .replace(/\n/g, ' ')
-          .replace(/\s+/g, ' ')
-          .trim();
-        
-        // If the result is still problematic, try a simpler approach
-        if (generatedSubject.length > 70 || generatedSubject.length < 10 || 
-            generatedSubject.includes("Option") || generatedSubject.includes("**")) {
-          
-          const fallbackPrompt = `Create a brief, professional email subject line (30-50 characters only) about: ${subjectPrompt}. 
-          Just return the subject line text alone with no formatting or explanation.`;
-          
-          const fallbackResult = await model.generateContent(fallbackPrompt);
-          generatedSubject = fallbackResult.response.text()
-            .replace(/\*\*|\*|__|_/g, '')
-            .replace(/^(subject|subject line|email subject|title)(:|\s-)\s*/i, '')
-            .replace(/^["'](.+)["']$/, '$1')
-            .replace(/\n/g, ' ')
-            .replace(/\s+/g, ' ')
-            .trim();
-          
-          // Final length check and truncation if needed
-          if (generatedSubject.length > 70) {
-            generatedSubject = generatedSubject.substring(0, 67) + '...';
+            datasetId: {
+              type: "string",
+              description: "Registered dataset to ask about (or use filePath or fileData)"
+            },
+            filePath: {
+              type: "string",
+              description: "Path to a local .xlsx, .xls or .csv file in the workspace input folders (optional)"
+            },
+            fileData: {
+              type: "string",
+              description: "Base64 encoded file data (optional)"
+            },
+            fileName: {
+              type: "string",
+              description: "Name of the file (must be .xlsx, .xls, or .csv); required with fileData"
+            },
+            sheet: {
+              type: ["string", "integer"],
+              description: "Excel sheet name or zero-based index (optional, defaults to the first sheet)"
+            },
+            chart: {
+              type: "boolean",
+              description: "Draw the chart the plan suggests, if any (optional, default true)"
+            },
+            saveAs: {
+              type: "string",
+              description: "Register the answer table as a dataset with this name (optional)"
+            },
+            previewRows: {
+              type: "integer",
+              description: "Rows shown in the response, 0-100 (optional, default 20)"
+            },
+            ...modelOverrideProperties
+          },
+          required: ["question"]
+        }
+      },
+      {
+        name: "email-report",
+        description: "Email a saved analyze-data report with an AI-written subject and executive summary, embedded charts and the statistics JSON attached",
+        inputSchema: {
+          type: "object",
+          properties: {
+            reportPath: {
+              type: "string",
+              description: "Path to the report_<runId>.html written by analyze-data, or any other file of the run (required unless runId is given)"
+            },
+            runId: {
+              type: "string",
+              description: "Run id printed by analyze-data (required unless reportPath is given)"
+            },
+            outputDir: {
+              type: "string",
+              description: "Folder inside the output folder the run was saved to, used with runId (optional, defaults to analysis)"
+            },
+            to: {
+              type: ["string", "array"],
+              items: { type: "string" },
+              description: "Recipient address or list of addresses (\"Name <address>\" allowed)"
+            },
+            cc: {
+              type: ["string", "array"],
+              items: { type: "string" },
+              description: "Carbon copy recipients (optional)"
+            },
+            bcc: {
+              type: ["string", "array"],
+              items: { type: "string" },
+              description: "Blind carbon copy recipients (optional)"
+            },
+            replyTo: {
+              type: "string",
+              description: "Reply-To address (optional)"
+            },
+            fromName: {
+              type: "string",
+              description: "Display name shown for the sender (optional)"
+            },
+            instructions: {
+              type: "string",
+              description: "Guidance for the executive summary, such as the audience or what to focus on (optional)"
+            },
+            maxCharts: {
+              type: "integer",
+              description: "Most charts embedded in the email as images, 0-30 (optional, default 12)"
+            },
+            attachReport: {
+              type: "boolean",
+              description: "Also attach the original HTML report (optional, default false)"
+            },
+            profile: {
+              type: "string",
+              description: "Name of the mail profile to send with (optional, defaults to MAIL_PROFILE or the SMTP settings in the environment)"
+            },
+            draft: {
+              type: "boolean",
+              description: "Save the email to the outbox without sending it, to check the AI-written subject first; send it with send-draft (optional, default false)"
+            },
+            ...modelOverrideProperties
+          },
+          required: ["to"]
+        }
+      },
+      {
+        name: "mail-merge",
+        description: "Send a personalized email to every row of a CSV/XLSX contact list from {{column}} templates, with a required dry-run preview, rate limiting and a per-recipient log",
+        inputSchema: {
+          type: "object",
+          properties: {
+            mergeId: {
+              type: "string",
+              description: "Merge id returned by a dry run; with send: true the previewed messages are sent (optional)"
+            },
+            send: {
+              type: "boolean",
+              description: "Send the merge given by mergeId (optional, default false: preview only). Call again to continue with recipients still pending"
+            },
+            retryFailed: {
+              type: "boolean",
+              description: "When sending, also resend recipients that failed earlier (optional, default false)"
+            },
+            filePath: {
+              type: "string",
+              description: "Path to a local .xlsx, .xls or .csv contact list in the workspace input folders (required for a new merge unless fileData is given)"
+            },
+            fileData: {
+              type: "string",
+              description: "Base64 encoded contact list (optional)"
+            },
+            fileName: {
+              type: "string",
+              description: "Name of the file (must be .xlsx, .xls, or .csv); defaults to the basename of filePath"
+            },
+            sheet: {
+              type: ["string", "integer"],
+              description: "Excel sheet name or zero-based index (optional, defaults to the first sheet)"
+            },
+            emailColumn: {
+              type: "string",
+              description: "Column holding the recipient address (optional, default \"email\")"
+            },
+            nameColumn: {
+              type: "string",
+              description: "Column holding the recipient display name (optional)"
+            },
+            subject: {
+              type: "string",
+              description: "Subject template, e.g. \"Your {{plan}} renewal\" (required for a new merge)"
+            },
+            text: {
+              type: "string",
+              description: "Plain text body template with {{column}} placeholders (required for a new merge)"
+            },
+            html: {
+              type: "string",
+              description: "HTML body template with {{column}} placeholders; values are HTML-escaped (optional)"
+            },
+            personalizePrompt: {
+              type: "string",
+              description: "Prompt with {{column}} placeholders sent to Gemini for each row; the reply fills the {{personalized}} placeholder (optional)"
+            },
+            previewCount: {
+              type: "integer",
+              description: "Messages rendered in the dry-run preview, 1-20 (optional, default 3)"
+            },
+            fromName: {
+              type: "string",
+              description: "Display name shown for the sender (optional)"
+            },
+            replyTo: {
+              type: "string",
+              description: "Reply-To address (optional)"
+            },
+            profile: {
+              type: "string",
+              description: "Name of the mail profile to send with (optional, defaults to MAIL_PROFILE or the SMTP settings in the environment)"
+            },
+            ratePerMinute: {
+              type: "number",
+              description: "Most messages sent per minute (optional, default 60)"
+            },
+            maxMessages: {
+              type: "integer",
+              description: "Most messages sent in this call, up to 500; the rest stay pending (optional, default 25)"
+            },
+            ...modelOverrideProperties
           }
         }
-        
-        console.error(`Generated subject: "${generatedSubject}"`);
-        
-        // Check if email credentials are set
-        const emailUser = process.env.NODEMAILER_EMAIL;
-        const emailPass = process.env.NODEMAILER_PASSWORD;
-        
-        if (!emailUser || !emailPass) {
-          throw new Error('Email credentials (NODEMAILER_EMAIL and NODEMAILER_PASSWORD) are not set in environment variables');
+      },
+      {
+        name: "usage-stats",
+        description: "Report model usage: calls, tokens, latency, retries and cache hits per tool and model, plus the current rate limiter state",
+        inputSchema: {
+          type: "object",
+          properties: {
+            since: {
+              type: "string",
+              description: "Only count calls made from this ISO 8601 time on (optional, default all recorded calls)"
+            },
+            tool: {
+              type: "string",
+              enum: [...MODEL_TOOLS],
+              description: "Only count calls made by this tool (optional)"
+            },
+            recent: {
+              type: "integer",
+              description: "Most recent calls listed, 0-100 (optional, default 10)"
+            }
+          }
         }
+      }
+    ],
+  };
+});
+
+// Handle tool execution
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+
+  try {
+    switch (name) {
+      case "generate-thinking": {
+        const { prompt, outputDir: customOutputDir, ...overrides } = GenerateThinkingSchema.parse(args);
+        const thinkingDir = workspace.outputDirectory(customOutputDir, 'thinking');
+        const thinkingModel = modelFor('generate-thinking', overrides);
         
-        // Configure email transporter
-        const transporter = nodemailer.createTransport({
-          host: 'smtp.gmail.com',
-          port: 587,
-          secure: false,
-          auth: {
-            user: emailUser,
-            pass: emailPass,
-          },
-        });
+        // Generate content with Gemini
+        console.error(`Sending prompt to ${thinkingModel.model}: "${prompt}"`);
+        const responseText = await thinkingModel.generate(prompt);
         
-        // Prepare attachments from images
-        const attachments = images
-          .map((image, index) => {
-            const matches = image.data.match(/^data:(.+);base64,(.+)$/);
-            if (matches) {
-              const [, type, base64Data] = matches;
-              return {
-                filename: image.name,
-                content: base64Data,
-                encoding: 'base64' as const,
-                cid: `image${index}`,
-                contentType: type
-              };
-            }
-            return null;
-          })
-          .filter((attachment): attachment is {
-            filename: string;
-            content: string;
-            encoding: 'base64';
-            cid: string;
-            contentType: string;
-          } => attachment !== null);
+        console.error(`Received response from Gemini (${responseText.length} chars)`);
         
-        // Define the email options with improved HTML formatting
-        // Create a professionally formatted HTML version if only text was provided
-        let htmlContent = html;
-        if (!htmlContent && text) {
-          // Convert plain text to professional HTML with styling
-          htmlContent = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${generatedSubject}</title>
-  <style>
-    body {
-      font-family: Arial, sans-serif;
-      line-height: 1.6;
-      color: #333;
-      max-width: 650px;
-      margin: 0 auto;
-      padding: 20px;
-    }
-    .header {
-      border-bottom: 2px solid #4169E1;
-      padding-bottom: 10px;
-      margin-bottom: 20px;
-    }
-    .header h1 {
-      color: #4169E1;
-      font-size: 24px;
-      margin: 0;
-    }
-    .content {
-      padding: 15px 0;
-    }
-    .footer {
-      margin-top: 30px;
-      padding-top: 10px;
-      border-top: 1px solid #eee;
-      font-size: 12px;
-      color: #777;
-    }
-    p {
-      margin: 0 0 15px;
-    }
-  </style>
-</head>
-<body>
-  <div class="header">
-    <h1>${generatedSubject}</h1>
+        // Save the response to a file in the run's own folder
+        const { runId, directory: saveDir } = workspace.createRun(thinkingDir);
+        const filename = `gemini_thinking_${runId}.txt`;
+        const filePath = path.join(saveDir, filename);
+        fs.writeFileSync(filePath, responseText);
+        console.error(`Saved response to: ${filePath}`);
+        notifyRunsChanged();
+
+        // Markdown to HTML; raw HTML in the response is escaped
+        const htmlResponse = renderMarkdown(responseText);
+
+        // Wrap the response in a styled div
+        const styledHtmlResponse = `
+<div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; line-height: 1.5; color: #333;">
+  <div style="background-color: #f0f8ff; padding: 15px; border-radius: 8px; margin-bottom: 20px; border-left: 5px solid #4169e1;">
+    <h2 style="margin-top: 0; color: #4169e1;">Gemini Thinking Response</h2>
+    <p style="font-style: italic; color: #666;">Generated based on prompt: "${escapeHtml(prompt)}"</p>
   </div>
-  <div class="content">
-    ${text.split('\n').map(line => `<p>${line}</p>`).join('')}
+
+  <div style="background-color: white; padding: 20px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+    ${htmlResponse}
   </div>
-  <div class="footer">
-    <p>This email was sent using Gemini Email Subject Generator</p>
+  
+  <div style="background-color: #f5f5f5; padding: 10px; border-radius: 8px; margin-top: 20px; font-size: 0.9em; color: #666;">
+    <p>Model: ${escapeHtml(thinkingModel.model)}</p>
+    <p>Response saved to: ${escapeHtml(filePath)}</p>
+    <p>Resource: ${runUri('thinking', runId, undefined, runFolder(workspace.outputRoot, 'thinking', runId, saveDir))}</p>
   </div>
-</body>
-</html>`;
-        }
-        
-        const mailOptions: nodemailer.SendMailOptions = {
-          from: emailUser,
-          to,
-          subject: generatedSubject,
-          text,
-          html: htmlContent || text,
-          attachments
+</div>`;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: styledHtmlResponse,
+            },
+          ],
         };
-        
-        try {
-          // Send the email
-          console.error(`Sending email to ${to}`);
-          const info: SentMessageInfo = await transporter.sendMail(mailOptions);
-          console.error(`Email sent, message ID: ${info.messageId}`);
-          
+      }
+
+      case "send-email": {
+        // Compose into the outbox and send right away; transient failures stay queued for a retry
+        const email = await composeEmail(SendEmailSchema.parse(args), 'send-email');
+        const draft = await outbox.createDraft(email.mailOptions, email.summary);
+        const item = await outbox.deliver(draft.draftId);
+        const toList = item.to.join(', ');
+
+        if (item.status === 'sent') {
+          console.error(`Email sent, message ID: ${item.messageId}${item.file ? `, written to ${item.file}` : ''}`);
           return {
             content: [
               {
@@ -450,9 +1263,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   </div>
   
   <div style="padding: 10px; background-color: white; border-radius: 5px; margin-bottom: 15px;">
-    <p><strong>To:</strong> ${to}</p>
-    <p><strong>Subject:</strong> "${generatedSubject}"</p>
-    <p><strong>Message ID:</strong> ${info.messageId}</p>
+    ${renderDraftDetails(item)}
+    ${item.file ? `<p><strong>Written To:</strong> ${item.file}</p>` : ''}
   </div>
   
   <div style="background-color: #f0f0f0; padding: 10px; border-radius: 5px; border-left: 3px solid #4CAF50;">
@@ -463,200 +1275,299 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               }
             ]
           };
-        } catch (error) {
-          console.error(`Error sending email:`, error);
+        }
+
+        if (item.status === 'queued') {
           return {
             content: [
               {
                 type: "text",
-                text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #fff0f0; max-width: 600px; margin: 0 auto;">
-  <div style="background-color: #f44336; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
-    <h2 style="margin: 0; font-size: 18px;">❌ Email Sending Failed</h2>
+                text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #fffaf0; max-width: 600px; margin: 0 auto;">
+  <div style="background-color: #ff9800; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">⏳ Email Queued for Retry</h2>
   </div>
   
-  <div style="padding: 15px; background-color: white; border-radius: 5px;">
-    <p><strong>Error:</strong> ${error instanceof Error ? error.message : String(error)}</p>
-    <p>Please check your email credentials and try again.</p>
+  <div style="padding: 10px; background-color: white; border-radius: 5px; margin-bottom: 15px;">
+    ${renderDraftDetails(item)}
+    <p><strong>Error:</strong> ${escapeHtml(item.lastError ?? '')}</p>
+    <p><strong>Next Attempt:</strong> ${item.sendAt} (attempt ${item.attempts + 1} of ${MAX_SEND_ATTEMPTS})</p>
+  </div>
+  
+  <div style="background-color: #f0f0f0; padding: 10px; border-radius: 5px; border-left: 3px solid #ff9800;">
+    <p>The mail server could not be reached. The message is kept in the outbox and retried automatically; use list-outbox to follow it.</p>
   </div>
 </div>`
               }
             ]
           };
         }
-      }
 
-      case "analyze-data": {
-        const { fileData, fileName, analysisType, outputDir: customOutputDir } = AnalyzeDataSchema.parse(args);
-        const saveDir = customOutputDir ? path.resolve(customOutputDir) : path.join(outputDir, 'analysis');
-        
-        // Create directory if it doesn't exist
-        if (!fs.existsSync(saveDir)) {
-          fs.mkdirSync(saveDir, { recursive: true });
-        }
+        console.error(`Error sending email to ${toList}: ${item.lastError}`);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #fff0f0; max-width: 600px; margin: 0 auto;">
+  <div style="background-color: #f44336; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">❌ Email Sending Failed</h2>
+  </div>
+  
+  <div style="padding: 15px; background-color: white; border-radius: 5px;">
+    <p><strong>Error:</strong> ${escapeHtml(item.lastError ?? '')}</p>
+    <p><strong>Draft ID:</strong> ${item.draftId}</p>
+    <p>Please check your email credentials and try again with send-draft.</p>
+  </div>
+</div>`
+            }
+          ]
+        };
+      }
 
-        // Decode base64 data
-        const buffer = Buffer.from(fileData, 'base64');
-        const tempFilePath = path.join(saveDir, fileName);
-        fs.writeFileSync(tempFilePath, buffer);
-
-        // Read and parse the file
-        let data: DataRow[];
-        if (fileName.endsWith('.csv')) {
-          const csvContent = fs.readFileSync(tempFilePath, 'utf-8');
-          const parseResult = Papa.parse(csvContent, { header: true });
-          data = parseResult.data as DataRow[];
-        } else {
-          const workbook = XLSX.readFile(tempFilePath);
-          const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-          data = XLSX.utils.sheet_to_json(firstSheet) as DataRow[];
-        }
+      case "generate-subject": {
+        const { subjectPrompt, lockedSubject, model: modelName, temperature, cache, ...options } = GenerateSubjectSchema.parse(args);
+        const result = lockedSubject
+          ? lockSubject(lockedSubject)
+          : await generateSubjects(modelFor('generate-subject', { model: modelName, temperature, cache }), subjectPrompt!, options);
 
-        // Generate basic statistics
-        const numericColumns = Object.keys(data[0]).filter(col => 
-          typeof data[0][col] === 'number'
-        );
-        
-        const statistics: Statistics = {
-          rowCount: data.length,
-          columnCount: Object.keys(data[0]).length,
-          numericStats: {},
-          categoricalStats: {}
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9; max-width: 700px; margin: 0 auto;">
+  <div style="background-color: #4169e1; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">✉️ Subject ${result.variants.length > 1 ? 'Variants' : 'Line'}${result.locked ? ' (locked)' : ''}</h2>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px; margin-bottom: 15px;">
+    <ol>
+      ${result.variants.map(variant => `<li dir="auto"><strong>${escapeHtml(variant.subject)}</strong> <small>(${variant.length} characters)</small><br><em>${escapeHtml(variant.rationale)}</em></li>`).join('\n      ')}
+    </ol>
+    ${result.locked ? '' : `<p><strong>Tone:</strong> ${options.tone} | <strong>Language:</strong> ${escapeHtml(options.language)} | <strong>Max Length:</strong> ${options.maxLength}</p>`}
+    ${result.valid ? '' : `<p><em>The generated variants did not meet the requirements after ${result.attempts - 1} attempts (${escapeHtml(result.errors.join('; '))}), so a fallback subject is shown.</em></p>`}
+  </div>
+</div>`
+            },
+            {
+              // Machine-readable variants for A/B test setups
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
         };
+      }
 
-        // Calculate numeric statistics
-        for (const col of numericColumns) {
-          const values = data.map((row: DataRow) => Number(row[col])).filter(val => !isNaN(val));
-          const sorted = [...values].sort((a, b) => a - b);
-          const mean = values.reduce((a, b) => a + b, 0) / values.length;
-          const median = sorted.length % 2 === 0 
-            ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
-            : sorted[Math.floor(sorted.length / 2)];
-          const variance = values.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / values.length;
-          const std = Math.sqrt(variance);
-
-          statistics.numericStats[col] = {
-            mean,
-            median,
-            std,
-            min: Math.min(...values),
-            max: Math.max(...values)
-          };
-        }
+      case "draft-email": {
+        const email = await composeEmail(SendEmailSchema.parse(args), 'draft-email');
+        const item = await outbox.createDraft(email.mailOptions, email.summary);
+        console.error(`Saved draft ${item.draftId} to the outbox`);
 
-        // Generate visualizations
-        const timestamp = Date.now();
-        const plotsDir = path.join(saveDir, 'plots');
-        if (!fs.existsSync(plotsDir)) {
-          fs.mkdirSync(plotsDir);
-        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9; max-width: 700px; margin: 0 auto;">
+  <div style="background-color: #4169e1; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">📝 Email Draft Saved (not sent)</h2>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px; margin-bottom: 15px;">
+    <p><strong>Draft ID:</strong> ${item.draftId}</p>
+    ${renderDraftDetails(item)}
+    <p><strong>MIME Message:</strong> ${path.join(outbox.directory, `${item.draftId}.eml`)}</p>
+    <p><strong>HTML Preview:</strong> ${path.join(outbox.directory, `${item.draftId}.html`)}</p>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px; margin-bottom: 15px; border-left: 3px solid #4169e1;">
+    <pre style="white-space: pre-wrap; font-family: inherit;">${escapeHtml(String(email.mailOptions.text ?? ''))}</pre>
+  </div>
+  
+  <div style="background-color: #f0f0f0; padding: 10px; border-radius: 5px; border-left: 3px solid #4169e1;">
+    <p>Check the subject and content, then call send-draft with draftId "${item.draftId}" to send it now or at a scheduled time.</p>
+  </div>
+</div>`
+            }
+          ]
+        };
+      }
 
-        // Create plots for numeric columns
-        const plots: string[] = [];
-        for (const col of numericColumns) {
-          const values = data.map((row: DataRow) => Number(row[col])).filter(val => !isNaN(val));
-          
-          // Create histogram data
-          const min = Math.min(...values);
-          const max = Math.max(...values);
-          const binCount = Math.min(20, Math.floor(Math.sqrt(values.length)));
-          const binWidth = (max - min) / binCount;
-          const bins = Array.from({ length: binCount }, (_, i) => min + i * binWidth);
-          const counts = Array(binCount).fill(0);
-          
-          values.forEach(val => {
-            const binIndex = Math.min(binCount - 1, Math.floor((val - min) / binWidth));
-            counts[binIndex]++;
-          });
-
-          // Create HTML file with embedded Chart.js
-          const chartHtml = `
-<!DOCTYPE html>
-<html>
-<head>
-  <title>Distribution of ${col}</title>
-  <script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
-  <style>
-    .chart-container {
-      width: 800px;
-      height: 400px;
-      margin: 20px auto;
-    }
-  </style>
-</head>
-<body>
-  <div class="chart-container">
-    <canvas id="chart"></canvas>
-  </div>
-  <script>
-    new Chart(document.getElementById('chart'), {
-      type: 'bar',
-      data: {
-        labels: ${JSON.stringify(bins.map(b => b.toFixed(2)))},
-        datasets: [{
-          label: '${col} Distribution',
-          data: ${JSON.stringify(counts)},
-          backgroundColor: 'rgba(54, 162, 235, 0.5)',
-          borderColor: 'rgba(54, 162, 235, 1)',
-          borderWidth: 1
-        }]
-      },
-      options: {
-        responsive: true,
-        scales: {
-          x: {
-            title: {
-              display: true,
-              text: '${col}'
+      case "send-draft": {
+        const { draftId, sendAt } = SendDraftSchema.parse(args);
+        const scheduledFor = sendAt ? new Date(sendAt) : undefined;
+        const item = scheduledFor && scheduledFor.getTime() > Date.now()
+          ? outbox.schedule(draftId, scheduledFor)
+          : await outbox.deliver(draftId);
+        const heading = {
+          scheduled: ['#4169e1', `🕒 Email Scheduled for ${item.sendAt}`],
+          sent: ['#4CAF50', '✅ Email Successfully Sent'],
+          queued: ['#ff9800', '⏳ Email Queued for Retry'],
+          failed: ['#f44336', '❌ Email Sending Failed']
+        }[item.status as 'scheduled' | 'sent' | 'queued' | 'failed'];
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9; max-width: 600px; margin: 0 auto;">
+  <div style="background-color: ${heading[0]}; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">${heading[1]}</h2>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px; margin-bottom: 15px;">
+    <p><strong>Draft ID:</strong> ${item.draftId}</p>
+    ${renderDraftDetails(item)}
+    ${item.file ? `<p><strong>Written To:</strong> ${item.file}</p>` : ''}
+    ${item.lastError && item.status !== 'sent' ? `<p><strong>Error:</strong> ${escapeHtml(item.lastError)}</p>` : ''}
+    ${item.status === 'queued' ? `<p><strong>Next Attempt:</strong> ${item.sendAt} (attempt ${item.attempts + 1} of ${MAX_SEND_ATTEMPTS})</p>` : ''}
+  </div>
+</div>`
             }
-          },
-          y: {
-            title: {
-              display: true,
-              text: 'Count'
-            },
-            beginAtZero: true
-          }
-        },
-        plugins: {
-          title: {
-            display: true,
-            text: 'Distribution of ${col}',
-            font: {
-              size: 16
+          ]
+        };
+      }
+
+      case "list-outbox": {
+        const { status, limit } = ListOutboxSchema.parse(args);
+        const items = outbox.list()
+          .filter(item => status === 'all' || (status === 'pending' ? PENDING_STATUSES.includes(item.status) : item.status === status))
+          .reverse()
+          .slice(0, limit);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9;">
+  <div style="background-color: #4169e1; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">📤 Outbox: ${items.length} ${status === 'all' ? '' : `${status} `}message(s)</h2>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px;">
+    ${items.length ? `<table style="border-collapse: collapse; width: 100%;">
+      <tr>${['Draft ID', 'Status', 'Subject', 'To', 'Created', 'Send At', 'Attempts', 'Last Error'].map(header => `<th style="border: 1px solid #ddd; padding: 6px; text-align: left;">${header}</th>`).join('')}</tr>
+      ${items.map(item => `<tr>${[
+        item.draftId,
+        item.status,
+        escapeHtml(item.subject),
+        escapeHtml(item.to.join(', ')),
+        item.createdAt,
+        item.sendAt ?? '',
+        String(item.attempts),
+        escapeHtml(item.lastError ?? '')
+      ].map(cell => `<td style="border: 1px solid #ddd; padding: 6px;">${cell}</td>`).join('')}</tr>`).join('\n      ')}
+    </table>` : '<p>Nothing in the outbox.</p>'}
+  </div>
+</div>`
             }
-          }
-        }
+          ]
+        };
       }
-    });
-  </script>
-</body>
-</html>`;
 
-          const plotPath = path.join(plotsDir, `${col}_histogram_${timestamp}.html`);
-          fs.writeFileSync(plotPath, chartHtml);
-          plots.push(plotPath);
+      case "analyze-data": {
+        const { fileData, filePath, datasetId, fileName: providedFileName, analysisType, outputDir: customOutputDir, sheet, allSheets, streaming, charts, timeSeries, model: modelName, temperature, cache } = AnalyzeDataSchema.parse(args);
+        const dataset: DatasetInfo | undefined = datasetId ? datasets.get(datasetId) : undefined;
+        const fileName = providedFileName ?? (dataset ? dataset.name : path.basename(filePath!));
+        const analysisDir = workspace.outputDirectory(customOutputDir, 'analysis');
+
+        // Read local files and registered datasets in place; base64 uploads go to a
+        // temporary copy that is removed once the rows are read
+        const source = dataset
+          ? { path: dataset.file, remove: () => {} }
+          : filePath
+            ? { path: workspace.input(filePath, ['datasets']), remove: () => {} }
+            : workspace.saveUpload(fileName, Buffer.from(fileData!, 'base64'));
+        let sheets: LoadedSheet[];
+        let profiles: DatasetProfile[];
+        try {
+          // Large CSV files are profiled in one streaming pass with bounded memory, except
+          // for time series, which need every row
+          const isCsv = source.path.toLowerCase().endsWith('.csv');
+          const useStreaming = isCsv && analysisType !== 'timeseries' && (streaming ?? fs.statSync(source.path).size > STREAMING_THRESHOLD_BYTES);
+
+          // Read and parse the file (one entry per selected sheet); datasets are named
+          // after the dataset rather than their CSV file
+          sheets = useStreaming ? [] : loadSheets(source.path, { sheet, allSheets })
+            .map(loaded => dataset ? { ...loaded, name: dataset.name } : loaded);
+          profiles = useStreaming
+            ? [await profileCsvFile(fileName, source.path)]
+            : sheets.filter(s => s.data.length > 0).map(s => profileData(s.name, s.data));
+        } finally {
+          source.remove();
+        }
+        if (profiles.length === 0 || profiles[0].statistics.rowCount === 0) {
+          throw new Error(`No data rows found in ${fileName}`);
         }
+        const multiSheet = allSheets && profiles.length > 1;
+        const joinKeys = multiSheet ? detectJoinKeys(profiles) : [];
+        const qualityReports = profiles.map(profile => assessQuality(profile));
+        // Sheets without a usable time series are skipped with the reason
+        const { reports: timeSeriesReports, skipped: timeSeriesSkipped } = analysisType === 'timeseries'
+          ? analyzeSheetTimeSeries(profiles, timeSeries ?? {}, fileName)
+          : { reports: [], skipped: [] };
+
+        // Each run gets its own folder, named by its run id
+        const { runId, directory: saveDir } = workspace.createRun(analysisDir);
+        const timestamp = Number(runId);
+
+        // Generate visualizations
+        const plotsDir = path.join(saveDir, 'plots');
+        fs.mkdirSync(plotsDir);
+        // Time-series charts come first, so they are among the images returned
+        const sheetCharts = profiles.map((profile, index) => uniqueChartIds([
+          ...(timeSeriesReports[index] ? buildTimeSeriesCharts(timeSeriesReports[index]!) : []),
+          ...buildCharts(profile, charts)
+        ]));
+        const plotPaths = sheetCharts.flatMap((charts, index) =>
+          writeCharts(charts, plotsDir, timestamp, multiSheet ? `sheet${index + 1}_` : '')
+        );
 
         // Use Gemini to analyze the data
-        const analysisPrompt = `Analyze this dataset with ${data.length} rows and ${Object.keys(data[0]).length} columns.
+        const datasetDescription = multiSheet
+          ? `Analyze this workbook with ${profiles.length} sheets.
         
-        Basic statistics:
-        ${JSON.stringify(statistics, null, 2)}
+        ${profiles.map((profile, index) => `Sheet "${profile.name}" (${profile.statistics.rowCount} rows, ${profile.statistics.columnCount} columns):
+        ${describeProfile(profile)}
+        Data quality findings:
+        ${describeQuality(qualityReports[index])}${timeSeriesReports[index] ? `
+        Time-series findings:
+        ${describeTimeSeries(timeSeriesReports[index]!)}` : ''}`).join('\n\n        ')}
         
-        Please provide:
-        1. Key insights from the data
-        2. Patterns and trends
-        3. Potential anomalies
-        4. Recommendations for further analysis
+        Likely join keys between sheets:
+        ${describeJoinKeys(joinKeys)}${timeSeriesSkipped.length ? `
         
-        ${analysisType === 'detailed' ? 'Please provide a detailed analysis with specific examples and correlations.' : 'Keep the analysis concise and focused on the most important findings.'}`;
-
-        const result = await model.generateContent(analysisPrompt);
-        const analysisText = result.response.text();
+        Sheets without a time series: ${timeSeriesSkipped.map(sheet => `"${sheet.dataset}" (${sheet.reason})`).join('; ')}` : ''}`
+          : `Analyze this dataset with ${profiles[0].statistics.rowCount} rows and ${profiles[0].statistics.columnCount} columns.
+        
+        ${describeProfile(profiles[0])}
+        
+        Data quality findings:
+        ${describeQuality(qualityReports[0])}${timeSeriesReports[0] ? `
+        
+        Time-series findings:
+        ${describeTimeSeries(timeSeriesReports[0])}` : ''}`;
+        // Ask for structured findings, validated against the insights schema
+        const allColumns = [...new Set(profiles.flatMap(profile => profile.columns))];
+        const analysis = await generateInsights(modelFor('analyze-data', { model: modelName, temperature, cache }), buildInsightsPrompt(datasetDescription, analysisType), allColumns);
 
         // Save analysis results
-        const analysisPath = path.join(saveDir, `analysis_${timestamp}.txt`);
-        fs.writeFileSync(analysisPath, analysisText);
+        const analysisPath = path.join(saveDir, `analysis_${timestamp}.json`);
+        fs.writeFileSync(analysisPath, JSON.stringify({
+          valid: analysis.valid,
+          attempts: analysis.attempts,
+          ...(analysis.valid ? {} : { errors: analysis.errors, raw: analysis.raw }),
+          insights: analysis.value
+        }, null, 2));
+        const qualityPath = path.join(saveDir, `quality_${timestamp}.json`);
+        fs.writeFileSync(qualityPath, JSON.stringify({ file: fileName, datasets: qualityReports }, null, 2));
+        const timeSeriesPath = analysisType === 'timeseries' ? path.join(saveDir, `timeseries_${timestamp}.json`) : undefined;
+        if (timeSeriesPath) {
+          fs.writeFileSync(timeSeriesPath, JSON.stringify({ file: fileName, datasets: timeSeriesReports.filter(report => report), skipped: timeSeriesSkipped }, null, 2));
+        }
+        const statisticsPath = path.join(saveDir, `statistics_${timestamp}.json`);
+        fs.writeFileSync(statisticsPath, JSON.stringify({
+          file: fileName,
+          datasets: profiles.map(profile => ({ name: profile.name, statistics: profile.statistics })),
+          ...(multiSheet ? { joinKeys } : {})
+        }, null, 2));
 
         // Create HTML report
         const htmlReport = `
@@ -664,38 +1575,46 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 <html>
 <head>
   <title>Data Analysis Report</title>
-  <style>
-    body { font-family: Arial, sans-serif; margin: 20px; }
-    .container { max-width: 1200px; margin: 0 auto; }
-    .stats { background: #f5f5f5; padding: 20px; border-radius: 5px; }
-    .plots { display: grid; grid-template-columns: repeat(auto-fit, minmax(400px, 1fr)); gap: 20px; }
-    .plot { border: 1px solid #ddd; padding: 10px; }
+  <style>${REPORT_STYLES}
   </style>
 </head>
 <body>
   <div class="container">
     <h1>Data Analysis Report</h1>
-    <h2>Dataset Information</h2>
+    ${multiSheet ? `
+    <h2>Workbook Overview</h2>
     <div class="stats">
-      <p>Rows: ${statistics.rowCount}</p>
-      <p>Columns: ${statistics.columnCount}</p>
-      <h3>Numeric Statistics</h3>
-      <pre>${JSON.stringify(statistics.numericStats, null, 2)}</pre>
+      <p>Sheets analyzed: ${profiles.map(profile => `${escapeHtml(profile.name)} (${profile.statistics.rowCount} rows)`).join(', ')}</p>
+      ${sheets.length > profiles.length ? `<p>Empty sheets skipped: ${escapeHtml(sheets.filter(s => s.data.length === 0).map(s => s.name).join(', '))}</p>` : ''}
+      ${renderSkippedTimeSeries(timeSeriesSkipped)}
+      <h3>Likely Join Keys</h3>
+      <table class="schema">
+        <tr><th>Left</th><th>Right</th><th>Shared values</th><th>Containment</th><th>Relationship</th></tr>
+        ${joinKeys.map(key => `
+        <tr><td>${escapeHtml(`${key.leftSheet}.${key.leftColumn}`)}</td><td>${escapeHtml(`${key.rightSheet}.${key.rightColumn}`)}</td><td>${key.sharedValues}</td><td>${(key.containment * 100).toFixed(1)}%</td><td>${key.relationship}</td></tr>`).join('')}
+      </table>
     </div>
     
     <h2>AI Analysis</h2>
-    <div class="analysis">
-      ${analysisText.split('\n').map(line => `<p>${line}</p>`).join('')}
-    </div>
+    ${renderInsightsSection(analysis)}
+    ${profiles.map((profile, index) => `
+    <section class="sheet">
+      <h1>Sheet: ${escapeHtml(profile.name)}</h1>
+      ${renderProfileSection(profile)}
+      ${renderQualitySection(qualityReports[index])}
+      ${timeSeriesReports[index] ? renderTimeSeriesSection(timeSeriesReports[index]!) : ''}
+      <h2>Visualizations</h2>
+      ${renderPlotsSection(sheetCharts[index])}
+    </section>`).join('')}` : `
+    ${renderProfileSection(profiles[0])}
+    ${renderQualitySection(qualityReports[0])}
+    ${timeSeriesReports[0] ? renderTimeSeriesSection(timeSeriesReports[0]) : ''}
+    
+    <h2>AI Analysis</h2>
+    ${renderInsightsSection(analysis)}
     
     <h2>Visualizations</h2>
-    <div class="plots">
-      ${plots.map(plot => `
-        <div class="plot">
-          <iframe src="${path.relative(saveDir, plot)}" width="100%" height="400px"></iframe>
-        </div>
-      `).join('')}
-    </div>
+    ${renderPlotsSection(sheetCharts[0])}`}
   </div>
 </body>
 </html>`;
@@ -703,6 +1622,33 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const reportPath = path.join(saveDir, `report_${timestamp}.html`);
         fs.writeFileSync(reportPath, htmlReport);
 
+        // Manifest tying the run's files together, so tools like email-report can find them by run id
+        const manifest: RunManifest = {
+          runId,
+          createdAt: new Date(timestamp).toISOString(),
+          file: fileName,
+          analysisType,
+          report: reportPath,
+          analysis: analysisPath,
+          quality: qualityPath,
+          statistics: statisticsPath,
+          ...(timeSeriesPath ? { timeSeries: timeSeriesPath } : {}),
+          plots: plotPaths
+        };
+        const manifestPath = path.join(saveDir, `run_${runId}.json`);
+        fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+        notifyRunsChanged();
+        const resourceUri = (artifact: string) => runUri('analysis', runId, artifact, runFolder(workspace.outputRoot, 'analysis', runId, saveDir));
+        const totalRows = profiles.reduce((sum, profile) => sum + profile.statistics.rowCount, 0);
+        const totalColumns = profiles.reduce((sum, profile) => sum + profile.statistics.columnCount, 0);
+
+        // Rasterize the first charts so the client can show them in the conversation
+        const chartImages = sheetCharts.flat().slice(0, MAX_IMAGE_CONTENT).map(chart => ({
+          type: "image" as const,
+          data: svgToPng(chart.svg).toString('base64'),
+          mimeType: "image/png"
+        }));
+
         return {
           content: [
             {
@@ -713,23 +1659,377 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   </div>
   
   <div style="padding: 15px; background-color: white; border-radius: 5px; margin-bottom: 15px;">
-    <p><strong>File Analyzed:</strong> ${fileName}</p>
+    <p><strong>File Analyzed:</strong> ${escapeHtml(fileName)}</p>
     <p><strong>Analysis Type:</strong> ${analysisType}</p>
-    <p><strong>Rows Processed:</strong> ${statistics.rowCount}</p>
-    <p><strong>Columns Analyzed:</strong> ${statistics.columnCount}</p>
+    <p><strong>Run ID:</strong> ${runId}</p>
+    ${multiSheet ? `<p><strong>Sheets Analyzed:</strong> ${escapeHtml(profiles.map(profile => profile.name).join(', '))}</p>` : ''}
+    <p><strong>Rows Processed:</strong> ${totalRows}</p>
+    <p><strong>Columns Analyzed:</strong> ${totalColumns}</p>
   </div>
   
   <div style="background-color: #f0f0f0; padding: 15px; border-radius: 5px; margin-bottom: 15px;">
     <h3 style="margin-top: 0;">Output Files:</h3>
     <ul>
-      <p>📊 HTML Report: ${reportPath}</p>
-      <p>📝 Analysis Text: ${analysisPath}</p>
-      <p>📈 Generated Plots: ${plotsDir}</p>
+      <p>📊 HTML Report: ${escapeHtml(reportPath)}</p>
+      <p>📝 Analysis (JSON): ${escapeHtml(analysisPath)}</p>
+      <p>🔍 Data Quality (JSON): ${escapeHtml(qualityPath)}</p>
+      <p>🧮 Statistics (JSON): ${escapeHtml(statisticsPath)}</p>
+      ${timeSeriesPath ? `<p>📉 Time Series (JSON): ${escapeHtml(timeSeriesPath)}</p>` : ''}
+      <p>🗂️ Run Manifest: ${escapeHtml(manifestPath)}</p>
+      <p>📈 Generated Plots: ${escapeHtml(plotsDir)}</p>
     </ul>
+    <p>Clients on another machine can read the run as MCP resources: ${resourceUri('report')}, ${resourceUri('statistics')} and the charts listed in ${resourceUri('manifest')}.</p>
   </div>
   
   <div style="border-left: 3px solid #4CAF50; padding-left: 15px; margin-top: 15px;">
-    <p>The analysis has been saved to the specified directory. Open the HTML report for an interactive view of the results.</p>
+    <p>The analysis has been saved to the specified directory. The HTML report is a single self-contained file with all charts embedded.</p>
+  </div>
+</div>`
+            },
+            {
+              // Machine-readable findings and statistics for downstream agents
+              type: "text",
+              text: JSON.stringify({
+                file: fileName,
+                runId,
+                analysisType,
+                analysis: analysis.value,
+                analysisValid: analysis.valid,
+                ...(analysis.valid ? {} : { analysisErrors: analysis.errors }),
+                datasets: profiles.map((profile, index) => ({
+                  name: profile.name,
+                  statistics: profile.statistics,
+                  quality: qualityReports[index],
+                  ...(timeSeriesReports[index] ? { timeSeries: timeSeriesReports[index] } : {})
+                })),
+                ...(multiSheet ? { joinKeys } : {}),
+                ...(timeSeriesSkipped.length ? { timeSeriesSkipped } : {}),
+                outputs: { report: reportPath, analysis: analysisPath, quality: qualityPath, statistics: statisticsPath, ...(timeSeriesPath ? { timeSeries: timeSeriesPath } : {}), manifest: manifestPath, plots: plotsDir },
+                resources: {
+                  report: resourceUri('report'),
+                  insights: resourceUri('insights'),
+                  quality: resourceUri('quality'),
+                  statistics: resourceUri('statistics'),
+                  ...(timeSeriesPath ? { timeSeries: resourceUri('timeseries') } : {}),
+                  manifest: resourceUri('manifest'),
+                  plots: plotPaths.map(plot => resourceUri(`plots/${path.basename(plot)}`))
+                }
+              }, null, 2)
+            },
+            ...chartImages
+          ]
+        };
+      }
+
+      case "load-dataset": {
+        const { filePath, fileData, fileName: providedFileName, sheet, allSheets, name, previewRows: shownRows } = LoadDatasetSchema.parse(args);
+        const fileName = providedFileName ?? path.basename(filePath!);
+
+        const source = filePath
+          ? { path: workspace.input(filePath, ['datasets']), remove: () => {} }
+          : workspace.saveUpload(fileName, Buffer.from(fileData!, 'base64'));
+        let sheets: LoadedSheet[];
+        try {
+          sheets = loadSheets(source.path, { sheet, allSheets }).filter(loaded => loaded.data.length > 0);
+        } finally {
+          source.remove();
+        }
+        if (sheets.length === 0) {
+          throw new Error(`No data rows found in ${fileName}`);
+        }
+
+        // Workbook sheets are registered one dataset each, named after the sheet
+        const isCsv = fileName.toLowerCase().endsWith('.csv');
+        const loaded = sheets.map(loadedSheet => {
+          const table = { columns: collectColumns(loadedSheet.data), rows: loadedSheet.data };
+          const datasetName = isCsv ? (name ?? fileName) : `${name ?? fileName} [${loadedSheet.name}]`;
+          return { info: datasets.register(datasetName, table, { file: fileName, sheet: isCsv ? undefined : loadedSheet.name }), table };
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9;">
+  <div style="background-color: #4169e1; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">📥 Dataset${loaded.length > 1 ? 's' : ''} Loaded</h2>
+  </div>
+  ${loaded.map(({ info, table }) => `
+  <div style="padding: 10px; background-color: white; border-radius: 5px; margin-bottom: 10px;">
+    <p><strong>Dataset ID:</strong> ${info.id}</p>
+    <p><strong>Name:</strong> ${escapeHtml(info.name)}</p>
+    <p><strong>Size:</strong> ${info.rows} rows, ${info.columns.length} columns</p>
+    ${renderColumnsTable(info)}
+    <h3 style="font-size: 15px;">Preview</h3>
+    ${renderRowsTable(table, shownRows)}
+  </div>`).join('')}
+  <p style="font-size: 13px; color: #666;">Query with query-dataset, or analyze with analyze-data using the dataset id.</p>
+</div>`
+            },
+            {
+              type: "text",
+              text: JSON.stringify(loaded.map(({ info, table }) => ({ ...info, preview: previewRows(table, shownRows) })), null, 2)
+            }
+          ]
+        };
+      }
+
+      case "query-dataset": {
+        const { datasetId, steps, saveAs, save, previewRows: shownRows } = QueryDatasetSchema.parse(args);
+        const source = datasets.get(datasetId);
+        const result = runQuery(datasets.table(datasetId), steps, id => datasets.table(id));
+        const saved = save
+          ? datasets.register(saveAs ?? `${source.name} (query)`, result, { datasetId, steps: steps.map(describeStep) })
+          : undefined;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9;">
+  <div style="background-color: #4169e1; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">🔎 Query Result</h2>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px;">
+    <p><strong>Source:</strong> ${escapeHtml(source.name)} (${source.id}, ${source.rows} rows)</p>
+    <ol>
+      ${steps.map(step => `<li>${escapeHtml(describeStep(step))}</li>`).join('\n      ')}
+    </ol>
+    <p><strong>Result:</strong> ${result.rows.length} rows, ${result.columns.length} columns</p>
+    ${saved ? `<p><strong>Saved as:</strong> ${escapeHtml(saved.name)} (dataset ID ${saved.id})</p>` : ''}
+    ${renderRowsTable(result, shownRows)}
+  </div>
+</div>`
+            },
+            {
+              type: "text",
+              text: JSON.stringify({
+                source: datasetId,
+                steps: steps.map(describeStep),
+                rows: result.rows.length,
+                columns: result.columns,
+                dataset: saved,
+                preview: previewRows(result, shownRows)
+              }, null, 2)
+            }
+          ]
+        };
+      }
+
+      case "list-datasets": {
+        const { limit } = ListDatasetsSchema.parse(args);
+        const all = datasets.list();
+        const shown = all.slice(0, limit);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9;">
+  <div style="background-color: #4169e1; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">🗂️ Datasets</h2>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px;">
+    ${shown.length ? `<table style="border-collapse: collapse; width: 100%;">
+      <tr>${['ID', 'Name', 'Rows', 'Columns', 'Origin', 'Created'].map(header => `<th style="border: 1px solid #ddd; padding: 6px; text-align: left;">${header}</th>`).join('')}</tr>
+      ${shown.map(info => `<tr>${[
+        info.id,
+        escapeHtml(info.name),
+        String(info.rows),
+        String(info.columns.length),
+        escapeHtml(info.source.datasetId ? `query of ${info.source.datasetId}` : [info.source.file, info.source.sheet].filter(Boolean).join(' / ')),
+        info.createdAt
+      ].map(cell => `<td style="border: 1px solid #ddd; padding: 6px;">${cell}</td>`).join('')}</tr>`).join('\n      ')}
+    </table>${all.length > shown.length ? `
+    <p><em>Showing ${shown.length} of ${all.length} datasets.</em></p>` : ''}` : '<p>No datasets registered yet. Load a file with load-dataset.</p>'}
+  </div>
+</div>`
+            },
+            {
+              type: "text",
+              text: JSON.stringify(shown.map(({ file, ...info }) => info), null, 2)
+            }
+          ]
+        };
+      }
+
+      case "ask-data": {
+        const { question, datasetId, filePath, fileData, fileName: providedFileName, sheet, chart: drawChart, saveAs, previewRows: shownRows, model: modelName, temperature, cache } = AskDataSchema.parse(args);
+
+        // A registered dataset, or the selected sheet of a file read for this question only
+        let name: string;
+        let table: Table;
+        if (datasetId) {
+          name = datasets.get(datasetId).name;
+          table = datasets.table(datasetId);
+        } else {
+          const fileName = providedFileName ?? path.basename(filePath!);
+          const source = filePath
+            ? { path: workspace.input(filePath, ['datasets']), remove: () => {} }
+            : workspace.saveUpload(fileName, Buffer.from(fileData!, 'base64'));
+          let loadedSheet: LoadedSheet;
+          try {
+            [loadedSheet] = loadSheets(source.path, { sheet });
+          } finally {
+            source.remove();
+          }
+          name = fileName;
+          table = { columns: collectColumns(loadedSheet.data), rows: loadedSheet.data };
+        }
+        if (table.rows.length === 0) {
+          throw new Error(`No data rows found in ${name}`);
+        }
+
+        const planned = await planQuestion(modelFor('ask-data', { model: modelName, temperature, cache }), question, name, table);
+        if (!planned.value) {
+          throw new Error(`Could not turn the question into a valid query plan after ${planned.attempts} attempts: ${planned.errors.join('; ')}`);
+        }
+        const plan = planned.value;
+        const result = runQuery(table, plan.steps, () => {
+          throw new Error('join steps are not available in ask-data');
+        });
+        const answer = summarizeAnswer(result);
+        const chart = drawChart && plan.chart ? renderAnswerChart(plan.chart, result, question) : null;
+        const saved = saveAs
+          ? datasets.register(saveAs, result, { ...(datasetId ? { datasetId } : { file: name }), steps: plan.steps.map(describeStep) })
+          : undefined;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9;">
+  <div style="background-color: #4169e1; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">❓ ${escapeHtml(question)}</h2>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px;">
+    <p><strong>Answer:</strong> ${escapeHtml(answer)}</p>
+    <p><strong>Interpretation:</strong> ${escapeHtml(plan.interpretation)}</p>
+    ${renderRowsTable(result, shownRows)}
+    <h3 style="font-size: 15px;">Query Plan</h3>
+    <p>Run on all ${table.rows.length} rows of ${escapeHtml(name)}${datasetId ? ` (${datasetId})` : ''}:</p>
+    <ol>
+      ${plan.steps.map(step => `<li>${escapeHtml(describeStep(step))}</li>`).join('\n      ')}
+    </ol>
+    ${saved ? `<p><strong>Saved as:</strong> ${escapeHtml(saved.name)} (dataset ID ${saved.id})</p>` : ''}
+  </div>
+</div>`
+            },
+            {
+              type: "text",
+              text: JSON.stringify({
+                question,
+                answer,
+                interpretation: plan.interpretation,
+                steps: plan.steps,
+                chart: plan.chart,
+                rows: result.rows.length,
+                columns: result.columns,
+                dataset: saved,
+                result: previewRows(result, shownRows),
+                planAttempts: planned.attempts
+              }, null, 2)
+            },
+            ...(chart ? [{
+              type: "image" as const,
+              data: svgToPng(chart.svg).toString('base64'),
+              mimeType: "image/png"
+            }] : [])
+          ]
+        };
+      }
+
+      case "email-report": {
+        const { reportPath, runId, outputDir: customOutputDir, to, cc, bcc, replyTo, fromName, instructions, maxCharts, attachReport, profile, draft, model: modelName, temperature, cache } = EmailReportSchema.parse(args);
+        const transport = mailer.get(profile);
+        const recipients = {
+          to: parseAddresses('to', to),
+          cc: parseAddresses('cc', cc),
+          bcc: parseAddresses('bcc', bcc),
+          replyTo: parseAddresses('replyTo', replyTo)
+        };
+        const [sender] = parseAddresses('from', transport.from);
+        const analysisDir = workspace.outputDirectory(customOutputDir, 'analysis');
+        const run = loadRun({
+          reportPath: reportPath ? workspace.input(reportPath, [analysisDir]) : undefined,
+          runId,
+          directory: analysisDir
+        });
+
+        // Email-safe report body with the charts as inline PNG images
+        const report = emailSafeReport(fs.readFileSync(workspace.input(run.report, [analysisDir]), 'utf8'), maxCharts);
+        const fileAttachments = loadAttachments([
+          ...(run.statistics ? [{ path: workspace.input(run.statistics, [analysisDir]), contentType: 'application/json' }] : []),
+          ...(attachReport ? [{ path: workspace.input(run.report, [analysisDir]), contentType: 'text/html' }] : [])
+        ], report.charts);
+
+        console.error(`Writing executive summary for run ${run.runId}`);
+        const written = await generateEmailSummary(modelFor('email-report', { model: modelName, temperature, cache }), run, instructions);
+        const summary = written.value ?? fallbackEmailSummary(run);
+        console.error(`Generated subject: "${summary.subject}"${written.valid ? '' : ' (fallback)'}`);
+
+        const mailOptions: nodemailer.SendMailOptions = {
+          from: fromName ? { name: fromName, address: sender.address } : transport.from,
+          to: recipients.to,
+          ...(recipients.cc.length ? { cc: recipients.cc } : {}),
+          ...(recipients.bcc.length ? { bcc: recipients.bcc } : {}),
+          ...(recipients.replyTo.length ? { replyTo: recipients.replyTo } : {}),
+          subject: summary.subject,
+          text: renderReportText(summary, run),
+          html: renderReportEmail(summary, report, run),
+          attachments: [...report.charts, ...fileAttachments]
+        };
+        // The report goes through the outbox like any other message: a draft waits for
+        // send-draft, and a transient failure stays queued for a retry
+        const saved = await outbox.createDraft(mailOptions, {
+          profile: transport.profile,
+          from: sender.address,
+          to: recipients.to.map(address => address.address),
+          cc: recipients.cc.map(address => address.address),
+          bcc: recipients.bcc.map(address => address.address),
+          attachments: fileAttachments.map(attachment => attachment.filename)
+        });
+        if (!draft) {
+          console.error(`Sending report ${run.runId} to ${saved.to.join(', ')} via mail profile "${transport.profile}" (${transport.kind})`);
+        }
+        const item = draft ? saved : await outbox.deliver(saved.draftId);
+        const heading = item.status === 'draft' ? ['#4169e1', '📝 Report Email Saved as a Draft (not sent)']
+          : item.status === 'sent' ? ['#4CAF50', '✅ Report Emailed']
+          : item.status === 'queued' ? ['#ff9800', '⏳ Report Email Queued for Retry']
+          : ['#f44336', '❌ Report Email Failed'];
+        if (item.status === 'sent') {
+          console.error(`Email sent, message ID: ${item.messageId}${item.file ? `, written to ${item.file}` : ''}`);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9; max-width: 600px; margin: 0 auto;">
+  <div style="background-color: ${heading[0]}; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">${heading[1]}</h2>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px; margin-bottom: 15px;">
+    <p><strong>Report:</strong> ${escapeHtml(run.report)} (run ${run.runId})</p>
+    <p><strong>Draft ID:</strong> ${item.draftId}</p>
+    ${renderDraftDetails(item)}
+    ${written.valid ? '' : '<p><em>Default subject: the AI response did not match the expected format</em></p>'}
+    <p><strong>Charts Embedded:</strong> ${report.charts.length}${report.omitted ? ` (${report.omitted} left out)` : ''}</p>
+    ${item.attachments.length ? '' : '<p><strong>Attachments:</strong> none (no statistics saved for this run)</p>'}
+    ${item.file ? `<p><strong>Written To:</strong> ${item.file}</p>` : ''}
+    ${item.lastError ? `<p><strong>Error:</strong> ${escapeHtml(item.lastError)}</p>` : ''}
+    ${item.status === 'queued' ? `<p><strong>Next Attempt:</strong> ${item.sendAt} (attempt ${item.attempts + 1} of ${MAX_SEND_ATTEMPTS})</p>` : ''}
+  </div>
+  
+  <div style="background-color: #f0f0f0; padding: 10px; border-radius: 5px; border-left: 3px solid ${heading[0]};">
+    <p>${item.status === 'draft' ? `Check the subject and summary in ${path.join(outbox.directory, `${item.draftId}.html`)}, then call send-draft with draftId "${item.draftId}" to send it.`
+      : item.status === 'sent' ? 'The report has been delivered.'
+      : item.status === 'queued' ? 'The mail server could not be reached. The message is kept in the outbox and retried automatically; use list-outbox to follow it.'
+      : 'Please check your email credentials and try again with send-draft.'}</p>
   </div>
 </div>`
             }
@@ -737,6 +2037,172 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "mail-merge": {
+        const { mergeId, send, retryFailed, filePath, fileData, fileName: providedFileName, sheet, emailColumn, nameColumn, subject, text, html, personalizePrompt, previewCount, fromName, replyTo, profile, ratePerMinute, maxMessages, model: modelName, temperature, cache } = MailMergeSchema.parse(args);
+        const mergeDir = workspace.output('emails', 'merge');
+        const mergeModel = modelFor('mail-merge', { model: modelName, temperature, cache });
+
+        let job: MergeJob;
+        if (mergeId) {
+          job = loadMergeJob(mergeDir, mergeId);
+        } else {
+          mailer.get(profile);
+          parseAddresses('replyTo', replyTo);
+          const fileName = providedFileName ?? path.basename(filePath!);
+          let datasetPath: string;
+          if (filePath) {
+            datasetPath = workspace.input(filePath, ['datasets']);
+          } else {
+            // Keep uploads, since sending re-reads the rows the preview was made from
+            datasetPath = path.join(mergeDir, 'datasets', `${Date.now()}_${sanitizeFileName(fileName, 'dataset')}`);
+            fs.mkdirSync(path.dirname(datasetPath), { recursive: true });
+            fs.writeFileSync(datasetPath, Buffer.from(fileData!, 'base64'));
+          }
+          job = createMergeJob(
+            { path: datasetPath, name: fileName, ...(sheet !== undefined ? { sheet } : {}) },
+            { emailColumn, nameColumn, template: { subject: subject!, text: text!, html, personalizePrompt }, profile, fromName, replyTo }
+          );
+        }
+        const transport = mailer.get(job.profile);
+        const logPath = saveMergeJob(mergeDir, job);
+
+        if (!send) {
+          // Dry run: render the first messages exactly as they will be sent
+          const rows = loadMergeRows(job);
+          const previews: RenderedMessage[] = [];
+          for (const recipient of job.recipients.filter(recipient => recipient.status !== 'skipped').slice(0, previewCount)) {
+            previews.push(await renderMergeMessage(job, rows[recipient.row - 1], recipient, mergeModel));
+          }
+          saveMergeJob(mergeDir, job);
+          const counts = countByStatus(job);
+          const skipped = job.recipients.filter(recipient => recipient.status === 'skipped');
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9; max-width: 700px; margin: 0 auto;">
+  <div style="background-color: #4169e1; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">📋 Mail Merge Preview (nothing sent)</h2>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px; margin-bottom: 15px;">
+    <p><strong>Merge ID:</strong> ${job.mergeId}</p>
+    <p><strong>Dataset:</strong> ${escapeHtml(job.dataset.name)} (${job.dataset.rowCount} rows)</p>
+    <p><strong>Recipients:</strong> ${counts.pending} pending, ${counts.sent} sent, ${counts.failed} failed, ${counts.skipped} skipped</p>
+    <p><strong>Mail Profile:</strong> ${transport.profile} (${transport.kind})</p>
+    <p><strong>Result Log:</strong> ${logPath}</p>
+    ${skipped.length ? `<p><strong>Skipped Rows:</strong></p>
+    <ul>
+      ${skipped.slice(0, 20).map(recipient => `<li>Row ${recipient.row} (${escapeHtml(recipient.to) || 'no address'}): ${escapeHtml(recipient.error ?? '')}</li>`).join('\n      ')}
+      ${skipped.length > 20 ? `<li>... and ${skipped.length - 20} more</li>` : ''}
+    </ul>` : ''}
+  </div>
+  
+  ${previews.map((message, index) => `<div style="padding: 10px; background-color: white; border-radius: 5px; margin-bottom: 15px; border-left: 3px solid #4169e1;">
+    <p><strong>Message ${index + 1}</strong> (row ${message.recipient.row})</p>
+    <p><strong>To:</strong> ${escapeHtml(message.recipient.name ? `${message.recipient.name} <${message.recipient.to}>` : message.recipient.to)}</p>
+    <p><strong>Subject:</strong> ${escapeHtml(message.subject)}</p>
+    <pre style="white-space: pre-wrap; font-family: inherit;">${escapeHtml(message.text)}</pre>
+  </div>`).join('\n  ')}
+  
+  <div style="background-color: #f0f0f0; padding: 10px; border-radius: 5px; border-left: 3px solid #4169e1;">
+    <p>Check the messages above, then call mail-merge with mergeId "${job.mergeId}" and send: true to send them.</p>
+  </div>
+</div>`
+              }
+            ]
+          };
+        }
+
+        console.error(`Mail merge ${job.mergeId}: sending up to ${maxMessages} messages at ${ratePerMinute}/min via mail profile "${transport.profile}"`);
+        const processed = await sendMerge(job, mergeDir, transport, mergeModel, { maxMessages, ratePerMinute, retryFailed });
+        const counts = countByStatus(job);
+        const failed = processed.filter(recipient => recipient.status === 'failed');
+        const sentCount = processed.length - failed.length;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9; max-width: 700px; margin: 0 auto;">
+  <div style="background-color: ${failed.length ? '#ff9800' : '#4CAF50'}; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">${failed.length ? '⚠️' : '✅'} Mail Merge: ${sentCount} Sent${failed.length ? `, ${failed.length} Failed` : ''}</h2>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px; margin-bottom: 15px;">
+    <p><strong>Merge ID:</strong> ${job.mergeId}</p>
+    <p><strong>Totals:</strong> ${counts.sent} sent, ${counts.pending} pending, ${counts.failed} failed, ${counts.skipped} skipped</p>
+    <p><strong>Mail Profile:</strong> ${transport.profile} (${transport.kind})</p>
+    <p><strong>Result Log:</strong> ${logPath}</p>
+    ${failed.length ? `<p><strong>Failures:</strong></p>
+    <ul>
+      ${failed.slice(0, 20).map(recipient => `<li>Row ${recipient.row} (${escapeHtml(recipient.to)}): ${escapeHtml(recipient.error ?? '')}</li>`).join('\n      ')}
+    </ul>` : ''}
+  </div>
+  
+  <div style="background-color: #f0f0f0; padding: 10px; border-radius: 5px; border-left: 3px solid #4CAF50;">
+    ${counts.pending ? `<p>${counts.pending} recipient(s) are still pending: call mail-merge again with mergeId "${job.mergeId}" and send: true to continue.</p>` : ''}
+    ${counts.failed ? `<p>Add retryFailed: true to resend the ${counts.failed} failed recipient(s).</p>` : ''}
+    ${!counts.pending && !counts.failed ? '<p>Every recipient has been processed.</p>' : ''}
+  </div>
+</div>`
+            }
+          ]
+        };
+      }
+
+      case "usage-stats": {
+        const { since, tool, recent } = UsageStatsSchema.parse(args);
+        const stats = usage.stats({ since: since ? new Date(since) : undefined, tool, recent });
+        const { totals } = stats;
+        const limiter = llm.limiter.state();
+        const report = {
+          ...stats,
+          limiter: { ...limiter, maxConcurrent: config.client.maxConcurrent, requestsPerMinute: config.client.requestsPerMinute },
+          cache: config.client.cache
+        };
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `<div style="font-family: Arial, sans-serif; padding: 20px; border-radius: 10px; border: 1px solid #e0e0e0; background-color: #f9f9f9;">
+  <div style="background-color: #4169e1; color: white; padding: 10px 15px; border-radius: 5px; margin-bottom: 15px;">
+    <h2 style="margin: 0; font-size: 18px;">📈 Model Usage${tool ? `: ${tool}` : ''}</h2>
+  </div>
+  
+  <div style="padding: 10px; background-color: white; border-radius: 5px;">
+    <p><strong>Since:</strong> ${stats.since ?? 'no calls recorded'}</p>
+    <p><strong>Calls:</strong> ${totals.calls} (${totals.failed} failed, ${totals.cached} from the cache, ${totals.retries} retries)</p>
+    <p><strong>Tokens:</strong> ${totals.promptTokens.toLocaleString('en-US')} prompt, ${totals.outputTokens.toLocaleString('en-US')} output; ${totals.tokensSaved.toLocaleString('en-US')} saved by the cache${totals.withoutTokenCounts ? ` (${totals.withoutTokenCounts} call(s) without token counts)` : ''}</p>
+    <p><strong>Latency:</strong> average ${totals.latencyMs.average} ms, p50 ${totals.latencyMs.p50} ms, p95 ${totals.latencyMs.p95} ms, max ${totals.latencyMs.max} ms</p>
+    <p><strong>Rate Limiter:</strong> ${limiter.active} running, ${limiter.queued} queued, ${limiter.startedLastMinute} started in the last minute (limits: ${config.client.maxConcurrent} at once, ${config.client.requestsPerMinute || 'no limit'} per minute)</p>
+    ${renderUsageTable('Tool', stats.byTool)}
+    ${renderUsageTable('Model', stats.byModel)}
+    ${stats.recent.length ? `<table style="border-collapse: collapse; width: 100%;">
+      <tr>${['Time', 'Tool', 'Model', 'Result', 'Attempts', 'Latency', 'Tokens'].map(header => `<th style="border: 1px solid #ddd; padding: 6px; text-align: left;">${header}</th>`).join('')}</tr>
+      ${stats.recent.map(call => `<tr>${[
+        call.timestamp,
+        call.tool,
+        escapeHtml(call.model),
+        call.ok ? (call.cached ? 'cached' : 'ok') : `failed: ${escapeHtml(call.error ?? '')}`,
+        String(call.attempts),
+        `${call.latencyMs} ms`,
+        call.promptTokens === undefined && call.outputTokens === undefined ? '' : `${call.promptTokens ?? 0} + ${call.outputTokens ?? 0}`
+      ].map(cell => `<td style="border: 1px solid #ddd; padding: 6px;">${cell}</td>`).join('')}</tr>`).join('\n      ')}
+    </table>` : ''}
+  </div>
+</div>`
+            },
+            {
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }
+          ]
+        };
+      }
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -746,6 +2212,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+// Saved runs as resources: reports, statistics, charts and thinking responses
+server.setRequestHandler(ListResourcesRequestSchema, async (request) => runs.list(request.params?.cursor));
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: runs.templates }));
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({ contents: [runs.read(request.params.uri)] }));
+
+// Tell clients that a new run can be listed
+function notifyRunsChanged(): void {
+  runs.refresh();
+  server.sendResourceListChanged().catch(error => console.error('Failed to send the resource list change notification:', error));
+}
+
 // Start the server
 async function main() {
   try {
@@ -753,6 +2232,23 @@ async function main() {
     const transport = new StdioServerTransport();
     await server.connect(transport);
     console.error("Gemini Email Subject Generator MCP Server running on stdio");
+
+    // Remove uploads left behind by an earlier crash
+    workspace.cleanTemp();
+
+    // Send scheduled drafts and retry queued messages while the server runs
+    outbox.start();
+
+    // Check the mail profiles in the background so a slow relay doesn't delay startup
+    if (config.mail.verifyOnStartup) {
+      mailer.verifyAll().then(results => {
+        for (const result of results) {
+          console.error(result.ok
+            ? `Mail profile "${result.profile}" verified`
+            : `Mail profile "${result.profile}" failed verification: ${result.error}`);
+        }
+      });
+    }
   } catch (error) {
     console.error("Fatal error in main():", error);
     process.exit(1);
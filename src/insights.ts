@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import type { LLMProvider } from './llm.js';
+import { escapeHtml } from './html.js';
+import { renderInline, renderMarkdown } from './markdown.js';
+import { generateJson } from './structured.js';
+import type { StructuredResult } from './structured.js';
+
+// Structured findings the model is asked to return for analyze-data
+export const AnalysisInsightsSchema = z.object({
+  summary: z.string().min(1).describe('Two or three sentence overview of the dataset'),
+  insights: z.array(z.object({
+    title: z.string().min(1),
+    detail: z.string().min(1),
+    columns: z.array(z.string()).default([])
+  })),
+  trends: z.array(z.object({
+    description: z.string().min(1),
+    columns: z.array(z.string()).default([])
+  })),
+  anomalies: z.array(z.object({
+    description: z.string().min(1),
+    columns: z.array(z.string()).min(1),
+    rows: z.array(z.number().int().positive()).default([]),
+    severity: z.enum(['low', 'medium', 'high'])
+  })),
+  recommendations: z.array(z.object({
+    action: z.string().min(1),
+    rationale: z.string().min(1)
+  })),
+  confidence: z.number().min(0).max(1)
+});
+
+export type AnalysisInsights = z.infer<typeof AnalysisInsightsSchema>;
+
+export type InsightsResult = StructuredResult<AnalysisInsights>;
+
+const RESPONSE_FORMAT = `{
+  "summary": "string",
+  "insights": [{ "title": "string", "detail": "string", "columns": ["column"] }],
+  "trends": [{ "description": "string", "columns": ["column"] }],
+  "anomalies": [{ "description": "string", "columns": ["column"], "rows": [1], "severity": "low" | "medium" | "high" }],
+  "recommendations": [{ "action": "string", "rationale": "string" }],
+  "confidence": 0.0
+}`;
+
+// Prompt asking for the findings as a single JSON object
+export function buildInsightsPrompt(datasetDescription: string, analysisType: 'basic' | 'detailed' | 'timeseries'): string {
+  return `${datasetDescription}
+
+Respond with a single JSON object and nothing else, in exactly this format:
+${RESPONSE_FORMAT}
+
+- "insights": key findings from the data
+- "trends": patterns and trends
+- "anomalies": potential anomalies, citing the data quality findings above; "columns" must name columns from the dataset and "rows" lists the 1-based row numbers given above
+- "recommendations": recommendations for further analysis
+- "confidence": your confidence in the analysis, from 0 to 1
+${analysisType === 'detailed'
+    ? '- Be thorough: give specific examples with values and discuss the computed correlations above.'
+    : analysisType === 'timeseries'
+      ? '- Focus on the time-series findings: describe the trend, the seasonal pattern and the change points with their periods and values, and put the forecast with its interval into "trends". Only cite numbers given above.'
+      : '- Keep it concise: at most three entries per list, focused on the most important findings.'}`;
+}
+
+// Column references the dataset doesn't have
+function checkColumns(insights: AnalysisInsights, columns: string[]): string[] {
+  const known = new Set(columns);
+  const referenced = [
+    ...insights.insights.flatMap(item => item.columns),
+    ...insights.trends.flatMap(item => item.columns),
+    ...insights.anomalies.flatMap(item => item.columns)
+  ];
+  const unknown = [...new Set(referenced.filter(col => !known.has(col)))];
+  return unknown.length ? [`Unknown columns referenced: ${unknown.join(', ')}. Valid columns are: ${columns.join(', ')}`] : [];
+}
+
+// Ask for structured findings, with repair retries for invalid responses
+export function generateInsights(model: LLMProvider, prompt: string, columns: string[]): Promise<InsightsResult> {
+  return generateJson(model, prompt, AnalysisInsightsSchema, insights => checkColumns(insights, columns));
+}
+
+// Report section for the findings, falling back to the raw text when validation failed
+export function renderInsightsSection(result: InsightsResult): string {
+  const insights = result.value;
+  if (!insights) {
+    return `
+    <div class="analysis">
+      <p><em>The AI response did not match the expected format after ${result.attempts} attempts (${escapeHtml(result.errors.join('; '))}). Raw response:</em></p>
+      ${renderMarkdown(result.raw)}
+    </div>`;
+  }
+
+  const columnList = (columns: string[]) => columns.length ? ` <small>(${escapeHtml(columns.join(', '))})</small>` : '';
+  return `
+    <div class="analysis">
+      <p>${renderInline(insights.summary)}</p>
+      <p><strong>Confidence:</strong> ${(insights.confidence * 100).toFixed(0)}%</p>
+      <h3>Key Insights</h3>
+      <ul>
+        ${insights.insights.map(item => `<li><strong>${renderInline(item.title)}</strong>: ${renderInline(item.detail)}${columnList(item.columns)}</li>`).join('')}
+      </ul>
+      <h3>Patterns and Trends</h3>
+      <ul>
+        ${insights.trends.map(item => `<li>${renderInline(item.description)}${columnList(item.columns)}</li>`).join('')}
+      </ul>
+      <h3>Anomalies</h3>
+      <table class="schema">
+        <tr><th>Severity</th><th>Description</th><th>Columns</th><th>Rows</th></tr>
+        ${insights.anomalies.map(item => `
+        <tr><td>${item.severity}</td><td>${renderInline(item.description)}</td><td>${escapeHtml(item.columns.join(', '))}</td><td>${item.rows.join(', ')}</td></tr>`).join('')}
+      </table>
+      <h3>Recommendations</h3>
+      <ul>
+        ${insights.recommendations.map(item => `<li><strong>${renderInline(item.action)}</strong>: ${renderInline(item.rationale)}</li>`).join('')}
+      </ul>
+    </div>`;
+}
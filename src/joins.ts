@@ -0,0 +1,107 @@
+import type { JoinKeyCandidate } from './types.js';
+import type { DatasetProfile } from './analysis.js';
+import { isMissing, looksLikeIdentifier } from './schema.js';
+
+// Share of the smaller key set that must appear in the other column
+const MIN_CONTAINMENT = 0.8;
+
+const KEY_TYPES = new Set(['identifier', 'integer', 'categorical']);
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function distinctValues(profile: DatasetProfile, column: string): Set<string> {
+  const values = new Set<string>();
+  for (const row of profile.data) {
+    const value = row[column];
+    if (!isMissing(value)) {
+      values.add(String(value).trim());
+    }
+  }
+  return values;
+}
+
+function cardinality(values: Set<string>, nonNullCount: number): 'one' | 'many' {
+  return values.size === nonNullCount ? 'one' : 'many';
+}
+
+// Find column pairs across sheets whose values overlap enough to act as join keys
+export function detectJoinKeys(profiles: DatasetProfile[]): JoinKeyCandidate[] {
+  const candidates: JoinKeyCandidate[] = [];
+  const cache = new Map<string, Set<string>>();
+  const valuesOf = (profile: DatasetProfile, column: string) => {
+    const key = `${profile.name}\u0000${column}`;
+    if (!cache.has(key)) {
+      cache.set(key, distinctValues(profile, column));
+    }
+    return cache.get(key)!;
+  };
+  const keyLike = (profile: DatasetProfile, column: string) =>
+    profile.statistics.schema[column].type === 'identifier' || looksLikeIdentifier(column);
+
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const left = profiles[i];
+      const right = profiles[j];
+      const leftKeys = left.columns.filter(col => KEY_TYPES.has(left.statistics.schema[col].type));
+      const rightKeys = right.columns.filter(col => KEY_TYPES.has(right.statistics.schema[col].type));
+
+      for (const leftColumn of leftKeys) {
+        for (const rightColumn of rightKeys) {
+          // Overlapping small integers (quantities, ratings) are common by chance, so
+          // differently named columns must both look like keys to be considered
+          const sameName = normalizeName(leftColumn) === normalizeName(rightColumn);
+          if (!sameName && !(keyLike(left, leftColumn) && keyLike(right, rightColumn))) {
+            continue;
+          }
+
+          const leftValues = valuesOf(left, leftColumn);
+          const rightValues = valuesOf(right, rightColumn);
+          if (leftValues.size < 2 || rightValues.size < 2) {
+            continue;
+          }
+
+          let shared = 0;
+          const [smaller, larger] = leftValues.size <= rightValues.size ? [leftValues, rightValues] : [rightValues, leftValues];
+          for (const value of smaller) {
+            if (larger.has(value)) {
+              shared++;
+            }
+          }
+          const containment = shared / smaller.size;
+          if (containment < MIN_CONTAINMENT) {
+            continue;
+          }
+
+          const leftSide = cardinality(leftValues, left.statistics.schema[leftColumn].nonNullCount);
+          const rightSide = cardinality(rightValues, right.statistics.schema[rightColumn].nonNullCount);
+          candidates.push({
+            leftSheet: left.name,
+            leftColumn,
+            rightSheet: right.name,
+            rightColumn,
+            sharedValues: shared,
+            containment: Number(containment.toFixed(3)),
+            sameName,
+            relationship: `${leftSide}-to-${rightSide}` as JoinKeyCandidate['relationship']
+          });
+        }
+      }
+    }
+  }
+
+  // Matching names and at least one unique side are the strongest signals of a real key
+  const score = (c: JoinKeyCandidate) =>
+    c.containment + (c.sameName ? 1 : 0) + (c.relationship === 'many-to-many' ? 0 : 0.5);
+  return candidates.sort((a, b) => score(b) - score(a));
+}
+
+export function describeJoinKeys(candidates: JoinKeyCandidate[]): string {
+  if (candidates.length === 0) {
+    return '- No shared key columns detected';
+  }
+  return candidates
+    .map(c => `- ${c.leftSheet}.${c.leftColumn} = ${c.rightSheet}.${c.rightColumn} (${c.relationship}, ${(c.containment * 100).toFixed(0)}% of keys match, ${c.sharedValues} shared values)`)
+    .join('\n');
+}
@@ -0,0 +1,288 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "path";
+
+// Options a caller may pass along with a single prompt
+export interface GenerateOptions {
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  // False skips the response cache for this call; the fresh response replaces the cached one
+  cache?: boolean;
+  // Aborts the request, e.g. when the client gives up on a slow call
+  signal?: AbortSignal;
+}
+
+// Token counts reported by the provider; missing when it reports none
+export interface TokenUsage {
+  promptTokens?: number;
+  outputTokens?: number;
+}
+
+export interface Completion {
+  text: string;
+  usage?: TokenUsage;
+  // True when the text came from the response cache
+  cached?: boolean;
+  // Requests made, including retries
+  attempts?: number;
+}
+
+// Common interface implemented by every text generation backend
+export interface LLMProvider {
+  name: string;
+  model: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  // Like generate, with token counts and how the text was obtained
+  complete(prompt: string, options?: GenerateOptions): Promise<Completion>;
+}
+
+// Error from a provider's API, with what a retry needs to know
+export interface ProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+  retryable?: boolean;
+}
+
+export type ProviderName = 'gemini' | 'openai' | 'ollama' | 'fixture';
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  fixtureFile?: string;
+  recordFile?: string;
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: 'gemini-2.0-flash',
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3',
+  fixture: 'fixture'
+};
+
+// Stable key used to look up recorded responses
+export function promptKey(prompt: string): string {
+  return crypto.createHash('sha256').update(prompt).digest('hex');
+}
+
+// Provider built from its complete function; generate returns just the text
+export function defineProvider(name: string, model: string, complete: LLMProvider['complete']): LLMProvider {
+  return {
+    name,
+    model,
+    complete,
+    generate: async (prompt, options) => (await complete(prompt, options)).text
+  };
+}
+
+export function providerError(message: string, details: Omit<ProviderError, 'name' | 'message'> = {}): ProviderError {
+  return Object.assign(new Error(message), details);
+}
+
+// Retry-After header: a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Error for a failed HTTP response of the fetch-based providers
+async function responseError(label: string, response: Response): Promise<ProviderError> {
+  return providerError(`${label} returned ${response.status}: ${await response.text()}`, {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+  });
+}
+
+// The Gemini SDK only passes the status and error details on in the message,
+// e.g. "[429 Too Many Requests] ... {"retryDelay":"31s"}"
+function geminiError(error: unknown): ProviderError {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = message.match(/\[(\d{3}) [^\]]*\]/);
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return providerError(message, {
+    status: status ? Number(status[1]) : undefined,
+    retryAfterMs: retryDelay ? Number(retryDelay[1]) * 1000 : undefined,
+    // No status means the request never got an answer
+    retryable: status ? undefined : /fetch failed|ECONNRESET|ETIMEDOUT|ENOTFOUND|socket/i.test(message)
+  });
+}
+
+// Google Gemini through the official SDK
+export function createGeminiProvider(apiKey: string | undefined, modelName = DEFAULT_MODELS.gemini): LLMProvider {
+  if (!apiKey) {
+    throw new Error('Gemini API key is not set (GEMINI_API_KEY, or llm.apiKey in the config file)');
+  }
+
+  // Initialize the Google Generative AI client with the beta endpoint
+  // @ts-ignore - Ignore TypeScript errors for the custom initialization
+  const genAI = new GoogleGenerativeAI(apiKey, {
+    apiEndpoint: 'https://generativelanguage.googleapis.com/v1beta'
+  });
+
+  return defineProvider('gemini', modelName, async (prompt, options = {}) => {
+    // The SDK takes no abort signal; the client's timeout stops waiting instead and keeps
+    // the rate-limit slot until the request ends
+    const { model = modelName, cache, signal, ...generationConfig } = options;
+    const generativeModel = genAI.getGenerativeModel({ model, generationConfig });
+    let result;
+    try {
+      result = await generativeModel.generateContent(prompt);
+    } catch (error) {
+      throw geminiError(error);
+    }
+    // Not in the SDK's types, but part of every response
+    const usage = (result.response as { usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number } }).usageMetadata;
+    return {
+      text: result.response.text(),
+      usage: usage ? { promptTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount } : undefined
+    };
+  });
+}
+
+// Any server exposing the OpenAI chat completions API (vLLM, LM Studio, llama.cpp, OpenAI itself)
+export function createOpenAICompatibleProvider(baseUrl = 'http://localhost:8000/v1', apiKey?: string, modelName = DEFAULT_MODELS.openai): LLMProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return defineProvider('openai', modelName, async (prompt, options = {}) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: options.model ?? modelName,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature,
+        top_p: options.topP,
+        max_tokens: options.maxOutputTokens
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw await responseError('OpenAI-compatible endpoint', response);
+    }
+
+    const body = await response.json() as {
+      choices?: { message?: { content?: string } }[];
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+    const text = body.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('OpenAI-compatible endpoint returned no message content');
+    }
+    return {
+      text,
+      usage: body.usage ? { promptTokens: body.usage.prompt_tokens, outputTokens: body.usage.completion_tokens } : undefined
+    };
+  });
+}
+
+// Local Ollama daemon via its native /api/generate endpoint
+export function createOllamaProvider(baseUrl = 'http://localhost:11434', modelName = DEFAULT_MODELS.ollama): LLMProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/api/generate`;
+
+  return defineProvider('ollama', modelName, async (prompt, options = {}) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: options.model ?? modelName,
+        prompt,
+        stream: false,
+        options: {
+          temperature: options.temperature,
+          top_p: options.topP,
+          top_k: options.topK,
+          num_predict: options.maxOutputTokens
+        }
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      throw await responseError('Ollama', response);
+    }
+
+    const body = await response.json() as { response?: string; prompt_eval_count?: number; eval_count?: number };
+    if (typeof body.response !== 'string') {
+      throw new Error('Ollama returned no response text');
+    }
+    return { text: body.response, usage: { promptTokens: body.prompt_eval_count, outputTokens: body.eval_count } };
+  });
+}
+
+// Deterministic offline provider: replays recorded responses keyed by prompt hash,
+// and falls back to a canned answer so tools still run end to end without a network.
+export function createFixtureProvider(fixtureFile?: string): LLMProvider {
+  let fixtures: Record<string, string> = {};
+  if (fixtureFile) {
+    if (!fs.existsSync(fixtureFile)) {
+      throw new Error(`Fixture file not found: ${fixtureFile}`);
+    }
+    fixtures = JSON.parse(fs.readFileSync(fixtureFile, 'utf-8'));
+  }
+
+  return defineProvider('fixture', DEFAULT_MODELS.fixture, async prompt => {
+    const key = promptKey(prompt);
+    if (key in fixtures) {
+      return { text: fixtures[key] };
+    }
+    return { text: `Offline fixture response ${key.slice(0, 12)}` };
+  });
+}
+
+// Wraps a provider and appends every response to a fixture file for later replay
+export function withRecording(provider: LLMProvider, recordFile: string): LLMProvider {
+  return defineProvider(provider.name, provider.model, async (prompt, options) => {
+    const completion = await provider.complete(prompt, options);
+    const fixtures: Record<string, string> = fs.existsSync(recordFile)
+      ? JSON.parse(fs.readFileSync(recordFile, 'utf-8'))
+      : {};
+    fixtures[promptKey(prompt)] = completion.text;
+    fs.mkdirSync(path.dirname(recordFile), { recursive: true });
+    fs.writeFileSync(recordFile, JSON.stringify(fixtures, null, 2));
+    return completion;
+  });
+}
+
+// Provider that applies default options to every call; options passed with a call
+// still win. The model name reflects the bound model.
+export function withOptions(provider: LLMProvider, defaults: GenerateOptions): LLMProvider {
+  return defineProvider(provider.name, defaults.model ?? provider.model, (prompt, options) =>
+    provider.complete(prompt, { ...defaults, ...options }));
+}
+
+export function createProvider(config: ProviderConfig): LLMProvider {
+  let provider: LLMProvider;
+  switch (config.provider) {
+    case 'gemini':
+      provider = createGeminiProvider(config.apiKey, config.model);
+      break;
+    case 'openai':
+      provider = createOpenAICompatibleProvider(config.baseUrl, config.apiKey, config.model);
+      break;
+    case 'ollama':
+      provider = createOllamaProvider(config.baseUrl, config.model);
+      break;
+    case 'fixture':
+      provider = createFixtureProvider(config.fixtureFile);
+      break;
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+  return config.recordFile ? withRecording(provider, config.recordFile) : provider;
+}
@@ -0,0 +1,66 @@
+import fs from "node:fs";
+import path from "path";
+import * as XLSX from 'xlsx';
+import Papa from 'papaparse';
+import type { DataRow } from './types.js';
+
+export interface LoadedSheet {
+  name: string;
+  data: DataRow[];
+}
+
+export interface SheetSelection {
+  // Sheet name or zero-based index; defaults to the first sheet
+  sheet?: string | number;
+  // Load every sheet in the workbook
+  allSheets?: boolean;
+}
+
+function resolveSheetName(sheetNames: string[], sheet: string | number | undefined): string {
+  if (sheet === undefined) {
+    return sheetNames[0];
+  }
+  if (typeof sheet === 'number') {
+    if (sheet < 0 || sheet >= sheetNames.length) {
+      throw new Error(`Sheet index ${sheet} is out of range (workbook has ${sheetNames.length} sheets: ${sheetNames.join(', ')})`);
+    }
+    return sheetNames[sheet];
+  }
+  if (!sheetNames.includes(sheet)) {
+    throw new Error(`Sheet "${sheet}" not found (available: ${sheetNames.join(', ')})`);
+  }
+  return sheet;
+}
+
+// Read a CSV or Excel file into one or more named row sets
+export function loadSheets(filePath: string, selection: SheetSelection = {}): LoadedSheet[] {
+  if (filePath.toLowerCase().endsWith('.csv')) {
+    const csvContent = fs.readFileSync(filePath, 'utf-8');
+    const parseResult = Papa.parse(csvContent, { header: true, skipEmptyLines: true });
+    return [{ name: path.basename(filePath), data: parseResult.data as DataRow[] }];
+  }
+
+  // The ESM build of xlsx has no filesystem access, so read the bytes ourselves
+  const workbook = XLSX.read(fs.readFileSync(filePath), { cellDates: true });
+  const sheetNames = selection.allSheets
+    ? workbook.SheetNames
+    : [resolveSheetName(workbook.SheetNames, selection.sheet)];
+
+  return sheetNames.map(name => ({
+    name,
+    data: XLSX.utils.sheet_to_json(workbook.Sheets[name]) as DataRow[]
+  }));
+}
+
+// Parse a CSV file row by row without holding it in memory
+export function streamCsvRows(filePath: string, onRow: (row: DataRow) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<DataRow>(fs.createReadStream(filePath, 'utf-8'), {
+      header: true,
+      skipEmptyLines: true,
+      step: results => onRow(results.data),
+      complete: () => resolve(),
+      error: (error: Error) => reject(error)
+    });
+  });
+}
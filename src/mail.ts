@@ -0,0 +1,426 @@
+import fs from "node:fs";
+import path from "path";
+import nodemailer from 'nodemailer';
+import type { SendMailOptions, Transporter } from 'nodemailer';
+import addressparser from 'nodemailer/lib/addressparser/index.js';
+import { z } from 'zod';
+
+// Sending accounts are described by named profiles. Each profile uses one of three
+// transports: an SMTP server (plain login or OAuth2), the local sendmail binary, or a
+// pickup directory where every message is written as an .eml file.
+
+const LoginAuthSchema = z.object({
+  type: z.literal('login'),
+  user: z.string().min(1),
+  pass: z.string().min(1)
+});
+
+const OAuth2AuthSchema = z.object({
+  type: z.literal('oauth2'),
+  user: z.string().min(1),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+  refreshToken: z.string().min(1),
+  accessToken: z.string().optional()
+});
+
+const SmtpProfileSchema = z.object({
+  transport: z.literal('smtp'),
+  host: z.string().min(1),
+  port: z.number().int().positive().optional(),
+  // starttls: upgrade a plain connection (usually port 587); tls: implicit TLS (465);
+  // none: no encryption, for local relays and test stand-ins
+  tls: z.enum(['starttls', 'tls', 'none']).default('starttls'),
+  rejectUnauthorized: z.boolean().default(true),
+  auth: z.discriminatedUnion('type', [
+    LoginAuthSchema,
+    OAuth2AuthSchema,
+    z.object({ type: z.literal('none') })
+  ]).default({ type: 'none' }),
+  from: z.string().optional()
+});
+
+const SendmailProfileSchema = z.object({
+  transport: z.literal('sendmail'),
+  path: z.string().default('sendmail'),
+  from: z.string().optional()
+});
+
+const PickupProfileSchema = z.object({
+  transport: z.literal('pickup'),
+  directory: z.string().min(1),
+  from: z.string().optional()
+});
+
+export const MailProfileSchema = z.discriminatedUnion('transport', [
+  SmtpProfileSchema,
+  SendmailProfileSchema,
+  PickupProfileSchema
+]);
+
+export type MailProfile = z.infer<typeof MailProfileSchema>;
+
+// Contents of the file named by MAIL_PROFILES_FILE
+const MailProfilesFileSchema = z.object({
+  default: z.string().optional(),
+  profiles: z.record(MailProfileSchema)
+});
+
+export interface MailConfig {
+  defaultProfile: string;
+  profiles: Record<string, MailProfile>;
+}
+
+export interface SendResult {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+  // Set by the pickup transport: where the .eml file was written
+  file?: string;
+}
+
+// A configured sending account
+export interface MailTransport {
+  profile: string;
+  kind: MailProfile['transport'];
+  from: string;
+  send(options: SendMailOptions): Promise<SendResult>;
+  verify(): Promise<void>;
+}
+
+// Name of the profile built from the SMTP_* and NODEMAILER_* variables
+export const ENV_PROFILE = 'default';
+
+// Replace ${VAR} references in profile strings so secrets can stay in the environment
+export function expandEnv<T>(value: T, env: NodeJS.ProcessEnv): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name) => env[name] ?? '') as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => expandEnv(item, env)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, expandEnv(item, env)])) as T;
+  }
+  return value;
+}
+
+// Profile described by environment variables, or null when email isn't configured.
+// Without SMTP_HOST the Gmail settings the server always used still apply.
+function profileFromEnv(env: NodeJS.ProcessEnv): MailProfile | null {
+  const transport = (env.MAIL_TRANSPORT ?? 'smtp').toLowerCase();
+  const from = env.MAIL_FROM;
+
+  if (transport === 'pickup') {
+    return { transport, directory: env.MAIL_PICKUP_DIR ?? path.join(process.cwd(), 'output', 'emails', 'pickup'), from };
+  }
+  if (transport === 'sendmail') {
+    return { transport, path: env.SENDMAIL_PATH ?? 'sendmail', from };
+  }
+  if (transport !== 'smtp') {
+    throw new Error(`Unknown MAIL_TRANSPORT: ${env.MAIL_TRANSPORT} (expected smtp, sendmail or pickup)`);
+  }
+
+  const user = env.SMTP_USER ?? env.NODEMAILER_EMAIL;
+  const pass = env.SMTP_PASSWORD ?? env.NODEMAILER_PASSWORD;
+  const authType = (env.SMTP_AUTH ?? (env.SMTP_OAUTH_CLIENT_ID ? 'oauth2' : user && pass ? 'login' : 'none')).toLowerCase();
+  if (!env.SMTP_HOST && authType === 'none') {
+    return null;
+  }
+
+  const parsed = MailProfileSchema.safeParse({
+    transport: 'smtp',
+    host: env.SMTP_HOST ?? 'smtp.gmail.com',
+    port: env.SMTP_PORT ? Number(env.SMTP_PORT) : undefined,
+    tls: env.SMTP_TLS?.toLowerCase(),
+    rejectUnauthorized: env.SMTP_TLS_REJECT_UNAUTHORIZED ? env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false' : undefined,
+    auth: authType === 'oauth2'
+      ? {
+        type: 'oauth2',
+        user,
+        clientId: env.SMTP_OAUTH_CLIENT_ID,
+        clientSecret: env.SMTP_OAUTH_CLIENT_SECRET,
+        refreshToken: env.SMTP_OAUTH_REFRESH_TOKEN,
+        accessToken: env.SMTP_OAUTH_ACCESS_TOKEN
+      }
+      : authType === 'login' ? { type: 'login', user, pass } : { type: 'none' },
+    from
+  });
+  if (!parsed.success) {
+    throw new Error(`Invalid SMTP settings in environment: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+  return parsed.data;
+}
+
+// Collect the profiles from MAIL_PROFILES_FILE plus the environment profile.
+// MAIL_PROFILE (or the file's "default") picks the profile used when a call names none.
+export function mailConfigFromEnv(env: NodeJS.ProcessEnv = process.env): MailConfig {
+  const profiles: Record<string, MailProfile> = {};
+  let defaultProfile = ENV_PROFILE;
+
+  const envProfile = profileFromEnv(env);
+  if (envProfile) {
+    profiles[ENV_PROFILE] = envProfile;
+  }
+
+  if (env.MAIL_PROFILES_FILE) {
+    if (!fs.existsSync(env.MAIL_PROFILES_FILE)) {
+      throw new Error(`Mail profiles file not found: ${env.MAIL_PROFILES_FILE}`);
+    }
+    const parsed = MailProfilesFileSchema.safeParse(
+      expandEnv(JSON.parse(fs.readFileSync(env.MAIL_PROFILES_FILE, 'utf-8')), env)
+    );
+    if (!parsed.success) {
+      throw new Error(`Invalid mail profiles file ${env.MAIL_PROFILES_FILE}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+    Object.assign(profiles, parsed.data.profiles);
+    defaultProfile = parsed.data.default ?? defaultProfile;
+  }
+
+  return { defaultProfile: env.MAIL_PROFILE ?? defaultProfile, profiles };
+}
+
+function senderAddress(name: string, profile: MailProfile): string {
+  const from = profile.from ?? (profile.transport === 'smtp' && profile.auth.type !== 'none' ? profile.auth.user : undefined);
+  if (!from) {
+    throw new Error(`Mail profile "${name}" has no sender address; set "from" (or MAIL_FROM)`);
+  }
+  return from;
+}
+
+function smtpTransporter(profile: z.infer<typeof SmtpProfileSchema>): Transporter {
+  const { auth } = profile;
+  return nodemailer.createTransport({
+    host: profile.host,
+    port: profile.port ?? (profile.tls === 'tls' ? 465 : profile.tls === 'none' ? 25 : 587),
+    secure: profile.tls === 'tls',
+    requireTLS: profile.tls === 'starttls',
+    ignoreTLS: profile.tls === 'none',
+    tls: { rejectUnauthorized: profile.rejectUnauthorized },
+    ...(auth.type === 'login' ? { auth: { user: auth.user, pass: auth.pass } } : {}),
+    ...(auth.type === 'oauth2' ? {
+      auth: {
+        type: 'OAuth2',
+        user: auth.user,
+        clientId: auth.clientId,
+        clientSecret: auth.clientSecret,
+        refreshToken: auth.refreshToken,
+        accessToken: auth.accessToken
+      }
+    } : {})
+  });
+}
+
+export function createMailTransport(name: string, profile: MailProfile): MailTransport {
+  const from = senderAddress(name, profile);
+  const base = { profile: name, kind: profile.transport, from };
+
+  if (profile.transport === 'pickup') {
+    // Render the raw message in memory, then drop it into the directory
+    const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+    const directory = path.resolve(profile.directory);
+    return {
+      ...base,
+      async send(options) {
+        fs.mkdirSync(directory, { recursive: true });
+        const info = await transporter.sendMail(options);
+        const file = path.join(directory, `${Date.now()}_${info.messageId.replace(/[^\w.@-]+/g, '')}.eml`);
+        fs.writeFileSync(file, info.message as Buffer);
+        return { messageId: info.messageId, accepted: addressList(info.envelope?.to), rejected: [], file };
+      },
+      async verify() {
+        fs.mkdirSync(directory, { recursive: true });
+        fs.accessSync(directory, fs.constants.W_OK);
+      }
+    };
+  }
+
+  if (profile.transport === 'sendmail') {
+    const transporter = nodemailer.createTransport({ sendmail: true, path: profile.path, newline: 'unix' });
+    return {
+      ...base,
+      async send(options) {
+        const info = await transporter.sendMail(options);
+        return { messageId: info.messageId, accepted: addressList(info.envelope?.to), rejected: [] };
+      },
+      async verify() {
+        // A bare command name is resolved through PATH when sending
+        if (path.isAbsolute(profile.path)) {
+          fs.accessSync(profile.path, fs.constants.X_OK);
+        }
+      }
+    };
+  }
+
+  const transporter = smtpTransporter(profile);
+  return {
+    ...base,
+    async send(options) {
+      const info = await transporter.sendMail(options);
+      return {
+        messageId: info.messageId,
+        accepted: addressList(info.accepted),
+        rejected: addressList(info.rejected)
+      };
+    },
+    async verify() {
+      await transporter.verify();
+    }
+  };
+}
+
+function addressList(addresses: unknown): string[] {
+  if (!Array.isArray(addresses)) {
+    return [];
+  }
+  return addresses.map(address => typeof address === 'string' ? address : String(address?.address ?? address));
+}
+
+// Transports are created once per profile and reused across calls, so SMTP
+// connections and OAuth2 tokens aren't rebuilt for every message
+export function createMailer(config: MailConfig) {
+  const transports = new Map<string, MailTransport>();
+
+  function get(name = config.defaultProfile): MailTransport {
+    const existing = transports.get(name);
+    if (existing) {
+      return existing;
+    }
+    const profile = config.profiles[name];
+    if (!profile) {
+      const configured = Object.keys(config.profiles);
+      throw new Error(configured.length
+        ? `Unknown mail profile "${name}". Configured profiles: ${configured.join(', ')}`
+        : 'Email is not configured: set NODEMAILER_EMAIL and NODEMAILER_PASSWORD, SMTP_HOST, MAIL_TRANSPORT or MAIL_PROFILES_FILE');
+    }
+    const transport = createMailTransport(name, profile);
+    transports.set(name, transport);
+    return transport;
+  }
+
+  // Check every profile once; failures are reported, not thrown, so one broken
+  // account doesn't stop the server
+  async function verifyAll(): Promise<{ profile: string; ok: boolean; error?: string }[]> {
+    const results: { profile: string; ok: boolean; error?: string }[] = [];
+    for (const name of Object.keys(config.profiles)) {
+      try {
+        await get(name).verify();
+        results.push({ profile: name, ok: true });
+      } catch (error) {
+        results.push({ profile: name, ok: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return results;
+  }
+
+  return { config, get, verifyAll };
+}
+
+export type Mailer = ReturnType<typeof createMailer>;
+
+// Attachment size limits, kept under common provider caps (Gmail allows 25 MB
+// after base64 encoding, which adds a third)
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_TOTAL_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+
+// Headers set from the dedicated fields; overriding them through custom headers
+// would bypass address validation
+const RESERVED_HEADERS = new Set([
+  'from', 'to', 'cc', 'bcc', 'reply-to', 'subject', 'sender', 'date', 'message-id',
+  'mime-version', 'content-type', 'content-transfer-encoding'
+]);
+
+const ADDRESS_PATTERN = /^[^\s@<>()[\]\\,;:"]+@[^\s@<>()[\]\\,;:"]+\.[^\s@<>()[\]\\,;:"]+$/;
+
+export interface AttachmentInput {
+  filename?: string;
+  // Local file read when sending
+  path?: string;
+  // Base64 content, optionally as a data URI
+  content?: string;
+  contentType?: string;
+}
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+  cid?: string;
+}
+
+// Parse and validate one address field. Entries may be bare addresses or
+// "Display Name <address>", and a single string may hold a comma-separated list.
+export function parseAddresses(field: string, input: string | string[] | undefined): addressparser.Address[] {
+  if (input === undefined) {
+    return [];
+  }
+  const entries = Array.isArray(input) ? input : [input];
+  const addresses = entries.flatMap(entry => addressparser(entry, { flatten: true }));
+  const invalid = addresses.filter(address => !ADDRESS_PATTERN.test(address.address));
+  if (invalid.length || addresses.length < entries.filter(entry => entry.trim()).length) {
+    const shown = invalid.length ? invalid.map(address => address.address || address.name).join(', ') : entries.join(', ');
+    throw new Error(`Invalid email address in ${field}: ${shown}`);
+  }
+  return addresses;
+}
+
+// Custom headers must not replace the addressing fields or smuggle in extra lines
+export function validateHeaders(headers: Record<string, string>): Record<string, string> {
+  for (const [name, value] of Object.entries(headers)) {
+    if (!/^[!-9;-~]+$/.test(name)) {
+      throw new Error(`Invalid header name: ${name}`);
+    }
+    if (RESERVED_HEADERS.has(name.toLowerCase())) {
+      throw new Error(`Header ${name} can't be set through custom headers; use the dedicated argument`);
+    }
+    if (/[\r\n]/.test(value)) {
+      throw new Error(`Header ${name} contains a line break`);
+    }
+  }
+  return headers;
+}
+
+// Read attachments given as base64 or local paths and enforce the size limits
+export function loadAttachments(inputs: AttachmentInput[], inline: MailAttachment[] = []): MailAttachment[] {
+  const attachments = inputs.map((input, index) => {
+    if (!input.path && !input.content) {
+      throw new Error(`Attachment ${index + 1} needs either path or content`);
+    }
+    let content: Buffer;
+    let contentType = input.contentType;
+    let filename = input.filename;
+    if (input.path) {
+      const filePath = path.resolve(input.path);
+      if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        throw new Error(`Attachment file not found: ${input.path}`);
+      }
+      const size = fs.statSync(filePath).size;
+      if (size > MAX_ATTACHMENT_BYTES) {
+        throw new Error(`Attachment ${path.basename(filePath)} is ${formatBytes(size)}, over the ${formatBytes(MAX_ATTACHMENT_BYTES)} limit`);
+      }
+      content = fs.readFileSync(filePath);
+      filename ??= path.basename(filePath);
+    } else {
+      const dataUri = input.content!.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s);
+      content = Buffer.from(dataUri ? dataUri[2] : input.content!, 'base64');
+      contentType ??= dataUri?.[1];
+    }
+    if (!filename) {
+      throw new Error(`Attachment ${index + 1} needs a filename`);
+    }
+    if (content.length > MAX_ATTACHMENT_BYTES) {
+      throw new Error(`Attachment ${filename} is ${formatBytes(content.length)}, over the ${formatBytes(MAX_ATTACHMENT_BYTES)} limit`);
+    }
+    return { filename, content, ...(contentType ? { contentType } : {}) };
+  });
+
+  const total = [...attachments, ...inline].reduce((sum, attachment) => sum + attachment.content.length, 0);
+  if (total > MAX_TOTAL_ATTACHMENT_BYTES) {
+    throw new Error(`Attachments total ${formatBytes(total)}, over the ${formatBytes(MAX_TOTAL_ATTACHMENT_BYTES)} limit per message`);
+  }
+  return attachments;
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
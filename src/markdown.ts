@@ -0,0 +1,270 @@
+// Markdown to HTML for model responses: headings, paragraphs, nested ordered and
+// unordered lists, fenced code, block quotes, GFM tables, rules, and inline code,
+// emphasis, strikethrough, links and images. Raw HTML in the source is escaped,
+// not passed through, and links are limited to safe URL schemes.
+import { escapeHtml, safeUrl } from './html.js';
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Placeholders for inline HTML that must not be escaped again
+const TOKEN_START = '\uE000';
+const TOKEN_END = '\uE001';
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return lines[index].includes('|') && index + 1 < lines.length && TABLE_SEPARATOR.test(lines[index + 1]) && lines[index + 1].includes('-');
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, index);
+}
+
+// Split a table row on pipes that aren't escaped or inside code spans
+function splitRow(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inCode = false;
+  const body = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && body[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      current += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function renderTable(lines: string[], start: number): { html: string; next: number } {
+  const header = splitRow(lines[start]);
+  const aligns = splitRow(lines[start + 1]).map(cell =>
+    cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : '');
+  const cell = (tag: string, content: string, index: number) =>
+    `<${tag}${aligns[index] ? ` style="text-align: ${aligns[index]}"` : ''}>${renderInline(content)}</${tag}>`;
+
+  let i = start + 2;
+  const rows: string[] = [];
+  while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+    const cells = splitRow(lines[i]);
+    rows.push(`<tr>${header.map((_, index) => cell('td', cells[index] ?? '', index)).join('')}</tr>`);
+    i++;
+  }
+  return {
+    html: `<table>
+<thead><tr>${header.map((content, index) => cell('th', content, index)).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>`,
+    next: i
+  };
+}
+
+function renderList(lines: string[], start: number): { html: string; next: number } {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  // A different bullet or number delimiter ("-" after "*", "1)" after "1.") starts a new list
+  const delimiter = (marker: string) => marker.slice(-1);
+  const sameList = (match: RegExpExecArray | null) => !!match && match[1].length === indent && delimiter(match[2]) === delimiter(first[2]);
+
+  const items: string[][] = [];
+  let loose = false;
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i];
+    const match = LIST_ITEM.exec(line);
+    if (sameList(match)) {
+      items.push([line.slice(match![0].length)]);
+      i++;
+      continue;
+    }
+    if (!line.trim()) {
+      // A blank line continues the list only if more of it follows
+      let next = i + 1;
+      while (next < lines.length && !lines[next].trim()) {
+        next++;
+      }
+      if (next < lines.length && (sameList(LIST_ITEM.exec(lines[next])) || indentOf(lines[next]) > indent)) {
+        if (sameList(LIST_ITEM.exec(lines[next]))) {
+          loose = true;
+        }
+        items[items.length - 1].push('');
+        i++;
+        continue;
+      }
+      break;
+    }
+    if (indentOf(line) > indent) {
+      // Nested blocks and continuation lines of the current item
+      items[items.length - 1].push(line);
+      i++;
+      continue;
+    }
+    if (indentOf(line) === indent && !match && !startsBlock(lines, i) && items[items.length - 1].at(-1) !== '') {
+      // Lazy continuation of the item's paragraph
+      items[items.length - 1].push(line);
+      i++;
+      continue;
+    }
+    break;
+  }
+
+  const renderedItems = items.map(([firstLine, ...rest]) => {
+    const nested = rest.filter(line => line.trim());
+    const offset = nested.length ? Math.min(...nested.map(indentOf)) : 0;
+    const blocks = renderBlocks([firstLine, ...rest.map(line => line.slice(Math.min(offset, indentOf(line))))]);
+    // Tight lists keep their text out of <p> elements
+    const content = loose || rest.includes('')
+      ? blocks.join('\n')
+      : blocks.map(block => block.replace(/^<p>([\s\S]*)<\/p>$/, '$1')).join('\n');
+    return `<li>${content}</li>`;
+  });
+
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const tag = ordered ? 'ol' : 'ul';
+  return {
+    html: `<${tag}${ordered && startNumber !== 1 ? ` start="${startNumber}"` : ''}>
+${renderedItems.join('\n')}
+</${tag}>`,
+    next: i
+  };
+}
+
+function renderBlocks(lines: string[]): string[] {
+  const blocks: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push(`<pre><code${fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : ''}>${escapeHtml(body.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>${renderInline(heading[2] ?? '')}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push(`<blockquote>
+${renderBlocks(quoted).join('\n')}
+</blockquote>`);
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const table = renderTable(lines, i);
+      blocks.push(table.html);
+      i = table.next;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = renderList(lines, i);
+      blocks.push(list.html);
+      i = list.next;
+      continue;
+    }
+
+    // Trailing spaces are kept until inline rendering, where two of them mark a hard break
+    const paragraph: string[] = [line.trimStart()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trimStart());
+      i++;
+    }
+    blocks.push(`<p>${renderInline(paragraph.join('\n').trimEnd())}</p>`);
+  }
+  return blocks;
+}
+
+// Inline Markdown in a single block of text; everything else is escaped
+export function renderInline(text: string): string {
+  const tokens: string[] = [];
+  const token = (html: string) => `${TOKEN_START}${tokens.push(html) - 1}${TOKEN_END}`;
+
+  let result = text
+    // Backslash escapes
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, (_, char: string) => token(escapeHtml(char)))
+    // Code spans
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _ticks: string, code: string) => token(`<code>${escapeHtml(code.trim())}</code>`))
+    // Images and links
+    .replace(/(!?)\[([^\]]*)\]\(\s*<?((?:[^()\s<>]|\([^()\s]*\))*)>?(?:\s+"([^"]*)")?\s*\)/g, (_, bang: string, label: string, url: string, title?: string) => {
+      const href = safeUrl(url);
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+      if (bang) {
+        return token(href ? `<img src="${escapeHtml(href)}" alt="${escapeHtml(label)}"${titleAttribute}>` : escapeHtml(label));
+      }
+      return token(href ? `<a href="${escapeHtml(href)}"${titleAttribute}>${renderInline(label)}</a>` : renderInline(label));
+    })
+    // Autolinks, <https://...> or bare URLs
+    .replace(/<((?:https?|mailto):[^\s>]+)>|\bhttps?:\/\/[^\s<]*[^\s<.,;:!?)'"\]]/g, (match, bracketed?: string) => {
+      const url = bracketed ?? match;
+      return token(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`);
+    });
+
+  result = escapeHtml(result)
+    // Triple markers first, so bold italic nests properly
+    .replace(/\*\*\*(?=\S)([\s\S]*?\S)\*\*\*|___(?=\S)([\s\S]*?\S)___/g, (_, a?: string, b?: string) => `<strong><em>${a ?? b}</em></strong>`)
+    .replace(/\*\*\*(?=\S)([\s\S]*?\S)\*\*(?!\*)([\s\S]*?\S)\*(?!\*)/g, '<em><strong>$1</strong>$2</em>')
+    .replace(/\*\*\*(?=\S)([\s\S]*?\S)\*(?!\*)([\s\S]*?\S)\*\*(?!\*)/g, '<strong><em>$1</em>$2</strong>')
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\p{L}\p{N}_])_(?=\S)([\s\S]*?\S)_(?![\p{L}\p{N}_])/gu, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    // Hard line breaks: two trailing spaces or a trailing backslash
+    .replace(/(?: {2,}|\\)\n/g, '<br>\n');
+
+  return result.replace(new RegExp(`${TOKEN_START}(\\d+)${TOKEN_END}`, 'g'), (_, index: string) => tokens[Number(index)]);
+}
+
+export function renderMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  return renderBlocks(lines).join('\n');
+}
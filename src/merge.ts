@@ -0,0 +1,345 @@
+// Mail merge: one message per dataset row, rendered from {{column}} templates.
+// Every merge starts as a dry run that saves a job file; sending works through the
+// job's recipients, and the same file is the per-recipient result log.
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'path';
+import type nodemailer from 'nodemailer';
+import { renderTextEmail } from './email.js';
+import { escapeHtml } from './html.js';
+import { loadSheets } from './loader.js';
+import { parseAddresses } from './mail.js';
+import type { LLMProvider } from './llm.js';
+import type { MailTransport } from './mail.js';
+import type { CellValue, DataRow } from './types.js';
+
+// {{column}}; {{image:...}} placeholders belong to the image embedding
+const FIELD_PLACEHOLDER = /\{\{\s*(?!image:)([^{}]+?)\s*\}\}/g;
+
+// Placeholder filled with the per-row text the model writes
+export const PERSONALIZED_FIELD = 'personalized';
+
+export type RecipientStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface MergeRecipient {
+  // 1-based data row
+  row: number;
+  to: string;
+  name?: string;
+  status: RecipientStatus;
+  attempts: number;
+  error?: string;
+  messageId?: string;
+  sentAt?: string;
+  // Personalized text, kept so a previewed message is sent exactly as shown
+  personalized?: string;
+}
+
+export interface MergeTemplate {
+  subject: string;
+  text: string;
+  html?: string;
+  // Prompt with {{column}} placeholders for the per-row personalized text
+  personalizePrompt?: string;
+}
+
+// Owner of a send in progress, saved on the job so a second sender is refused
+export interface MergeLock {
+  pid: number;
+  instance: string;
+  since: string;
+}
+
+export interface MergeJob {
+  mergeId: string;
+  createdAt: string;
+  dataset: {
+    path: string;
+    name: string;
+    sheet?: string | number;
+    sha256: string;
+    rowCount: number;
+  };
+  emailColumn: string;
+  nameColumn?: string;
+  template: MergeTemplate;
+  profile?: string;
+  fromName?: string;
+  replyTo?: string;
+  recipients: MergeRecipient[];
+  sending?: MergeLock;
+}
+
+export interface RenderedMessage {
+  recipient: MergeRecipient;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MergeDataset {
+  path: string;
+  name: string;
+  sheet?: string | number;
+}
+
+export interface MergeSettings {
+  emailColumn: string;
+  nameColumn?: string;
+  template: MergeTemplate;
+  profile?: string;
+  fromName?: string;
+  replyTo?: string;
+}
+
+// Tells this process's locks from those of an earlier process that had the same pid
+const INSTANCE = crypto.randomUUID();
+
+function fileHash(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+function formatValue(value: CellValue | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  return String(value).trim();
+}
+
+// Column names referenced by a template
+export function templateFields(template: string): string[] {
+  return [...new Set([...template.matchAll(FIELD_PLACEHOLDER)].map(match => match[1]))];
+}
+
+// Fill {{column}} placeholders from a row; html escapes the values
+export function renderTemplate(template: string, row: DataRow, personalized = '', html = false): string {
+  return template.replace(FIELD_PLACEHOLDER, (_, field: string) => {
+    const value = field === PERSONALIZED_FIELD ? personalized : formatValue(row[field]);
+    return html ? escapeHtml(value).replace(/\n/g, '<br>') : value;
+  });
+}
+
+function loadRows(dataset: MergeDataset): DataRow[] {
+  const [sheet] = loadSheets(dataset.path, { sheet: dataset.sheet });
+  return sheet.data;
+}
+
+function jobPath(directory: string, mergeId: string): string {
+  return path.join(directory, `merge_${mergeId}.json`);
+}
+
+export function saveMergeJob(directory: string, job: MergeJob): string {
+  fs.mkdirSync(directory, { recursive: true });
+  const file = jobPath(directory, job.mergeId);
+  fs.writeFileSync(file, JSON.stringify(job, null, 2));
+  return file;
+}
+
+export function loadMergeJob(directory: string, mergeId: string): MergeJob {
+  if (!/^\d+$/.test(mergeId)) {
+    throw new Error(`Invalid merge id: ${mergeId}`);
+  }
+  const file = jobPath(directory, mergeId);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No mail merge ${mergeId} found in ${directory}. Run a dry run first`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as MergeJob;
+}
+
+// Check the templates against the dataset and build the recipient list. Rows
+// without a valid address, or repeating an earlier row's address, are skipped.
+export function createMergeJob(dataset: MergeDataset, settings: MergeSettings): MergeJob {
+  const rows = loadRows(dataset);
+  if (rows.length === 0) {
+    throw new Error(`No data rows found in ${dataset.name}`);
+  }
+  const columns = new Set(rows.flatMap(row => Object.keys(row)));
+  const { template } = settings;
+  for (const column of [settings.emailColumn, settings.nameColumn].filter((column): column is string => !!column)) {
+    if (!columns.has(column)) {
+      throw new Error(`Column "${column}" not found in ${dataset.name}. Available columns: ${[...columns].join(', ')}`);
+    }
+  }
+  const fields = templateFields([template.subject, template.text, template.html ?? '', template.personalizePrompt ?? ''].join('\n'));
+  const unknown = fields.filter(field => field !== PERSONALIZED_FIELD && !columns.has(field));
+  if (unknown.length) {
+    throw new Error(`Unknown template placeholders: ${unknown.map(field => `{{${field}}}`).join(', ')}. Available columns: ${[...columns].join(', ')}`);
+  }
+  const usesPersonalized = templateFields(`${template.subject}\n${template.text}\n${template.html ?? ''}`).includes(PERSONALIZED_FIELD);
+  if (template.personalizePrompt && !usesPersonalized) {
+    throw new Error(`personalizePrompt needs a {{${PERSONALIZED_FIELD}}} placeholder in text or html to place the generated text`);
+  }
+  if (!template.personalizePrompt && usesPersonalized) {
+    throw new Error(`{{${PERSONALIZED_FIELD}}} is filled by personalizePrompt, which is missing`);
+  }
+
+  const seen = new Map<string, number>();
+  const recipients = rows.map((row, index): MergeRecipient => {
+    const raw = formatValue(row[settings.emailColumn]);
+    const name = settings.nameColumn ? formatValue(row[settings.nameColumn]) || undefined : undefined;
+    const recipient: MergeRecipient = { row: index + 1, to: raw, ...(name ? { name } : {}), status: 'pending', attempts: 0 };
+    if (!raw) {
+      return { ...recipient, status: 'skipped', error: `No address in column "${settings.emailColumn}"` };
+    }
+    try {
+      const addresses = parseAddresses('to', raw);
+      if (addresses.length !== 1) {
+        throw new Error(`Expected one address in ${settings.emailColumn}, found ${addresses.length}`);
+      }
+      recipient.to = addresses[0].address;
+    } catch (error) {
+      return { ...recipient, status: 'skipped', error: error instanceof Error ? error.message : String(error) };
+    }
+    const key = recipient.to.toLowerCase();
+    if (seen.has(key)) {
+      return { ...recipient, status: 'skipped', error: `Duplicate of row ${seen.get(key)}` };
+    }
+    seen.set(key, recipient.row);
+    return recipient;
+  });
+
+  return {
+    mergeId: String(Date.now()),
+    createdAt: new Date().toISOString(),
+    dataset: { ...dataset, sha256: fileHash(dataset.path), rowCount: rows.length },
+    emailColumn: settings.emailColumn,
+    ...(settings.nameColumn ? { nameColumn: settings.nameColumn } : {}),
+    template,
+    ...(settings.profile ? { profile: settings.profile } : {}),
+    ...(settings.fromName ? { fromName: settings.fromName } : {}),
+    ...(settings.replyTo ? { replyTo: settings.replyTo } : {}),
+    recipients
+  };
+}
+
+// Rows of the job's dataset, refusing to continue if the file changed since the
+// preview, since row numbers and contents would no longer match
+export function loadMergeRows(job: MergeJob): DataRow[] {
+  if (!fs.existsSync(job.dataset.path)) {
+    throw new Error(`Dataset of mail merge ${job.mergeId} is missing: ${job.dataset.path}`);
+  }
+  if (fileHash(job.dataset.path) !== job.dataset.sha256) {
+    throw new Error(`${job.dataset.name} changed since mail merge ${job.mergeId} was previewed. Run a new dry run`);
+  }
+  return loadRows(job.dataset);
+}
+
+// Render one recipient's message, asking the model for the personalized text
+// the first time it's needed
+export async function renderMergeMessage(job: MergeJob, row: DataRow, recipient: MergeRecipient, model: LLMProvider): Promise<RenderedMessage> {
+  const { template } = job;
+  if (template.personalizePrompt && recipient.personalized === undefined) {
+    const personalized = await model.generate(`${renderTemplate(template.personalizePrompt, row)}
+
+Reply with only the text to insert into the email: plain text, no greeting or signature, no placeholders.`);
+    recipient.personalized = personalized.trim();
+  }
+  const personalized = recipient.personalized ?? '';
+  const subject = renderTemplate(template.subject, row, personalized).replace(/\s+/g, ' ').trim();
+  const text = renderTemplate(template.text, row, personalized);
+  const html = template.html
+    ? renderTemplate(template.html, row, personalized, true)
+    : renderTextEmail(subject, text, []);
+  return { recipient, subject, text, html };
+}
+
+export interface SendMergeOptions {
+  // Most messages sent in this call; the rest stay pending for the next call
+  maxMessages: number;
+  ratePerMinute: number;
+  // Also send recipients that failed before
+  retryFailed: boolean;
+}
+
+// Send pending recipients in row order at no more than ratePerMinute, saving the
+// job after every message so the log survives an interrupted run. The saved job
+// is marked as sending meanwhile, and a second sender for it is refused
+export async function sendMerge(
+  job: MergeJob,
+  directory: string,
+  transport: MailTransport,
+  model: LLMProvider,
+  options: SendMergeOptions
+): Promise<MergeRecipient[]> {
+  const rows = loadMergeRows(job);
+  const [sender] = parseAddresses('from', transport.from);
+  const { sending } = loadMergeJob(directory, job.mergeId);
+  if (sending && lockHeld(sending)) {
+    throw new Error(`Mail merge ${job.mergeId} is being sent right now (since ${sending.since}). Wait for that call to finish`);
+  }
+  if (sending) {
+    console.error(`Mail merge ${job.mergeId}: the send started ${sending.since} was interrupted; continuing`);
+  }
+  job.sending = { pid: process.pid, instance: INSTANCE, since: new Date().toISOString() };
+  saveMergeJob(directory, job);
+
+  const interval = 60000 / options.ratePerMinute;
+  const due = job.recipients
+    .filter(recipient => recipient.status === 'pending' || (options.retryFailed && recipient.status === 'failed'))
+    .slice(0, options.maxMessages);
+
+  try {
+    let lastSent = 0;
+    for (const recipient of due) {
+      const wait = lastSent + interval - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      lastSent = Date.now();
+      recipient.attempts++;
+      try {
+        const message = await renderMergeMessage(job, rows[recipient.row - 1], recipient, model);
+        const mailOptions: nodemailer.SendMailOptions = {
+          from: job.fromName ? { name: job.fromName, address: sender.address } : transport.from,
+          to: recipient.name ? { name: recipient.name, address: recipient.to } : recipient.to,
+          ...(job.replyTo ? { replyTo: job.replyTo } : {}),
+          headers: { 'X-Mail-Merge-Id': job.mergeId },
+          subject: message.subject,
+          text: message.text,
+          html: message.html
+        };
+        const info = await transport.send(mailOptions);
+        recipient.status = 'sent';
+        recipient.messageId = info.messageId;
+        recipient.sentAt = new Date().toISOString();
+        delete recipient.error;
+      } catch (error) {
+        recipient.status = 'failed';
+        recipient.error = error instanceof Error ? error.message : String(error);
+        console.error(`Mail merge ${job.mergeId}: row ${recipient.row} (${recipient.to}) failed: ${recipient.error}`);
+      }
+      saveMergeJob(directory, job);
+    }
+  } finally {
+    delete job.sending;
+    saveMergeJob(directory, job);
+  }
+  return due;
+}
+
+// A lock is held while its process runs; this process releases its own when done
+function lockHeld(lock: MergeLock): boolean {
+  if (lock.instance === INSTANCE) {
+    return true;
+  }
+  if (lock.pid === process.pid) {
+    return false;
+  }
+  try {
+    process.kill(lock.pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export function countByStatus(job: MergeJob): Record<RecipientStatus, number> {
+  const counts: Record<RecipientStatus, number> = { pending: 0, sent: 0, failed: 0, skipped: 0 };
+  for (const recipient of job.recipients) {
+    counts[recipient.status]++;
+  }
+  return counts;
+}
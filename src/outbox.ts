@@ -0,0 +1,233 @@
+// Outbox of composed messages. A draft is the final MIME message saved to disk
+// (<id>.eml, with an <id>.html preview and <id>.json state), so what is sent is
+// exactly what was previewed. Scheduled sends and retries of transient failures
+// are picked up by a poller, and the state files survive restarts.
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'path';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import type nodemailer from 'nodemailer';
+import type { Mailer } from './mail.js';
+
+export type OutboxStatus = 'draft' | 'scheduled' | 'queued' | 'sending' | 'sent' | 'failed';
+
+// Statuses of messages that haven't been sent yet and can still go out
+export const PENDING_STATUSES: OutboxStatus[] = ['draft', 'scheduled', 'queued'];
+
+export interface OutboxItem {
+  draftId: string;
+  createdAt: string;
+  status: OutboxStatus;
+  profile: string;
+  messageId: string;
+  subject: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  attachments: string[];
+  envelope: { from: string; to: string[] };
+  // Scheduled time, or when the next retry is due
+  sendAt?: string;
+  attempts: number;
+  lastError?: string;
+  sentAt?: string;
+  // Where a pickup transport wrote the message
+  file?: string;
+}
+
+export interface DraftSummary {
+  profile: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  attachments: string[];
+}
+
+// Delivery attempts before a transient failure is given up on
+export const MAX_SEND_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+export const OUTBOX_POLL_MS = 30 * 1000;
+
+// Network errors and SMTP 4xx replies are worth retrying; 5xx replies,
+// authentication and message errors are not
+const TRANSIENT_CODES = new Set(['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ECONNREFUSED', 'ECONNRESET', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH']);
+
+export function isTransientError(error: unknown): boolean {
+  const { code, responseCode } = (error ?? {}) as { code?: string; responseCode?: number };
+  if (typeof responseCode === 'number') {
+    return responseCode >= 400 && responseCode < 500;
+  }
+  return code !== undefined && TRANSIENT_CODES.has(code);
+}
+
+// Exponential backoff: 1, 2, 4, 8 minutes ... capped at an hour
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+// Replace the Date header of a saved message with the time it actually goes out
+function restampDate(raw: Buffer): Buffer {
+  const text = raw.toString('utf8');
+  const headerEnd = text.search(/\r?\n\r?\n/);
+  if (headerEnd === -1) {
+    return raw;
+  }
+  const headers = text.slice(0, headerEnd).replace(/^Date: .*$/m, `Date: ${new Date().toUTCString().replace(/GMT$/, '+0000')}`);
+  return Buffer.from(headers + text.slice(headerEnd), 'utf8');
+}
+
+export function createOutbox(directory: string, mailer: Mailer) {
+  let processing = false;
+
+  const file = (draftId: string, extension: string) => path.join(directory, `${draftId}.${extension}`);
+
+  // Write through a temporary file so a crash never leaves a half-written state file
+  function save(item: OutboxItem): OutboxItem {
+    const target = file(item.draftId, 'json');
+    fs.writeFileSync(`${target}.tmp`, JSON.stringify(item, null, 2));
+    fs.renameSync(`${target}.tmp`, target);
+    return item;
+  }
+
+  function read(name: string): OutboxItem | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(directory, name), 'utf8')) as OutboxItem;
+    } catch (error) {
+      console.error(`Skipping unreadable outbox file ${name}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  function get(draftId: string): OutboxItem {
+    const item = /^[\w-]+$/.test(draftId) && fs.existsSync(file(draftId, 'json')) ? read(`${draftId}.json`) : undefined;
+    if (!item) {
+      throw new Error(`Draft not found: ${draftId}. Use list-outbox to see the outbox`);
+    }
+    return item;
+  }
+
+  function list(): OutboxItem[] {
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+    return fs.readdirSync(directory)
+      .filter(name => name.endsWith('.json'))
+      .map(read)
+      .filter((item): item is OutboxItem => item !== undefined)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Render the message to MIME and store it as a draft
+  async function createDraft(options: nodemailer.SendMailOptions, summary: DraftSummary): Promise<OutboxItem> {
+    fs.mkdirSync(directory, { recursive: true });
+    const draftId = `${Date.now()}-${crypto.randomBytes(3).toString('hex')}`;
+    const message = new MailComposer(options).compile();
+    const messageId = message.messageId();
+    fs.writeFileSync(file(draftId, 'eml'), await message.build());
+    if (typeof options.html === 'string') {
+      fs.writeFileSync(file(draftId, 'html'), options.html);
+    }
+    return save({
+      draftId,
+      createdAt: new Date().toISOString(),
+      status: 'draft',
+      ...summary,
+      messageId,
+      subject: String(options.subject ?? ''),
+      envelope: { from: summary.from, to: [...summary.to, ...summary.cc, ...summary.bcc] },
+      attempts: 0
+    });
+  }
+
+  // Send a stored message now. Transient failures are queued for a retry with
+  // backoff until MAX_SEND_ATTEMPTS; other failures are final.
+  async function deliver(draftId: string): Promise<OutboxItem> {
+    const item = get(draftId);
+    if (item.status === 'sent') {
+      throw new Error(`Draft ${draftId} was already sent at ${item.sentAt}`);
+    }
+    if (item.status === 'sending') {
+      throw new Error(`Draft ${draftId} is being sent right now`);
+    }
+    item.status = 'sending';
+    item.attempts++;
+    save(item);
+
+    try {
+      const transport = mailer.get(item.profile);
+      console.error(`Sending draft ${draftId} via mail profile "${transport.profile}" (attempt ${item.attempts})`);
+      const info = await transport.send({
+        envelope: item.envelope,
+        raw: restampDate(fs.readFileSync(file(draftId, 'eml'))),
+        messageId: item.messageId
+      });
+      item.status = 'sent';
+      item.sentAt = new Date().toISOString();
+      if (info.file) {
+        item.file = info.file;
+      }
+      delete item.sendAt;
+      delete item.lastError;
+    } catch (error) {
+      item.lastError = error instanceof Error ? error.message : String(error);
+      if (isTransientError(error) && item.attempts < MAX_SEND_ATTEMPTS) {
+        item.status = 'queued';
+        item.sendAt = new Date(Date.now() + retryDelay(item.attempts)).toISOString();
+        console.error(`Draft ${draftId} failed (${item.lastError}), retrying at ${item.sendAt}`);
+      } else {
+        item.status = 'failed';
+        delete item.sendAt;
+        console.error(`Draft ${draftId} failed: ${item.lastError}`);
+      }
+    }
+    return save(item);
+  }
+
+  function schedule(draftId: string, sendAt: Date): OutboxItem {
+    const item = get(draftId);
+    if (!PENDING_STATUSES.includes(item.status) && item.status !== 'failed') {
+      throw new Error(`Draft ${draftId} can't be scheduled while ${item.status}`);
+    }
+    return save({ ...item, status: 'scheduled', sendAt: sendAt.toISOString() });
+  }
+
+  // Send scheduled messages and retries that are due, one at a time. One message that
+  // can't be sent, e.g. because send-draft sent it meanwhile, doesn't hold up the rest.
+  async function processDue(): Promise<void> {
+    if (processing) {
+      return;
+    }
+    processing = true;
+    try {
+      const now = new Date().toISOString();
+      for (const item of list()) {
+        if ((item.status === 'scheduled' || item.status === 'queued') && item.sendAt && item.sendAt <= now) {
+          try {
+            await deliver(item.draftId);
+          } catch (error) {
+            console.error(`Outbox processing of draft ${item.draftId} failed:`, error instanceof Error ? error.message : error);
+          }
+        }
+      }
+    } finally {
+      processing = false;
+    }
+  }
+
+  // Poll for due messages. A message left "sending" by a crash may or may not have
+  // gone out, so it is marked failed for a person to check instead of resent.
+  function start(pollMs = OUTBOX_POLL_MS): void {
+    for (const item of list().filter(candidate => candidate.status === 'sending')) {
+      save({ ...item, status: 'failed', lastError: 'Interrupted while sending; it may have been delivered. Call send-draft to send it again' });
+    }
+    processDue();
+    setInterval(processDue, pollMs).unref();
+  }
+
+  return { directory, createDraft, get, list, deliver, schedule, processDue, start };
+}
+
+export type Outbox = ReturnType<typeof createOutbox>;
@@ -0,0 +1,273 @@
+import type { DatasetSchema } from './types.js';
+import { isMissing, isNumericType } from './schema.js';
+import { boxPlotStats, computeCategoricalStats, histogram, numericValues } from './stats.js';
+import { pairedValues } from './correlation.js';
+import { resample } from './timeseries.js';
+import type { Aggregation, Granularity } from './timeseries.js';
+import {
+  chartId,
+  renderBarChartSvg,
+  renderBoxPlotSvg,
+  renderLineChartSvg,
+  renderMissingMatrixSvg,
+  renderScatterChartSvg,
+  uniqueChartIds
+} from './charts.js';
+import type { ChartImage } from './charts.js';
+import type { DatasetProfile } from './analysis.js';
+
+export type ChartType = 'histogram' | 'box' | 'scatter' | 'bar' | 'line' | 'missing';
+
+// A specific chart asked for by the caller instead of the automatic selection
+export interface ChartRequest {
+  type: ChartType;
+  // histogram/box/bar/missing: the columns to plot; scatter: [x, y];
+  // line: [dateColumn, ...valueColumns]
+  columns?: string[];
+  granularity?: Granularity | 'auto';
+  aggregation?: Aggregation;
+}
+
+// Limits for the automatic selection, so wide tables don't produce hundreds of charts
+const MAX_AUTO_HISTOGRAMS = 8;
+const MAX_AUTO_BARS = 8;
+const MAX_AUTO_SCATTERS = 3;
+const MAX_AUTO_LINES = 3;
+const MAX_BOX_SERIES = 12;
+const MAX_SCATTER_POINTS = 1000;
+const MAX_MISSING_BUCKETS = 200;
+
+function isDateType(schema: DatasetSchema, column: string): boolean {
+  return schema[column]?.type === 'date' || schema[column]?.type === 'datetime';
+}
+
+function histogramChart(profile: DatasetProfile, col: string): ChartImage {
+  const { bins, counts } = histogram(numericValues(profile.data, col));
+  const title = `Distribution of ${col}`;
+  return {
+    id: chartId(col, 'histogram'),
+    title,
+    svg: renderBarChartSvg({
+      title,
+      labels: bins.map(b => b.toFixed(2)),
+      values: counts,
+      xLabel: col,
+      yLabel: 'Count'
+    })
+  };
+}
+
+function boxChart(profile: DatasetProfile, columns: string[]): ChartImage {
+  const title = columns.length === 1 ? `Box plot of ${columns[0]}` : 'Box plots of numeric columns';
+  const series = columns
+    .map(col => ({ col, values: numericValues(profile.data, col) }))
+    .filter(({ values }) => values.length > 0)
+    .map(({ col, values }) => ({ label: col, ...boxPlotStats(values) }));
+  return {
+    id: chartId(...(columns.length === 1 ? columns : []), 'boxplot'),
+    title,
+    svg: renderBoxPlotSvg({ title, series })
+  };
+}
+
+function barChart(profile: DatasetProfile, col: string): ChartImage {
+  const { topValues, otherCount } = profile.statistics.categoricalStats[col] ?? computeCategoricalStats(profile.data, col);
+  const title = `Value frequencies of ${col}`;
+  return {
+    id: chartId(col, 'frequency'),
+    title,
+    svg: renderBarChartSvg({
+      title,
+      labels: [...topValues.map(v => v.value), ...(otherCount ? ['(other)'] : [])],
+      values: [...topValues.map(v => v.count), ...(otherCount ? [otherCount] : [])],
+      xLabel: col,
+      yLabel: 'Count'
+    })
+  };
+}
+
+function scatterChart(profile: DatasetProfile, xCol: string, yCol: string): ChartImage {
+  const [xs, ys] = pairedValues(profile.data, xCol, yCol);
+  // Sample evenly so large files keep a readable plot
+  const step = Math.max(1, Math.ceil(xs.length / MAX_SCATTER_POINTS));
+  const points = xs.filter((_, i) => i % step === 0).map((x, i) => ({ x, y: ys[i * step] }));
+  const title = `${yCol} vs ${xCol}`;
+  return {
+    id: chartId(xCol, yCol, 'scatter'),
+    title,
+    svg: renderScatterChartSvg({ title, points, xLabel: xCol, yLabel: yCol })
+  };
+}
+
+function lineChart(
+  profile: DatasetProfile,
+  dateCol: string,
+  valueCols: string[],
+  granularity: Granularity | 'auto' = 'auto',
+  aggregation: Aggregation = 'mean'
+): ChartImage {
+  const targets = valueCols.length ? valueCols : [null];
+  // Streaming profiles only hold a uniform sample of the rows, so sums and counts
+  // are scaled up to estimate the totals
+  const { sampling } = profile.statistics;
+  const scaled = sampling !== undefined && (!valueCols.length || aggregation === 'sum' || aggregation === 'count');
+  const scale = scaled ? sampling.totalRows / sampling.sampleSize : 1;
+  let resolved: Granularity = 'day';
+  const series = targets.map(valueCol => {
+    const result = resample(profile.data, dateCol, valueCol, granularity, valueCol ? aggregation : 'count');
+    resolved = result.granularity;
+    return {
+      label: valueCol ?? 'rows',
+      points: result.points.map(point => ({ x: point.period, y: point.value * scale }))
+    };
+  });
+  const measure = valueCols.length ? `${aggregation} of ${valueCols.join(', ')}` : 'Row count';
+  // Only the fixed wording changes case; column names are kept as they are
+  const title = `${scaled ? `Estimated ${valueCols.length ? measure : 'row count'}` : measure} by ${resolved} of ${dateCol}`;
+  return {
+    id: chartId(dateCol, ...valueCols, 'line'),
+    title,
+    svg: renderLineChartSvg({
+      title,
+      series,
+      xLabel: sampling ? `${dateCol} (sample of ${sampling.sampleSize} of ${sampling.totalRows} rows)` : dateCol,
+      yLabel: valueCols.length === 1 ? `${aggregation} of ${valueCols[0]}` : valueCols.length ? aggregation : 'Rows',
+      timeAxis: true
+    })
+  };
+}
+
+function missingChart(profile: DatasetProfile, columns: string[]): ChartImage {
+  const { data } = profile;
+  const rowsPerBucket = Math.max(1, Math.ceil(data.length / MAX_MISSING_BUCKETS));
+  const buckets: number[][] = [];
+  for (let start = 0; start < data.length; start += rowsPerBucket) {
+    const rows = data.slice(start, start + rowsPerBucket);
+    buckets.push(columns.map(col => rows.filter(row => isMissing(row[col])).length / rows.length));
+  }
+  const { sampling } = profile.statistics;
+  const title = sampling ? `Missing values by row (sample of ${sampling.sampleSize} of ${sampling.totalRows} rows)` : 'Missing values by row';
+  return {
+    id: chartId('missing_values'),
+    title,
+    svg: renderMissingMatrixSvg({ title, columns, buckets, rowsPerBucket, sampleOf: sampling?.totalRows })
+  };
+}
+
+// Charts picked from the inferred schema: histograms and a box plot for numeric
+// columns, frequency bars for categorical columns, scatter plots for the strongest
+// numeric relationships, trends over the first date column and a missing-value matrix
+function autoCharts(profile: DatasetProfile): ChartImage[] {
+  const { columns, numericColumns, categoricalColumns, statistics } = profile;
+  const { schema } = statistics;
+  const charts: ChartImage[] = [];
+
+  for (const col of numericColumns.slice(0, MAX_AUTO_HISTOGRAMS)) {
+    charts.push(histogramChart(profile, col));
+  }
+  if (numericColumns.length) {
+    charts.push(boxChart(profile, numericColumns.slice(0, MAX_BOX_SERIES)));
+  }
+
+  // Identifiers are all-distinct and dates are shown as trends, so skip both
+  const barColumns = categoricalColumns.filter(col =>
+    schema[col].type !== 'identifier' && schema[col].type !== 'text' && !isDateType(schema, col)
+  );
+  for (const col of barColumns.slice(0, MAX_AUTO_BARS)) {
+    charts.push(barChart(profile, col));
+  }
+
+  const scatterPairs = statistics.correlations.topRelationships
+    .filter(rel => rel.method !== 'cramersV')
+    .map(rel => rel.columns)
+    .filter((pair, index, pairs) => pairs.findIndex(p => p[0] === pair[0] && p[1] === pair[1]) === index)
+    .slice(0, MAX_AUTO_SCATTERS);
+  for (const [xCol, yCol] of scatterPairs) {
+    charts.push(scatterChart(profile, xCol, yCol));
+  }
+
+  const dateCol = columns.find(col => isDateType(schema, col));
+  if (dateCol) {
+    const valueCols = numericColumns.filter(col => schema[col].type !== 'identifier').slice(0, MAX_AUTO_LINES);
+    if (valueCols.length) {
+      for (const col of valueCols) {
+        charts.push(lineChart(profile, dateCol, [col]));
+      }
+    } else {
+      charts.push(lineChart(profile, dateCol, []));
+    }
+  }
+
+  const withMissing = columns.filter(col => schema[col].missingCount > 0);
+  if (withMissing.length) {
+    charts.push(missingChart(profile, columns));
+  }
+
+  return charts;
+}
+
+function checkColumns(profile: DatasetProfile, request: ChartRequest, columns: string[]): void {
+  for (const col of columns) {
+    if (!profile.statistics.schema[col]) {
+      throw new Error(`Unknown column "${col}" in ${request.type} chart request. Available columns: ${profile.columns.join(', ')}`);
+    }
+  }
+}
+
+function requireNumeric(profile: DatasetProfile, request: ChartRequest, columns: string[]): void {
+  for (const col of columns) {
+    if (!isNumericType(profile.statistics.schema[col].type)) {
+      throw new Error(`Column "${col}" is ${profile.statistics.schema[col].type}, but a ${request.type} chart needs numeric columns`);
+    }
+  }
+}
+
+// Render one requested chart, validating the columns against the schema
+function requestedChart(profile: DatasetProfile, request: ChartRequest): ChartImage[] {
+  const { numericColumns, statistics } = profile;
+  const columns = request.columns ?? [];
+  checkColumns(profile, request, columns);
+
+  switch (request.type) {
+    case 'histogram': {
+      requireNumeric(profile, request, columns);
+      return (columns.length ? columns : numericColumns).map(col => histogramChart(profile, col));
+    }
+    case 'box': {
+      requireNumeric(profile, request, columns);
+      const targets = columns.length ? columns : numericColumns.slice(0, MAX_BOX_SERIES);
+      return targets.length ? [boxChart(profile, targets)] : [];
+    }
+    case 'bar': {
+      if (!columns.length) {
+        throw new Error('A bar chart request needs at least one column');
+      }
+      return columns.map(col => barChart(profile, col));
+    }
+    case 'scatter': {
+      if (columns.length !== 2) {
+        throw new Error('A scatter chart request needs exactly two columns: [x, y]');
+      }
+      requireNumeric(profile, request, columns);
+      return [scatterChart(profile, columns[0], columns[1])];
+    }
+    case 'line': {
+      const [dateCol, ...valueCols] = columns;
+      if (!dateCol || !isDateType(statistics.schema, dateCol)) {
+        throw new Error('A line chart request needs a date column first, followed by the numeric columns to plot');
+      }
+      requireNumeric(profile, request, valueCols);
+      return [lineChart(profile, dateCol, valueCols, request.granularity, request.aggregation)];
+    }
+    case 'missing':
+      return [missingChart(profile, columns.length ? columns : profile.columns)];
+  }
+}
+
+// Render the charts for a profiled dataset as standalone SVG. Explicit requests
+// replace the automatic selection.
+export function buildCharts(profile: DatasetProfile, requests?: ChartRequest[]): ChartImage[] {
+  return uniqueChartIds(requests && requests.length > 0
+    ? requests.flatMap(request => requestedChart(profile, request))
+    : autoCharts(profile));
+}
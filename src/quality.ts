@@ -0,0 +1,384 @@
+import type {
+  CellValue,
+  ColumnOutliers,
+  ConstantColumn,
+  DuplicateGroup,
+  MissingPattern,
+  QualityReport,
+  SuspiciousValues
+} from './types.js';
+import { escapeHtml } from './html.js';
+import { isMissing, looksLikeIdentifier, toDate, toNumber } from './schema.js';
+import { computeCategoricalStats, iqrFences } from './stats.js';
+import type { DatasetProfile } from './analysis.js';
+
+// Rows listed per finding; counts always cover every flagged row
+const MAX_FLAGGED_ROWS = 50;
+const MAX_DUPLICATE_GROUPS = 20;
+const MAX_MISSING_PATTERNS = 10;
+
+// |z| above this is an outlier
+const Z_SCORE_THRESHOLD = 3;
+
+// Share of non-missing values taken by the mode above which a column is near-constant
+const NEAR_CONSTANT_SHARE = 0.95;
+
+// Column name words that imply values can't be negative
+const NON_NEGATIVE_WORDS = new Set([
+  'age', 'count', 'qty', 'quantity', 'price', 'amount', 'cost', 'weight', 'height',
+  'duration', 'salary', 'income', 'population', 'distance', 'size', 'length'
+]);
+const PERCENT_WORDS = new Set(['pct', 'percent', 'percentage']);
+const MAX_PLAUSIBLE_AGE = 120;
+const EARLIEST_PLAUSIBLE_YEAR = 1900;
+
+// Lower-case words of a column name, split on separators and camelCase
+function nameWords(column: string): string[] {
+  return column
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .map(word => word.replace(/s$/, ''))
+    .filter(Boolean);
+}
+
+function cellKey(value: CellValue | undefined): string {
+  if (isMissing(value)) return '';
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// Looser key for near-duplicates: case, surrounding and repeated whitespace and
+// floating point noise are ignored
+function nearKey(value: CellValue | undefined): string {
+  if (isMissing(value)) return '';
+  const number = toNumber(value);
+  if (number !== null) return String(Number(number.toPrecision(6)));
+  const date = toDate(value);
+  if (date) return date.toISOString();
+  return String(value).trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function missingReport(profile: DatasetProfile, rowNumber: (index: number) => number): QualityReport['missing'] {
+  const { data, columns, statistics } = profile;
+  // Entirely empty columns would appear in every pattern; they are reported as empty columns
+  const checked = columns.filter(col => statistics.schema[col].type !== 'empty');
+  const patterns = new Map<string, MissingPattern>();
+  let rowsWithMissing = 0;
+
+  data.forEach((row, index) => {
+    const missingColumns = checked.filter(col => isMissing(row[col]));
+    if (missingColumns.length === 0) {
+      return;
+    }
+    rowsWithMissing++;
+    const key = missingColumns.join('\u0000');
+    const pattern = patterns.get(key) ?? { columns: missingColumns, count: 0, rows: [] };
+    pattern.count++;
+    if (pattern.rows.length < MAX_FLAGGED_ROWS) {
+      pattern.rows.push(rowNumber(index));
+    }
+    patterns.set(key, pattern);
+  });
+
+  return {
+    // Column counts come from the schema pass, so they are exact even for streamed files
+    columns: columns
+      .filter(col => statistics.schema[col].missingCount > 0)
+      .map(col => ({
+        column: col,
+        count: statistics.schema[col].missingCount,
+        share: Number((statistics.schema[col].missingCount / statistics.rowCount).toFixed(4))
+      })),
+    rowsWithMissing,
+    patterns: [...patterns.values()].sort((a, b) => b.count - a.count).slice(0, MAX_MISSING_PATTERNS)
+  };
+}
+
+// Exact duplicates match on every cell. Near-duplicates match after normalizing the
+// cells and ignoring identifier columns (by type or by name, since duplicated rows
+// stop an id column from looking all-distinct), which catches re-entered records.
+function duplicateReport(profile: DatasetProfile, rowNumber: (index: number) => number): QualityReport['duplicates'] {
+  const { data, columns, statistics } = profile;
+  const contentColumns = columns.filter(col =>
+    statistics.schema[col].type !== 'identifier' && !looksLikeIdentifier(col)
+  );
+  const exactGroups = new Map<string, number[]>();
+  const nearGroups = new Map<string, Set<string>>();
+  const nearRows = new Map<string, number[]>();
+
+  data.forEach((row, index) => {
+    const exact = JSON.stringify(columns.map(col => cellKey(row[col])));
+    const near = JSON.stringify(contentColumns.map(col => nearKey(row[col])));
+    if (!exactGroups.has(exact)) exactGroups.set(exact, []);
+    exactGroups.get(exact)!.push(index);
+    if (!nearGroups.has(near)) {
+      nearGroups.set(near, new Set());
+      nearRows.set(near, []);
+    }
+    nearGroups.get(near)!.add(exact);
+    nearRows.get(near)!.push(index);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  let exactCount = 0;
+  for (const rows of exactGroups.values()) {
+    if (rows.length > 1) {
+      exactCount += rows.length - 1;
+      groups.push({ kind: 'exact', rows: rows.slice(0, MAX_FLAGGED_ROWS).map(rowNumber) });
+    }
+  }
+  // A near group only counts when it joins rows that are not already exact copies
+  let nearCount = 0;
+  for (const [key, variants] of nearGroups) {
+    if (variants.size > 1) {
+      nearCount += variants.size - 1;
+      groups.push({ kind: 'near', rows: nearRows.get(key)!.slice(0, MAX_FLAGGED_ROWS).map(rowNumber) });
+    }
+  }
+
+  return {
+    exactCount,
+    nearCount,
+    groups: groups.sort((a, b) => b.rows.length - a.rows.length).slice(0, MAX_DUPLICATE_GROUPS)
+  };
+}
+
+// Values outside the Tukey fences or more than Z_SCORE_THRESHOLD deviations from the mean
+function outlierReport(profile: DatasetProfile, rowNumber: (index: number) => number): ColumnOutliers[] {
+  const { data, numericColumns, statistics } = profile;
+  const report: ColumnOutliers[] = [];
+
+  for (const col of numericColumns) {
+    const { mean, std, q1, q3 } = statistics.numericStats[col];
+    const { lower, upper } = iqrFences(q1, q3);
+    const flags: ColumnOutliers['rows'] = [];
+    let iqrCount = 0;
+    let zScoreCount = 0;
+
+    data.forEach((row, index) => {
+      const value = toNumber(row[col]);
+      if (value === null) {
+        return;
+      }
+      const zScore = std > 0 ? (value - mean) / std : 0;
+      const methods: ('iqr' | 'zscore')[] = [];
+      if (value < lower || value > upper) {
+        methods.push('iqr');
+        iqrCount++;
+      }
+      if (Math.abs(zScore) > Z_SCORE_THRESHOLD) {
+        methods.push('zscore');
+        zScoreCount++;
+      }
+      if (methods.length) {
+        flags.push({ row: rowNumber(index), value, zScore: Number(zScore.toFixed(2)), methods });
+      }
+    });
+
+    if (flags.length) {
+      report.push({
+        column: col,
+        lowerFence: lower,
+        upperFence: upper,
+        iqrCount,
+        zScoreCount,
+        rows: flags.sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore)).slice(0, MAX_FLAGGED_ROWS)
+      });
+    }
+  }
+  return report;
+}
+
+function constantReport(profile: DatasetProfile): ConstantColumn[] {
+  const { data, columns, statistics } = profile;
+  const report: ConstantColumn[] = [];
+
+  for (const col of columns) {
+    const schema = statistics.schema[col];
+    if (schema.type === 'empty') {
+      report.push({ column: col, kind: 'empty', value: null, share: 0 });
+      continue;
+    }
+    const { mode, modeCount, missingCount } = statistics.categoricalStats[col] ?? computeCategoricalStats(data, col, 1);
+    // Numeric columns are counted over the rows in memory, which may be a sample
+    const observed = statistics.categoricalStats[col] ? schema.nonNullCount : data.length - missingCount;
+    const share = observed > 0 ? modeCount / observed : 0;
+    if (schema.uniqueCount === 1) {
+      report.push({ column: col, kind: 'constant', value: mode, share: 1 });
+    } else if (share >= NEAR_CONSTANT_SHARE) {
+      report.push({ column: col, kind: 'near-constant', value: mode, share: Number(share.toFixed(4)) });
+    }
+  }
+  return report;
+}
+
+// Values that parse fine but are implausible for the column: negative ages or prices,
+// percentages outside 0–100, dates in the future or before 1900
+function suspiciousReport(profile: DatasetProfile, rowNumber: (index: number) => number): SuspiciousValues[] {
+  const { data, columns, numericColumns, statistics } = profile;
+  const now = Date.now();
+  const checks: { column: string; reason: string; test: (value: CellValue | undefined) => boolean }[] = [];
+
+  for (const col of numericColumns) {
+    const words = nameWords(col);
+    if (words.some(word => NON_NEGATIVE_WORDS.has(word))) {
+      checks.push({ column: col, reason: 'negative value', test: value => (toNumber(value) ?? 0) < 0 });
+    }
+    if (words.includes('age')) {
+      checks.push({ column: col, reason: `age above ${MAX_PLAUSIBLE_AGE}`, test: value => (toNumber(value) ?? 0) > MAX_PLAUSIBLE_AGE });
+    }
+    if (words.some(word => PERCENT_WORDS.has(word))) {
+      checks.push({
+        column: col,
+        reason: 'percentage outside 0–100',
+        test: value => {
+          const number = toNumber(value);
+          return number !== null && (number < 0 || number > 100);
+        }
+      });
+    }
+  }
+  for (const col of columns.filter(col => statistics.schema[col].type === 'date' || statistics.schema[col].type === 'datetime')) {
+    checks.push({ column: col, reason: 'date in the future', test: value => (toDate(value)?.getTime() ?? 0) > now });
+    checks.push({
+      column: col,
+      reason: `date before ${EARLIEST_PLAUSIBLE_YEAR}`,
+      test: value => {
+        const date = toDate(value);
+        return date !== null && date.getUTCFullYear() < EARLIEST_PLAUSIBLE_YEAR;
+      }
+    });
+  }
+
+  const report: SuspiciousValues[] = [];
+  for (const { column, reason, test } of checks) {
+    const finding: SuspiciousValues = { column, reason, count: 0, rows: [] };
+    data.forEach((row, index) => {
+      if (!isMissing(row[column]) && test(row[column])) {
+        finding.count++;
+        if (finding.rows.length < MAX_FLAGGED_ROWS) {
+          finding.rows.push({ row: rowNumber(index), value: cellKey(row[column]) });
+        }
+      }
+    });
+    if (finding.count) {
+      report.push(finding);
+    }
+  }
+  return report;
+}
+
+// Data-quality checks over a profiled dataset. Row-level checks run on the rows held
+// in memory; for streamed files that is the row sample, with rows numbered by their
+// position in the file.
+export function assessQuality(profile: DatasetProfile): QualityReport {
+  const { statistics } = profile;
+  const rowNumber = (index: number) => profile.rowNumbers?.[index] ?? index;
+
+  return {
+    dataset: profile.name,
+    rowCount: statistics.rowCount,
+    ...(statistics.sampling ? { sampling: statistics.sampling } : {}),
+    missing: missingReport(profile, rowNumber),
+    duplicates: duplicateReport(profile, rowNumber),
+    outliers: outlierReport(profile, rowNumber),
+    constantColumns: constantReport(profile),
+    mixedTypes: Object.values(statistics.schema)
+      .filter(col => col.mixedCount > 0)
+      .map(col => ({ column: col.name, count: col.mixedCount, cells: col.mixedCells })),
+    suspicious: suspiciousReport(profile, rowNumber)
+  };
+}
+
+// Rows as 1-based numbers for people, e.g. "rows 3, 17, 42 and 5 more"
+function listRows(rows: number[], total = rows.length, limit = 10): string {
+  const shown = rows.slice(0, limit).map(row => row + 1).join(', ');
+  return total > limit ? `${shown} and ${total - limit} more` : shown;
+}
+
+// Prompt lines summarizing the quality findings, so the model's anomaly discussion
+// rests on flagged rows rather than guesses
+export function describeQuality(report: QualityReport): string {
+  const lines: string[] = [];
+  for (const { column, count, share } of report.missing.columns) {
+    lines.push(`- ${column}: ${count} missing (${(share * 100).toFixed(1)}%)`);
+  }
+  if (report.duplicates.exactCount || report.duplicates.nearCount) {
+    lines.push(`- ${report.duplicates.exactCount} exact and ${report.duplicates.nearCount} near-duplicate rows`);
+  }
+  for (const col of report.outliers) {
+    lines.push(`- ${col.column}: ${col.iqrCount} IQR outliers (outside ${Number(col.lowerFence.toPrecision(6))}..${Number(col.upperFence.toPrecision(6))}), ${col.zScoreCount} with |z| > ${Z_SCORE_THRESHOLD}; most extreme rows ${listRows(col.rows.map(flag => flag.row), col.rows.length, 5)}`);
+  }
+  for (const col of report.constantColumns) {
+    lines.push(`- ${col.column}: ${col.kind}${col.value !== null ? ` ("${col.value}", ${(col.share * 100).toFixed(1)}%)` : ''}`);
+  }
+  for (const col of report.mixedTypes) {
+    lines.push(`- ${col.column}: ${col.count} mixed-type cells`);
+  }
+  for (const finding of report.suspicious) {
+    lines.push(`- ${finding.column}: ${finding.count} ${finding.reason} (rows ${listRows(finding.rows.map(flag => flag.row), finding.count, 5)})`);
+  }
+  return lines.length ? lines.join('\n') : '- No data quality issues found';
+}
+
+// HTML section listing every finding with its row numbers
+export function renderQualitySection(report: QualityReport): string {
+  const { missing, duplicates, outliers, constantColumns, mixedTypes, suspicious } = report;
+  return `
+    <h2>Data Quality</h2>
+    <div class="stats">
+      <p>Row numbers count data rows from 1, excluding the header.${report.sampling ? ` Row-level checks ran on a sample of ${report.sampling.sampleSize} of ${report.sampling.totalRows} rows; missing counts are exact.` : ''}</p>
+      <h3>Missing Values</h3>
+      ${missing.columns.length ? `
+      <p>${missing.rowsWithMissing} rows have at least one missing value.</p>
+      <table class="schema">
+        <tr><th>Column</th><th>Missing</th><th>Share</th></tr>
+        ${missing.columns.map(col => `
+        <tr><td>${escapeHtml(col.column)}</td><td>${col.count}</td><td>${(col.share * 100).toFixed(1)}%</td></tr>`).join('')}
+      </table>
+      <h4>Missing-value patterns</h4>
+      <table class="schema">
+        <tr><th>Missing together</th><th>Rows</th><th>Examples</th></tr>
+        ${missing.patterns.map(pattern => `
+        <tr><td>${escapeHtml(pattern.columns.join(', '))}</td><td>${pattern.count}</td><td>${listRows(pattern.rows, pattern.count)}</td></tr>`).join('')}
+      </table>` : '<p>No missing values.</p>'}
+      <h3>Duplicate Rows</h3>
+      ${duplicates.groups.length ? `
+      <p>${duplicates.exactCount} exact duplicates and ${duplicates.nearCount} near-duplicates (equal after normalizing case, whitespace and number formatting, ignoring identifier columns).</p>
+      <table class="schema">
+        <tr><th>Kind</th><th>Rows</th></tr>
+        ${duplicates.groups.map(group => `
+        <tr><td>${group.kind}</td><td>${listRows(group.rows, group.rows.length, 20)}</td></tr>`).join('')}
+      </table>` : '<p>No duplicate rows.</p>'}
+      <h3>Outliers</h3>
+      ${outliers.length ? outliers.map(col => `
+      <h4>${escapeHtml(col.column)}</h4>
+      <p>${col.iqrCount} outside the IQR fences [${Number(col.lowerFence.toPrecision(6))}, ${Number(col.upperFence.toPrecision(6))}], ${col.zScoreCount} with |z| &gt; ${Z_SCORE_THRESHOLD}</p>
+      <table class="schema">
+        <tr><th>Row</th><th>Value</th><th>z-score</th><th>Flagged by</th></tr>
+        ${col.rows.map(flag => `
+        <tr><td>${flag.row + 1}</td><td>${escapeHtml(flag.value)}</td><td>${flag.zScore}</td><td>${flag.methods.join(', ')}</td></tr>`).join('')}
+      </table>`).join('') : '<p>No outliers.</p>'}
+      <h3>Constant and Near-Constant Columns</h3>
+      ${constantColumns.length ? `
+      <table class="schema">
+        <tr><th>Column</th><th>Kind</th><th>Value</th><th>Share</th></tr>
+        ${constantColumns.map(col => `
+        <tr><td>${escapeHtml(col.column)}</td><td>${col.kind}</td><td>${escapeHtml(col.value === null ? '' : String(col.value))}</td><td>${(col.share * 100).toFixed(1)}%</td></tr>`).join('')}
+      </table>` : '<p>None.</p>'}
+      <h3>Mixed-Type Cells</h3>
+      ${mixedTypes.length ? `
+      <table class="schema">
+        <tr><th>Column</th><th>Cells</th><th>Examples</th></tr>
+        ${mixedTypes.map(col => `
+        <tr><td>${escapeHtml(col.column)}</td><td>${col.count}</td><td>${escapeHtml(col.cells.map(cell => `row ${cell.row + 1}: "${cell.value}" (${cell.detectedAs})`).join(', '))}</td></tr>`).join('')}
+      </table>` : '<p>None.</p>'}
+      <h3>Suspicious Values</h3>
+      ${suspicious.length ? `
+      <table class="schema">
+        <tr><th>Column</th><th>Issue</th><th>Count</th><th>Rows</th></tr>
+        ${suspicious.map(finding => `
+        <tr><td>${escapeHtml(finding.column)}</td><td>${escapeHtml(finding.reason)}</td><td>${finding.count}</td><td>${escapeHtml(finding.rows.slice(0, 10).map(flag => `${flag.row + 1}: ${flag.value}`).join(', '))}${finding.count > 10 ? ` and ${finding.count - 10} more` : ''}</td></tr>`).join('')}
+      </table>` : '<p>None.</p>'}
+    </div>`;
+}
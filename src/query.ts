@@ -0,0 +1,434 @@
+// Local queries over registered datasets: a list of steps (filter, select, sort,
+// group, pivot, join, limit) applied in order. Values are compared as numbers when
+// both sides parse as numbers, then as dates, then as text ignoring case.
+import { z } from 'zod';
+import { isMissing, toDate, toNumber } from './schema.js';
+import type { CellValue, DataRow } from './types.js';
+
+export const FILTER_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'notIn', 'contains', 'startsWith', 'endsWith', 'isMissing', 'notMissing'] as const;
+export const AGGREGATE_FUNCTIONS = ['count', 'countDistinct', 'sum', 'mean', 'median', 'min', 'max', 'first', 'last'] as const;
+export type AggregateFunction = typeof AGGREGATE_FUNCTIONS[number];
+
+// Largest result a join may produce, to keep a bad key from exhausting memory
+export const MAX_JOIN_ROWS = 1000000;
+
+// Most distinct values a pivot turns into columns
+export const MAX_PIVOT_COLUMNS = 200;
+
+const ScalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const FilterConditionSchema = z.object({
+  column: z.string().describe('Column to test'),
+  operator: z.enum(FILTER_OPERATORS).describe('Comparison; between takes [low, high] inclusive, in and notIn take a list'),
+  value: z.union([ScalarSchema, z.array(ScalarSchema)]).optional().describe('Value to compare with; a list for between, in and notIn')
+}).refine(condition => ['isMissing', 'notMissing'].includes(condition.operator) || condition.value !== undefined, {
+  message: 'value is required for this operator'
+}).refine(condition => !['between', 'in', 'notIn'].includes(condition.operator) || Array.isArray(condition.value), {
+  message: 'between, in and notIn take a list of values'
+}).refine(condition => condition.operator !== 'between' || (Array.isArray(condition.value) && condition.value.length === 2), {
+  message: 'between takes exactly two values, [low, high]'
+});
+
+export const AggregateSchema = z.object({
+  function: z.enum(AGGREGATE_FUNCTIONS).describe('Aggregate function; count without a column counts rows'),
+  column: z.string().optional().describe('Column to aggregate'),
+  as: z.string().optional().describe('Name of the result column (defaults to function_column)')
+}).refine(aggregate => aggregate.function === 'count' || aggregate.column, {
+  message: 'column is required for every aggregate except count'
+});
+
+export const QueryStepSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('filter'),
+    conditions: z.array(FilterConditionSchema).min(1),
+    match: z.enum(['all', 'any']).optional().default('all').describe('Keep rows matching all conditions or any of them')
+  }),
+  z.object({
+    op: z.literal('select'),
+    columns: z.array(z.string()).min(1).describe('Columns to keep, in this order'),
+    rename: z.record(z.string()).optional().describe('New names for selected columns, e.g. {"rev": "revenue"}')
+  }),
+  z.object({
+    op: z.literal('sort'),
+    by: z.array(z.object({
+      column: z.string(),
+      direction: z.enum(['asc', 'desc']).optional().default('asc')
+    })).min(1)
+  }),
+  z.object({
+    op: z.literal('group'),
+    by: z.array(z.string()).describe('Columns to group by; empty for one row over the whole dataset'),
+    aggregates: z.array(AggregateSchema).min(1)
+  }),
+  z.object({
+    op: z.literal('pivot'),
+    index: z.array(z.string()).min(1).describe('Columns that identify a result row'),
+    columns: z.string().describe('Column whose distinct values become result columns'),
+    values: z.string().optional().describe('Column aggregated into each cell (not needed for count)'),
+    function: z.enum(AGGREGATE_FUNCTIONS).optional().default('sum'),
+    fill: ScalarSchema.optional().default(null).describe('Value for cells without rows')
+  }),
+  z.object({
+    op: z.literal('join'),
+    datasetId: z.string().describe('Registered dataset joined on the right'),
+    on: z.array(z.string()).min(1).optional().describe('Key columns present in both datasets'),
+    leftOn: z.array(z.string()).min(1).optional().describe('Key columns of the current rows, when the names differ'),
+    rightOn: z.array(z.string()).min(1).optional().describe('Matching key columns of the joined dataset'),
+    type: z.enum(['inner', 'left', 'right', 'full']).optional().default('inner'),
+    suffix: z.string().min(1).optional().default('_right').describe('Added to joined columns whose names are already taken')
+  }),
+  z.object({
+    op: z.literal('limit'),
+    count: z.number().int().positive(),
+    offset: z.number().int().min(0).optional().default(0)
+  })
+]);
+
+export const QueryPlanSchema = z.array(QueryStepSchema).min(1).max(25);
+
+export type FilterCondition = z.infer<typeof FilterConditionSchema>;
+export type QueryStep = z.infer<typeof QueryStepSchema>;
+
+export interface Table {
+  columns: string[];
+  rows: DataRow[];
+}
+
+// Rows of another registered dataset, for joins
+export type DatasetLookup = (datasetId: string) => Table;
+
+function text(value: CellValue): string {
+  return value instanceof Date ? value.toISOString() : String(value).trim();
+}
+
+// Order of two values; missing values sort last
+export function compareValues(a: CellValue | undefined, b: CellValue | undefined): number {
+  const aMissing = isMissing(a);
+  const bMissing = isMissing(b);
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+  const aNumber = toNumber(a!);
+  const bNumber = toNumber(b!);
+  if (aNumber !== null && bNumber !== null) {
+    return aNumber - bNumber;
+  }
+  const aDate = toDate(a!);
+  const bDate = toDate(b!);
+  if (aDate && bDate) {
+    return aDate.getTime() - bDate.getTime();
+  }
+  return text(a!).localeCompare(text(b!), undefined, { sensitivity: 'accent', numeric: true });
+}
+
+// Key used to match values in groups, pivots and joins: 1, "1" and "1.0" match,
+// as do text values differing only in case
+function valueKey(value: CellValue | undefined): string {
+  if (isMissing(value)) {
+    return '\u0000';
+  }
+  const number = toNumber(value!);
+  if (number !== null) {
+    return `n:${number}`;
+  }
+  const date = toDate(value!);
+  if (date) {
+    return `d:${date.getTime()}`;
+  }
+  return `s:${text(value!).toLowerCase()}`;
+}
+
+function rowKey(row: DataRow, columns: string[]): string {
+  return JSON.stringify(columns.map(column => valueKey(row[column])));
+}
+
+function requireColumns(table: Table, columns: string[], step: string): void {
+  const missing = columns.filter(column => !table.columns.includes(column));
+  if (missing.length) {
+    throw new Error(`Unknown column${missing.length > 1 ? 's' : ''} ${missing.map(column => `"${column}"`).join(', ')} in ${step}. Available: ${table.columns.join(', ')}`);
+  }
+}
+
+function matches(row: DataRow, condition: FilterCondition): boolean {
+  const cell = row[condition.column];
+  const value = condition.value;
+  const list = Array.isArray(value) ? value : [value ?? null];
+  switch (condition.operator) {
+    case 'isMissing':
+      return isMissing(cell);
+    case 'notMissing':
+      return !isMissing(cell);
+    case 'in':
+      return list.some(candidate => valueKey(cell) === valueKey(candidate));
+    case 'notIn':
+      return !list.some(candidate => valueKey(cell) === valueKey(candidate));
+    case 'eq':
+      return valueKey(cell) === valueKey(list[0]);
+    case 'ne':
+      return valueKey(cell) !== valueKey(list[0]);
+  }
+  if (isMissing(cell)) {
+    return false;
+  }
+  switch (condition.operator) {
+    case 'gt':
+      return compareValues(cell, list[0]) > 0;
+    case 'gte':
+      return compareValues(cell, list[0]) >= 0;
+    case 'lt':
+      return compareValues(cell, list[0]) < 0;
+    case 'lte':
+      return compareValues(cell, list[0]) <= 0;
+    case 'between':
+      return compareValues(cell, list[0]) >= 0 && compareValues(cell, list[1]) <= 0;
+    case 'contains':
+      return text(cell!).toLowerCase().includes(String(list[0]).toLowerCase());
+    case 'startsWith':
+      return text(cell!).toLowerCase().startsWith(String(list[0]).toLowerCase());
+    case 'endsWith':
+      return text(cell!).toLowerCase().endsWith(String(list[0]).toLowerCase());
+    default:
+      return false;
+  }
+}
+
+export function aggregate(values: (CellValue | undefined)[], fn: AggregateFunction): CellValue {
+  const present = values.filter(value => !isMissing(value)) as CellValue[];
+  const numbers = present.map(value => toNumber(value)).filter((value): value is number => value !== null);
+  switch (fn) {
+    case 'count':
+      return present.length;
+    case 'countDistinct':
+      return new Set(present.map(valueKey)).size;
+    case 'sum':
+      return numbers.reduce((sum, value) => sum + value, 0);
+    case 'mean':
+      return numbers.length ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : null;
+    case 'median': {
+      if (!numbers.length) {
+        return null;
+      }
+      const sorted = [...numbers].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    }
+    case 'min':
+    case 'max': {
+      // Dates and text have an order too
+      const sorted = [...present].sort(compareValues);
+      return (fn === 'min' ? sorted[0] : sorted.at(-1)) ?? null;
+    }
+    case 'first':
+      return present[0] ?? null;
+    case 'last':
+      return present.at(-1) ?? null;
+  }
+}
+
+// Rows grouped by the key columns, in first-seen order
+function groupRows(rows: DataRow[], columns: string[]): DataRow[][] {
+  const groups = new Map<string, DataRow[]>();
+  for (const row of rows) {
+    const key = rowKey(row, columns);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+  return [...groups.values()];
+}
+
+function runStep(table: Table, step: QueryStep, index: number, lookup: DatasetLookup): Table {
+  const label = `step ${index + 1} (${step.op})`;
+  switch (step.op) {
+    case 'filter': {
+      requireColumns(table, step.conditions.map(condition => condition.column), label);
+      const test = step.match === 'any'
+        ? (row: DataRow) => step.conditions.some(condition => matches(row, condition))
+        : (row: DataRow) => step.conditions.every(condition => matches(row, condition));
+      return { columns: table.columns, rows: table.rows.filter(test) };
+    }
+
+    case 'select': {
+      requireColumns(table, step.columns, label);
+      const names = step.columns.map(column => step.rename?.[column] ?? column);
+      if (new Set(names).size !== names.length) {
+        throw new Error(`Duplicate column names after renaming in ${label}: ${names.join(', ')}`);
+      }
+      return {
+        columns: names,
+        rows: table.rows.map(row => Object.fromEntries(step.columns.map((column, i) => [names[i], row[column] ?? null])))
+      };
+    }
+
+    case 'sort': {
+      requireColumns(table, step.by.map(key => key.column), label);
+      const rows = [...table.rows].sort((a, b) => {
+        for (const key of step.by) {
+          const order = compareValues(a[key.column], b[key.column]);
+          if (order !== 0) {
+            // Missing values stay last in both directions
+            return key.direction === 'desc' && !isMissing(a[key.column]) && !isMissing(b[key.column]) ? -order : order;
+          }
+        }
+        return 0;
+      });
+      return { columns: table.columns, rows };
+    }
+
+    case 'group': {
+      requireColumns(table, [...step.by, ...step.aggregates.flatMap(agg => agg.column ? [agg.column] : [])], label);
+      const names = step.aggregates.map(agg => agg.as ?? (agg.column ? `${agg.function}_${agg.column}` : 'count'));
+      const columns = [...step.by, ...names];
+      if (new Set(columns).size !== columns.length) {
+        throw new Error(`Duplicate result column names in ${label}: ${columns.join(', ')}; use "as" to rename aggregates`);
+      }
+      const groups = step.by.length ? groupRows(table.rows, step.by) : [table.rows];
+      return {
+        columns,
+        rows: groups.map(group => ({
+          ...Object.fromEntries(step.by.map(column => [column, group[0]?.[column] ?? null])),
+          ...Object.fromEntries(step.aggregates.map((agg, i) => [
+            names[i],
+            agg.column ? aggregate(group.map(row => row[agg.column!]), agg.function) : group.length
+          ]))
+        }))
+      };
+    }
+
+    case 'pivot': {
+      requireColumns(table, [...step.index, step.columns, ...(step.values ? [step.values] : [])], label);
+      if (!step.values && step.function !== 'count') {
+        throw new Error(`${label} needs a values column for ${step.function}`);
+      }
+      const headings = new Map<string, string>();
+      for (const row of table.rows) {
+        const key = valueKey(row[step.columns]);
+        if (!headings.has(key)) {
+          headings.set(key, isMissing(row[step.columns]) ? '(missing)' : text(row[step.columns]!));
+        }
+      }
+      if (headings.size > MAX_PIVOT_COLUMNS) {
+        throw new Error(`${label}: "${step.columns}" has ${headings.size} distinct values; at most ${MAX_PIVOT_COLUMNS} can become columns`);
+      }
+      const pivotColumns = [...headings.values()].filter(heading => !step.index.includes(heading));
+      if (pivotColumns.length !== headings.size) {
+        throw new Error(`${label}: values of "${step.columns}" clash with the index column names`);
+      }
+      return {
+        columns: [...step.index, ...pivotColumns],
+        rows: groupRows(table.rows, step.index).map(group => {
+          const row: DataRow = Object.fromEntries(step.index.map(column => [column, group[0][column] ?? null]));
+          for (const [key, heading] of headings) {
+            const cells = group.filter(candidate => valueKey(candidate[step.columns]) === key);
+            row[heading] = cells.length
+              ? (step.values ? aggregate(cells.map(cell => cell[step.values!]), step.function) : cells.length)
+              : step.fill;
+          }
+          return row;
+        })
+      };
+    }
+
+    case 'join': {
+      const leftOn = step.on ?? step.leftOn;
+      const rightOn = step.on ?? step.rightOn;
+      if (!leftOn || !rightOn || leftOn.length !== rightOn.length) {
+        throw new Error(`${label} needs on, or leftOn and rightOn of the same length`);
+      }
+      const right = lookup(step.datasetId);
+      requireColumns(table, leftOn, label);
+      requireColumns(right, rightOn, `${label}, dataset ${step.datasetId}`);
+
+      // Right columns other than its keys, renamed when the name is taken
+      const taken = new Set(table.columns);
+      const rightColumns = right.columns
+        .filter(column => !(step.on && rightOn.includes(column)))
+        .map(column => {
+          let name = taken.has(column) ? `${column}${step.suffix}` : column;
+          while (taken.has(name)) {
+            name = `${name}${step.suffix}`;
+          }
+          taken.add(name);
+          return { column, name };
+        });
+
+      const index = new Map<string, DataRow[]>();
+      for (const row of right.rows) {
+        const key = rowKey(row, rightOn);
+        const matches = index.get(key);
+        if (matches) {
+          matches.push(row);
+        } else {
+          index.set(key, [row]);
+        }
+      }
+      const usedRight = new Set<DataRow>();
+      const rows: DataRow[] = [];
+      const push = (row: DataRow) => {
+        if (rows.length >= MAX_JOIN_ROWS) {
+          throw new Error(`${label} produces more than ${MAX_JOIN_ROWS} rows; check the key columns`);
+        }
+        rows.push(row);
+      };
+      const emptyRight = Object.fromEntries(rightColumns.map(({ name }) => [name, null]));
+
+      for (const left of table.rows) {
+        const key = rowKey(left, leftOn);
+        // Missing keys never match
+        const found = leftOn.some(column => isMissing(left[column])) ? [] : index.get(key) ?? [];
+        for (const match of found) {
+          usedRight.add(match);
+          push({ ...left, ...Object.fromEntries(rightColumns.map(({ column, name }) => [name, match[column] ?? null])) });
+        }
+        if (!found.length && (step.type === 'left' || step.type === 'full')) {
+          push({ ...left, ...emptyRight });
+        }
+      }
+      if (step.type === 'right' || step.type === 'full') {
+        for (const match of right.rows.filter(row => !usedRight.has(row))) {
+          const keys = step.on ? Object.fromEntries(leftOn.map((column, i) => [column, match[rightOn[i]] ?? null])) : {};
+          push({
+            ...Object.fromEntries(table.columns.map(column => [column, null])),
+            ...keys,
+            ...Object.fromEntries(rightColumns.map(({ column, name }) => [name, match[column] ?? null]))
+          });
+        }
+      }
+      return { columns: [...table.columns, ...rightColumns.map(({ name }) => name)], rows };
+    }
+
+    case 'limit':
+      return { columns: table.columns, rows: table.rows.slice(step.offset, step.offset + step.count) };
+  }
+}
+
+export function runQuery(table: Table, steps: QueryStep[], lookup: DatasetLookup): Table {
+  return steps.reduce((current, step, index) => runStep(current, step, index, lookup), table);
+}
+
+function formatValue(value: unknown): string {
+  return Array.isArray(value) ? `[${value.map(item => JSON.stringify(item)).join(', ')}]` : JSON.stringify(value);
+}
+
+// One line per step, for responses and saved dataset descriptions
+export function describeStep(step: QueryStep): string {
+  switch (step.op) {
+    case 'filter':
+      return `filter ${step.conditions.map(condition => `${condition.column} ${condition.operator}${condition.value === undefined ? '' : ` ${formatValue(condition.value)}`}`).join(step.match === 'any' ? ' or ' : ' and ')}`;
+    case 'select':
+      return `select ${step.columns.map(column => step.rename?.[column] ? `${column} as ${step.rename[column]}` : column).join(', ')}`;
+    case 'sort':
+      return `sort by ${step.by.map(key => `${key.column} ${key.direction}`).join(', ')}`;
+    case 'group':
+      return `group${step.by.length ? ` by ${step.by.join(', ')}` : ''}: ${step.aggregates.map(agg => `${agg.function}(${agg.column ?? '*'})${agg.as ? ` as ${agg.as}` : ''}`).join(', ')}`;
+    case 'pivot':
+      return `pivot ${step.columns} into columns by ${step.index.join(', ')}: ${step.function}(${step.values ?? '*'})`;
+    case 'join':
+      return `${step.type} join ${step.datasetId} on ${step.on ? step.on.join(', ') : (step.leftOn ?? []).map((column, i) => `${column} = ${step.rightOn?.[i]}`).join(', ')}`;
+    case 'limit':
+      return `limit ${step.count}${step.offset ? ` offset ${step.offset}` : ''}`;
+  }
+}
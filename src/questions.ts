@@ -0,0 +1,214 @@
+// Natural-language questions over a dataset. The model only translates the question
+// into a query plan; the plan runs locally, so every number in the answer comes from
+// the rows themselves.
+import { z } from 'zod';
+import type { LLMProvider } from './llm.js';
+import { renderBarChartSvg, renderLineChartSvg } from './charts.js';
+import type { ChartImage } from './charts.js';
+import { previewRows } from './datasets.js';
+import { compareValues, QueryPlanSchema, runQuery } from './query.js';
+import type { Table } from './query.js';
+import { inferSchema, isMissing, isNumericType, toDate, toNumber } from './schema.js';
+import { generateJson } from './structured.js';
+import type { StructuredResult } from './structured.js';
+import { sanitizeFileName } from './workspace.js';
+import type { CellValue } from './types.js';
+
+export const AnswerChartSchema = z.object({
+  type: z.enum(['bar', 'line']).describe('bar for categories, line for values over time or another ordered column'),
+  x: z.string().describe('Result column on the X axis'),
+  y: z.array(z.string()).min(1).max(6).describe('Numeric result columns plotted; bar charts take one')
+});
+
+export const QuestionPlanSchema = z.object({
+  interpretation: z.string().min(1).describe('How the question was read, including assumptions such as the date range used'),
+  steps: QueryPlanSchema,
+  chart: AnswerChartSchema.nullable().optional().default(null)
+});
+
+export type AnswerChart = z.infer<typeof AnswerChartSchema>;
+export type QuestionPlan = z.infer<typeof QuestionPlanSchema>;
+
+// Distinct values listed per categorical column in the prompt
+const MAX_LISTED_VALUES = 12;
+
+// Rows shown to the model so it sees how values are written
+const SAMPLE_ROWS = 3;
+
+// Most bars drawn; longer results are cut
+const MAX_CHART_BARS = 50;
+
+const RESPONSE_FORMAT = `{
+  "interpretation": "string",
+  "steps": [{ "op": "filter" | "select" | "sort" | "group" | "pivot" | "limit", ... }],
+  "chart": { "type": "bar" | "line", "x": "column", "y": ["column"] } | null
+}`;
+
+const STEP_FORMATS = `- { "op": "filter", "conditions": [{ "column": "c", "operator": "eq" | "ne" | "gt" | "gte" | "lt" | "lte" | "between" | "in" | "notIn" | "contains" | "startsWith" | "endsWith" | "isMissing" | "notMissing", "value": ... }], "match": "all" | "any" }
+  "between" takes [low, high] (inclusive), "in" and "notIn" take a list; dates are written "YYYY-MM-DD"
+- { "op": "select", "columns": ["c"], "rename": { "c": "new name" } }
+- { "op": "sort", "by": [{ "column": "c", "direction": "asc" | "desc" }] }
+- { "op": "group", "by": ["c"], "aggregates": [{ "function": "count" | "countDistinct" | "sum" | "mean" | "median" | "min" | "max" | "first" | "last", "column": "c", "as": "name" }] }
+  "by" may be empty for one total row; count without a column counts rows
+- { "op": "pivot", "index": ["c"], "columns": "c", "values": "c", "function": "sum" }
+- { "op": "limit", "count": 10, "offset": 0 }`;
+
+function formatValue(value: CellValue): string {
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  return String(value);
+}
+
+// One line per column: its type, missing count, and its range or most common values
+export function describeColumns(table: Table): string {
+  const schema = inferSchema(table.rows, table.columns);
+  return table.columns.map(column => {
+    const { type, missingCount, uniqueCount } = schema[column];
+    const values = table.rows.map(row => row[column]).filter(value => !isMissing(value));
+    let detail = '';
+    // Ranges skip cells that don't parse as the column's type
+    const parsed = isNumericType(type)
+      ? values.map(value => toNumber(value)).filter((value): value is number => value !== null)
+      : type === 'date' || type === 'datetime'
+        ? values.map(value => toDate(value)).filter((value): value is Date => value !== null)
+        : [];
+    if (parsed.length) {
+      const sorted = [...parsed].sort(compareValues);
+      detail = `, from ${formatValue(sorted[0])} to ${formatValue(sorted[sorted.length - 1])}`;
+    } else if (values.length && (type === 'categorical' || type === 'boolean')) {
+      const counts = new Map<string, number>();
+      values.forEach(value => counts.set(formatValue(value), (counts.get(formatValue(value)) ?? 0) + 1));
+      const common = [...counts].sort((a, b) => b[1] - a[1]).slice(0, MAX_LISTED_VALUES).map(([value]) => JSON.stringify(value));
+      detail = `, values ${common.join(', ')}${uniqueCount > common.length ? ` and ${uniqueCount - common.length} more` : ''}`;
+    }
+    return `- ${JSON.stringify(column)} (${type}${missingCount ? `, ${missingCount} missing` : ''}${detail})`;
+  }).join('\n');
+}
+
+// Prompt asking for a query plan that answers the question
+export function buildQuestionPrompt(question: string, name: string, table: Table): string {
+  return `You translate questions about a table into a query plan. The plan is executed by the server on the full table; you never compute answers yourself.
+
+Table "${name}" has ${table.rows.length} rows and these columns:
+${describeColumns(table)}
+
+Sample rows:
+${JSON.stringify(previewRows(table, SAMPLE_ROWS), null, 2)}
+
+Question: ${question}
+
+Respond with a single JSON object and nothing else, in exactly this format:
+${RESPONSE_FORMAT}
+
+Steps run in order, each on the result of the previous one:
+${STEP_FORMATS}
+
+- Use only the columns listed above, or columns created by earlier steps (aggregate "as" names, pivot headings, renames)
+- Read relative periods such as "last quarter" or "this year" relative to the latest date in the table, and give the exact dates used in "interpretation"
+- For "which/highest/lowest/top" questions, sort and limit so the answer is in the first rows
+- Keep the result small enough to read; group or limit large results
+- "chart" is optional: a bar chart for comparing categories or a line chart over time, using result columns; null when a chart adds nothing`;
+}
+
+// Problems with a plan that only show when it runs against the table
+export function checkPlan(plan: QuestionPlan, table: Table): string[] {
+  if (plan.steps.some(step => step.op === 'join')) {
+    return ['join steps are not available; answer from this table alone'];
+  }
+  let result: Table;
+  try {
+    result = runQuery(table, plan.steps, () => {
+      throw new Error('join steps are not available');
+    });
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+  if (!plan.chart) {
+    return [];
+  }
+  const { type, x, y } = plan.chart;
+  const errors: string[] = [];
+  const unknown = [x, ...y].filter(column => !result.columns.includes(column));
+  if (unknown.length) {
+    errors.push(`Chart columns not in the result: ${unknown.join(', ')}. Result columns are: ${result.columns.join(', ')}`);
+  }
+  if (type === 'bar' && y.length > 1) {
+    errors.push('Bar charts take exactly one y column; use a line chart or null for more');
+  }
+  const nonNumeric = y.filter(column => result.columns.includes(column) && !result.rows.some(row => toNumber(row[column]) !== null));
+  if (nonNumeric.length) {
+    errors.push(`Chart y columns must be numeric: ${nonNumeric.join(', ')}`);
+  }
+  // A line needs an ordered x axis: numbers, or dates on a time axis
+  if (type === 'line' && result.columns.includes(x)) {
+    const xValues = result.rows.map(row => row[x]).filter(value => !isMissing(value));
+    const ordered = xValues.every(value => toNumber(value) !== null) || xValues.every(value => toDate(value) !== null);
+    if (!ordered) {
+      const sample = xValues.find(value => toNumber(value) === null && toDate(value) === null);
+      const found = sample === undefined ? 'mixes numbers and dates' : `holds values such as ${JSON.stringify(formatValue(sample))}`;
+      errors.push(`Line charts need a numeric or date x column, but "${x}" ${found}; use a bar chart for categories`);
+    }
+  }
+  return errors;
+}
+
+// Ask for a plan, with repair retries when it fails validation or doesn't run
+export function planQuestion(model: LLMProvider, question: string, name: string, table: Table): Promise<StructuredResult<QuestionPlan>> {
+  return generateJson(model, buildQuestionPrompt(question, name, table), QuestionPlanSchema, plan => checkPlan(plan, table));
+}
+
+// Chart of the result as the plan asked for; null when there is nothing to draw
+export function renderAnswerChart(chart: AnswerChart, result: Table, title: string): ChartImage | null {
+  const id = sanitizeFileName(`answer_${chart.type}_${chart.x}`, 'answer_chart');
+  if (chart.type === 'bar') {
+    const rows = result.rows.filter(row => toNumber(row[chart.y[0]]) !== null).slice(0, MAX_CHART_BARS);
+    if (!rows.length) {
+      return null;
+    }
+    return {
+      id,
+      title,
+      svg: renderBarChartSvg({
+        title,
+        labels: rows.map(row => isMissing(row[chart.x]) ? '(missing)' : formatValue(row[chart.x])),
+        values: rows.map(row => toNumber(row[chart.y[0]])!),
+        xLabel: chart.x,
+        yLabel: chart.y[0]
+      })
+    };
+  }
+
+  // Dates go on a time axis; anything else must be numeric
+  const xValues = result.rows.map(row => row[chart.x]);
+  const timeAxis = xValues.some(value => !isMissing(value)) && xValues.every(value => isMissing(value) || toNumber(value) === null);
+  const xOf = (value: CellValue | undefined) => timeAxis ? toDate(value)?.getTime() ?? null : toNumber(value);
+  const series = chart.y.map(column => ({
+    label: column,
+    points: result.rows
+      .map(row => ({ x: xOf(row[chart.x]), y: toNumber(row[column]) }))
+      .filter((point): point is { x: number; y: number } => point.x !== null && point.y !== null)
+      .sort((a, b) => a.x - b.x)
+  })).filter(line => line.points.length > 0);
+  if (!series.length) {
+    return null;
+  }
+  return {
+    id,
+    title,
+    svg: renderLineChartSvg({ title, series, xLabel: chart.x, yLabel: chart.y.join(', '), timeAxis })
+  };
+}
+
+// One-line answer read straight from the result rows
+export function summarizeAnswer(result: Table): string {
+  if (!result.rows.length) {
+    return 'No rows match the question.';
+  }
+  const display = (value: CellValue | undefined) => isMissing(value)
+    ? '(missing)'
+    : typeof value === 'number' && !Number.isInteger(value) ? String(Number(value.toPrecision(6))) : formatValue(value);
+  const first = result.columns.map(column => `${column}: ${display(result.rows[0][column])}`).join(', ');
+  return result.rows.length === 1 ? first : `${result.rows.length} rows; first: ${first}`;
+}
@@ -0,0 +1,378 @@
+// Email version of a saved analyze-data report: CSS inlined into style attributes
+// and charts rasterized to PNG images referenced by Content-ID, since mail clients
+// drop <style> rules and don't render inline SVG.
+import fs from 'node:fs';
+import path from 'path';
+import { z } from 'zod';
+import { REPORT_STYLES } from './analysis.js';
+import { svgToPng } from './charts.js';
+import { escapeHtml } from './html.js';
+import { AnalysisInsightsSchema } from './insights.js';
+import { generateJson } from './structured.js';
+import { describeTimeSeries } from './timeseries.js';
+import type { LLMProvider } from './llm.js';
+import type { MailAttachment } from './mail.js';
+import type { StructuredResult } from './structured.js';
+import type { RunManifest, TimeSeriesReport } from './types.js';
+
+// Any file written by an analyze-data run, named <kind>_<runId>.<ext>
+const RUN_FILE = /^(?:report|run|analysis|quality|statistics|timeseries)_(\d+)\.(?:html|json|txt)$/;
+
+// Longest analysis text passed to the model for the executive summary
+const MAX_ANALYSIS_CHARS = 12000;
+
+export interface RunReference {
+  // Report (or any other file) of the run
+  reportPath?: string;
+  runId?: string;
+  // Folder searched for runId, or for its run folder
+  directory: string;
+}
+
+// Find a run's files from its manifest, or by name for runs saved before manifests
+export function loadRun(reference: RunReference): RunManifest {
+  let directory: string;
+  let runId: string;
+  if (reference.reportPath) {
+    const reportPath = path.resolve(reference.reportPath);
+    const match = path.basename(reportPath).match(RUN_FILE);
+    if (!match) {
+      throw new Error(`Not an analyze-data output file: ${reference.reportPath}. Expected report_<runId>.html or run_<runId>.json`);
+    }
+    if (!fs.existsSync(reportPath)) {
+      throw new Error(`Report not found: ${reportPath}`);
+    }
+    directory = path.dirname(reportPath);
+    runId = match[1];
+  } else if (reference.runId && /^\d+$/.test(reference.runId)) {
+    // Runs are saved in their own folder; older runs share one folder
+    const runDirectory = path.join(reference.directory, reference.runId);
+    directory = path.resolve(fs.existsSync(runDirectory) ? runDirectory : reference.directory);
+    runId = reference.runId;
+  } else {
+    throw new Error(`Invalid run id: ${reference.runId ?? '(none)'}. Use the run id printed by analyze-data`);
+  }
+
+  const manifestPath = path.join(directory, `run_${runId}.json`);
+  if (fs.existsSync(manifestPath)) {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as RunManifest;
+  }
+
+  const report = path.join(directory, `report_${runId}.html`);
+  if (!fs.existsSync(report)) {
+    throw new Error(`No analysis run ${runId} found in ${directory}`);
+  }
+  const sibling = (name: string) => fs.existsSync(path.join(directory, name)) ? path.join(directory, name) : undefined;
+  const quality = sibling(`quality_${runId}.json`);
+  const plotsDir = path.join(directory, 'plots');
+  return {
+    runId,
+    createdAt: new Date(Number(runId)).toISOString(),
+    file: quality ? JSON.parse(fs.readFileSync(quality, 'utf8')).file : path.basename(report),
+    report,
+    analysis: sibling(`analysis_${runId}.json`) ?? sibling(`analysis_${runId}.txt`),
+    quality,
+    statistics: sibling(`statistics_${runId}.json`),
+    timeSeries: sibling(`timeseries_${runId}.json`),
+    plots: fs.existsSync(plotsDir)
+      ? fs.readdirSync(plotsDir).filter(name => name.endsWith(`_${runId}.svg`)).map(name => path.join(plotsDir, name))
+      : []
+  };
+}
+
+interface Compound {
+  tag?: string;
+  classes: string[];
+}
+
+interface CssRule {
+  // Descendant selector, outermost compound first
+  selector: Compound[];
+  declarations: string;
+  specificity: number;
+  order: number;
+}
+
+interface OpenElement {
+  tag: string;
+  classes: string[];
+}
+
+// Parses the subset of CSS the report uses: tag, .class and tag.class compounds
+// combined with descendant selectors
+function parseCss(css: string): CssRule[] {
+  const rules: CssRule[] = [];
+  for (const [, selectors, declarations] of css.replace(/\/\*[\s\S]*?\*\//g, '').matchAll(/([^{}]+)\{([^}]*)\}/g)) {
+    for (const selector of selectors.split(',')) {
+      const compounds = selector.trim().split(/\s+/).map(part => {
+        const [tag, ...classes] = part.split('.');
+        return { tag: tag ? tag.toLowerCase() : undefined, classes };
+      });
+      rules.push({
+        selector: compounds,
+        declarations: declarations.trim().replace(/;?$/, ';'),
+        specificity: compounds.reduce((sum, compound) => sum + compound.classes.length * 10 + (compound.tag ? 1 : 0), 0),
+        order: rules.length
+      });
+    }
+  }
+  return rules;
+}
+
+function matchesCompound(compound: Compound, element: OpenElement): boolean {
+  return (!compound.tag || compound.tag === element.tag)
+    && compound.classes.every(name => element.classes.includes(name));
+}
+
+function matchesRule(rule: CssRule, element: OpenElement, ancestors: OpenElement[]): boolean {
+  const compounds = [...rule.selector];
+  if (!matchesCompound(compounds.pop()!, element)) {
+    return false;
+  }
+  let index = ancestors.length - 1;
+  while (compounds.length && index >= 0) {
+    if (matchesCompound(compounds[compounds.length - 1], ancestors[index])) {
+      compounds.pop();
+    }
+    index--;
+  }
+  return compounds.length === 0;
+}
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'hr', 'img', 'input', 'link', 'meta', 'source', 'wbr']);
+
+// Copy the stylesheet's declarations into style attributes. Declarations already
+// in an element's style attribute come last, so they still win.
+export function inlineCss(html: string, css: string): string {
+  const rules = parseCss(css);
+  const stack: OpenElement[] = [];
+
+  return html.replace(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>/g, (tag, closing: string, rawName: string, attributes: string) => {
+    const name = rawName.toLowerCase();
+    if (closing) {
+      const index = stack.map(element => element.tag).lastIndexOf(name);
+      if (index !== -1) {
+        stack.length = index;
+      }
+      return tag;
+    }
+
+    const element = { tag: name, classes: attributes.match(/\bclass\s*=\s*"([^"]*)"/i)?.[1].split(/\s+/).filter(Boolean) ?? [] };
+    const declarations = rules
+      .filter(rule => matchesRule(rule, element, stack))
+      .sort((a, b) => a.specificity - b.specificity || a.order - b.order)
+      .map(rule => rule.declarations);
+    if (!VOID_ELEMENTS.has(name) && !attributes.trim().endsWith('/')) {
+      stack.push(element);
+    }
+    if (declarations.length === 0) {
+      return tag;
+    }
+
+    const existing = attributes.match(/\bstyle\s*=\s*"([^"]*)"/i);
+    const style = [...declarations, ...(existing ? [existing[1].trim().replace(/;?$/, ';')] : [])].join(' ');
+    const rest = existing ? attributes.replace(existing[0], '').trimEnd() : attributes.trimEnd();
+    const selfClosing = rest.endsWith('/');
+    return `<${rawName}${selfClosing ? rest.slice(0, -1).trimEnd() : rest} style="${style.replace(/"/g, "'")}"${selfClosing ? ' /' : ''}>`;
+  });
+}
+
+// Overrides for layout features mail clients don't support, such as CSS grid
+const EMAIL_STYLES = `
+    body { margin: 0; padding: 20px; color: #333; }
+    .container { max-width: 800px; }
+    .plots { display: block; }
+    .plot { margin-bottom: 20px; }
+    .plot img { display: block; max-width: 100%; height: auto; }
+    pre { white-space: pre-wrap; font-size: 12px; }
+    .summary { background: #f0f8ff; border-left: 5px solid #4169e1; padding: 15px 20px; margin-bottom: 30px; }
+    .summary h1 { color: #4169e1; font-size: 22px; margin: 0 0 10px; }
+    .summary p { margin: 0 0 12px; line-height: 1.5; }
+    .footer { margin-top: 30px; padding-top: 10px; border-top: 1px solid #eee; font-size: 12px; color: #777; }`;
+
+export interface EmailReportBody {
+  // Body of the report with charts replaced by cid: images
+  html: string;
+  charts: MailAttachment[];
+  // Charts left out because of the limit
+  omitted: number;
+}
+
+// Report body with each inline SVG chart replaced by a PNG image (up to maxCharts)
+export function emailSafeReport(reportHtml: string, maxCharts: number): EmailReportBody {
+  const body = reportHtml.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? reportHtml;
+  const charts: MailAttachment[] = [];
+  let omitted = 0;
+
+  const html = body
+    .replace(/<svg\b[\s\S]*?<\/svg>/gi, svg => {
+      if (charts.length >= maxCharts) {
+        omitted++;
+        return '';
+      }
+      const cid = `chart${charts.length}`;
+      const title = svg.match(/\baria-label="([^"]*)"/)?.[1] ?? `Chart ${charts.length + 1}`;
+      charts.push({ filename: `${cid}.png`, content: svgToPng(svg), contentType: 'image/png', cid });
+      return `<img src="cid:${cid}" alt="${title}" width="600">`;
+    })
+    .replace(/<div class="plot">\s*<\/div>/g, '');
+  return { html, charts, omitted };
+}
+
+// Subject and executive summary the model writes for the report email
+export const EmailSummarySchema = z.object({
+  subject: z.string().min(1).max(80),
+  summary: z.array(z.string().min(1)).min(1).max(4),
+  highlights: z.array(z.string().min(1)).max(6).default([])
+});
+
+export type EmailSummary = z.infer<typeof EmailSummarySchema>;
+
+// The parts of the saved run files read back here. Files from older versions or
+// edited by hand that don't match are treated as missing.
+const SavedAnalysisSchema = z.object({
+  insights: AnalysisInsightsSchema.nullable().optional(),
+  raw: z.string().optional()
+});
+
+const SavedStatisticsSchema = z.object({
+  datasets: z.array(z.object({
+    name: z.string(),
+    statistics: z.object({ rowCount: z.number(), columnCount: z.number() })
+  }))
+});
+
+const SavedQualitySchema = z.object({
+  datasets: z.array(z.object({
+    dataset: z.string(),
+    missing: z.object({ rowsWithMissing: z.number() }),
+    duplicates: z.object({ exactCount: z.number(), nearCount: z.number() }),
+    outliers: z.array(z.unknown()),
+    suspicious: z.array(z.unknown())
+  }))
+});
+
+const SavedTimeSeriesSchema = z.object({
+  datasets: z.array(z.object({
+    dataset: z.string(),
+    dateColumn: z.string(),
+    granularity: z.enum(['day', 'week', 'month']),
+    // Not written before partial periods were left out
+    partialPeriods: z.array(z.object({ period: z.string(), coverage: z.number() })).default([]),
+    series: z.array(z.object({ points: z.array(z.object({ period: z.string(), value: z.number() })) }).passthrough())
+  }).passthrough())
+});
+
+function readJson<T>(file: string | undefined, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T | undefined {
+  if (!file || !fs.existsSync(file)) {
+    return undefined;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return undefined;
+  }
+  const result = schema.safeParse(parsed);
+  return result.success ? result.data : undefined;
+}
+
+// What the run found, in the words the model should summarize
+function describeRun(run: RunManifest): string {
+  const statistics = readJson(run.statistics, SavedStatisticsSchema);
+  const quality = readJson(run.quality, SavedQualitySchema);
+  // The schema checks the fields every report has; the rest is written by analyzeTimeSeries
+  const timeSeries = readJson(run.timeSeries, SavedTimeSeriesSchema)?.datasets as TimeSeriesReport[] | undefined;
+  let analysis = '';
+  if (run.analysis?.endsWith('.json')) {
+    const saved = readJson(run.analysis, SavedAnalysisSchema);
+    analysis = saved ? JSON.stringify(saved.insights ?? saved.raw ?? '', null, 2) : '';
+  } else if (run.analysis && fs.existsSync(run.analysis)) {
+    analysis = fs.readFileSync(run.analysis, 'utf8');
+  }
+
+  return `File: ${run.file}
+Datasets:
+${statistics?.datasets.map(dataset => `- ${dataset.name}: ${dataset.statistics.rowCount} rows, ${dataset.statistics.columnCount} columns`).join('\n') ?? '- (statistics not saved for this run)'}
+${quality ? `Data quality:
+${quality.datasets.map(report => `- ${report.dataset}: ${report.missing.rowsWithMissing} rows with missing values, ${report.duplicates.exactCount} exact and ${report.duplicates.nearCount} near duplicate rows, outliers in ${report.outliers.length} columns, ${report.suspicious.length} suspicious value findings`).join('\n')}
+` : ''}${timeSeries ? `Time series:
+${timeSeries.map(report => describeTimeSeries(report)).join('\n\n')}
+` : ''}
+Analysis findings:
+${analysis.slice(0, MAX_ANALYSIS_CHARS) || '(no analysis saved for this run)'}`;
+}
+
+// Ask for the subject and an executive summary of the run
+export function generateEmailSummary(model: LLMProvider, run: RunManifest, instructions?: string): Promise<StructuredResult<EmailSummary>> {
+  const prompt = `Write the email that shares this data analysis report with business readers.
+
+${describeRun(run)}
+${instructions ? `
+Additional instructions from the sender: ${instructions}
+` : ''}
+Respond with a single JSON object and nothing else, in exactly this format:
+{
+  "subject": "string",
+  "summary": ["paragraph"],
+  "highlights": ["string"]
+}
+
+- "subject": a professional email subject line of at most 60 characters, without quotes or formatting
+- "summary": an executive summary in one to three short paragraphs of plain text, leading with what matters most
+- "highlights": up to five one-sentence key numbers or findings`;
+  return generateJson(model, prompt, EmailSummarySchema);
+}
+
+// Summary built from the saved findings when the model's response can't be used
+export function fallbackEmailSummary(run: RunManifest): EmailSummary {
+  const insights = run.analysis?.endsWith('.json') ? readJson(run.analysis, SavedAnalysisSchema)?.insights : undefined;
+  return {
+    subject: `Data analysis report: ${run.file}`.slice(0, 80),
+    summary: [insights?.summary ?? `The analysis of ${run.file} is complete. The full report follows below.`],
+    highlights: insights?.insights.slice(0, 5).map(item => `${item.title}: ${item.detail}`) ?? []
+  };
+}
+
+// Complete HTML email: executive summary, then the report with its styles inlined
+export function renderReportEmail(summary: EmailSummary, report: EmailReportBody, run: RunManifest): string {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(summary.subject)}</title>
+</head>
+<body>
+  <div class="container">
+    <div class="summary">
+      <h1>${escapeHtml(summary.subject)}</h1>
+      ${summary.summary.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n      ')}
+      ${summary.highlights.length ? `<ul>
+        ${summary.highlights.map(item => `<li>${escapeHtml(item)}</li>`).join('\n        ')}
+      </ul>` : ''}
+    </div>
+  </div>
+  ${report.html}
+  <div class="container">
+    ${report.omitted ? `<p><em>${report.omitted} more chart(s) are in the full report (run ${run.runId}).</em></p>` : ''}
+    <div class="footer">
+      <p>Analysis of ${escapeHtml(run.file)}, run ${run.runId} (${run.createdAt}). The statistics are attached as JSON.</p>
+    </div>
+  </div>
+</body>
+</html>`;
+  return inlineCss(html, `${REPORT_STYLES}${EMAIL_STYLES}`);
+}
+
+// Plain-text part with the executive summary only
+export function renderReportText(summary: EmailSummary, run: RunManifest): string {
+  return `${summary.subject}
+
+${summary.summary.join('\n\n')}
+${summary.highlights.length ? `
+${summary.highlights.map(item => `- ${item}`).join('\n')}
+` : ''}
+The full report with charts is in the HTML version of this email.
+Analysis of ${run.file}, run ${run.runId} (${run.createdAt}).`;
+}
@@ -0,0 +1,314 @@
+// MCP resources for everything the tools save, so clients on another machine can
+// browse and fetch it by URI instead of a server-local path:
+//   run://analysis/{runId}/{manifest|report|statistics|quality|insights|timeseries}
+//   run://analysis/{runId}/plots/{name}.svg (or .png, rasterized on request)
+//   run://thinking/{runId}
+// Runs are found by scanning the output folder, so runs saved under a caller's
+// outputDir and runs from before run folders are included. Their URIs end in
+// ?folder=<folder> when the run is not in the default <kind>/<runId> folder, so
+// runs with the same id in different folders can all be read. The scan is kept
+// until refresh() is called after a run is saved.
+import fs from 'node:fs';
+import path from 'path';
+import { svgToPng } from './charts.js';
+import { loadRun } from './reports.js';
+import { isInside } from './workspace.js';
+import type { RunManifest } from './types.js';
+
+export type RunKind = 'analysis' | 'thinking';
+
+export const RUN_URI_SCHEME = 'run';
+
+// Files of one run exposed as resources
+export const ANALYSIS_ARTIFACTS = ['manifest', 'report', 'statistics', 'quality', 'insights', 'timeseries'] as const;
+export type AnalysisArtifact = typeof ANALYSIS_ARTIFACTS[number];
+
+export interface RunResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text?: string;
+  blob?: string;
+}
+
+interface AnalysisRun {
+  kind: 'analysis';
+  runId: string;
+  folder?: string;
+  manifest: RunManifest;
+}
+
+interface ThinkingRun {
+  kind: 'thinking';
+  runId: string;
+  folder?: string;
+  file: string;
+}
+
+type Run = AnalysisRun | ThinkingRun;
+
+const ANALYSIS_FILE = /^(?:run|report)_(\d+)\.(?:json|html)$/;
+const THINKING_FILE = /^gemini_thinking_(\d+)\.txt$/;
+const RUN_URI = /^run:\/\/(analysis|thinking)\/(\d+)(?:\/([^?]+))?(?:\?folder=([^&]*))?$/;
+
+// Folder levels searched below the output folder, e.g. analysis/quarterly/<runId>
+const MAX_SCAN_DEPTH = 4;
+
+// Email state is not exposed; neither are temporary uploads
+const SKIPPED_FOLDERS = new Set(['emails', 'plots']);
+
+export const RESOURCE_PAGE_SIZE = 100;
+
+export function runUri(kind: RunKind, runId: string, artifact?: string, folder?: string): string {
+  return `${RUN_URI_SCHEME}://${kind}/${runId}${artifact ? `/${artifact}` : ''}${folder ? `?folder=${encodeURIComponent(folder)}` : ''}`;
+}
+
+// Folder of a run for its URIs, relative to the output folder; undefined for the default <kind>/<runId>
+export function runFolder(outputRoot: string, kind: RunKind, runId: string, directory: string): string | undefined {
+  const folder = path.relative(outputRoot, directory).split(path.sep).join('/') || '.';
+  return folder === `${kind}/${runId}` ? undefined : folder;
+}
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${RUN_URI_SCHEME}://analysis/{runId}/report`,
+    name: 'Analysis report',
+    description: 'Self-contained HTML report of an analyze-data run, charts included',
+    mimeType: 'text/html'
+  },
+  {
+    uriTemplate: `${RUN_URI_SCHEME}://analysis/{runId}/statistics`,
+    name: 'Analysis statistics',
+    description: 'Schema, numeric and categorical statistics and correlations of an analyze-data run',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: `${RUN_URI_SCHEME}://analysis/{runId}/quality`,
+    name: 'Data quality findings',
+    description: 'Missing values, duplicates, outliers and suspicious values of an analyze-data run',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: `${RUN_URI_SCHEME}://analysis/{runId}/insights`,
+    name: 'AI analysis',
+    description: 'Structured findings the model returned for an analyze-data run',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: `${RUN_URI_SCHEME}://analysis/{runId}/timeseries`,
+    name: 'Time-series findings',
+    description: 'Trend, seasonality, rolling statistics, change points and forecast of a timeseries analyze-data run',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: `${RUN_URI_SCHEME}://analysis/{runId}/manifest`,
+    name: 'Run manifest',
+    description: 'Files of an analyze-data run with their resource URIs',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: `${RUN_URI_SCHEME}://analysis/{runId}/plots/{name}`,
+    name: 'Analysis chart',
+    description: 'Chart of an analyze-data run; use the .svg name, or .png for a raster copy',
+    mimeType: 'image/svg+xml'
+  },
+  {
+    uriTemplate: `${RUN_URI_SCHEME}://thinking/{runId}`,
+    name: 'Thinking response',
+    description: 'Markdown response saved by generate-thinking',
+    mimeType: 'text/markdown'
+  }
+];
+
+function mimeTypeOf(file: string): string {
+  switch (path.extname(file).toLowerCase()) {
+    case '.html': return 'text/html';
+    case '.json': return 'application/json';
+    case '.svg': return 'image/svg+xml';
+    case '.png': return 'image/png';
+    default: return 'text/plain';
+  }
+}
+
+export function createRunCatalog(outputRoot: string) {
+  let cached: Run[] | undefined;
+
+  // Find the runs saved below the output folder, newest first
+  function scan(): Run[] {
+    const runs = new Map<string, Run>();
+    const visit = (directory: string, depth: number) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(directory, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          if (depth < MAX_SCAN_DEPTH && !entry.name.startsWith('.') && !SKIPPED_FOLDERS.has(entry.name)) {
+            visit(entryPath, depth + 1);
+          }
+          continue;
+        }
+        // Symbolic links are not followed
+        if (!entry.isFile()) {
+          continue;
+        }
+        // A run is one id in one folder; the same id in another folder is another run
+        const analysis = entry.name.match(ANALYSIS_FILE);
+        if (analysis) {
+          const folder = runFolder(outputRoot, 'analysis', analysis[1], directory);
+          const key = `analysis:${analysis[1]}:${folder ?? ''}`;
+          if (!runs.has(key)) {
+            try {
+              runs.set(key, { kind: 'analysis', runId: analysis[1], folder, manifest: loadRun({ reportPath: entryPath, directory }) });
+            } catch (error) {
+              console.error(`Skipping unreadable run ${analysis[1]}:`, error instanceof Error ? error.message : error);
+            }
+          }
+        }
+        const thinking = entry.name.match(THINKING_FILE);
+        if (thinking) {
+          const folder = runFolder(outputRoot, 'thinking', thinking[1], directory);
+          runs.set(`thinking:${thinking[1]}:${folder ?? ''}`, { kind: 'thinking', runId: thinking[1], folder, file: entryPath });
+        }
+      }
+    };
+    visit(outputRoot, 0);
+    return [...runs.values()].sort((a, b) => Number(b.runId) - Number(a.runId));
+  }
+
+  function found(): Run[] {
+    cached ??= scan();
+    return cached;
+  }
+
+  // Scan again on next use, after a run was saved
+  function refresh(): void {
+    cached = undefined;
+  }
+
+  // Without a folder, a run in the default folder wins over runs with the same id elsewhere
+  function findRun(kind: RunKind, runId: string, folder?: string): Run {
+    const matching = () => found().filter(candidate => candidate.kind === kind && candidate.runId === runId && (folder === undefined || candidate.folder === folder));
+    let candidates = matching();
+    if (candidates.length === 0) {
+      // Saved by another process since the last scan
+      refresh();
+      candidates = matching();
+    }
+    if (candidates.length === 0) {
+      throw new Error(`No ${kind} run ${runId} found${folder === undefined ? '' : ` in ${folder}`}`);
+    }
+    const run = candidates.length === 1 ? candidates[0] : candidates.find(candidate => candidate.folder === undefined);
+    if (!run) {
+      throw new Error(`There are ${candidates.length} ${kind} runs ${runId}, in ${candidates.map(candidate => candidate.folder).join(', ')}. Add ?folder=<folder> to the URI`);
+    }
+    return run;
+  }
+
+  function analysisFiles(manifest: RunManifest): Partial<Record<AnalysisArtifact, string>> {
+    return {
+      report: manifest.report,
+      statistics: manifest.statistics,
+      quality: manifest.quality,
+      insights: manifest.analysis,
+      timeseries: manifest.timeSeries
+    };
+  }
+
+  function resourcesOf(run: Run): RunResource[] {
+    const created = new Date(Number(run.runId)).toISOString();
+    const where = run.folder ? ` in ${run.folder}` : '';
+    if (run.kind === 'thinking') {
+      return [{ uri: runUri('thinking', run.runId, undefined, run.folder), name: `Thinking response ${run.runId}${where}`, description: `generate-thinking response from ${created}`, mimeType: 'text/markdown' }];
+    }
+    const { manifest } = run;
+    const label = `${manifest.file} (run ${run.runId}${where})`;
+    const files = analysisFiles(manifest);
+    const uri = (artifact: string) => runUri('analysis', run.runId, artifact, run.folder);
+    return [
+      { uri: uri('report'), name: `Report: ${label}`, description: `Analysis report from ${created}`, mimeType: 'text/html' },
+      ...(['statistics', 'quality', 'insights', 'timeseries'] as const)
+        .filter(artifact => files[artifact])
+        .map(artifact => ({ uri: uri(artifact), name: `${artifact[0].toUpperCase()}${artifact.slice(1)}: ${label}`, mimeType: mimeTypeOf(files[artifact]!) })),
+      { uri: uri('manifest'), name: `Manifest: ${label}`, mimeType: 'application/json' },
+      ...manifest.plots.map(plot => ({ uri: uri(`plots/${path.basename(plot)}`), name: `Chart ${path.basename(plot, '.svg')}: ${label}`, mimeType: 'image/svg+xml' }))
+    ];
+  }
+
+  // One page of resources; the cursor is the offset of the next page
+  function list(cursor?: string): { resources: RunResource[]; nextCursor?: string } {
+    const offset = cursor ? Number(cursor) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`Invalid cursor: ${cursor}`);
+    }
+    const resources = found().flatMap(resourcesOf);
+    const next = offset + RESOURCE_PAGE_SIZE;
+    return {
+      resources: resources.slice(offset, next),
+      ...(next < resources.length ? { nextCursor: String(next) } : {})
+    };
+  }
+
+  function readFile(uri: string, file: string): ResourceContents {
+    const resolved = path.resolve(file);
+    if (!isInside(fs.realpathSync(outputRoot), fs.existsSync(resolved) ? fs.realpathSync(resolved) : resolved)) {
+      throw new Error(`Resource ${uri} points outside the output folder`);
+    }
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Resource ${uri} no longer exists`);
+    }
+    return { uri, mimeType: mimeTypeOf(resolved), text: fs.readFileSync(resolved, 'utf8') };
+  }
+
+  function read(uri: string): ResourceContents {
+    const match = uri.match(RUN_URI);
+    if (!match) {
+      throw new Error(`Unknown resource URI: ${uri}. Expected ${runUri('analysis', '{runId}', '{artifact}')} or ${runUri('thinking', '{runId}')}, with ?folder=<folder> for runs outside the default folder`);
+    }
+    const [, kind, runId, artifact, folder] = match;
+    const run = findRun(kind as RunKind, runId, folder === undefined ? undefined : decodeURIComponent(folder));
+
+    if (run.kind === 'thinking') {
+      if (artifact) {
+        throw new Error(`Unknown resource URI: ${uri}. Thinking runs have a single resource, ${runUri('thinking', runId)}`);
+      }
+      return { ...readFile(uri, run.file), mimeType: 'text/markdown' };
+    }
+
+    const { manifest } = run;
+    if (artifact === 'manifest') {
+      const resources = Object.fromEntries(resourcesOf(run).map(resource => [resource.uri.match(RUN_URI)![3], resource.uri]));
+      return { uri, mimeType: 'application/json', text: JSON.stringify({ ...manifest, resources }, null, 2) };
+    }
+    if (artifact?.startsWith('plots/')) {
+      const name = artifact.slice('plots/'.length);
+      const svgName = name.replace(/\.png$/i, '.svg');
+      const plot = manifest.plots.find(candidate => path.basename(candidate) === svgName);
+      if (!plot) {
+        throw new Error(`Run ${runId} has no chart ${name}`);
+      }
+      const svg = readFile(uri, plot);
+      return svgName === name
+        ? svg
+        : { uri, mimeType: 'image/png', blob: svgToPng(svg.text!).toString('base64') };
+    }
+    const file = ANALYSIS_ARTIFACTS.includes(artifact as AnalysisArtifact) ? analysisFiles(manifest)[artifact as AnalysisArtifact] : undefined;
+    if (!file) {
+      throw new Error(`Run ${runId} has no ${artifact ?? 'artifact'} resource. Available: ${resourcesOf(run).map(resource => resource.uri).join(', ')}`);
+    }
+    return readFile(uri, file);
+  }
+
+  return { list, read, refresh, templates: RESOURCE_TEMPLATES };
+}
+
+export type RunCatalog = ReturnType<typeof createRunCatalog>;
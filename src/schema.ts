@@ -0,0 +1,257 @@
+import type { CellValue, ColumnSchema, ColumnType, DataRow, DatasetSchema, MixedCell } from './types.js';
+
+// Maximum number of mixed-type cells recorded per column
+const MAX_MIXED_SAMPLES = 5;
+
+// A column with at most this many distinct values (or this share of rows) is categorical
+const CATEGORICAL_MAX_UNIQUE = 50;
+const CATEGORICAL_MAX_RATIO = 0.5;
+
+// Distinct values remembered per column before unique counts become a lower bound
+const DISTINCT_CAP = 100000;
+
+// Strings longer than this on average are treated as free text
+const TEXT_MIN_AVG_LENGTH = 30;
+
+// Placeholder strings that spreadsheets commonly use for an empty cell
+const NULL_STRINGS = new Set(['na', 'n/a', 'null', 'nan', 'none', '-']);
+const BOOLEAN_STRINGS = new Set(['true', 'false', 'yes', 'no', 'y', 'n']);
+const NUMBER_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?$/;
+const DATE_PATTERN = /^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})$/;
+const DATETIME_PATTERN = /^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})[T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const IDENTIFIER_NAME_PATTERN = /(^id$|_id$|Id$|^id_|uuid|guid|^key$|_key$|code$)/i;
+
+type CellKind = 'integer' | 'numeric' | 'boolean' | 'date' | 'datetime' | 'string';
+
+export function isMissing(value: CellValue | undefined): value is null | undefined {
+  return value === null || value === undefined ||
+    (typeof value === 'string' && (value.trim() === '' || NULL_STRINGS.has(value.trim().toLowerCase())));
+}
+
+// Parse a cell as a number, accepting thousands separators in strings
+export function toNumber(value: CellValue | undefined): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed === '' || !NUMBER_PATTERN.test(trimmed)) {
+      return null;
+    }
+    const parsed = Number(trimmed.replace(/,/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+// Parse a cell as a date, accepting Date objects and common date strings
+export function toDate(value: CellValue | undefined): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!DATE_PATTERN.test(trimmed) && !DATETIME_PATTERN.test(trimmed)) {
+      return null;
+    }
+    const parsed = new Date(trimmed);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+  return null;
+}
+
+function classifyCell(value: CellValue): CellKind {
+  if (typeof value === 'boolean') {
+    return 'boolean';
+  }
+  if (value instanceof Date) {
+    // Spreadsheet dates land on midnight in either local time or UTC depending on the writer
+    const localMidnight = value.getHours() === 0 && value.getMinutes() === 0 && value.getSeconds() === 0;
+    const utcMidnight = value.getUTCHours() === 0 && value.getUTCMinutes() === 0 && value.getUTCSeconds() === 0;
+    const hasTime = !localMidnight && !utcMidnight;
+    return hasTime ? 'datetime' : 'date';
+  }
+  const number = toNumber(value);
+  if (number !== null) {
+    return Number.isInteger(number) ? 'integer' : 'numeric';
+  }
+  const text = String(value).trim();
+  if (BOOLEAN_STRINGS.has(text.toLowerCase())) {
+    return 'boolean';
+  }
+  if (DATETIME_PATTERN.test(text) && toDate(text)) {
+    return 'datetime';
+  }
+  if (DATE_PATTERN.test(text) && toDate(text)) {
+    return 'date';
+  }
+  return 'string';
+}
+
+// Whether a cell of the given kind is consistent with the inferred column type
+function matchesType(kind: CellKind, type: ColumnType): boolean {
+  switch (type) {
+    case 'numeric':
+      return kind === 'numeric' || kind === 'integer';
+    case 'integer':
+      return kind === 'integer';
+    case 'boolean':
+      return kind === 'boolean';
+    case 'date':
+    case 'datetime':
+      return kind === 'date' || kind === 'datetime';
+    case 'identifier':
+      return kind === 'string' || kind === 'integer';
+    default:
+      return kind === 'string';
+  }
+}
+
+function confidenceLevel(confidence: number): ColumnSchema['confidenceLevel'] {
+  if (confidence >= 0.95) return 'high';
+  if (confidence >= 0.8) return 'medium';
+  return 'low';
+}
+
+export interface ColumnTypeAccumulator {
+  add(value: CellValue | undefined, rowIndex: number): void;
+  result(totalRows: number): ColumnSchema;
+}
+
+// Single-pass type inference for one column. Distinct values are tracked exactly up
+// to DISTINCT_CAP, after which the unique count becomes a lower bound.
+export function createColumnTypeAccumulator(column: string): ColumnTypeAccumulator {
+  const distinct = new Set<string>();
+  const kindCounts: Record<CellKind, number> = {
+    integer: 0, numeric: 0, boolean: 0, date: 0, datetime: 0, string: 0
+  };
+  // First few cells of each kind, so mixed cells can be reported once the type is known
+  const samples: Record<CellKind, MixedCell[]> = {
+    integer: [], numeric: [], boolean: [], date: [], datetime: [], string: []
+  };
+  let nonNullCount = 0;
+  let totalLength = 0;
+  let hasWhitespace = false;
+  let sawDuplicate = false;
+  let capped = false;
+
+  return {
+    add(value, rowIndex) {
+      if (isMissing(value)) {
+        return;
+      }
+      const kind = classifyCell(value);
+      nonNullCount++;
+      kindCounts[kind]++;
+      const text = value instanceof Date ? value.toISOString() : String(value).trim();
+      if (samples[kind].length < MAX_MIXED_SAMPLES) {
+        samples[kind].push({ row: rowIndex, value: String(value), detectedAs: kind });
+      }
+      if (distinct.has(text)) {
+        sawDuplicate = true;
+      } else if (distinct.size < DISTINCT_CAP) {
+        distinct.add(text);
+      } else {
+        capped = true;
+      }
+      totalLength += text.length;
+      hasWhitespace = hasWhitespace || /\s/.test(text);
+    },
+
+    result(totalRows) {
+      const uniqueCount = distinct.size;
+
+      // Numeric kinds are pooled so that a few decimals don't split an integer column
+      const numericCount = kindCounts.integer + kindCounts.numeric;
+      const dateCount = kindCounts.date + kindCounts.datetime;
+      const candidates: [ColumnType, number][] = [
+        [kindCounts.numeric > 0 ? 'numeric' : 'integer', numericCount],
+        ['boolean', kindCounts.boolean],
+        [kindCounts.datetime > 0 ? 'datetime' : 'date', dateCount],
+        ['categorical', kindCounts.string]
+      ];
+      let type = candidates.reduce((best, candidate) => candidate[1] > best[1] ? candidate : best)[0];
+
+      if (nonNullCount === 0) {
+        type = 'empty';
+      } else if (type === 'categorical' || type === 'integer') {
+        const allDistinct = !sawDuplicate && nonNullCount > 1;
+        const looksLikeId = IDENTIFIER_NAME_PATTERN.test(column);
+        if (allDistinct && (looksLikeId || (type === 'categorical' && !hasWhitespace))) {
+          type = 'identifier';
+        } else if (type === 'categorical' && (
+          totalLength / nonNullCount > TEXT_MIN_AVG_LENGTH ||
+          (uniqueCount > CATEGORICAL_MAX_UNIQUE && uniqueCount / nonNullCount > CATEGORICAL_MAX_RATIO)
+        )) {
+          type = 'text';
+        }
+      }
+
+      let mixedCount = 0;
+      let mixedCells: MixedCell[] = [];
+      if (type !== 'empty') {
+        for (const kind of Object.keys(kindCounts) as CellKind[]) {
+          if (!matchesType(kind, type)) {
+            mixedCount += kindCounts[kind];
+            mixedCells.push(...samples[kind]);
+          }
+        }
+        mixedCells = mixedCells.sort((a, b) => a.row - b.row).slice(0, MAX_MIXED_SAMPLES);
+      }
+
+      const confidence = nonNullCount === 0 ? 1 : (nonNullCount - mixedCount) / nonNullCount;
+      return {
+        name: column,
+        type,
+        confidence: Number(confidence.toFixed(3)),
+        confidenceLevel: confidenceLevel(confidence),
+        nonNullCount,
+        missingCount: totalRows - nonNullCount,
+        uniqueCount,
+        ...(capped ? { uniqueCountCapped: true } : {}),
+        mixedCount,
+        mixedCells
+      };
+    }
+  };
+}
+
+// All column names in the dataset, in first-seen order. Rows read from Excel
+// omit blank cells, so the first row alone is not enough.
+export function collectColumns(data: DataRow[]): string[] {
+  const columns = new Set<string>();
+  for (const row of data) {
+    for (const key of Object.keys(row)) {
+      columns.add(key);
+    }
+  }
+  return [...columns];
+}
+
+// Classify every column by scanning all of its cells
+export function inferSchema(data: DataRow[], columns: string[] = collectColumns(data)): DatasetSchema {
+  const schema: DatasetSchema = {};
+  for (const column of columns) {
+    const accumulator = createColumnTypeAccumulator(column);
+    data.forEach((row, index) => accumulator.add(row[column], index));
+    schema[column] = accumulator.result(data.length);
+  }
+  return schema;
+}
+
+// Whether a column name follows a common identifier naming convention
+export function looksLikeIdentifier(column: string): boolean {
+  return IDENTIFIER_NAME_PATTERN.test(column);
+}
+
+export function isNumericType(type: ColumnType): boolean {
+  return type === 'numeric' || type === 'integer';
+}
+
+// Compact one-line-per-column summary for prompts
+export function describeSchema(schema: DatasetSchema): string {
+  return Object.values(schema).map(col => {
+    const mixed = col.mixedCount ? `, ${col.mixedCount} mixed-type cells` : '';
+    return `- ${col.name}: ${col.type} (${col.confidenceLevel} confidence), ${col.missingCount} missing, ${col.uniqueCount} unique${mixed}`;
+  }).join('\n');
+}
@@ -0,0 +1,260 @@
+import type { BoxPlotStats, CategoricalStats, CellValue, DataRow, NumericStats, ValueCount } from './types.js';
+import { isMissing, toNumber } from './schema.js';
+
+// Number of distinct values listed individually before the rest are bucketed as "other"
+export const DEFAULT_TOP_N = 10;
+
+// Values kept per numeric column by the streaming engine for quantiles and histograms
+export const QUANTILE_SAMPLE_SIZE = 10000;
+
+// Counters kept per categorical column by the streaming engine
+export const FREQUENCY_COUNTERS = 2000;
+
+// Non-missing numeric values of a column
+export function numericValues(data: DataRow[], column: string): number[] {
+  const values: number[] = [];
+  for (const row of data) {
+    const value = toNumber(row[column]);
+    if (value !== null) {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+// Linear-interpolated quantile of an ascending array
+function quantile(sorted: Float64Array, q: number): number {
+  if (sorted.length === 0) {
+    return NaN;
+  }
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+// Exact statistics over values held in memory. Loops instead of spreading into
+// Math.min/Math.max, which overflows the call stack on large columns.
+export function computeNumericStats(values: number[]): NumericStats {
+  const accumulator = createNumericAccumulator(Infinity);
+  for (const value of values) {
+    accumulator.add(value);
+  }
+  return accumulator.result();
+}
+
+// Frequency profile of a non-numeric column
+export function computeCategoricalStats(data: DataRow[], column: string, topN = DEFAULT_TOP_N): CategoricalStats {
+  const accumulator = createFrequencyAccumulator(Infinity);
+  for (const row of data) {
+    accumulator.add(row[column]);
+  }
+  return accumulator.result(topN);
+}
+
+// Tukey fences: values outside [q1 - k·IQR, q3 + k·IQR] are outliers
+export function iqrFences(q1: number, q3: number, k = 1.5): { lower: number; upper: number } {
+  const iqr = q3 - q1;
+  return { lower: q1 - k * iqr, upper: q3 + k * iqr };
+}
+
+// Five-number summary with whiskers and outliers for a box plot
+export function boxPlotStats(values: number[], maxOutliers = 200): BoxPlotStats {
+  const sorted = Float64Array.from(values).sort();
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const { lower, upper } = iqrFences(q1, q3);
+  const inside = sorted.filter(value => value >= lower && value <= upper);
+  const outliers = Array.from(sorted.filter(value => value < lower || value > upper));
+  // Keep the most extreme outliers when there are too many to draw
+  const kept = outliers.length > maxOutliers
+    ? [...outliers.slice(0, maxOutliers / 2), ...outliers.slice(-maxOutliers / 2)]
+    : outliers;
+  return {
+    min: sorted[0],
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    max: sorted[sorted.length - 1],
+    lowerWhisker: inside.length ? inside[0] : q1,
+    upperWhisker: inside.length ? inside[inside.length - 1] : q3,
+    outliers: kept
+  };
+}
+
+// Equal-width histogram over the observed range
+export function histogram(values: number[], maxBins = 20): { bins: number[]; counts: number[] } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  const binCount = max > min ? Math.max(1, Math.min(maxBins, Math.floor(Math.sqrt(values.length)))) : 1;
+  const binWidth = max > min ? (max - min) / binCount : 1;
+  const bins = Array.from({ length: binCount }, (_, i) => min + i * binWidth);
+  const counts: number[] = Array(binCount).fill(0);
+
+  for (const value of values) {
+    const binIndex = Math.min(binCount - 1, Math.floor((value - min) / binWidth));
+    counts[binIndex]++;
+  }
+  return { bins, counts };
+}
+
+export interface Reservoir<T> {
+  add(item: T): void;
+  items(): T[];
+  seen(): number;
+}
+
+// Uniform sample of fixed size over a stream (Algorithm R), seeded so reruns
+// over the same file produce the same sample
+export function createReservoir<T>(size: number, seed = 42): Reservoir<T> {
+  const sample: T[] = [];
+  let count = 0;
+  let state = seed >>> 0;
+  const random = () => {
+    // mulberry32
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    add(item) {
+      count++;
+      if (sample.length < size) {
+        sample.push(item);
+        return;
+      }
+      const index = Math.floor(random() * count);
+      if (index < size) {
+        sample[index] = item;
+      }
+    },
+    items: () => sample,
+    seen: () => count
+  };
+}
+
+export interface NumericAccumulator {
+  add(value: number): void;
+  result(): NumericStats;
+  sample(): number[];
+}
+
+// Welford's online mean/variance plus min/max in one pass. Quantiles come from a
+// bounded reservoir, so they are exact until more than sampleSize values arrive.
+export function createNumericAccumulator(sampleSize = QUANTILE_SAMPLE_SIZE): NumericAccumulator {
+  const reservoir = createReservoir<number>(sampleSize);
+  let count = 0;
+  let mean = 0;
+  let m2 = 0;
+  let min = Infinity;
+  let max = -Infinity;
+
+  return {
+    add(value) {
+      count++;
+      const delta = value - mean;
+      mean += delta / count;
+      m2 += delta * (value - mean);
+      if (value < min) min = value;
+      if (value > max) max = value;
+      reservoir.add(value);
+    },
+
+    result() {
+      const sorted = Float64Array.from(reservoir.items()).sort();
+      const approximate = count > sorted.length;
+      return {
+        count,
+        mean,
+        median: quantile(sorted, 0.5),
+        std: count > 0 ? Math.sqrt(m2 / count) : NaN,
+        min,
+        max,
+        q1: quantile(sorted, 0.25),
+        q3: quantile(sorted, 0.75),
+        ...(approximate ? { approximate: true } : {})
+      };
+    },
+
+    sample: () => reservoir.items()
+  };
+}
+
+export interface FrequencyAccumulator {
+  add(value: CellValue | undefined): void;
+  result(topN?: number): CategoricalStats;
+}
+
+// Bounded top-K counting (Misra–Gries). Counts are exact while the column has fewer
+// distinct values than counters; past that, heavy hitters are still found and the
+// remaining mass is reported in the "other" bucket.
+export function createFrequencyAccumulator(counters = FREQUENCY_COUNTERS): FrequencyAccumulator {
+  const counts = new Map<string, number>();
+  let total = 0;
+  let missingCount = 0;
+  let approximate = false;
+
+  return {
+    add(value) {
+      if (isMissing(value)) {
+        missingCount++;
+        return;
+      }
+      total++;
+      const key = value instanceof Date ? value.toISOString() : String(value).trim();
+      const current = counts.get(key);
+      if (current !== undefined) {
+        counts.set(key, current + 1);
+      } else if (counts.size < counters) {
+        counts.set(key, 1);
+      } else {
+        approximate = true;
+        for (const [tracked, count] of counts) {
+          if (count <= 1) {
+            counts.delete(tracked);
+          } else {
+            counts.set(tracked, count - 1);
+          }
+        }
+      }
+    },
+
+    result(topN = DEFAULT_TOP_N) {
+      const frequencies: ValueCount[] = [...counts.entries()]
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+      const tracked = frequencies.reduce((sum, { count }) => sum + count, 0);
+
+      // Shannon entropy in bits over the observed (non-missing) values; untracked
+      // mass is treated as a single value, which makes the figure a lower bound
+      let entropy = 0;
+      for (const count of [...frequencies.map(f => f.count), total - tracked]) {
+        if (count > 0) {
+          const p = count / total;
+          entropy -= p * Math.log2(p);
+        }
+      }
+
+      const topValues = frequencies.slice(0, topN);
+      const otherCount = total - topValues.reduce((sum, { count }) => sum + count, 0);
+
+      return {
+        cardinality: frequencies.length,
+        mode: frequencies.length ? frequencies[0].value : null,
+        modeCount: frequencies.length ? frequencies[0].count : 0,
+        entropy: Number(entropy.toFixed(4)),
+        missingCount,
+        topValues,
+        otherCount,
+        ...(approximate ? { approximate: true } : {})
+      };
+    }
+  };
+}
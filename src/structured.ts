@@ -0,0 +1,86 @@
+import type { z } from 'zod';
+import type { LLMProvider } from './llm.js';
+
+export interface StructuredResult<T> {
+  // Null when no attempt produced a valid response
+  value: T | null;
+  valid: boolean;
+  attempts: number;
+  // Validation problems of the last attempt
+  errors: string[];
+  // Last response text, kept for debugging and as a fallback
+  raw: string;
+}
+
+// Attempts in total, including the first request
+export const MAX_STRUCTURED_ATTEMPTS = 3;
+
+// Pull the JSON object out of a response that may be wrapped in prose or a code fence
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Response contains no JSON object');
+  }
+  return JSON.parse(body.slice(start, end + 1));
+}
+
+function validate<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, check?: (value: T) => string[]): { value?: T; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = extractJson(text);
+  } catch (error) {
+    return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    return { errors: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`) };
+  }
+  const errors = check ? check(result.data) : [];
+  return errors.length ? { errors } : { value: result.data, errors: [] };
+}
+
+// Ask for a JSON object matching the schema, feeding validation errors (and any
+// problems found by check) back to the model until the response parses or the
+// attempts run out
+export async function generateJson<T>(
+  model: LLMProvider,
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  check?: (value: T) => string[],
+  maxAttempts = MAX_STRUCTURED_ATTEMPTS
+): Promise<StructuredResult<T>> {
+  let raw = '';
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const request = attempt === 1 ? prompt : `${prompt}
+
+Your previous response could not be used:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${raw}
+
+Return only the corrected JSON object.`;
+
+    let completion = await model.complete(request);
+    let result = validate(completion.text, schema, check);
+    if (result.value === undefined && completion.cached) {
+      // A cached response that fails validation is replaced, not replayed forever
+      completion = await model.complete(request, { cache: false });
+      result = validate(completion.text, schema, check);
+    }
+    raw = completion.text;
+    if (result.value !== undefined) {
+      return { value: result.value, valid: true, attempts: attempt, errors: [], raw };
+    }
+    errors = result.errors;
+    console.error(`Response failed validation (attempt ${attempt}/${maxAttempts}): ${errors.join('; ')}`);
+  }
+
+  return { value: null, valid: false, attempts: maxAttempts, errors, raw };
+}
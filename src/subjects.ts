@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import type { LLMProvider } from './llm.js';
+import { generateJson } from './structured.js';
+
+export const SUBJECT_TONES = ['professional', 'friendly', 'formal', 'casual', 'urgent', 'persuasive', 'playful'] as const;
+
+// Caller controls for generated subject lines
+export const SubjectOptionsSchema = z.object({
+  tone: z.enum(SUBJECT_TONES).optional().default('professional').describe('Tone of the subject line'),
+  language: z.string().min(1).optional().default('English').describe('Language to write the subject in, e.g. English or Arabic'),
+  maxLength: z.number().int().min(10).max(200).optional().default(60).describe('Maximum length in characters, including the brand prefix'),
+  bannedWords: z.array(z.string().min(1)).optional().default([]).describe('Words the subject must not contain'),
+  brandPrefix: z.string().optional().describe('Text put in front of every subject, e.g. [Acme]'),
+  variants: z.number().int().min(1).max(10).optional().default(1).describe('Number of ranked variants, e.g. 2 or more for A/B tests')
+});
+
+export type SubjectOptions = z.infer<typeof SubjectOptionsSchema>;
+
+const SubjectVariantsSchema = z.object({
+  variants: z.array(z.object({
+    subject: z.string().min(1),
+    rationale: z.string().min(1)
+  })).min(1)
+});
+
+export interface SubjectVariant {
+  // 1 is the recommended subject
+  rank: number;
+  subject: string;
+  rationale: string;
+  length: number;
+}
+
+export interface SubjectResult {
+  variants: SubjectVariant[];
+  // The caller supplied the subject and no model was asked
+  locked: boolean;
+  // False when the variants came from the fallback after failed attempts
+  valid: boolean;
+  attempts: number;
+  errors: string[];
+}
+
+// Shortest room left for the subject itself after the brand prefix
+const MIN_SUBJECT_LENGTH = 10;
+
+// Strip the formatting and labels models tend to wrap a subject line in
+export function cleanSubject(text: string): string {
+  return text
+    // Remove any remaining formatting markers
+    .replace(/\*\*|\*|__|_/g, '')
+    // Remove phrases like "Subject line:" or "Email subject:"
+    .replace(/^(subject|subject line|email subject|title)(:|\s-)\s*/i, '')
+    // Remove quotes if they wrap the entire subject
+    .replace(/^["'“«](.+)["'”»]$/, '$1')
+    // Remove any line breaks and extra whitespace
+    .replace(/\n/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Banned words found in the text, matched as whole words in any script
+export function findBannedWords(text: string, bannedWords: string[]): string[] {
+  return bannedWords.filter(word => {
+    const escaped = word.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+  });
+}
+
+function withPrefix(subject: string, brandPrefix?: string): string {
+  return brandPrefix && !subject.startsWith(brandPrefix) ? `${brandPrefix} ${subject}` : subject;
+}
+
+// Cut at the last word boundary that fits, marking the cut with an ellipsis
+function truncateSubject(subject: string, maxLength: number): string {
+  if (subject.length <= maxLength) {
+    return subject;
+  }
+  const cut = subject.slice(0, maxLength - 1);
+  const boundary = cut.lastIndexOf(' ');
+  return `${(boundary > maxLength / 2 ? cut.slice(0, boundary) : cut).trimEnd()}…`;
+}
+
+// Use the caller's subject as is
+export function lockSubject(subject: string): SubjectResult {
+  if (/[\r\n]/.test(subject) || !subject.trim()) {
+    throw new Error('The subject must be a single non-empty line');
+  }
+  return {
+    variants: [{ rank: 1, subject: subject.trim(), rationale: 'Subject supplied by the caller', length: subject.trim().length }],
+    locked: true,
+    valid: true,
+    attempts: 0,
+    errors: []
+  };
+}
+
+// Ask for ranked subject variants that respect the tone, language, length and
+// word rules; the model is asked to repair variants that break them
+export async function generateSubjects(model: LLMProvider, subjectPrompt: string, options: SubjectOptions): Promise<SubjectResult> {
+  const budget = options.maxLength - (options.brandPrefix ? options.brandPrefix.length + 1 : 0);
+  if (budget < MIN_SUBJECT_LENGTH) {
+    throw new Error(`brandPrefix leaves ${budget} characters of the ${options.maxLength} character limit; at least ${MIN_SUBJECT_LENGTH} are needed`);
+  }
+  console.error(`Generating ${options.variants} subject variant(s) in ${options.language} for prompt: "${subjectPrompt}"`);
+
+  const prompt = `Write ${options.variants === 1 ? 'one email subject line' : `${options.variants} alternative email subject lines`} for: ${subjectPrompt}
+
+Requirements:
+- Write in ${options.language}
+- Tone: ${options.tone}
+- At most ${budget} characters each
+- No numbering, quotes, asterisks or labels such as "Subject:"${options.bannedWords.length ? `
+- Do not use these words: ${options.bannedWords.join(', ')}` : ''}${options.brandPrefix ? `
+- Do not include the brand name prefix "${options.brandPrefix}"; it is added separately` : ''}${options.variants > 1 ? `
+- Make the variants clearly different for A/B testing (for example benefit, curiosity or urgency), ranked best first` : ''}
+
+Respond with a single JSON object and nothing else, in exactly this format:
+{
+  "variants": [{ "subject": "string", "rationale": "one short sentence on why it works" }]
+}`;
+
+  const result = await generateJson(model, prompt, SubjectVariantsSchema, ({ variants }) => {
+    const errors: string[] = [];
+    if (variants.length < options.variants) {
+      errors.push(`Expected ${options.variants} variants, got ${variants.length}`);
+    }
+    variants.slice(0, options.variants).forEach((variant, index) => {
+      const subject = cleanSubject(variant.subject);
+      if (subject.length > budget) {
+        errors.push(`Variant ${index + 1} is ${subject.length} characters; the limit is ${budget}`);
+      }
+      const banned = findBannedWords(subject, options.bannedWords);
+      if (banned.length) {
+        errors.push(`Variant ${index + 1} uses banned words: ${banned.join(', ')}`);
+      }
+    });
+    return errors;
+  });
+
+  if (result.value) {
+    return {
+      variants: result.value.variants.slice(0, options.variants).map((variant, index) => {
+        const subject = withPrefix(cleanSubject(variant.subject), options.brandPrefix);
+        return { rank: index + 1, subject, rationale: variant.rationale.trim(), length: subject.length };
+      }),
+      locked: false,
+      valid: true,
+      attempts: result.attempts,
+      errors: []
+    };
+  }
+
+  // Last resort: one plain subject, with banned words removed and cut to length
+  const fallback = cleanSubject(await model.generate(`Create a brief ${options.tone} email subject line in ${options.language} (at most ${budget} characters) about: ${subjectPrompt}.
+Just return the subject line text alone with no formatting or explanation.`));
+  const cleaned = findBannedWords(fallback, options.bannedWords)
+    .reduce((text, word) => text.replace(new RegExp(word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'giu'), ''), fallback)
+    .replace(/\s+/g, ' ')
+    .trim();
+  const subject = withPrefix(truncateSubject(cleaned || subjectPrompt, budget), options.brandPrefix);
+  return {
+    variants: [{ rank: 1, subject, rationale: 'Fallback subject: the generated variants did not meet the requirements', length: subject.length }],
+    locked: false,
+    valid: false,
+    attempts: result.attempts + 1,
+    errors: result.errors
+  };
+}
@@ -0,0 +1,705 @@
+// Time ordering of a dataset: resampling a date column into regular periods, and the
+// time-series mode of analyze-data (trend, seasonality, rolling statistics, change
+// points and a forecast per value column).
+import type { DataRow, SeriesAnalysis, TimeSeriesPoint, TimeSeriesReport } from './types.js';
+import { isNumericType, looksLikeIdentifier, toDate, toNumber } from './schema.js';
+import { escapeHtml } from './html.js';
+import { chartId, renderBarChartSvg, renderLineChartSvg } from './charts.js';
+import type { ChartImage, LineSeries } from './charts.js';
+import { forecastSeries } from './forecast.js';
+import type { ForecastConfidence } from './forecast.js';
+import type { DatasetProfile } from './analysis.js';
+
+export type Granularity = 'day' | 'week' | 'month';
+export type Aggregation = 'sum' | 'mean' | 'count' | 'min' | 'max';
+
+export interface SeriesPoint {
+  // Start of the period, in epoch milliseconds (UTC)
+  period: number;
+  value: number;
+}
+
+export interface PartialPeriod {
+  period: number;
+  // Share of the period the dates cover, from 0 to 1
+  coverage: number;
+}
+
+const DAY_MS = 86400000;
+
+// Spreadsheet dates and slashed date strings arrive as local midnight, ISO dates as
+// UTC midnight. Both name a calendar day, which is kept as UTC midnight so periods
+// don't shift by a day east or west of Greenwich; other times stay as they are.
+function calendarTime(date: Date): number {
+  if (date.getHours() || date.getMinutes() || date.getSeconds() || date.getMilliseconds()) {
+    return date.getTime();
+  }
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Start of the day, ISO week (Monday) or month containing the date, in UTC
+export function periodStart(date: Date, granularity: Granularity): number {
+  const time = new Date(calendarTime(date));
+  const day = Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate());
+  if (granularity === 'day') {
+    return day;
+  }
+  if (granularity === 'week') {
+    return day - ((time.getUTCDay() + 6) % 7) * DAY_MS;
+  }
+  return Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), 1);
+}
+
+// Coarsest granularity that still gives a readable number of points for the span
+export function chooseGranularity(dates: Date[]): Granularity {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const date of dates) {
+    const time = date.getTime();
+    if (time < min) min = time;
+    if (time > max) max = time;
+  }
+  const spanDays = (max - min) / DAY_MS;
+  if (spanDays <= 90) return 'day';
+  if (spanDays <= 2 * 365) return 'week';
+  return 'month';
+}
+
+// First and last periods the dates cover only partly, with the share covered. Each
+// date stands for the usual step to the next one, so a period is partial when a date
+// one step before the first or after the last would still fall inside it. Periods
+// holding fewer than two steps are never partial.
+export function partialPeriods(dates: Date[], granularity: Granularity): PartialPeriod[] {
+  const times = [...new Set(dates.map(calendarTime))].sort((a, b) => a - b);
+  if (times.length < 2) {
+    return [];
+  }
+  const steps = times.slice(1).map((time, i) => time - times[i]).sort((a, b) => a - b);
+  const step = steps[Math.floor(steps.length / 2)];
+  const first = times[0];
+  const last = times[times.length - 1];
+  const partial: PartialPeriod[] = [];
+  for (const period of new Set([periodStart(new Date(first), granularity), periodStart(new Date(last), granularity)])) {
+    const end = addPeriods(period, granularity, 1);
+    const length = end - period;
+    if (2 * step > length) {
+      continue;
+    }
+    const from = Math.max(period, first);
+    const to = Math.min(end, last + step);
+    if (from - period >= step || end - to > 0) {
+      partial.push({ period, coverage: (to - from) / length });
+    }
+  }
+  return partial;
+}
+
+// Aggregate a value column per period of a date column. Rows with an unparseable date
+// are skipped; with no value column (or aggregation 'count') the rows are counted.
+export function resample(
+  data: DataRow[],
+  dateColumn: string,
+  valueColumn: string | null,
+  granularity: Granularity | 'auto' = 'auto',
+  aggregation: Aggregation = 'mean'
+): { granularity: Granularity; points: SeriesPoint[]; partialPeriods: PartialPeriod[] } {
+  const dated: { date: Date; value: number | null }[] = [];
+  for (const row of data) {
+    const date = toDate(row[dateColumn]);
+    if (date) {
+      dated.push({ date, value: valueColumn ? toNumber(row[valueColumn]) : null });
+    }
+  }
+  const resolved = granularity === 'auto' ? chooseGranularity(dated.map(d => d.date)) : granularity;
+
+  const groups = new Map<number, { count: number; sum: number; min: number; max: number; values: number }>();
+  for (const { date, value } of dated) {
+    const period = periodStart(date, resolved);
+    let group = groups.get(period);
+    if (!group) {
+      group = { count: 0, sum: 0, min: Infinity, max: -Infinity, values: 0 };
+      groups.set(period, group);
+    }
+    group.count++;
+    if (value !== null) {
+      group.values++;
+      group.sum += value;
+      if (value < group.min) group.min = value;
+      if (value > group.max) group.max = value;
+    }
+  }
+
+  const counting = aggregation === 'count' || !valueColumn;
+  const points: SeriesPoint[] = [];
+  for (const [period, group] of [...groups.entries()].sort((a, b) => a[0] - b[0])) {
+    if (counting) {
+      points.push({ period, value: valueColumn && aggregation === 'count' ? group.values : group.count });
+      continue;
+    }
+    if (group.values === 0) {
+      continue;
+    }
+    const value = aggregation === 'sum' ? group.sum
+      : aggregation === 'min' ? group.min
+      : aggregation === 'max' ? group.max
+      : group.sum / group.values;
+    points.push({ period, value });
+  }
+  return { granularity: resolved, points, partialPeriods: partialPeriods(dated.map(d => d.date), resolved) };
+}
+
+export interface TimeSeriesOptions {
+  // Defaults to the date column with the fewest missing values
+  dateColumn?: string;
+  // Defaults to the first numeric columns; with none, rows are counted per period
+  valueColumns?: string[];
+  granularity?: Granularity | 'auto';
+  aggregation?: Aggregation;
+  // Periods per seasonal cycle; defaults to 7 for days, 52 for weeks and 12 for months
+  seasonLength?: number;
+  // Periods forecast; defaults to one cycle, or a quarter of the history without one
+  horizon?: number;
+  // Periods per rolling window; defaults to one cycle
+  window?: number;
+  confidence?: ForecastConfidence;
+}
+
+// Value columns analyzed when none are given
+const MAX_AUTO_SERIES = 3;
+
+// Fewest periods a series needs to be analyzed
+const MIN_PERIODS = 4;
+
+// Seasonal strength from which the forecast models the season
+const SEASONAL_FORECAST_STRENGTH = 0.3;
+
+// Relative slope per period below which a trend counts as flat
+const FLAT_TREND = 0.001;
+
+const MAX_CHANGE_POINTS = 5;
+
+const DEFAULT_SEASON_LENGTHS: Record<Granularity, number> = { day: 7, week: 52, month: 12 };
+const DEFAULT_WINDOWS: Record<Granularity, number> = { day: 7, week: 4, month: 3 };
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function variance(values: number[]): number {
+  const mean = average(values);
+  return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Number(value.toPrecision(6));
+}
+
+// Start of the period `steps` periods after the given one
+export function addPeriods(period: number, granularity: Granularity, steps: number): number {
+  if (granularity === 'month') {
+    const date = new Date(period);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + steps, 1);
+  }
+  return period + steps * (granularity === 'week' ? 7 : 1) * DAY_MS;
+}
+
+// Insert the periods without rows: sums and counts are 0 there, other aggregations
+// are interpolated between their neighbours
+export function fillGaps(points: SeriesPoint[], granularity: Granularity, aggregation: Aggregation): { points: SeriesPoint[]; filled: number } {
+  const filledPoints: SeriesPoint[] = [];
+  let filled = 0;
+  points.forEach((point, index) => {
+    if (index > 0) {
+      const previous = points[index - 1];
+      const missing: number[] = [];
+      for (let period = addPeriods(previous.period, granularity, 1); period < point.period; period = addPeriods(period, granularity, 1)) {
+        missing.push(period);
+      }
+      missing.forEach((period, i) => {
+        const value = aggregation === 'sum' || aggregation === 'count'
+          ? 0
+          : previous.value + (point.value - previous.value) * (i + 1) / (missing.length + 1);
+        filledPoints.push({ period, value });
+      });
+      filled += missing.length;
+    }
+    filledPoints.push(point);
+  });
+  return { points: filledPoints, filled };
+}
+
+// Least-squares line through the values, x being the period index
+export function linearTrend(values: number[]): { slope: number; intercept: number; rSquared: number } {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = average(values);
+  let sxy = 0;
+  let sxx = 0;
+  values.forEach((value, x) => {
+    sxy += (x - meanX) * (value - meanY);
+    sxx += (x - meanX) ** 2;
+  });
+  const slope = sxx ? sxy / sxx : 0;
+  const intercept = meanY - slope * meanX;
+  const total = values.reduce((sum, value) => sum + (value - meanY) ** 2, 0);
+  const residual = values.reduce((sum, value, x) => sum + (value - intercept - slope * x) ** 2, 0);
+  return { slope, intercept, rSquared: total ? 1 - residual / total : 0 };
+}
+
+// Trailing mean and standard deviation; null until the window is full
+export function rollingStats(values: number[], window: number): { mean: (number | null)[]; std: (number | null)[] } {
+  const mean: (number | null)[] = [];
+  const std: (number | null)[] = [];
+  values.forEach((_, index) => {
+    if (index < window - 1) {
+      mean.push(null);
+      std.push(null);
+      return;
+    }
+    const slice = values.slice(index - window + 1, index + 1);
+    mean.push(round(average(slice)));
+    std.push(round(Math.sqrt(variance(slice))));
+  });
+  return { mean, std };
+}
+
+// Classical additive decomposition: a centered moving average over one cycle for the
+// trend, and the average deviation from it per position in the cycle for the season
+export function decompose(values: number[], seasonLength: number): { trend: (number | null)[]; indices: number[]; strength: number; residualStd: number } {
+  const half = Math.floor(seasonLength / 2);
+  const trend = values.map((_, t) => {
+    if (t < half || t + half >= values.length) {
+      return null;
+    }
+    if (seasonLength % 2 === 1) {
+      return average(values.slice(t - half, t + half + 1));
+    }
+    // Even cycles use a 2 x m moving average so the window stays centered
+    const inner = values.slice(t - half + 1, t + half).reduce((sum, value) => sum + value, 0);
+    return (inner + (values[t - half] + values[t + half]) / 2) / seasonLength;
+  });
+
+  const deviations: number[][] = Array.from({ length: seasonLength }, () => []);
+  trend.forEach((level, t) => {
+    if (level !== null) {
+      deviations[t % seasonLength].push(values[t] - level);
+    }
+  });
+  const raw = deviations.map(list => list.length ? average(list) : 0);
+  const offset = average(raw);
+  const indices = raw.map(value => value - offset);
+
+  // Share of the variation around the trend that the season explains
+  const detrended: number[] = [];
+  const residuals: number[] = [];
+  trend.forEach((level, t) => {
+    if (level !== null) {
+      detrended.push(values[t] - level);
+      residuals.push(values[t] - level - indices[t % seasonLength]);
+    }
+  });
+  const spread = detrended.length ? variance(detrended) : 0;
+  const strength = spread ? Math.max(0, 1 - variance(residuals) / spread) : 0;
+  return { trend, indices, strength, residualStd: residuals.length ? Math.sqrt(variance(residuals)) : 0 };
+}
+
+// Changes in level or slope, found by binary segmentation into straight-line pieces:
+// a piece is split where that most reduces the squared errors of the lines, while the
+// reduction beats a BIC-style penalty. The noise level is estimated from the spread of
+// neighbour differences, which neither a steady trend nor a single jump affects much,
+// or given by the caller, e.g. the residuals of a seasonal decomposition.
+export function detectChangePoints(values: number[], noise?: number): number[] {
+  const n = values.length;
+  const minSegment = Math.max(4, Math.ceil(n * 0.05));
+  if (n < 2 * minSegment) {
+    return [];
+  }
+  // Standardized values keep the running sums well within floating point precision
+  const mean = average(values);
+  const scale = Math.sqrt(variance(values)) || 1;
+  const x = values.map(value => (value - mean) / scale);
+
+  const sums = { t: [0], tt: [0], x: [0], xx: [0], tx: [0] };
+  x.forEach((value, t) => {
+    sums.t.push(sums.t[t] + t);
+    sums.tt.push(sums.tt[t] + t * t);
+    sums.x.push(sums.x[t] + value);
+    sums.xx.push(sums.xx[t] + value * value);
+    sums.tx.push(sums.tx[t] + t * value);
+  });
+  // Squared errors of the least-squares line through values [from, to)
+  const cost = (from: number, to: number) => {
+    const count = to - from;
+    const st = sums.t[to] - sums.t[from];
+    const sx = sums.x[to] - sums.x[from];
+    const ttc = sums.tt[to] - sums.tt[from] - st * st / count;
+    const xxc = sums.xx[to] - sums.xx[from] - sx * sx / count;
+    const txc = sums.tx[to] - sums.tx[from] - st * sx / count;
+    return Math.max(0, ttc > 0 ? xxc - txc * txc / ttc : xxc);
+  };
+
+  const differences = x.slice(1).map((value, i) => value - x[i]);
+  const middle = [...differences].sort((a, b) => a - b)[Math.floor(differences.length / 2)];
+  const deviations = differences.map(difference => Math.abs(difference - middle)).sort((a, b) => a - b);
+  const sigma = Math.max(deviations[Math.floor(deviations.length / 2)] / (0.6745 * Math.SQRT2), (noise ?? 0) / scale);
+  // A split adds a location, an intercept and a slope
+  const penalty = 3 * Math.log(n) * sigma * sigma;
+
+  const found: number[] = [];
+  const segments: [number, number][] = [[0, n]];
+  while (found.length < MAX_CHANGE_POINTS) {
+    let best: { index: number; gain: number; segment: number } | null = null;
+    segments.forEach(([from, to], segment) => {
+      const whole = cost(from, to);
+      for (let split = from + minSegment; split <= to - minSegment; split++) {
+        const gain = whole - cost(from, split) - cost(split, to);
+        if (gain > penalty && gain > 1e-9 && (!best || gain > best.gain)) {
+          best = { index: split, gain, segment };
+        }
+      }
+    });
+    if (!best) {
+      break;
+    }
+    const { index, segment } = best as { index: number; segment: number };
+    const [from, to] = segments[segment];
+    segments.splice(segment, 1, [from, index], [index, to]);
+    found.push(index);
+  }
+  return found.sort((a, b) => a - b);
+}
+
+// The date column with the fewest missing values
+export function findDateColumn(profile: DatasetProfile): string | null {
+  const candidates = profile.columns
+    .filter(column => ['date', 'datetime'].includes(profile.statistics.schema[column]?.type))
+    .sort((a, b) => profile.statistics.schema[a].missingCount - profile.statistics.schema[b].missingCount);
+  return candidates[0] ?? null;
+}
+
+function formatPeriod(period: number, granularity: Granularity): string {
+  const iso = new Date(period).toISOString();
+  return granularity === 'month' ? iso.slice(0, 7) : granularity === 'week' ? `week of ${iso.slice(0, 10)}` : iso.slice(0, 10);
+}
+
+// Name of a position in the cycle, e.g. "Monday" or "December"
+function seasonPosition(period: string, granularity: Granularity, seasonLength: number): string {
+  const date = new Date(period);
+  if (granularity === 'day' && seasonLength === 7) {
+    return WEEKDAYS[date.getUTCDay()];
+  }
+  if (granularity === 'month' && seasonLength === 12) {
+    return MONTHS[date.getUTCMonth()];
+  }
+  return `position of ${formatPeriod(date.getTime(), granularity)}`;
+}
+
+function analyzeSeries(points: SeriesPoint[], column: string | null, filledPeriods: number, granularity: Granularity, options: TimeSeriesOptions): SeriesAnalysis {
+  const values = points.map(point => point.value);
+  const periods = points.map(point => new Date(point.period).toISOString());
+  const n = values.length;
+
+  const fit = linearTrend(values);
+  const level = Math.abs(average(values));
+  const relativeSlope = level ? fit.slope / level : 0;
+
+  const seasonLength = options.seasonLength ?? DEFAULT_SEASON_LENGTHS[granularity];
+  const decomposition = seasonLength >= 2 && n >= 2 * seasonLength ? decompose(values, seasonLength) : null;
+  const seasonality = decomposition ? {
+    length: seasonLength,
+    strength: round(decomposition.strength),
+    indices: decomposition.indices.map(round),
+    peak: decomposition.indices.indexOf(Math.max(...decomposition.indices)),
+    trough: decomposition.indices.indexOf(Math.min(...decomposition.indices))
+  } : null;
+
+  // Change points are looked for once the season is removed, so the regular
+  // seasonal swings aren't reported as changes
+  const adjusted = values.map((value, t) => value - (decomposition ? decomposition.indices[t % seasonLength] : 0));
+  const splits = detectChangePoints(adjusted, decomposition?.residualStd);
+  const bounds = [0, ...splits, n];
+  const pieces = bounds.slice(0, -1).map((from, i) => ({ from, ...linearTrend(adjusted.slice(from, bounds[i + 1])) }));
+  const levelAt = (piece: typeof pieces[number], t: number) => piece.intercept + piece.slope * (t - piece.from);
+  const changePoints = splits.map((index, i) => ({
+    period: periods[index],
+    index,
+    levelBefore: round(levelAt(pieces[i], index)),
+    levelAfter: round(levelAt(pieces[i + 1], index)),
+    slopeBefore: round(pieces[i].slope),
+    slopeAfter: round(pieces[i + 1].slope)
+  }));
+
+  const window = Math.max(2, Math.min(options.window ?? (seasonality ? seasonLength : DEFAULT_WINDOWS[granularity]), Math.floor(n / 2)));
+  const confidence = options.confidence ?? 0.95;
+  const horizon = options.horizon ?? (seasonality ? seasonLength : Math.min(12, Math.max(3, Math.ceil(n / 4))));
+  const seasonalForecast = seasonality && seasonality.strength >= SEASONAL_FORECAST_STRENGTH ? seasonLength : 0;
+  const smoothing = forecastSeries(values, seasonalForecast, horizon, confidence);
+  const last = points[n - 1].period;
+
+  return {
+    column,
+    points: points.map((point, i) => ({ period: periods[i], value: round(point.value) })),
+    filledPeriods,
+    trend: {
+      direction: Math.abs(relativeSlope) < FLAT_TREND ? 'flat' : fit.slope > 0 ? 'up' : 'down',
+      slopePerPeriod: round(fit.slope),
+      relativeSlope: round(relativeSlope),
+      rSquared: round(fit.rSquared)
+    },
+    seasonality,
+    rolling: { window, ...rollingStats(values, window) },
+    changePoints,
+    forecast: smoothing ? {
+      method: smoothing.method,
+      alpha: smoothing.alpha,
+      beta: smoothing.beta,
+      gamma: smoothing.gamma,
+      rmse: round(smoothing.rmse),
+      mae: round(smoothing.mae),
+      confidence,
+      points: smoothing.values.map((forecast, h) => ({
+        period: new Date(addPeriods(last, granularity, h + 1)).toISOString(),
+        value: round(forecast.value),
+        low: round(forecast.low),
+        high: round(forecast.high)
+      }))
+    } : null
+  };
+}
+
+// Time-series findings for one dataset; null when it has no date column and none was given
+export function analyzeTimeSeries(profile: DatasetProfile, options: TimeSeriesOptions = {}): TimeSeriesReport | null {
+  const dateColumn = options.dateColumn ?? findDateColumn(profile);
+  if (!dateColumn) {
+    return null;
+  }
+  const unknown = [dateColumn, ...(options.valueColumns ?? [])].filter(column => !profile.columns.includes(column));
+  if (unknown.length) {
+    throw new Error(`Unknown column${unknown.length > 1 ? 's' : ''} for the time series of ${profile.name}: ${unknown.join(', ')}. Available: ${profile.columns.join(', ')}`);
+  }
+  for (const column of options.valueColumns ?? []) {
+    const { type } = profile.statistics.schema[column];
+    if (!isNumericType(type)) {
+      throw new Error(`Column "${column}" of ${profile.name} is ${type}, but time-series value columns must be numeric`);
+    }
+  }
+
+  const valueColumns = options.valueColumns ?? profile.numericColumns
+    .filter(column => column !== dateColumn && !looksLikeIdentifier(column))
+    .slice(0, MAX_AUTO_SERIES);
+  const aggregation = options.aggregation ?? (valueColumns.length ? 'sum' : 'count');
+  const skippedRows = profile.data.filter(row => !toDate(row[dateColumn])).length;
+  let granularity: Granularity = 'day';
+  let partial: PartialPeriod[] = [];
+
+  const series = (valueColumns.length ? valueColumns : [null]).flatMap(column => {
+    const seriesAggregation = column ? aggregation : 'count';
+    const resampled = resample(profile.data, dateColumn, column, options.granularity ?? 'auto', seriesAggregation);
+    granularity = resampled.granularity;
+    // A sum or count over part of a period reads as a drop, which would bend the trend,
+    // add a change point and pull the forecast down, so partial edge periods are left out
+    if (seriesAggregation === 'sum' || seriesAggregation === 'count') {
+      partial = resampled.partialPeriods;
+    }
+    const complete = resampled.points.filter(point => !partial.some(period => period.period === point.period));
+    const { points, filled } = fillGaps(complete, resampled.granularity, seriesAggregation);
+    return points.length >= MIN_PERIODS ? [analyzeSeries(points, column, filled, resampled.granularity, options)] : [];
+  });
+  if (!series.length) {
+    throw new Error(`Too few ${granularity}s with values in ${profile.name} for a time series (at least ${MIN_PERIODS} are needed); try a finer granularity`);
+  }
+  return {
+    dataset: profile.name,
+    dateColumn,
+    granularity,
+    aggregation,
+    skippedRows,
+    partialPeriods: partial.map(period => ({ period: new Date(period.period).toISOString(), coverage: round(period.coverage) })),
+    series
+  };
+}
+
+export interface SkippedTimeSeries {
+  dataset: string;
+  reason: string;
+}
+
+// Time series of every sheet of a workbook. A sheet without a date column or with
+// too few periods is skipped with its reason; the run fails only when no sheet has one
+export function analyzeSheetTimeSeries(
+  profiles: DatasetProfile[],
+  options: TimeSeriesOptions,
+  fileName: string
+): { reports: (TimeSeriesReport | null)[]; skipped: SkippedTimeSeries[] } {
+  const skipped: SkippedTimeSeries[] = [];
+  const reports = profiles.map(profile => {
+    try {
+      const report = analyzeTimeSeries(profile, options);
+      if (!report) {
+        skipped.push({ dataset: profile.name, reason: 'No date column found; pass timeSeries.dateColumn' });
+      }
+      return report;
+    } catch (error) {
+      skipped.push({ dataset: profile.name, reason: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  });
+  if (skipped.length === profiles.length) {
+    const reasons = skipped.map(sheet => profiles.length > 1 ? `${sheet.dataset}: ${sheet.reason}` : sheet.reason);
+    throw new Error(`No time series found in ${fileName}: ${reasons.join('; ')}`);
+  }
+  return { reports, skipped };
+}
+
+// Sheets left without a time series, for the workbook overview
+export function renderSkippedTimeSeries(skipped: SkippedTimeSeries[]): string {
+  return skipped.length
+    ? `<p>Sheets without a time series: ${skipped.map(sheet => `${escapeHtml(sheet.dataset)} (${escapeHtml(sheet.reason)})`).join('; ')}</p>`
+    : '';
+}
+
+function seriesLabel(series: SeriesAnalysis, report: TimeSeriesReport): string {
+  return series.column ? `${report.aggregation} of ${series.column}` : 'row count';
+}
+
+function describePoint(point: TimeSeriesPoint, granularity: Granularity): string {
+  return formatPeriod(Date.parse(point.period), granularity);
+}
+
+// e.g. "week of 2024-04-29 (14% covered)"
+function describePartialPeriods(report: TimeSeriesReport): string {
+  return report.partialPeriods
+    .map(partial => `${formatPeriod(Date.parse(partial.period), report.granularity)} (${Math.round(partial.coverage * 100)}% covered)`)
+    .join(' and ');
+}
+
+// Findings as text for the model prompt
+export function describeTimeSeries(report: TimeSeriesReport): string {
+  const { granularity } = report;
+  const sections = report.series.map(series => {
+    const first = series.points[0];
+    const last = series.points[series.points.length - 1];
+    const lines = [
+      `Time series of ${seriesLabel(series, report)} per ${granularity} of ${report.dateColumn}, ${describePoint(first, granularity)} to ${describePoint(last, granularity)} (${series.points.length} periods${series.filledPeriods ? `, ${series.filledPeriods} without rows` : ''}):`,
+      `- Trend: ${series.trend.direction}, ${series.trend.slopePerPeriod >= 0 ? '+' : ''}${series.trend.slopePerPeriod} per ${granularity} (${(series.trend.relativeSlope * 100).toFixed(2)}% of the mean level), R² ${series.trend.rSquared}`,
+      `- First value ${first.value}, last value ${last.value}`
+    ];
+    if (series.seasonality) {
+      const { length, strength, indices, peak, trough } = series.seasonality;
+      lines.push(`- Seasonality over ${length} ${granularity}s: strength ${strength} (${strength >= SEASONAL_FORECAST_STRENGTH ? 'clear' : 'weak'}); highest at ${seasonPosition(series.points[peak].period, granularity, length)} (${indices[peak] >= 0 ? '+' : ''}${indices[peak]}), lowest at ${seasonPosition(series.points[trough].period, granularity, length)} (${indices[trough]})`);
+    } else {
+      lines.push('- Seasonality: not estimated (fewer than two full cycles)');
+    }
+    lines.push(series.changePoints.length
+      ? `- Change points (seasonally adjusted): ${series.changePoints.map(change => `${describePoint({ period: change.period, value: 0 }, granularity)} (level ${change.levelBefore} to ${change.levelAfter}, slope ${change.slopeBefore} to ${change.slopeAfter} per ${granularity})`).join('; ')}`
+      : '- Change points: none detected');
+    const rollingMean = series.rolling.mean[series.rolling.mean.length - 1];
+    const rollingStd = series.rolling.std[series.rolling.std.length - 1];
+    lines.push(`- Rolling ${series.rolling.window}-${granularity} mean at the end: ${rollingMean} (standard deviation ${rollingStd})`);
+    if (series.forecast) {
+      const { method, confidence, rmse, points } = series.forecast;
+      lines.push(`- Forecast (${method === 'holt-winters' ? 'Holt-Winters' : "Holt's linear trend"}, ${confidence * 100}% intervals, one-step RMSE ${rmse}): ${points.map(point => `${describePoint(point, granularity)} ${point.value} [${point.low}, ${point.high}]`).join('; ')}`);
+    }
+    return lines.join('\n');
+  });
+  const partial = report.partialPeriods.length
+    ? [`Left out of every series because the data covers only part of them (their ${report.aggregation} would read as a drop): ${describePartialPeriods(report)}`]
+    : [];
+  return [...partial, ...sections].join('\n\n');
+}
+
+// HTML section with the findings of every series
+export function renderTimeSeriesSection(report: TimeSeriesReport): string {
+  const { granularity } = report;
+  return `
+    <h2>Time Series</h2>
+    <div class="stats">
+      <p>Date column: ${escapeHtml(report.dateColumn)}, resampled per ${granularity} (${report.aggregation}).${report.skippedRows ? ` ${report.skippedRows} rows without a readable date were skipped.` : ''}${report.partialPeriods.length ? ` Left out because the data covers only part of them: ${describePartialPeriods(report)}.` : ''}</p>
+      ${report.series.map(series => `
+      <h3>${escapeHtml(seriesLabel(series, report))}</h3>
+      <p>${series.points.length} periods from ${describePoint(series.points[0], granularity)} to ${describePoint(series.points[series.points.length - 1], granularity)}${series.filledPeriods ? `; ${series.filledPeriods} periods without rows were filled` : ''}.</p>
+      <p>Trend: ${series.trend.direction}, ${series.trend.slopePerPeriod} per ${granularity} (${(series.trend.relativeSlope * 100).toFixed(2)}% of the mean level), R² ${series.trend.rSquared}</p>
+      ${series.seasonality ? `
+      <p>Seasonality over ${series.seasonality.length} ${granularity}s: strength ${series.seasonality.strength}; highest at ${escapeHtml(seasonPosition(series.points[series.seasonality.peak].period, granularity, series.seasonality.length))}, lowest at ${escapeHtml(seasonPosition(series.points[series.seasonality.trough].period, granularity, series.seasonality.length))}</p>` : '<p>Seasonality: not estimated (fewer than two full cycles).</p>'}
+      <h4>Change Points</h4>
+      ${series.changePoints.length ? `
+      <table class="schema">
+        <tr><th>From</th><th>Level before</th><th>Level after</th><th>Slope before</th><th>Slope after</th></tr>
+        ${series.changePoints.map(change => `
+        <tr><td>${describePoint({ period: change.period, value: 0 }, granularity)}</td><td>${change.levelBefore}</td><td>${change.levelAfter}</td><td>${change.slopeBefore}</td><td>${change.slopeAfter}</td></tr>`).join('')}
+      </table>` : '<p>None detected.</p>'}
+      <h4>Forecast</h4>
+      ${series.forecast ? `
+      <p>${series.forecast.method === 'holt-winters' ? 'Holt-Winters (additive)' : "Holt's linear trend"} with α ${series.forecast.alpha}, β ${series.forecast.beta}${series.forecast.gamma !== null ? `, γ ${series.forecast.gamma}` : ''}; one-step RMSE ${series.forecast.rmse}, MAE ${series.forecast.mae}</p>
+      <table class="schema">
+        <tr><th>Period</th><th>Forecast</th><th>${series.forecast.confidence * 100}% interval</th></tr>
+        ${series.forecast.points.map(point => `
+        <tr><td>${describePoint(point, granularity)}</td><td>${point.value}</td><td>${point.low} to ${point.high}</td></tr>`).join('')}
+      </table>` : '<p>Too few periods to forecast.</p>'}`).join('')}
+    </div>`;
+}
+
+// Per series: the history with its rolling mean, level shifts and forecast, and the seasonal profile
+export function buildTimeSeriesCharts(report: TimeSeriesReport): ChartImage[] {
+  const { granularity } = report;
+  return report.series.flatMap(series => {
+    const label = seriesLabel(series, report);
+    const x = (period: string) => Date.parse(period);
+    const lines: LineSeries[] = [
+      { label, points: series.points.map(point => ({ x: x(point.period), y: point.value })) },
+      {
+        label: `${series.rolling.window}-${granularity} mean`,
+        points: series.points.flatMap((point, i) => series.rolling.mean[i] === null ? [] : [{ x: x(point.period), y: series.rolling.mean[i]! }])
+      }
+    ];
+    if (series.changePoints.length) {
+      // The fitted pieces, drawn up to each change so the jumps are visible
+      const bounds = [0, ...series.changePoints.map(change => change.index), series.points.length];
+      lines.push({
+        label: 'Piecewise trend',
+        points: bounds.slice(0, -1).flatMap((from, i) => {
+          const to = bounds[i + 1] - 1;
+          const slope = i === 0 ? series.changePoints[0].slopeBefore : series.changePoints[i - 1].slopeAfter;
+          const start = i === 0 ? series.changePoints[0].levelBefore - slope * (series.changePoints[0].index - from) : series.changePoints[i - 1].levelAfter;
+          return [
+            { x: x(series.points[from].period), y: start },
+            { x: x(series.points[to].period), y: start + slope * (to - from) }
+          ];
+        })
+      });
+    }
+    if (series.forecast) {
+      const last = series.points[series.points.length - 1];
+      lines.push({
+        label: 'Forecast',
+        points: [{ x: x(last.period), y: last.value }, ...series.forecast.points.map(point => ({ x: x(point.period), y: point.value }))],
+        band: [{ x: x(last.period), low: last.value, high: last.value }, ...series.forecast.points.map(point => ({ x: x(point.period), low: point.low, high: point.high }))],
+        dashed: true
+      });
+    }
+    const title = `${label} per ${granularity}${series.forecast ? ' with forecast' : ''}`;
+    const charts: ChartImage[] = [{
+      id: chartId(series.column ?? 'rows', 'timeseries'),
+      title,
+      svg: renderLineChartSvg({ title, series: lines, xLabel: report.dateColumn, yLabel: label, timeAxis: true })
+    }];
+
+    if (series.seasonality) {
+      const { length, indices } = series.seasonality;
+      const seasonTitle = `Seasonal effect on ${label}`;
+      charts.push({
+        id: chartId(series.column ?? 'rows', 'seasonality'),
+        title: seasonTitle,
+        svg: renderBarChartSvg({
+          title: seasonTitle,
+          labels: indices.map((_, position) => seasonPosition(series.points[position].period, granularity, length).replace(/^position of /, '')),
+          values: indices,
+          xLabel: `Position in the ${length}-${granularity} cycle`,
+          yLabel: 'Difference from trend'
+        })
+      });
+    }
+    return charts;
+  });
+}
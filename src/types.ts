@@ -1,24 +1,292 @@
+export type CellValue = string | number | boolean | Date | null;
+
 export interface DataRow {
-  [key: string]: string | number;
+  [key: string]: CellValue;
+}
+
+export type ColumnType =
+  | 'numeric'
+  | 'integer'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'categorical'
+  | 'text'
+  | 'identifier'
+  | 'empty';
+
+export interface MixedCell {
+  row: number;
+  value: string;
+  detectedAs: string;
+}
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  confidence: number;
+  confidenceLevel: 'high' | 'medium' | 'low';
+  nonNullCount: number;
+  missingCount: number;
+  uniqueCount: number;
+  // Set when more distinct values were seen than are tracked, making uniqueCount a lower bound
+  uniqueCountCapped?: boolean;
+  mixedCount: number;
+  mixedCells: MixedCell[];
+}
+
+export interface DatasetSchema {
+  [column: string]: ColumnSchema;
 }
 
 export interface NumericStats {
+  count: number;
   mean: number;
   median: number;
   std: number;
   min: number;
   max: number;
+  q1: number;
+  q3: number;
+  // Set when quantiles were estimated from a sample rather than every value
+  approximate?: boolean;
+}
+
+export interface BoxPlotStats {
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  // Most extreme values within 1.5 IQR of the quartiles
+  lowerWhisker: number;
+  upperWhisker: number;
+  outliers: number[];
+}
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface CategoricalStats {
+  cardinality: number;
+  mode: string | null;
+  modeCount: number;
+  entropy: number;
+  missingCount: number;
+  topValues: ValueCount[];
+  otherCount: number;
+  // Set when the column had more distinct values than the streaming counters track
+  approximate?: boolean;
+}
+
+export interface CorrelationMatrix {
+  columns: string[];
+  values: (number | null)[][];
+}
+
+export interface Relationship {
+  columns: [string, string];
+  method: 'pearson' | 'spearman' | 'cramersV';
+  value: number;
+  n: number;
+}
+
+export interface CorrelationStats {
+  pearson: CorrelationMatrix;
+  spearman: CorrelationMatrix;
+  cramersV: CorrelationMatrix;
+  topRelationships: Relationship[];
 }
 
 export interface Statistics {
   rowCount: number;
   columnCount: number;
+  schema: DatasetSchema;
   numericStats: {
     [key: string]: NumericStats;
   };
   categoricalStats: {
-    [key: string]: {
-      [value: string]: number;
-    };
+    [key: string]: CategoricalStats;
+  };
+  correlations: CorrelationStats;
+  // Present when the file was profiled in streaming mode; correlations and charts
+  // are then computed on a uniform sample of rows
+  sampling?: {
+    sampleSize: number;
+    totalRows: number;
   };
-} 
\ No newline at end of file
+} 
+
+export interface JoinKeyCandidate {
+  leftSheet: string;
+  leftColumn: string;
+  rightSheet: string;
+  rightColumn: string;
+  sharedValues: number;
+  containment: number;
+  sameName: boolean;
+  relationship: 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+}
+
+// Row numbers in the quality report are zero-based positions among the data rows
+// (header excluded), matching MixedCell.row
+export interface MissingPattern {
+  columns: string[];
+  count: number;
+  rows: number[];
+}
+
+export interface DuplicateGroup {
+  kind: 'exact' | 'near';
+  rows: number[];
+}
+
+export interface OutlierFlag {
+  row: number;
+  value: number;
+  zScore: number;
+  methods: ('iqr' | 'zscore')[];
+}
+
+export interface ColumnOutliers {
+  column: string;
+  lowerFence: number;
+  upperFence: number;
+  iqrCount: number;
+  zScoreCount: number;
+  rows: OutlierFlag[];
+}
+
+export interface ConstantColumn {
+  column: string;
+  kind: 'empty' | 'constant' | 'near-constant';
+  value: string | null;
+  share: number;
+}
+
+export interface SuspiciousValues {
+  column: string;
+  reason: string;
+  count: number;
+  rows: { row: number; value: string }[];
+}
+
+export interface QualityReport {
+  dataset: string;
+  rowCount: number;
+  // Present when the row-level checks ran on a sample of a streamed file
+  sampling?: {
+    sampleSize: number;
+    totalRows: number;
+  };
+  missing: {
+    columns: { column: string; count: number; share: number }[];
+    rowsWithMissing: number;
+    patterns: MissingPattern[];
+  };
+  duplicates: {
+    exactCount: number;
+    nearCount: number;
+    groups: DuplicateGroup[];
+  };
+  outliers: ColumnOutliers[];
+  constantColumns: ConstantColumn[];
+  mixedTypes: { column: string; count: number; cells: MixedCell[] }[];
+  suspicious: SuspiciousValues[];
+}
+
+export interface TimeSeriesPoint {
+  // Start of the period, ISO 8601
+  period: string;
+  value: number;
+}
+
+export interface ChangePoint {
+  // First period after the change
+  period: string;
+  index: number;
+  // Fitted level at the change from the pieces on either side; their difference is the jump
+  levelBefore: number;
+  levelAfter: number;
+  // Slope per period of the pieces on either side
+  slopeBefore: number;
+  slopeAfter: number;
+}
+
+export interface ForecastPoint extends TimeSeriesPoint {
+  low: number;
+  high: number;
+}
+
+export interface SeriesAnalysis {
+  // Value column, or null when rows are counted per period
+  column: string | null;
+  points: TimeSeriesPoint[];
+  // Periods without rows, filled with 0 for sums and counts, interpolated otherwise
+  filledPeriods: number;
+  trend: {
+    direction: 'up' | 'down' | 'flat';
+    // Least-squares slope in value units per period
+    slopePerPeriod: number;
+    // Slope as a share of the mean level
+    relativeSlope: number;
+    rSquared: number;
+  };
+  seasonality: {
+    // Periods per cycle, e.g. 7 for days in a week or 12 for months in a year
+    length: number;
+    // 0 (none) to 1 (the seasonal component explains all variation around the trend)
+    strength: number;
+    // Additive seasonal effect per position in the cycle
+    indices: number[];
+    peak: number;
+    trough: number;
+  } | null;
+  rolling: {
+    window: number;
+    mean: (number | null)[];
+    std: (number | null)[];
+  };
+  changePoints: ChangePoint[];
+  forecast: {
+    method: 'holt-winters' | 'holt';
+    alpha: number;
+    beta: number;
+    gamma: number | null;
+    // One-step-ahead errors over the fitted history
+    rmse: number;
+    mae: number;
+    confidence: number;
+    points: ForecastPoint[];
+  } | null;
+}
+
+export interface TimeSeriesReport {
+  dataset: string;
+  dateColumn: string;
+  granularity: 'day' | 'week' | 'month';
+  aggregation: 'sum' | 'mean' | 'count' | 'min' | 'max';
+  // Rows without a parseable date
+  skippedRows: number;
+  // First or last periods the dates cover only partly, left out of sums and counts
+  partialPeriods: { period: string; coverage: number }[];
+  series: SeriesAnalysis[];
+}
+
+// Files written by one analyze-data run, saved as run_<runId>.json next to the report
+export interface RunManifest {
+  runId: string;
+  createdAt: string;
+  file: string;
+  // Unknown for runs saved before manifests were written
+  analysisType?: 'basic' | 'detailed' | 'timeseries';
+  report: string;
+  analysis?: string;
+  quality?: string;
+  statistics?: string;
+  // Time-series runs only
+  timeSeries?: string;
+  plots: string[];
+}
\ No newline at end of file
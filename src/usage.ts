@@ -0,0 +1,157 @@
+// Accounting for every model call: tokens, latency, retries and cache hits per tool
+// and model. Calls are appended to a JSON Lines file so totals survive restarts.
+import fs from 'node:fs';
+import path from 'path';
+import { defineProvider } from './llm.js';
+import type { LLMProvider } from './llm.js';
+
+export interface UsageRecord {
+  timestamp: string;
+  tool: string;
+  provider: string;
+  model: string;
+  ok: boolean;
+  cached: boolean;
+  // Requests sent to the provider, retries included; 0 for cache hits
+  attempts: number;
+  latencyMs: number;
+  promptTokens?: number;
+  outputTokens?: number;
+  error?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failed: number;
+  cached: number;
+  // Requests after the first of each call
+  retries: number;
+  promptTokens: number;
+  outputTokens: number;
+  // Tokens the cache hits would have cost
+  tokensSaved: number;
+  // Calls whose provider reported no token counts
+  withoutTokenCounts: number;
+  latencyMs: { average: number; p50: number; p95: number; max: number };
+}
+
+export interface UsageStats {
+  since?: string;
+  totals: UsageTotals;
+  byTool: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  recent: UsageRecord[];
+}
+
+// Longest error message kept per record
+const MAX_ERROR_LENGTH = 300;
+
+function percentile(sorted: number[], fraction: number): number {
+  return sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))] : 0;
+}
+
+export function summarizeUsage(records: UsageRecord[]): UsageTotals {
+  const tokens = (record: UsageRecord) => (record.promptTokens ?? 0) + (record.outputTokens ?? 0);
+  const requested = records.filter(record => !record.cached);
+  // Latency of cache hits says nothing about the provider
+  const latencies = requested.map(record => record.latencyMs).sort((a, b) => a - b);
+  return {
+    calls: records.length,
+    failed: records.filter(record => !record.ok).length,
+    cached: records.length - requested.length,
+    retries: records.reduce((sum, record) => sum + Math.max(0, record.attempts - 1), 0),
+    promptTokens: requested.reduce((sum, record) => sum + (record.promptTokens ?? 0), 0),
+    outputTokens: requested.reduce((sum, record) => sum + (record.outputTokens ?? 0), 0),
+    tokensSaved: records.filter(record => record.cached).reduce((sum, record) => sum + tokens(record), 0),
+    withoutTokenCounts: records.filter(record => record.ok && record.promptTokens === undefined && record.outputTokens === undefined).length,
+    latencyMs: {
+      average: latencies.length ? Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length) : 0,
+      p50: percentile(latencies, 0.5),
+      p95: percentile(latencies, 0.95),
+      max: latencies.at(-1) ?? 0
+    }
+  };
+}
+
+function groupBy(records: UsageRecord[], key: (record: UsageRecord) => string): Record<string, UsageTotals> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const name = key(record);
+    const group = groups.get(name);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(name, [record]);
+    }
+  }
+  return Object.fromEntries([...groups].sort(([a], [b]) => a.localeCompare(b)).map(([name, group]) => [name, summarizeUsage(group)]));
+}
+
+export function createUsageLog(file: string) {
+  const records: UsageRecord[] = [];
+  if (fs.existsSync(file)) {
+    for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+      try {
+        if (line.trim()) {
+          records.push(JSON.parse(line));
+        }
+      } catch {
+        // A line cut short by a crash
+      }
+    }
+  }
+
+  function record(entry: UsageRecord): void {
+    records.push(entry);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify(entry)}\n`);
+  }
+
+  function stats(filter: { since?: Date; tool?: string; recent?: number } = {}): UsageStats {
+    const selected = records.filter(entry =>
+      (!filter.since || Date.parse(entry.timestamp) >= filter.since.getTime()) && (!filter.tool || entry.tool === filter.tool));
+    return {
+      since: filter.since?.toISOString() ?? selected[0]?.timestamp,
+      totals: summarizeUsage(selected),
+      byTool: groupBy(selected, entry => entry.tool),
+      byModel: groupBy(selected, entry => `${entry.provider}/${entry.model}`),
+      recent: selected.slice(-(filter.recent ?? 10)).reverse()
+    };
+  }
+
+  return { file, record, stats };
+}
+
+export type UsageLog = ReturnType<typeof createUsageLog>;
+
+// Record every call made through the provider under the given tool name
+export function withUsage(provider: LLMProvider, log: UsageLog, tool: string): LLMProvider {
+  return defineProvider(provider.name, provider.model, async (prompt, options = {}) => {
+    const started = Date.now();
+    const base = { tool, provider: provider.name, model: options.model ?? provider.model };
+    try {
+      const completion = await provider.complete(prompt, options);
+      log.record({
+        timestamp: new Date(started).toISOString(),
+        ...base,
+        ok: true,
+        cached: completion.cached ?? false,
+        attempts: completion.attempts ?? 1,
+        latencyMs: Date.now() - started,
+        ...completion.usage
+      });
+      return completion;
+    } catch (error) {
+      log.record({
+        timestamp: new Date(started).toISOString(),
+        ...base,
+        ok: false,
+        cached: false,
+        attempts: (error as { attempts?: number }).attempts ?? 1,
+        latencyMs: Date.now() - started,
+        error: (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH)
+      });
+      throw error;
+    }
+  });
+}
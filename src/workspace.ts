@@ -0,0 +1,197 @@
+// Sandbox for the files the tools read and write. Everything lives under one root:
+// results go to its output folder, and local input files may only come from the
+// allowlisted subdirectories, or from the output subfolders a tool names. Paths
+// that leave them, directly or through a symbolic link, are rejected.
+import fs from 'node:fs';
+import path from 'path';
+
+export interface WorkspaceConfig {
+  root: string;
+  // Subdirectory of the root that receives all results
+  outputDir: string;
+  // Subdirectories of the root that local input files may be read from
+  inputDirs: string[];
+  // Run folders older than this are removed; 0 keeps them
+  retentionDays: number;
+  // Most run folders kept in each tool folder; 0 keeps them all
+  maxRuns: number;
+}
+
+// Run folders are named by their run id, a millisecond timestamp
+const RUN_ID = /^\d{13,}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Uploads older than this were left behind by a crash
+const STALE_UPLOAD_MS = 60 * 60 * 1000;
+
+const MAX_FILE_NAME_LENGTH = 100;
+
+export function isInside(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+}
+
+// Real location of a path that may not exist yet: the deepest existing ancestor
+// with its symbolic links resolved, plus the rest of the path
+function realLocation(target: string): string {
+  let existing = target;
+  while (!fs.existsSync(existing) && path.dirname(existing) !== existing) {
+    existing = path.dirname(existing);
+  }
+  return path.join(fs.realpathSync(existing), path.relative(existing, target));
+}
+
+// File name safe to create on any platform: no directories, no leading dots,
+// only letters, digits and . _ - characters, extension kept when shortened
+export function sanitizeFileName(name: string, fallback = 'file'): string {
+  const base = name.replace(/\\/g, '/').split('/').pop() ?? '';
+  const cleaned = base
+    .normalize('NFC')
+    .replace(/[^\p{L}\p{N}._-]+/gu, '_')
+    .replace(/^[._-]+/, '')
+    .replace(/_+/g, '_');
+  if (!cleaned) {
+    return fallback;
+  }
+  if (cleaned.length <= MAX_FILE_NAME_LENGTH) {
+    return cleaned;
+  }
+  const extension = path.extname(cleaned).slice(0, 16);
+  return cleaned.slice(0, MAX_FILE_NAME_LENGTH - extension.length) + extension;
+}
+
+export interface TempFile {
+  path: string;
+  remove(): void;
+}
+
+export function createWorkspace(config: WorkspaceConfig) {
+  fs.mkdirSync(config.root, { recursive: true });
+  const root = fs.realpathSync(config.root);
+
+  const subdirectory = (dir: string, setting: string) => {
+    const target = path.resolve(root, dir);
+    if (!isInside(root, target)) {
+      throw new Error(`${setting} must be inside the workspace root ${root}, got "${dir}"`);
+    }
+    return target;
+  };
+
+  const outputRoot = subdirectory(config.outputDir, 'WORKSPACE_OUTPUT_DIR');
+  fs.mkdirSync(outputRoot, { recursive: true });
+  if (!isInside(root, fs.realpathSync(outputRoot))) {
+    throw new Error(`WORKSPACE_OUTPUT_DIR ${outputRoot} leaves the workspace root through a symbolic link`);
+  }
+  const inputRoots = [...new Set(config.inputDirs.map(dir => subdirectory(dir, 'WORKSPACE_INPUT_DIRS')))];
+  const tempRoot = path.join(outputRoot, '.tmp');
+
+  // Fixed location inside the output folder, e.g. output('emails', 'outbox')
+  function output(...segments: string[]): string {
+    return path.join(outputRoot, ...segments);
+  }
+
+  // Folder for a tool's results: the caller's outputDir, taken relative to the
+  // output folder, or the tool's default folder. It is not created here.
+  function outputDirectory(requested: string | undefined, fallback: string): string {
+    const target = path.resolve(outputRoot, requested ?? fallback);
+    if (!isInside(outputRoot, target)) {
+      throw new Error(`outputDir must stay inside the output folder ${outputRoot}, got "${requested}"`);
+    }
+    if (!isInside(fs.realpathSync(outputRoot), realLocation(target))) {
+      throw new Error(`outputDir "${requested}" leaves the output folder through a symbolic link`);
+    }
+    return target;
+  }
+
+  // Local file a tool may read. Relative paths are taken relative to the root.
+  // outputFolders are folders inside the output folder the tool also reads its
+  // own results from, e.g. ['analysis'] for saved reports.
+  function input(filePath: string, outputFolders: string[] = []): string {
+    const target = path.resolve(root, filePath);
+    if (!fs.existsSync(target)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    const real = fs.realpathSync(target);
+    const folders = [...inputRoots, ...outputFolders.map(folder => path.resolve(outputRoot, folder)).filter(folder => isInside(outputRoot, folder))];
+    const allowed = folders.filter(dir => fs.existsSync(dir)).map(dir => fs.realpathSync(dir));
+    if (!allowed.some(dir => isInside(dir, real))) {
+      throw new Error(`${filePath} is outside the folders files may be read from: ${folders.map(dir => path.relative(root, dir) || '.').join(', ')} in ${root}`);
+    }
+    if (!fs.statSync(real).isFile()) {
+      throw new Error(`Not a file: ${filePath}`);
+    }
+    return real;
+  }
+
+  // Remove run folders past the retention period, then the oldest beyond maxRuns.
+  // Only folders named like run ids are touched.
+  function pruneRuns(directory: string, keep?: string): string[] {
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+    const runs = fs.readdirSync(directory, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && RUN_ID.test(entry.name) && entry.name !== keep)
+      .map(entry => entry.name)
+      .sort((a, b) => Number(a) - Number(b));
+    const cutoff = Date.now() - config.retentionDays * DAY_MS;
+    const excess = config.maxRuns > 0 ? runs.length + (keep ? 1 : 0) - config.maxRuns : 0;
+    const removed = runs.filter((runId, index) => (config.retentionDays > 0 && Number(runId) < cutoff) || index < excess);
+    for (const runId of removed) {
+      fs.rmSync(path.join(directory, runId), { recursive: true, force: true });
+    }
+    if (removed.length) {
+      console.error(`Removed ${removed.length} old run folder(s) from ${directory}`);
+    }
+    return removed;
+  }
+
+  // New folder for one run, named by its run id, with old runs pruned
+  function createRun(directory: string): { runId: string; directory: string } {
+    fs.mkdirSync(directory, { recursive: true });
+    let id = Date.now();
+    for (;;) {
+      const runDirectory = path.join(directory, String(id));
+      try {
+        fs.mkdirSync(runDirectory);
+        pruneRuns(directory, String(id));
+        return { runId: String(id), directory: runDirectory };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        id++;
+      }
+    }
+  }
+
+  // Write an upload to a private temporary folder; remove() deletes it again
+  function saveUpload(fileName: string, content: Buffer): TempFile {
+    cleanTemp();
+    fs.mkdirSync(tempRoot, { recursive: true });
+    const directory = fs.mkdtempSync(path.join(tempRoot, 'upload-'));
+    const filePath = path.join(directory, sanitizeFileName(fileName, 'upload'));
+    fs.writeFileSync(filePath, content, { mode: 0o600 });
+    return {
+      path: filePath,
+      remove: () => fs.rmSync(directory, { recursive: true, force: true })
+    };
+  }
+
+  // Delete uploads a crashed call left behind
+  function cleanTemp(): void {
+    if (!fs.existsSync(tempRoot)) {
+      return;
+    }
+    for (const name of fs.readdirSync(tempRoot)) {
+      const entry = path.join(tempRoot, name);
+      if (Date.now() - fs.statSync(entry).mtimeMs > STALE_UPLOAD_MS) {
+        fs.rmSync(entry, { recursive: true, force: true });
+      }
+    }
+  }
+
+  return { root, outputRoot, output, outputDirectory, input, createRun, pruneRuns, saveUpload, cleanTemp };
+}
+
+export type Workspace = ReturnType<typeof createWorkspace>;
@@ -0,0 +1,41 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { profileCsvFile, profileData, STREAMING_ROW_SAMPLE } from '../src/analysis.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-test-'));
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function writeCsv(name: string, rows: string[][]): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, rows.map(row => row.join(',')).join('\n'));
+  return file;
+}
+
+describe('profileCsvFile', () => {
+  it('agrees with the in-memory profile on a small file', async () => {
+    const rows = Array.from({ length: 200 }, (_, i) => [String(i % 17), i % 4 ? 'north' : 'south', i % 50 ? String(i * 1.5) : '']);
+    const file = writeCsv('small.csv', [['units', 'region', 'price'], ...rows]);
+    const streamed = await profileCsvFile('small.csv', file);
+    const exact = profileData('small.csv', rows.map(([units, region, price]) => ({ units, region, price })));
+    expect(streamed.statistics.schema).toEqual(exact.statistics.schema);
+    expect(streamed.statistics.numericStats.price.mean).toBeCloseTo(exact.statistics.numericStats.price.mean, 9);
+    expect(streamed.statistics.categoricalStats.region).toEqual(exact.statistics.categoricalStats.region);
+    expect(streamed.statistics.sampling).toBeUndefined();
+  });
+
+  it('samples rows past the row sample size and keeps their positions', async () => {
+    const total = STREAMING_ROW_SAMPLE + 500;
+    const file = writeCsv('large.csv', [['n'], ...Array.from({ length: total }, (_, i) => [String(i)])]);
+    const profile = await profileCsvFile('large.csv', file);
+    expect(profile.statistics.rowCount).toBe(total);
+    expect(profile.statistics.sampling).toEqual({ sampleSize: STREAMING_ROW_SAMPLE, totalRows: total });
+    expect(profile.data).toHaveLength(STREAMING_ROW_SAMPLE);
+    expect(profile.rowNumbers!.every((row, i) => Number(profile.data[i].n) === row)).toBe(true);
+    expect(profile.statistics.numericStats.n.max).toBe(total - 1);
+  });
+});
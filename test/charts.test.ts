@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { renderBarChartSvg, renderHeatmapTable, renderLineChartSvg, renderScatterChartSvg, svgToPng } from '../src/charts.js';
+
+const bar = (values: number[]) => renderBarChartSvg({
+  title: 'Revenue <by> region',
+  labels: values.map((_, i) => `r${i}`),
+  values,
+  xLabel: 'region',
+  yLabel: 'revenue'
+});
+
+describe('SVG charts', () => {
+  it('draw one bar per value and escape text', () => {
+    const svg = bar([3, 5, 8]);
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg.match(/<rect x=/g)).toHaveLength(3);
+    expect(svg).toContain('Revenue &lt;by&gt; region');
+    expect(svg).not.toContain('<by>');
+  });
+
+  it('draw negative bars downwards from zero', () => {
+    const heights = [...bar([10, -10]).matchAll(/<rect x="[^"]+" y="([^"]+)" width="[^"]+" height="([^"]+)"/g)]
+      .map(([, y, height]) => ({ y: Number(y), height: Number(height) }));
+    expect(heights[0].height).toBeCloseTo(heights[1].height, 1);
+    expect(heights[1].y).toBeCloseTo(heights[0].y + heights[0].height, 1);
+  });
+
+  it('draw a point per scatter value and a path per line series', () => {
+    const scatter = renderScatterChartSvg({ title: 't', points: [{ x: 1, y: 2 }, { x: 2, y: 4 }], xLabel: 'x', yLabel: 'y' });
+    expect(scatter.match(/<circle/g)).toHaveLength(2);
+    const line = renderLineChartSvg({
+      title: 't',
+      series: [{ label: 'a', points: [{ x: 0, y: 1 }, { x: 1, y: 2 }] }, { label: 'b', points: [{ x: 0, y: 3 }, { x: 1, y: 1 }] }],
+      xLabel: 'x',
+      yLabel: 'y'
+    });
+    expect(line).toContain('>a<');
+    expect(line).toContain('>b<');
+  });
+
+  it('rasterize to PNG', () => {
+    const png = svgToPng(bar([1, 2]));
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+  });
+});
+
+describe('renderHeatmapTable', () => {
+  it('shades cells by sign and strength', () => {
+    const html = renderHeatmapTable(['a', 'b'], [[1, -0.5], [-0.5, null]]);
+    expect(html).toContain('rgba(54, 162, 235, 1.00)');
+    expect(html).toContain('rgba(235, 54, 54, 0.50)');
+    expect(html).toContain('–');
+  });
+});
@@ -0,0 +1,173 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLimiter, isRetryable, retryDelay, withCache, withRateLimit, withRetry, withTimeout } from '../src/client.js';
+import { defineProvider, providerError } from '../src/llm.js';
+import type { LLMProvider } from '../src/llm.js';
+import { createUsageLog, summarizeUsage, withUsage } from '../src/usage.js';
+import type { UsageRecord } from '../src/usage.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'client-test-'));
+const settings = { maxRetries: 2, retryBaseMs: 1, retryMaxMs: 50 };
+const cacheSettings = { enabled: true, ttlHours: 0, maxEntries: 2 };
+
+// Provider failing with the given errors in turn before answering
+function flaky(errors: Error[]): LLMProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  const provider = defineProvider('flaky', 'm', async prompt => {
+    const error = errors[prompts.push(prompt) - 1];
+    if (error) {
+      throw error;
+    }
+    return { text: `answer to ${prompt}`, usage: { promptTokens: 10, outputTokens: 5 } };
+  });
+  return Object.assign(provider, { prompts });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('withRetry', () => {
+  it('retries rate limits and server errors, counting attempts', async () => {
+    const provider = flaky([providerError('busy', { status: 429 }), providerError('down', { status: 503 })]);
+    const completion = await withRetry(provider, settings).complete('q');
+    expect(completion).toMatchObject({ text: 'answer to q', attempts: 3 });
+  });
+
+  it('gives up on errors that a retry will not fix', async () => {
+    const provider = flaky([providerError('bad key', { status: 401 })]);
+    await expect(withRetry(provider, settings).complete('q')).rejects.toMatchObject({ message: 'bad key', attempts: 1 });
+  });
+
+  it('fails instead of waiting longer than retryMaxMs', async () => {
+    const provider = flaky([providerError('slow down', { status: 429, retryAfterMs: 60000 })]);
+    await expect(withRetry(provider, settings).complete('q')).rejects.toThrow(/retry requested after 60 s/);
+  });
+
+  it('classifies errors and backs off with jitter', () => {
+    expect(isRetryable(providerError('x', { retryable: true, status: 400 }))).toBe(true);
+    expect(isRetryable(Object.assign(new TypeError('fetch failed')))).toBe(true);
+    expect(isRetryable(new Error('boom'))).toBe(false);
+    const delay = retryDelay(new Error('x'), 3, { retryBaseMs: 100, retryMaxMs: 1000 });
+    expect(delay).toBeGreaterThanOrEqual(200);
+    expect(delay).toBeLessThanOrEqual(400);
+  });
+});
+
+describe('withTimeout', () => {
+  it('abandons a call that takes too long', async () => {
+    const slow = defineProvider('slow', 'm', () => new Promise(resolve => setTimeout(() => resolve({ text: 'late' }), 200)));
+    await expect(withTimeout(slow, 10).complete('q')).rejects.toMatchObject({ retryable: true, message: 'Model call timed out after 10 ms' });
+  });
+});
+
+describe('createLimiter', () => {
+  it('holds calls past maxConcurrent until one finishes', async () => {
+    const limiter = createLimiter(1, 0);
+    let release: (() => void) | undefined;
+    const first = limiter.run(() => new Promise<void>(resolve => { release = resolve; }));
+    const second = limiter.run(async () => 'second');
+    expect(limiter.state()).toMatchObject({ active: 1, queued: 1 });
+    await vi.waitFor(() => expect(release).toBeDefined());
+    release!();
+    await first;
+    expect(await second).toBe('second');
+    expect(limiter.state()).toMatchObject({ active: 0, queued: 0, startedLastMinute: 2 });
+  });
+
+  it('keeps the slot of a timed-out call until the call ends', async () => {
+    const limiter = createLimiter(1, 0);
+    const finish: (() => void)[] = [];
+    const stuck = defineProvider('stuck', 'm', () => new Promise(resolve => { finish.push(() => resolve({ text: 'late' })); }));
+    const limited = withRateLimit(withTimeout(stuck, 10), limiter);
+    await expect(limited.complete('q')).rejects.toThrow(/timed out/);
+    expect(limiter.state().active).toBe(1);
+    const next = limited.complete('again').catch(error => error);
+    expect(limiter.state().queued).toBe(1);
+    finish[0]();
+    await vi.waitFor(() => expect(finish).toHaveLength(2));
+    finish[1]();
+    await next;
+    await vi.waitFor(() => expect(limiter.state().active).toBe(0));
+  });
+
+  it('starts calls beyond the per-minute limit a minute later', async () => {
+    vi.useFakeTimers();
+    const limiter = createLimiter(5, 1);
+    await limiter.run(async () => {});
+    const second = limiter.run(async () => 'second');
+    expect(limiter.state().queued).toBe(1);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(await second).toBe('second');
+    vi.useRealTimers();
+  });
+});
+
+describe('withCache', () => {
+  it('answers repeated prompts from disk unless the call opts out', async () => {
+    const provider = flaky([]);
+    const cached = withCache(provider, path.join(dir, 'cache'), cacheSettings);
+    await cached.complete('q', { temperature: 0.2 });
+    expect(await cached.complete('q', { temperature: 0.2 })).toMatchObject({ text: 'answer to q', cached: true, attempts: 0 });
+    await cached.complete('q', { temperature: 0.9 });
+    await cached.complete('q', { temperature: 0.2, cache: false });
+    expect(provider.prompts).toHaveLength(3);
+  });
+
+  it('keeps at most maxEntries responses', async () => {
+    const directory = path.join(dir, 'pruned');
+    const cached = withCache(flaky([]), directory, cacheSettings);
+    for (const prompt of ['a', 'b', 'c']) {
+      await cached.complete(prompt);
+    }
+    expect(fs.readdirSync(directory)).toHaveLength(2);
+  });
+
+  it('prunes once per tenth of maxEntries new responses', async () => {
+    const directory = path.join(dir, 'batched');
+    const cached = withCache(flaky([]), directory, { ...cacheSettings, maxEntries: 20 });
+    for (let i = 0; i < 21; i++) {
+      await cached.complete(`p${i}`);
+    }
+    expect(fs.readdirSync(directory)).toHaveLength(21);
+    await cached.complete('p21');
+    expect(fs.readdirSync(directory)).toHaveLength(20);
+  });
+});
+
+describe('usage log', () => {
+  it('records calls and totals them per tool and model', async () => {
+    const file = path.join(dir, 'usage', 'calls.jsonl');
+    const log = createUsageLog(file);
+    const provider = withCache(flaky([providerError('bad', { status: 400 })]), path.join(dir, 'usage-cache'), cacheSettings);
+    await expect(withUsage(provider, log, 'ask-data').complete('q')).rejects.toThrow('bad');
+    await withUsage(provider, log, 'ask-data').complete('q');
+    await withUsage(provider, log, 'analyze-data').complete('q');
+
+    const stats = createUsageLog(file).stats();
+    expect(stats.totals).toMatchObject({ calls: 3, failed: 1, cached: 1, promptTokens: 10, outputTokens: 5, tokensSaved: 15 });
+    expect(Object.keys(stats.byTool)).toEqual(['analyze-data', 'ask-data']);
+    expect(stats.byTool['ask-data'].calls).toBe(2);
+    expect(stats.byModel['flaky/m'].calls).toBe(3);
+    expect(stats.recent[0].tool).toBe('analyze-data');
+  });
+
+  it('groups a long log in linear time', () => {
+    const log = createUsageLog(path.join(dir, 'large.jsonl'));
+    const record: UsageRecord = { timestamp: new Date().toISOString(), tool: 'ask-data', provider: 'p', model: 'm', ok: true, cached: false, attempts: 1, latencyMs: 5 };
+    for (let i = 0; i < 50000; i++) {
+      log.record({ ...record, tool: `tool${i % 3}`, latencyMs: i % 100 });
+    }
+    const started = Date.now();
+    const stats = log.stats();
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(stats.byTool.tool0.calls).toBe(16667);
+    expect(summarizeUsage([]).latencyMs).toEqual({ average: 0, p50: 0, p95: 0, max: 0 });
+  });
+});
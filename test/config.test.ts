@@ -0,0 +1,77 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { configFile, generationOptions, loadConfig, providerConfig, redactConfig } from '../src/config.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+
+function writeConfig(name: string, content: unknown): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+  return file;
+}
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('configFile', () => {
+  it('reads only the file CONFIG_FILE names', () => {
+    expect(configFile({})).toBeUndefined();
+    expect(configFile({ CONFIG_FILE: 'settings/config.json' })).toBe(path.resolve('settings/config.json'));
+  });
+});
+
+describe('loadConfig', () => {
+  it('starts from the defaults with the fixture provider', () => {
+    const config = loadConfig({});
+    expect(providerConfig(config).provider).toBe('fixture');
+    expect(config.generation.maxOutputTokens).toBe(8192);
+  });
+
+  it('expands ${VAR} references and lets the environment win', () => {
+    const file = writeConfig('env.json', { llm: { apiKey: '${TEST_KEY}', model: 'file-model' }, mail: { password: '${UNSET_PASSWORD}' } });
+    const config = loadConfig({ CONFIG_FILE: file, TEST_KEY: 'k', LLM_MODEL: 'env-model' });
+    expect(providerConfig(config)).toMatchObject({ provider: 'gemini', apiKey: 'k', model: 'env-model' });
+    expect(config.mail.password).toBeUndefined();
+  });
+
+  it('reads the flat keys of older config files', () => {
+    const file = writeConfig('legacy.json', { geminiApiKey: 'k', nodemailerEmail: 'me@example.com' });
+    expect(loadConfig({ CONFIG_FILE: file }).mail.user).toBe('me@example.com');
+  });
+
+  it('accepts the shipped example file', () => {
+    const config = loadConfig({ CONFIG_FILE: 'config.example.json', GEMINI_API_KEY: 'k' });
+    expect(config.llm.apiKey).toBe('k');
+    expect(config.mail.user).toBeUndefined();
+  });
+
+  it('names the setting that is wrong', () => {
+    expect(() => loadConfig({ CONFIG_FILE: writeConfig('bad.json', { generation: { temperature: 5 } }) })).toThrow(/generation\.temperature/);
+    expect(() => loadConfig({ CONFIG_FILE: writeConfig('unknown.json', { tools: { 'send-fax': {} } }) })).toThrow(/Unknown tool/);
+    expect(() => loadConfig({ LLM_MAX_RETRIES: 'many' })).toThrow(/client\.maxRetries/);
+  });
+
+  it('rejects a missing or malformed file', () => {
+    expect(() => loadConfig({ CONFIG_FILE: path.join(dir, 'missing.json') })).toThrow(/Config file not found/);
+    expect(() => loadConfig({ CONFIG_FILE: writeConfig('escaped.json', '{\\"debug\\": true}') })).toThrow(/is not valid JSON/);
+  });
+});
+
+describe('generationOptions', () => {
+  it('layers defaults, tool settings and call overrides', () => {
+    const file = writeConfig('tools.json', { tools: { 'generate-subject': { temperature: 1, model: 'subject-model' } } });
+    const config = loadConfig({ CONFIG_FILE: file });
+    expect(generationOptions(config, 'generate-subject', { temperature: 0.5 })).toMatchObject({ model: 'subject-model', temperature: 0.5, topK: 64 });
+    expect(generationOptions(config, 'analyze-data').temperature).toBe(0.7);
+  });
+});
+
+describe('redactConfig', () => {
+  it('masks keys and passwords', () => {
+    const redacted = redactConfig(loadConfig({ GEMINI_API_KEY: 'secret', NODEMAILER_PASSWORD: 'hunter2' }));
+    expect(JSON.stringify(redacted)).not.toMatch(/secret|hunter2/);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { computeCorrelations, cramersV, pairedValues, pearson, spearman } from '../src/correlation.js';
+
+describe('pearson and spearman', () => {
+  it('measure linear and monotonic relationships', () => {
+    const xs = [1, 2, 3, 4, 5];
+    expect(pearson(xs, xs.map(x => 2 * x + 1))).toBeCloseTo(1);
+    expect(pearson(xs, xs.map(x => -x))).toBeCloseTo(-1);
+    expect(spearman(xs, xs.map(x => x ** 3))).toBeCloseTo(1);
+    expect(pearson(xs, xs.map(x => x ** 3))).toBeLessThan(1);
+  });
+
+  it('return null for constant columns and too few rows', () => {
+    expect(pearson([1, 2, 3], [5, 5, 5])).toBeNull();
+    expect(pearson([1, 2], [3, 4])).toBeNull();
+  });
+
+  it('share ranks between ties', () => {
+    expect(spearman([1, 2, 2, 3], [10, 20, 20, 30])).toBeCloseTo(1);
+  });
+});
+
+describe('pairedValues', () => {
+  it('keeps only rows where both columns are numeric', () => {
+    const data = [{ a: 1, b: 2 }, { a: 'x', b: 3 }, { a: '4', b: null }, { a: '5', b: '6' }];
+    expect(pairedValues(data, 'a', 'b')).toEqual([[1, 5], [2, 6]]);
+  });
+});
+
+describe('cramersV', () => {
+  it('is 1 for columns that determine each other and 0 for independent ones', () => {
+    const linked = ['a', 'b', 'a', 'b', 'a', 'b'].map(x => ({ x, y: x === 'a' ? 'left' : 'right' }));
+    expect(cramersV(linked, 'x', 'y').value).toBeCloseTo(1);
+    const independent = [['a', 'l'], ['a', 'r'], ['b', 'l'], ['b', 'r']].map(([x, y]) => ({ x, y }));
+    expect(cramersV(independent, 'x', 'y').value).toBeCloseTo(0);
+  });
+
+  it('skips rows with a missing value', () => {
+    expect(cramersV([{ x: 'a', y: '' }, { x: 'a', y: 'l' }], 'x', 'y')).toEqual({ value: null, n: 1 });
+  });
+});
+
+describe('computeCorrelations', () => {
+  it('fills symmetric matrices and ranks relationships by strength', () => {
+    const data = Array.from({ length: 10 }, (_, i) => ({ x: i, y: 3 * i, z: (i * 7) % 5, g: i % 2 ? 'odd' : 'even', h: i % 2 ? 'o' : 'e' }));
+    const result = computeCorrelations(data, ['x', 'y', 'z'], ['g', 'h']);
+    expect(result.pearson.values[0][1]).toBe(1);
+    expect(result.pearson.values[1][0]).toBe(1);
+    expect(result.pearson.values[2][2]).toBe(1);
+    expect(result.cramersV.values[0][1]).toBe(1);
+    const strengths = result.topRelationships.map(({ value }) => Math.abs(value));
+    expect(strengths).toEqual([...strengths].sort((a, b) => b - a));
+  });
+});
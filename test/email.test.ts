@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { renderHtmlEmail, renderTextEmail, resolveImagePlaceholders, resolveTextPlaceholders, validateImagePlaceholders } from '../src/email.js';
+import type { InlineImage } from '../src/email.js';
+
+const chart: InlineImage = { name: 'chart.png', cid: 'chart@report', caption: 'Monthly <revenue>' };
+const logo: InlineImage = { name: 'logo.svg', cid: 'logo@report' };
+
+describe('image placeholders', () => {
+  it('become cid: URLs in src attributes and figures elsewhere', () => {
+    const { html, placed } = resolveImagePlaceholders('<img src="{{image:chart.png}}"><p>{{ image: logo }}</p>', [chart, logo]);
+    expect(html).toContain('<img src="cid:chart@report">');
+    expect(html).toContain('<img src="cid:logo@report" alt="logo.svg"');
+    expect(placed).toEqual([chart, logo]);
+  });
+
+  it('count images the body references by Content-ID as placed', () => {
+    expect(resolveImagePlaceholders('<img src="cid:logo@report">', [chart, logo]).placed).toEqual([logo]);
+  });
+
+  it('name the attached images when a placeholder matches none', () => {
+    expect(() => validateImagePlaceholders('{{image:map}}', [chart])).toThrow('Unknown image placeholder {{image:map}}. Attached images: chart.png');
+  });
+
+  it('become a marker in the plain-text part', () => {
+    expect(resolveTextPlaceholders('See {{image:chart}}', [chart])).toBe('See [Image: Monthly <revenue>]');
+  });
+});
+
+describe('renderHtmlEmail', () => {
+  it('puts unplaced images in a gallery before </body>', () => {
+    const html = renderHtmlEmail('<html><body><p>{{image:chart}}</p></body></html>', [chart, logo]);
+    expect(html.indexOf('cid:chart@report')).toBeLessThan(html.indexOf('class="gallery"'));
+    expect(html).toMatch(/class="gallery"[\s\S]*cid:logo@report[\s\S]*<\/body>/);
+    expect(html).toContain('Monthly &lt;revenue&gt;');
+  });
+});
+
+describe('renderTextEmail', () => {
+  it('escapes the text and turns placeholder lines into figures', () => {
+    const html = renderTextEmail('Q1 <report>', 'Revenue & costs\n{{image:chart}}', [chart]);
+    expect(html).toContain('<title>Q1 &lt;report&gt;</title>');
+    expect(html).toContain('<p>Revenue &amp; costs</p>');
+    expect(html).toContain('<figure');
+    expect(html).not.toContain('class="gallery"');
+  });
+});
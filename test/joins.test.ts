@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { profileData } from '../src/analysis.js';
+import { detectJoinKeys } from '../src/joins.js';
+
+describe('detectJoinKeys', () => {
+  const customers = profileData('Customers', Array.from({ length: 10 }, (_, i) => ({ customer_id: `C${i}`, tier: i % 3 })));
+  const orders = profileData('Orders', Array.from({ length: 30 }, (_, i) => ({ order_id: `O${i}`, customer_id: `C${i % 10}`, qty: i % 3 })));
+
+  it('finds a shared key and its cardinality', () => {
+    const [best] = detectJoinKeys([customers, orders]);
+    expect(best).toMatchObject({
+      leftSheet: 'Customers',
+      leftColumn: 'customer_id',
+      rightSheet: 'Orders',
+      rightColumn: 'customer_id',
+      sharedValues: 10,
+      containment: 1,
+      sameName: true,
+      relationship: 'one-to-many'
+    });
+  });
+
+  it('ignores small integers that only overlap by chance', () => {
+    const pairs = detectJoinKeys([customers, orders]).map(c => `${c.leftColumn}=${c.rightColumn}`);
+    expect(pairs).not.toContain('tier=qty');
+  });
+});
@@ -0,0 +1,80 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createFixtureProvider, createProvider, defineProvider, parseRetryAfter, promptKey, withOptions, withRecording } from '../src/llm.js';
+import type { GenerateOptions } from '../src/llm.js';
+
+const tempDirs: string[] = [];
+
+function tempFile(name: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-test-'));
+  tempDirs.push(dir);
+  return path.join(dir, name);
+}
+
+afterEach(() => {
+  tempDirs.splice(0).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+describe('fixture provider', () => {
+  it('replays recorded responses by prompt hash', async () => {
+    const file = tempFile('fixtures.json');
+    fs.writeFileSync(file, JSON.stringify({ [promptKey('hello')]: 'recorded answer' }));
+    const provider = createFixtureProvider(file);
+    expect(await provider.generate('hello')).toBe('recorded answer');
+  });
+
+  it('falls back to a deterministic canned answer', async () => {
+    const provider = createFixtureProvider();
+    const first = await provider.generate('unknown prompt');
+    expect(first).toMatch(/^Offline fixture response [0-9a-f]{12}$/);
+    expect(await provider.generate('unknown prompt')).toBe(first);
+  });
+
+  it('rejects a missing fixture file', () => {
+    expect(() => createFixtureProvider(tempFile('missing.json'))).toThrow(/Fixture file not found/);
+  });
+});
+
+describe('withRecording', () => {
+  it('saves responses so the fixture provider can replay them', async () => {
+    const file = tempFile('recorded/fixtures.json');
+    const live = defineProvider('live', 'm', async prompt => ({ text: `answer to ${prompt}` }));
+    await withRecording(live, file).generate('question');
+    expect(await createFixtureProvider(file).generate('question')).toBe('answer to question');
+  });
+});
+
+describe('withOptions', () => {
+  it('applies defaults that per-call options override', async () => {
+    const seen: GenerateOptions[] = [];
+    const base = defineProvider('spy', 'base-model', async (_prompt, options = {}) => {
+      seen.push(options);
+      return { text: '' };
+    });
+    const bound = withOptions(base, { model: 'bound-model', temperature: 0.2 });
+    expect(bound.model).toBe('bound-model');
+    await bound.generate('p', { temperature: 0.9 });
+    expect(seen[0]).toEqual({ model: 'bound-model', temperature: 0.9 });
+  });
+});
+
+describe('createProvider', () => {
+  it('builds the fixture provider without network access', () => {
+    expect(createProvider({ provider: 'fixture' }).name).toBe('fixture');
+  });
+
+  it('requires an API key for Gemini', () => {
+    expect(() => createProvider({ provider: 'gemini' })).toThrow(/API key is not set/);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
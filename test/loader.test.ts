@@ -0,0 +1,58 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { loadSheets, streamCsvRows } from '../src/loader.js';
+import type { DataRow } from '../src/types.js';
+
+let dir: string;
+let workbookFile: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loader-test-'));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([{ id: 1, name: 'a' }, { id: 2, name: 'b' }]), 'Customers');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([{ order: 10, id: 1 }]), 'Orders');
+  workbookFile = path.join(dir, 'book.xlsx');
+  fs.writeFileSync(workbookFile, XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+  fs.writeFileSync(path.join(dir, 'rows.csv'), 'a,b\n1,x\n\n2,y\n');
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadSheets', () => {
+  it('reads the first sheet by default', () => {
+    const [sheet, ...rest] = loadSheets(workbookFile);
+    expect(rest).toHaveLength(0);
+    expect(sheet.name).toBe('Customers');
+    expect(sheet.data).toEqual([{ id: 1, name: 'a' }, { id: 2, name: 'b' }]);
+  });
+
+  it('selects a sheet by name or index, or all of them', () => {
+    expect(loadSheets(workbookFile, { sheet: 'Orders' })[0].data).toEqual([{ order: 10, id: 1 }]);
+    expect(loadSheets(workbookFile, { sheet: 1 })[0].name).toBe('Orders');
+    expect(loadSheets(workbookFile, { allSheets: true }).map(sheet => sheet.name)).toEqual(['Customers', 'Orders']);
+  });
+
+  it('names the available sheets when the selection is wrong', () => {
+    expect(() => loadSheets(workbookFile, { sheet: 'Missing' })).toThrow('Sheet "Missing" not found (available: Customers, Orders)');
+    expect(() => loadSheets(workbookFile, { sheet: 2 })).toThrow(/out of range/);
+  });
+
+  it('reads CSV files as a single sheet named after the file', () => {
+    const [sheet] = loadSheets(path.join(dir, 'rows.csv'));
+    expect(sheet.name).toBe('rows.csv');
+    expect(sheet.data).toEqual([{ a: '1', b: 'x' }, { a: '2', b: 'y' }]);
+  });
+});
+
+describe('streamCsvRows', () => {
+  it('passes each row to the callback', async () => {
+    const rows: DataRow[] = [];
+    await streamCsvRows(path.join(dir, 'rows.csv'), row => rows.push(row));
+    expect(rows).toEqual([{ a: '1', b: 'x' }, { a: '2', b: 'y' }]);
+  });
+});
@@ -0,0 +1,137 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { createMailer, createMailTransport, loadAttachments, mailConfigFromEnv, MAX_ATTACHMENT_BYTES, parseAddresses, validateHeaders } from '../src/mail.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-test-'));
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('mailConfigFromEnv', () => {
+  it('has no profile when nothing is configured', () => {
+    expect(mailConfigFromEnv({})).toEqual({ defaultProfile: 'default', profiles: {} });
+  });
+
+  it('keeps the Gmail login settings working', () => {
+    const { profiles } = mailConfigFromEnv({ NODEMAILER_EMAIL: 'me@gmail.com', NODEMAILER_PASSWORD: 'app-password' });
+    expect(profiles.default).toMatchObject({
+      transport: 'smtp',
+      host: 'smtp.gmail.com',
+      tls: 'starttls',
+      auth: { type: 'login', user: 'me@gmail.com', pass: 'app-password' }
+    });
+  });
+
+  it('switches to OAuth2 when a client id is set and reports missing fields', () => {
+    expect(() => mailConfigFromEnv({ SMTP_HOST: 'smtp.example.com', SMTP_USER: 'me@example.com', SMTP_OAUTH_CLIENT_ID: 'id' }))
+      .toThrow(/Invalid SMTP settings in environment: auth.clientSecret/);
+  });
+
+  it('reads named profiles from a file with ${VAR} references', () => {
+    const file = path.join(dir, 'profiles.json');
+    fs.writeFileSync(file, JSON.stringify({
+      default: 'relay',
+      profiles: {
+        relay: { transport: 'smtp', host: 'localhost', port: 2525, tls: 'none', auth: { type: 'login', user: 'bot', pass: '${RELAY_PASSWORD}' }, from: 'bot@example.com' },
+        drop: { transport: 'pickup', directory: path.join(dir, 'pickup'), from: 'drop@example.com' }
+      }
+    }));
+    const config = mailConfigFromEnv({ MAIL_PROFILES_FILE: file, RELAY_PASSWORD: 'secret' });
+    expect(config.defaultProfile).toBe('relay');
+    expect(config.profiles.relay).toMatchObject({ auth: { pass: 'secret' } });
+    expect(mailConfigFromEnv({ MAIL_PROFILES_FILE: file, RELAY_PASSWORD: 'secret', MAIL_PROFILE: 'drop' }).defaultProfile).toBe('drop');
+  });
+
+  it('rejects an unknown transport', () => {
+    expect(() => mailConfigFromEnv({ MAIL_TRANSPORT: 'pigeon' })).toThrow(/Unknown MAIL_TRANSPORT: pigeon/);
+  });
+});
+
+describe('pickup transport', () => {
+  it('writes each message as an .eml file', async () => {
+    const transport = createMailTransport('drop', { transport: 'pickup', directory: path.join(dir, 'eml'), from: 'drop@example.com' });
+    await transport.verify();
+    const result = await transport.send({ from: transport.from, to: 'a@example.com', subject: 'Hello', text: 'Body' });
+    expect(result.accepted).toEqual(['a@example.com']);
+    const message = fs.readFileSync(result.file!, 'utf-8');
+    expect(message).toContain('Subject: Hello');
+    expect(message).toContain('Body');
+  });
+
+  it('needs a sender address', () => {
+    expect(() => createMailTransport('drop', { transport: 'pickup', directory: dir })).toThrow(/has no sender address/);
+  });
+});
+
+describe('createMailer', () => {
+  it('reuses transports and names the configured profiles on a typo', () => {
+    const mailer = createMailer({ defaultProfile: 'drop', profiles: { drop: { transport: 'pickup', directory: dir, from: 'x@example.com' } } });
+    expect(mailer.get()).toBe(mailer.get('drop'));
+    expect(() => mailer.get('dorp')).toThrow('Unknown mail profile "dorp". Configured profiles: drop');
+  });
+
+  it('reports failing profiles without throwing', async () => {
+    const mailer = createMailer({
+      defaultProfile: 'ok',
+      profiles: {
+        ok: { transport: 'pickup', directory: dir, from: 'x@example.com' },
+        broken: { transport: 'sendmail', path: path.join(dir, 'no-such-sendmail'), from: 'x@example.com' }
+      }
+    });
+    const results = await mailer.verifyAll();
+    expect(results.map(({ profile, ok }) => ({ profile, ok }))).toEqual([{ profile: 'ok', ok: true }, { profile: 'broken', ok: false }]);
+  });
+});
+
+describe('parseAddresses', () => {
+  it('accepts display names and comma-separated lists', () => {
+    expect(parseAddresses('to', ['Ann <ann@example.com>', 'bob@example.com, cy@example.org']).map(({ address }) => address))
+      .toEqual(['ann@example.com', 'bob@example.com', 'cy@example.org']);
+    expect(parseAddresses('cc', undefined)).toEqual([]);
+  });
+
+  it('names the field and the bad address', () => {
+    expect(() => parseAddresses('bcc', 'ann@example.com, not-an-address')).toThrow('Invalid email address in bcc: not-an-address');
+  });
+});
+
+describe('validateHeaders', () => {
+  it('keeps custom headers', () => {
+    expect(validateHeaders({ 'X-Campaign': 'spring' })).toEqual({ 'X-Campaign': 'spring' });
+  });
+
+  it('refuses addressing headers and header injection', () => {
+    expect(() => validateHeaders({ Bcc: 'x@example.com' })).toThrow(/use the dedicated argument/);
+    expect(() => validateHeaders({ 'X-Note': 'a\r\nBcc: x@example.com' })).toThrow(/contains a line break/);
+    expect(() => validateHeaders({ 'Bad Name': 'x' })).toThrow(/Invalid header name/);
+  });
+});
+
+describe('loadAttachments', () => {
+  it('reads files and base64 data URIs', () => {
+    const file = path.join(dir, 'notes.txt');
+    fs.writeFileSync(file, 'hello');
+    const [fromFile, fromData] = loadAttachments([
+      { path: file },
+      { filename: 'pixel.png', content: `data:image/png;base64,${Buffer.from('png').toString('base64')}` }
+    ]);
+    expect(fromFile).toEqual({ filename: 'notes.txt', content: Buffer.from('hello') });
+    expect(fromData).toEqual({ filename: 'pixel.png', content: Buffer.from('png'), contentType: 'image/png' });
+  });
+
+  it('enforces the per-file and per-message limits', () => {
+    const big = Buffer.alloc(MAX_ATTACHMENT_BYTES + 1).toString('base64');
+    expect(() => loadAttachments([{ filename: 'big.bin', content: big }])).toThrow(/big.bin is 10.0 MB, over the 10.0 MB limit/);
+    const part = Buffer.alloc(MAX_ATTACHMENT_BYTES - 1).toString('base64');
+    expect(() => loadAttachments([{ filename: 'a.bin', content: part }, { filename: 'b.bin', content: part }])).toThrow(/per message/);
+  });
+
+  it('needs content and a filename', () => {
+    expect(() => loadAttachments([{ filename: 'x' }])).toThrow('Attachment 1 needs either path or content');
+    expect(() => loadAttachments([{ content: 'aGk=' }])).toThrow('Attachment 1 needs a filename');
+    expect(() => loadAttachments([{ path: path.join(dir, 'missing.txt') }])).toThrow(/Attachment file not found/);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, safeUrl } from '../src/html.js';
+import { renderInline, renderMarkdown } from '../src/markdown.js';
+
+describe('escapeHtml and safeUrl', () => {
+  it('escape markup characters and drop unsafe schemes', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+    expect(escapeHtml(null)).toBe('');
+    expect(safeUrl(' java\tscript:alert(1)')).toBeNull();
+    expect(safeUrl('cid:chart@report')).toBe('cid:chart@report');
+    expect(safeUrl('reports/march.html')).toBe('reports/march.html');
+  });
+});
+
+describe('renderInline', () => {
+  it('renders emphasis, strikethrough and code', () => {
+    expect(renderInline('**bold**, *italic*, _also_ and ~~gone~~')).toBe('<strong>bold</strong>, <em>italic</em>, <em>also</em> and <del>gone</del>');
+    expect(renderInline('`a < b` and snake_case_name')).toBe('<code>a &lt; b</code> and snake_case_name');
+  });
+
+  it('nests bold italic markers properly', () => {
+    expect(renderInline('***both*** and ___both___')).toBe('<strong><em>both</em></strong> and <strong><em>both</em></strong>');
+    expect(renderInline('***bold italic** then italic*')).toBe('<em><strong>bold italic</strong> then italic</em>');
+    expect(renderInline('***bold italic* then bold**')).toBe('<strong><em>bold italic</em> then bold</strong>');
+  });
+
+  it('escapes raw HTML and keeps links to safe schemes', () => {
+    expect(renderInline('<script>x</script>')).toBe('&lt;script&gt;x&lt;/script&gt;');
+    expect(renderInline('[site](https://example.com "Home") [bad](javascript:alert(1))')).toBe('<a href="https://example.com" title="Home">site</a> bad');
+    expect(renderInline('see https://example.com/a_b.')).toBe('see <a href="https://example.com/a_b">https://example.com/a_b</a>.');
+    expect(renderInline('\\*not italic\\*')).toBe('*not italic*');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('renders headings, nested lists and fenced code', () => {
+    const html = renderMarkdown('# Title\n\n- one\n  1. nested\n- two\n\n```js\nif (a < b) {}\n```');
+    expect(html).toContain('<h1>Title</h1>');
+    expect(html).toMatch(/<ul>\s*<li>one\s*<ol>\s*<li>nested<\/li>\s*<\/ol>\s*<\/li>\s*<li>two<\/li>\s*<\/ul>/);
+    expect(html).toContain('if (a &lt; b) {}');
+  });
+
+  it('renders tables with alignment and escaped pipes', () => {
+    const html = renderMarkdown('| Region | Total |\n|:--|--:|\n| North \\| East | **12** |');
+    expect(html).toContain('<th style="text-align: left">Region</th>');
+    expect(html).toContain('<td style="text-align: right"><strong>12</strong></td>');
+    expect(html).toContain('North | East');
+  });
+});
@@ -0,0 +1,119 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import type { SendMailOptions } from 'nodemailer';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { defineProvider } from '../src/llm.js';
+import { countByStatus, createMergeJob, loadMergeJob, renderTemplate, saveMergeJob, sendMerge } from '../src/merge.js';
+import type { MailTransport } from '../src/mail.js';
+import type { MergeSettings } from '../src/merge.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merge-test-'));
+const csv = path.join(dir, 'contacts.csv');
+const model = defineProvider('scripted', 'scripted', async prompt => ({ text: `note for ${prompt.split('\n')[0]}` }));
+const settings: MergeSettings = { emailColumn: 'email', nameColumn: 'name', template: { subject: 'Hi {{name}}', text: 'Dear {{name}}, your total is {{total}}' } };
+const options = { maxMessages: 10, ratePerMinute: 60000, retryFailed: false };
+
+function fakeTransport(fail: (to: string) => boolean = () => false): MailTransport & { sent: SendMailOptions[] } {
+  const sent: SendMailOptions[] = [];
+  return {
+    profile: 'test',
+    kind: 'pickup',
+    from: 'sender@example.com',
+    sent,
+    async send(mail) {
+      const to = typeof mail.to === 'object' && !Array.isArray(mail.to) ? mail.to.address : String(mail.to);
+      if (fail(to)) {
+        throw new Error('mailbox unavailable');
+      }
+      sent.push(mail);
+      return { messageId: `<${sent.length}@test>` };
+    },
+    async verify() {}
+  };
+}
+
+beforeEach(() => {
+  fs.writeFileSync(csv, 'name,email,total\nAda,ada@example.com,10\nBob,not an address,20\nCy,cy@example.com,30\nAda again,ADA@example.com,40\n');
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('renderTemplate', () => {
+  it('fills columns and escapes them for html', () => {
+    const row = { name: 'A <b>', when: new Date('2024-03-01T00:00:00Z') };
+    expect(renderTemplate('{{ name }} on {{when}}', row)).toBe('A <b> on 2024-03-01');
+    expect(renderTemplate('{{name}}', row, '', true)).toBe('A &lt;b&gt;');
+  });
+});
+
+describe('createMergeJob', () => {
+  it('skips rows without a valid or with a repeated address', () => {
+    const job = createMergeJob({ path: csv, name: 'contacts.csv' }, settings);
+    expect(job.recipients.map(({ status }) => status)).toEqual(['pending', 'skipped', 'pending', 'skipped']);
+    expect(job.recipients[3].error).toBe('Duplicate of row 1');
+  });
+
+  it('rejects placeholders that name no column', () => {
+    expect(() => createMergeJob({ path: csv, name: 'contacts.csv' }, { ...settings, template: { subject: '{{city}}', text: '' } }))
+      .toThrow(/Unknown template placeholders: \{\{city\}\}/);
+  });
+});
+
+describe('sendMerge', () => {
+  it('sends pending recipients and records the result on the job', async () => {
+    const job = createMergeJob({ path: csv, name: 'contacts.csv' }, settings);
+    saveMergeJob(dir, job);
+    const transport = fakeTransport(to => to === 'cy@example.com');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const processed = await sendMerge(job, dir, transport, model, options);
+    expect(processed).toHaveLength(2);
+    expect(transport.sent[0].subject).toBe('Hi Ada');
+    expect(transport.sent[0].text).toBe('Dear Ada, your total is 10');
+    const saved = loadMergeJob(dir, job.mergeId);
+    expect(countByStatus(saved)).toEqual({ pending: 0, sent: 1, failed: 1, skipped: 2 });
+    expect(saved.recipients[2].error).toBe('mailbox unavailable');
+    expect(saved.sending).toBeUndefined();
+  });
+
+  it('refuses a second sender while the first is still sending', async () => {
+    const job = createMergeJob({ path: csv, name: 'contacts.csv' }, settings);
+    saveMergeJob(dir, job);
+    const transport = fakeTransport();
+    const first = sendMerge(job, dir, transport, model, { ...options, ratePerMinute: 600 });
+    await expect(sendMerge(loadMergeJob(dir, job.mergeId), dir, transport, model, options)).rejects.toThrow(/is being sent right now/);
+    await first;
+    expect(transport.sent).toHaveLength(2);
+    expect(loadMergeJob(dir, job.mergeId).sending).toBeUndefined();
+  });
+
+  it('continues a merge whose sender was interrupted', async () => {
+    const job = createMergeJob({ path: csv, name: 'contacts.csv' }, settings);
+    saveMergeJob(dir, { ...job, sending: { pid: process.pid, instance: 'earlier process', since: '2024-01-01T00:00:00.000Z' } });
+    const transport = fakeTransport();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await sendMerge(loadMergeJob(dir, job.mergeId), dir, transport, model, options);
+    expect(transport.sent).toHaveLength(2);
+  });
+
+  it('refuses to send when the contact list changed since the preview', async () => {
+    const job = createMergeJob({ path: csv, name: 'contacts.csv' }, settings);
+    saveMergeJob(dir, job);
+    fs.appendFileSync(csv, 'Di,di@example.com,50\n');
+    await expect(sendMerge(job, dir, fakeTransport(), model, options)).rejects.toThrow(/changed since mail merge/);
+  });
+
+  it('asks the model once for personalized text and keeps it', async () => {
+    const job = createMergeJob({ path: csv, name: 'contacts.csv' }, {
+      ...settings,
+      template: { subject: 'Hi', text: '{{personalized}}', personalizePrompt: 'Thank {{name}}' }
+    });
+    saveMergeJob(dir, job);
+    const transport = fakeTransport();
+    await sendMerge(job, dir, transport, model, options);
+    expect(transport.sent[0].text).toBe('note for Thank Ada');
+    expect(loadMergeJob(dir, job.mergeId).recipients[0].personalized).toBe('note for Thank Ada');
+  });
+});
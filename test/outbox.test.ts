@@ -0,0 +1,131 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMailer } from '../src/mail.js';
+import { createOutbox, isTransientError, MAX_SEND_ATTEMPTS, retryDelay } from '../src/outbox.js';
+import type { DraftSummary } from '../src/outbox.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-test-'));
+const summary: DraftSummary = { profile: 'drop', from: 'x@example.com', to: ['a@example.com'], cc: [], bcc: ['b@example.com'], attachments: [] };
+const message = { from: 'x@example.com', to: 'a@example.com', subject: 'Report', text: 'Hello', html: '<p>Hello</p>' };
+
+function setup() {
+  const root = fs.mkdtempSync(path.join(dir, 'run-'));
+  const mailer = createMailer({ defaultProfile: 'drop', profiles: { drop: { transport: 'pickup', directory: path.join(root, 'pickup'), from: 'x@example.com' } } });
+  return { outbox: createOutbox(path.join(root, 'outbox'), mailer), transport: mailer.get('drop') };
+}
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('retry policy', () => {
+  it('retries network errors and 4xx replies only', () => {
+    expect(isTransientError({ code: 'ETIMEDOUT' })).toBe(true);
+    expect(isTransientError({ code: 'EENVELOPE', responseCode: 451 })).toBe(true);
+    expect(isTransientError({ code: 'EAUTH', responseCode: 535 })).toBe(false);
+    expect(isTransientError(new Error('bad message'))).toBe(false);
+  });
+
+  it('backs off exponentially up to an hour', () => {
+    expect([1, 2, 3].map(retryDelay)).toEqual([60000, 120000, 240000]);
+    expect(retryDelay(20)).toBe(3600000);
+  });
+});
+
+describe('outbox', () => {
+  it('stores a draft and sends exactly the saved message', async () => {
+    const { outbox } = setup();
+    const draft = await outbox.createDraft(message, summary);
+    expect(draft.status).toBe('draft');
+    expect(draft.envelope.to).toEqual(['a@example.com', 'b@example.com']);
+    expect(fs.readFileSync(path.join(outbox.directory, `${draft.draftId}.html`), 'utf8')).toBe('<p>Hello</p>');
+
+    const sent = await outbox.deliver(draft.draftId);
+    expect(sent.status).toBe('sent');
+    expect(sent.attempts).toBe(1);
+    const eml = fs.readFileSync(sent.file!, 'utf8');
+    expect(eml).toContain(`Message-ID: ${draft.messageId}`);
+    expect(eml).toContain('Subject: Report');
+    await expect(outbox.deliver(draft.draftId)).rejects.toThrow(/was already sent/);
+  });
+
+  it('queues a transient failure for a retry and gives up after the last attempt', async () => {
+    const { outbox, transport } = setup();
+    vi.spyOn(transport, 'send').mockRejectedValue(Object.assign(new Error('try later'), { responseCode: 421 }));
+    const draft = await outbox.createDraft(message, summary);
+
+    const queued = await outbox.deliver(draft.draftId);
+    expect(queued.status).toBe('queued');
+    expect(queued.lastError).toBe('try later');
+    expect(Date.parse(queued.sendAt!) - Date.now()).toBeGreaterThan(55000);
+
+    for (let attempt = 2; attempt <= MAX_SEND_ATTEMPTS; attempt++) {
+      await outbox.deliver(draft.draftId);
+    }
+    const failed = outbox.get(draft.draftId);
+    expect(failed.status).toBe('failed');
+    expect(failed.attempts).toBe(MAX_SEND_ATTEMPTS);
+    expect(failed.sendAt).toBeUndefined();
+  });
+
+  it('fails permanent errors at once', async () => {
+    const { outbox, transport } = setup();
+    vi.spyOn(transport, 'send').mockRejectedValue(Object.assign(new Error('no such user'), { responseCode: 550 }));
+    const draft = await outbox.createDraft(message, summary);
+    expect((await outbox.deliver(draft.draftId)).status).toBe('failed');
+  });
+
+  it('sends scheduled messages once they are due', async () => {
+    const { outbox } = setup();
+    const later = await outbox.createDraft(message, summary);
+    const due = await outbox.createDraft(message, summary);
+    outbox.schedule(later.draftId, new Date(Date.now() + 3600000));
+    outbox.schedule(due.draftId, new Date(Date.now() - 1000));
+    await outbox.processDue();
+    expect(outbox.get(due.draftId).status).toBe('sent');
+    expect(outbox.get(later.draftId).status).toBe('scheduled');
+    expect(() => outbox.schedule(due.draftId, new Date())).toThrow(/can't be scheduled while sent/);
+  });
+
+  it('keeps sending due messages after one of them fails', async () => {
+    const { outbox, transport } = setup();
+    const [first, second, third] = [await outbox.createDraft(message, summary), await outbox.createDraft(message, summary), await outbox.createDraft(message, summary)];
+    for (const draft of [first, second, third]) {
+      outbox.schedule(draft.draftId, new Date(Date.now() - 1000));
+    }
+    const send = transport.send.bind(transport);
+    // send-draft sends the second message while the poller is busy with the first
+    vi.spyOn(transport, 'send').mockImplementationOnce(async options => {
+      const state = path.join(outbox.directory, `${second.draftId}.json`);
+      fs.writeFileSync(state, JSON.stringify({ ...outbox.get(second.draftId), status: 'sent', sentAt: new Date().toISOString() }));
+      return send(options);
+    });
+    await outbox.processDue();
+    expect([first, second, third].map(draft => outbox.get(draft.draftId).status)).toEqual(['sent', 'sent', 'sent']);
+    expect(outbox.get(third.draftId).attempts).toBe(1);
+  });
+
+  it('refuses to send a draft that is already being sent', async () => {
+    const { outbox, transport } = setup();
+    let release = () => {};
+    vi.spyOn(transport, 'send').mockImplementation(() => new Promise(resolve => { release = () => resolve({ messageId: 'm' }); }));
+    const draft = await outbox.createDraft(message, summary);
+    const first = outbox.deliver(draft.draftId);
+    await expect(outbox.deliver(draft.draftId)).rejects.toThrow(/is being sent right now/);
+    release();
+    expect((await first).status).toBe('sent');
+  });
+
+  it('rejects unknown and malformed draft ids', () => {
+    const { outbox } = setup();
+    expect(() => outbox.get('../secrets')).toThrow(/Draft not found/);
+    expect(outbox.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { profileCsvFile, profileData, STREAMING_ROW_SAMPLE } from '../src/analysis.js';
+import { buildCharts } from '../src/plots.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plots-test-'));
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const rows = Array.from({ length: 60 }, (_, i) => ({
+  day: `2024-01-${String(i % 28 + 1).padStart(2, '0')}`,
+  price: 10 + i % 7,
+  qty: i % 5 + 1,
+  region: ['north', 'south', 'east'][i % 3],
+  note: i % 10 ? 'ok' : ''
+}));
+
+// Y axis tick values of a chart, which sit just left of the plot area
+function yTicks(svg: string): number[] {
+  return [...svg.matchAll(/<text x="62" y="[^"]+" text-anchor="end"[^>]*>([^<]+)</g)].map(([, tick]) =>
+    tick.endsWith('k') ? Number(tick.slice(0, -1)) * 1000 : Number(tick));
+}
+
+describe('buildCharts', () => {
+  it('picks charts from the inferred schema', () => {
+    const ids = buildCharts(profileData('sales', rows)).map(chart => chart.id);
+    expect(ids).toEqual(expect.arrayContaining([
+      'price_histogram', 'qty_histogram', 'boxplot', 'region_frequency', 'note_frequency',
+      'price_qty_scatter', 'day_price_line', 'day_qty_line', 'missing_values'
+    ]));
+  });
+
+  it('draws requested charts instead, with unique ids', () => {
+    const charts = buildCharts(profileData('sales', rows), [
+      { type: 'line', columns: ['day', 'price'], granularity: 'week', aggregation: 'sum' },
+      { type: 'histogram', columns: ['price'] },
+      { type: 'histogram', columns: ['price'] }
+    ]);
+    expect(charts.map(chart => chart.id)).toEqual(['day_price_line', 'price_histogram', 'price_histogram_2']);
+    expect(charts[0].title).toBe('sum of price by week of day');
+  });
+
+  it('numbers chart ids that repeat in the automatic selection', () => {
+    const ids = buildCharts(profileData('sales', rows.map(row => ({ 'unit price': row.price, unit_price: row.qty })))).map(chart => chart.id);
+    expect(ids.filter(id => id.startsWith('unit_price_histogram'))).toEqual(['unit_price_histogram', 'unit_price_histogram_2']);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('keeps the whole of a column name with a slash in the chart id', () => {
+    const [chart] = buildCharts(profileData('sales', rows.map(row => ({ 'Revenue/Cost': row.price }))), [{ type: 'histogram' }]);
+    expect(chart.id).toBe('Revenue_Cost_histogram');
+  });
+
+  it('explains requests that do not fit the columns', () => {
+    const profile = profileData('sales', rows);
+    expect(() => buildCharts(profile, [{ type: 'scatter', columns: ['price', 'region'] }])).toThrow('Column "region" is categorical, but a scatter chart needs numeric columns');
+    expect(() => buildCharts(profile, [{ type: 'line', columns: ['price'] }])).toThrow(/needs a date column first/);
+    expect(() => buildCharts(profile, [{ type: 'box', columns: ['nope'] }])).toThrow(/Unknown column "nope"/);
+  });
+
+  it('scales sums of a streaming sample up to the file totals and says so', async () => {
+    // 600 rows of value 1 per day, so every daily sum is 600
+    const days = Math.ceil((STREAMING_ROW_SAMPLE + 4000) / 600);
+    const lines = ['day,Value', ...Array.from({ length: days * 600 }, (_, i) => `2024-01-${String(Math.floor(i / 600) + 1).padStart(2, '0')},1`)];
+    const file = path.join(dir, 'large.csv');
+    fs.writeFileSync(file, lines.join('\n'));
+    const profile = await profileCsvFile('large.csv', file);
+    const [sum] = buildCharts(profile, [{ type: 'line', columns: ['day', 'Value'], granularity: 'day', aggregation: 'sum' }]);
+    expect(sum.title).toBe('Estimated sum of Value by day of day');
+    const [count] = buildCharts(profile, [{ type: 'line', columns: ['day'], granularity: 'day' }]);
+    expect(count.title).toBe('Estimated row count by day of day');
+    expect(sum.svg).toContain(`sample of ${STREAMING_ROW_SAMPLE} of ${days * 600} rows`);
+    expect(Math.min(...yTicks(sum.svg))).toBeGreaterThan(540);
+    expect(Math.max(...yTicks(sum.svg))).toBeLessThan(700);
+
+    const [mean] = buildCharts(profile, [{ type: 'line', columns: ['day', 'Value'], granularity: 'day', aggregation: 'mean' }]);
+    expect(mean.title).toBe('mean of Value by day of day');
+    expect(mean.svg).toContain('sample of');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { profileData } from '../src/analysis.js';
+import { assessQuality } from '../src/quality.js';
+
+// Rows are numbered from 0 in the report, like indices into the data
+const people = [
+  { name: 'Ann', age: 34, score_pct: 80, country: 'IQ', joined: '2020-05-01' },
+  { name: 'Bob', age: 29, score_pct: 75, country: 'IQ', joined: '2021-01-15' },
+  { name: 'Ann', age: 34, score_pct: 80, country: 'IQ', joined: '2020-05-01' },
+  { name: 'ann ', age: 34, score_pct: 80.0000001, country: 'IQ', joined: '2020-05-01' },
+  { name: 'Cy', age: -3, score_pct: 140, country: 'IQ', joined: '1850-01-01' },
+  { name: 'Di', age: '', score_pct: '', country: 'IQ', joined: '2022-03-03' },
+  { name: 'Ed', age: 41, score_pct: 66, country: 'IQ', joined: '2999-01-01' },
+  ...Array.from({ length: 13 }, (_, i) => ({ name: `P${i}`, age: 30 + i, score_pct: 50 + i, country: 'IQ', joined: '2023-01-01' }))
+];
+
+describe('assessQuality', () => {
+  const report = assessQuality(profileData('people', people));
+
+  it('counts missing cells and the columns that go missing together', () => {
+    expect(report.missing.rowsWithMissing).toBe(1);
+    expect(report.missing.patterns[0]).toMatchObject({ columns: ['age', 'score_pct'], count: 1, rows: [5] });
+  });
+
+  it('finds exact and near-duplicate rows', () => {
+    expect(report.duplicates.exactCount).toBe(1);
+    expect(report.duplicates.nearCount).toBe(1);
+    expect(report.duplicates.groups).toContainEqual({ kind: 'exact', rows: [0, 2] });
+    expect(report.duplicates.groups).toContainEqual({ kind: 'near', rows: [0, 2, 3] });
+  });
+
+  it('flags outliers with the methods that caught them', () => {
+    const age = report.outliers.find(outliers => outliers.column === 'age');
+    expect(age?.rows[0]).toMatchObject({ row: 4, value: -3, methods: expect.arrayContaining(['iqr']) });
+  });
+
+  it('reports constant columns', () => {
+    expect(report.constantColumns).toContainEqual({ column: 'country', kind: 'constant', value: 'IQ', share: 1 });
+  });
+
+  it('flags implausible values by column name and type', () => {
+    const reasons = Object.fromEntries(report.suspicious.map(finding => [`${finding.column}: ${finding.reason}`, finding.rows.map(({ row }) => row)]));
+    expect(reasons).toMatchObject({
+      'age: negative value': [4],
+      'score_pct: percentage outside 0–100': [4],
+      'joined: date in the future': [6],
+      'joined: date before 1900': [4]
+    });
+  });
+
+  it('numbers sampled rows by their position in the file', () => {
+    const profile = { ...profileData('sample', people.slice(0, 3)), rowNumbers: [10, 20, 30] };
+    expect(assessQuality(profile).duplicates.groups).toContainEqual({ kind: 'exact', rows: [10, 30] });
+  });
+});
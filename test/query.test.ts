@@ -0,0 +1,137 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { createDatasetRegistry, previewRows } from '../src/datasets.js';
+import { aggregate, compareValues, describeStep, QueryPlanSchema, runQuery } from '../src/query.js';
+import type { Table } from '../src/query.js';
+
+const orders: Table = {
+  columns: ['order_id', 'region', 'amount', 'day'],
+  rows: [
+    { order_id: 1, region: 'North', amount: '120', day: '2024-01-02' },
+    { order_id: 2, region: 'south', amount: 80, day: '2024-01-15' },
+    { order_id: 3, region: 'South', amount: 200, day: '2024-02-01' },
+    { order_id: 4, region: 'North', amount: null, day: '2024-02-10' },
+    { order_id: 5, region: 'East', amount: 50, day: '2024-03-01' }
+  ]
+};
+const managers: Table = {
+  columns: ['region', 'manager'],
+  rows: [{ region: 'NORTH', manager: 'Ada' }, { region: 'South', manager: 'Bo' }, { region: 'West', manager: 'Cy' }]
+};
+const lookup = (id: string) => {
+  if (id !== 'managers') {
+    throw new Error(`Unknown dataset: ${id}`);
+  }
+  return managers;
+};
+const query = (steps: unknown) => runQuery(orders, QueryPlanSchema.parse(steps), lookup);
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'query-test-'));
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('compareValues and aggregate', () => {
+  it('compare numbers, dates and text, missing last', () => {
+    expect(compareValues('10', 9)).toBeGreaterThan(0);
+    expect(compareValues('2024-01-02', '2023-12-31')).toBeGreaterThan(0);
+    expect(compareValues('item2', 'item10')).toBeLessThan(0);
+    expect(compareValues(null, 1)).toBeGreaterThan(0);
+  });
+
+  it('skip missing values', () => {
+    const values = [3, '1', null, '', 2];
+    expect(aggregate(values, 'count')).toBe(3);
+    expect(aggregate(values, 'median')).toBe(2);
+    expect(aggregate(['b', 'a', 'A'], 'countDistinct')).toBe(2);
+    expect(aggregate([], 'mean')).toBeNull();
+  });
+});
+
+describe('runQuery', () => {
+  it('filters, selects, sorts and limits', () => {
+    const result = query([
+      { op: 'filter', conditions: [{ column: 'amount', operator: 'gte', value: 80 }, { column: 'day', operator: 'between', value: ['2024-01-01', '2024-02-28'] }] },
+      { op: 'select', columns: ['order_id', 'amount'], rename: { order_id: 'id' } },
+      { op: 'sort', by: [{ column: 'amount', direction: 'desc' }] },
+      { op: 'limit', count: 2 }
+    ]);
+    expect(result.rows).toEqual([{ id: 3, amount: 200 }, { id: 1, amount: '120' }]);
+  });
+
+  it('groups values that differ only in case or type', () => {
+    const result = query([{ op: 'group', by: ['region'], aggregates: [{ function: 'sum', column: 'amount' }, { function: 'count' }] }]);
+    expect(result.columns).toEqual(['region', 'sum_amount', 'count']);
+    expect(result.rows).toEqual([
+      { region: 'North', sum_amount: 120, count: 2 },
+      { region: 'south', sum_amount: 280, count: 2 },
+      { region: 'East', sum_amount: 50, count: 1 }
+    ]);
+  });
+
+  it('pivots values into columns with a fill value', () => {
+    const sales: Table = {
+      columns: ['region', 'quarter', 'amount'],
+      rows: [{ region: 'North', quarter: 'Q1', amount: 10 }, { region: 'North', quarter: 'Q1', amount: 5 }, { region: 'South', quarter: 'Q2', amount: 7 }]
+    };
+    const result = runQuery(sales, QueryPlanSchema.parse([{ op: 'pivot', index: ['region'], columns: 'quarter', values: 'amount', fill: 0 }]), lookup);
+    expect(result.columns).toEqual(['region', 'Q1', 'Q2']);
+    expect(result.rows).toEqual([{ region: 'North', Q1: 15, Q2: 0 }, { region: 'South', Q1: 0, Q2: 7 }]);
+  });
+
+  it('joins another dataset', () => {
+    const inner = query([{ op: 'join', datasetId: 'managers', on: ['region'] }]);
+    expect(inner.rows.map(row => row.manager)).toEqual(['Ada', 'Bo', 'Bo', 'Ada']);
+    const full = query([{ op: 'join', datasetId: 'managers', on: ['region'], type: 'full' }]);
+    expect(full.rows).toHaveLength(6);
+    expect(full.rows.at(-1)).toMatchObject({ order_id: null, region: 'West', manager: 'Cy' });
+  });
+
+  it('names the unknown column and the step', () => {
+    expect(() => query([{ op: 'sort', by: [{ column: 'price' }] }])).toThrow('Unknown column "price" in step 1 (sort). Available: order_id, region, amount, day');
+    expect(() => QueryPlanSchema.parse([{ op: 'filter', conditions: [{ column: 'a', operator: 'between', value: [1] }] }])).toThrow(/exactly two values/);
+  });
+
+  it('describes each step in one line', () => {
+    const [step] = QueryPlanSchema.parse([{ op: 'group', by: ['region'], aggregates: [{ function: 'mean', column: 'amount', as: 'avg' }] }]);
+    expect(describeStep(step)).toBe('group by region: mean(amount) as avg');
+  });
+});
+
+describe('createDatasetRegistry', () => {
+  it('saves datasets as CSV and reads them back after a restart', () => {
+    const registry = createDatasetRegistry(dir);
+    const table: Table = { columns: ['day', 'amount'], rows: [{ day: new Date('2024-01-02T00:00:00Z'), amount: 5 }, { day: null, amount: 7 }] };
+    const info = registry.register('Sales 2024.xlsx', table, { file: 'sales.xlsx' });
+    expect(info.id).toMatch(/^sales_2024-[0-9a-f]{6}$/);
+    expect(info.columns.map(column => column.type)).toEqual(['date', 'integer']);
+    expect(fs.readFileSync(info.file, 'utf8')).toBe('day,amount\r\n2024-01-02,5\r\n,7');
+
+    const reopened = createDatasetRegistry(dir);
+    expect(reopened.list().map(dataset => dataset.id)).toEqual([info.id]);
+    expect(previewRows(reopened.table(info.id), 1)).toEqual([{ day: '2024-01-02', amount: '5' }]);
+    expect(() => reopened.get('../secrets')).toThrow(/Unknown dataset/);
+  });
+
+  it('gives the same rows before and after a restart', () => {
+    const registry = createDatasetRegistry(dir);
+    const table: Table = { columns: ['day', 'amount'], rows: [{ day: new Date('2024-01-02T00:00:00Z'), amount: 5 }, { day: null, amount: 7 }] };
+    const info = registry.register('fresh.csv', table, { file: 'fresh.csv' });
+    expect(registry.table(info.id)).toEqual(createDatasetRegistry(dir).table(info.id));
+  });
+
+  it('skips damaged metadata files', () => {
+    const damaged = path.join(dir, 'damaged');
+    const registry = createDatasetRegistry(damaged);
+    const info = registry.register('orders', orders, { file: 'orders.csv' });
+    fs.writeFileSync(path.join(damaged, 'broken-000000.json'), '{"id": "broken"');
+    fs.writeFileSync(path.join(damaged, 'partial-000000.json'), JSON.stringify({ id: 'partial', name: 'partial' }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(registry.list().map(dataset => dataset.id)).toEqual([info.id]);
+    expect(() => registry.get('partial-000000')).toThrow('Unknown dataset: partial-000000');
+    vi.restoreAllMocks();
+  });
+});
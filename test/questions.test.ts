@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { defineProvider } from '../src/llm.js';
+import type { LLMProvider } from '../src/llm.js';
+import type { Table } from '../src/query.js';
+import { buildQuestionPrompt, checkPlan, describeColumns, planQuestion, QuestionPlanSchema, renderAnswerChart, summarizeAnswer } from '../src/questions.js';
+
+// Provider answering with the given replies in turn, recording the prompts
+function scripted(replies: string[]): LLMProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  const provider = defineProvider('scripted', 'scripted', async prompt => {
+    prompts.push(prompt);
+    return { text: replies[Math.min(prompts.length - 1, replies.length - 1)] };
+  });
+  return Object.assign(provider, { prompts });
+}
+
+const sales: Table = {
+  columns: ['day', 'region', 'revenue'],
+  rows: Array.from({ length: 12 }, (_, index) => ({
+    day: `2024-01-${String(index + 1).padStart(2, '0')}`,
+    region: ['North', 'South', 'East'][index % 3],
+    revenue: 100 + index * 10
+  }))
+};
+
+const byRegion = [{ op: 'group', by: ['region'], aggregates: [{ function: 'sum', column: 'revenue', as: 'total' }] }];
+const plan = (chart: unknown, steps: unknown = byRegion) => QuestionPlanSchema.parse({ interpretation: 'Revenue per region', steps, chart });
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('describeColumns', () => {
+  it('gives ranges for numbers and dates and values for categories', () => {
+    expect(describeColumns(sales)).toBe([
+      '- "day" (date, from 2024-01-01 to 2024-01-12)',
+      '- "region" (categorical, values "North", "South", "East")',
+      '- "revenue" (integer, from 100 to 210)'
+    ].join('\n'));
+    expect(buildQuestionPrompt('Which region sells most?', 'sales', sales)).toContain('Question: Which region sells most?');
+  });
+});
+
+describe('checkPlan', () => {
+  it('accepts a plan that runs and charts result columns', () => {
+    expect(checkPlan(plan({ type: 'bar', x: 'region', y: ['total'] }), sales)).toEqual([]);
+    expect(checkPlan(plan({ type: 'line', x: 'day', y: ['revenue'] }, [{ op: 'sort', by: [{ column: 'day' }] }]), sales)).toEqual([]);
+  });
+
+  it('reports steps that fail and chart columns that are missing or not numeric', () => {
+    expect(checkPlan(plan(null, [{ op: 'sort', by: [{ column: 'price' }] }]), sales)[0]).toMatch(/Unknown column "price"/);
+    expect(checkPlan(plan(null, [{ op: 'join', datasetId: 'x', on: ['day'] }]), sales)).toEqual(['join steps are not available; answer from this table alone']);
+    expect(checkPlan(plan({ type: 'bar', x: 'region', y: ['revenue', 'region'] }), sales)).toEqual([
+      'Chart columns not in the result: revenue. Result columns are: region, total',
+      'Bar charts take exactly one y column; use a line chart or null for more',
+      'Chart y columns must be numeric: region'
+    ]);
+  });
+
+  it('rejects a line chart over a category column', () => {
+    expect(checkPlan(plan({ type: 'line', x: 'region', y: ['total'] }), sales)).toEqual([
+      'Line charts need a numeric or date x column, but "region" holds values such as "North"; use a bar chart for categories'
+    ]);
+  });
+});
+
+describe('planQuestion', () => {
+  it('sends a line chart over categories back for repair', async () => {
+    const model = scripted([
+      JSON.stringify({ interpretation: 'Revenue per region', steps: byRegion, chart: { type: 'line', x: 'region', y: ['total'] } }),
+      JSON.stringify({ interpretation: 'Revenue per region', steps: byRegion, chart: { type: 'bar', x: 'region', y: ['total'] } })
+    ]);
+    const result = await planQuestion(model, 'Revenue per region?', 'sales', sales);
+    expect(result.attempts).toBe(2);
+    expect(result.value?.chart?.type).toBe('bar');
+    expect(model.prompts[1]).toContain('Line charts need a numeric or date x column');
+  });
+});
+
+describe('renderAnswerChart and summarizeAnswer', () => {
+  it('draws dates on a time axis', () => {
+    const chart = renderAnswerChart({ type: 'line', x: 'day', y: ['revenue'] }, sales, 'Revenue');
+    expect(chart?.id).toBe('answer_line_day');
+    expect(chart?.svg).toContain('<svg');
+  });
+
+  it('reads the answer from the first row', () => {
+    expect(summarizeAnswer({ columns: ['region', 'total'], rows: [{ region: 'North', total: 2 / 3 }] })).toBe('region: North, total: 0.666667');
+    expect(summarizeAnswer({ columns: ['a'], rows: [] })).toBe('No rows match the question.');
+  });
+});
@@ -0,0 +1,110 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { renderBarChartSvg } from '../src/charts.js';
+import { defineProvider } from '../src/llm.js';
+import { emailSafeReport, fallbackEmailSummary, generateEmailSummary, inlineCss, loadRun } from '../src/reports.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reports-test-'));
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Files of an older run saved without a manifest
+function saveRun(runId: string, files: Record<string, unknown>): string {
+  const runDir = path.join(dir, runId);
+  fs.mkdirSync(runDir, { recursive: true });
+  fs.writeFileSync(path.join(runDir, `report_${runId}.html`), '<html><body><p>Report</p></body></html>');
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(runDir, name), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+  return runDir;
+}
+
+const insights = {
+  summary: 'Revenue grew in the north.',
+  insights: [{ title: 'North leads', detail: '60% of revenue', columns: ['region'] }],
+  trends: [],
+  anomalies: [],
+  recommendations: [],
+  confidence: 0.8
+};
+
+describe('inlineCss', () => {
+  it('copies matching rules into style attributes, keeping existing styles last', () => {
+    const html = inlineCss('<div class="box"><p>a</p><p style="color: red">b</p></div><p>c</p>', '.box p { color: blue; } p { margin: 0 }');
+    expect(html).toBe('<div class="box"><p style="margin: 0; color: blue;">a</p><p style="margin: 0; color: blue; color: red;">b</p></div><p style="margin: 0;">c</p>');
+  });
+});
+
+describe('emailSafeReport', () => {
+  it('replaces SVG charts with cid images up to the limit', () => {
+    const svg = renderBarChartSvg({ title: 'Sales', labels: ['a'], values: [1], xLabel: 'x', yLabel: 'y' });
+    const report = emailSafeReport(`<html><body><div class="plot">${svg}</div><div class="plot">${svg}</div></body></html>`, 1);
+    expect(report.html).toBe('<div class="plot"><img src="cid:chart0" alt="Sales" width="600"></div>');
+    expect(report.charts).toHaveLength(1);
+    expect(report.charts[0]).toMatchObject({ filename: 'chart0.png', contentType: 'image/png', cid: 'chart0' });
+    expect(report.omitted).toBe(1);
+  });
+});
+
+describe('loadRun', () => {
+  it('finds the files of a run saved without a manifest', () => {
+    const runDir = saveRun('1700000000000', { 'quality_1700000000000.json': { file: 'sales.csv', datasets: [] } });
+    const run = loadRun({ runId: '1700000000000', directory: dir });
+    expect(run).toMatchObject({ runId: '1700000000000', file: 'sales.csv', quality: path.join(runDir, 'quality_1700000000000.json') });
+    expect(loadRun({ reportPath: path.join(runDir, 'report_1700000000000.html'), directory: dir }).runId).toBe('1700000000000');
+  });
+
+  it('rejects unknown runs and files', () => {
+    expect(() => loadRun({ runId: '../etc', directory: dir })).toThrow(/Invalid run id/);
+    expect(() => loadRun({ runId: '42', directory: dir })).toThrow(/No analysis run 42/);
+    expect(() => loadRun({ reportPath: path.join(dir, 'notes.html'), directory: dir })).toThrow(/Not an analyze-data output file/);
+  });
+});
+
+describe('email summary', () => {
+  it('gives the model the saved statistics, quality findings and insights', async () => {
+    saveRun('1700000000001', {
+      'statistics_1700000000001.json': { file: 'sales.csv', datasets: [{ name: 'sales.csv', statistics: { rowCount: 120, columnCount: 4 } }] },
+      'quality_1700000000001.json': { file: 'sales.csv', datasets: [{ dataset: 'sales.csv', missing: { rowsWithMissing: 3 }, duplicates: { exactCount: 1, nearCount: 0 }, outliers: [], suspicious: [] }] },
+      'analysis_1700000000001.json': { valid: true, attempts: 1, insights }
+    });
+    const prompts: string[] = [];
+    const model = defineProvider('spy', 'spy', async prompt => {
+      prompts.push(prompt);
+      return { text: '{"subject": "Sales report", "summary": ["Done."]}' };
+    });
+    const result = await generateEmailSummary(model, loadRun({ runId: '1700000000001', directory: dir }));
+    expect(result.value).toEqual({ subject: 'Sales report', summary: ['Done.'], highlights: [] });
+    expect(prompts[0]).toContain('- sales.csv: 120 rows, 4 columns');
+    expect(prompts[0]).toContain('3 rows with missing values, 1 exact and 0 near duplicate rows');
+    expect(prompts[0]).toContain('Revenue grew in the north.');
+  });
+
+  it('treats saved files that do not match their schema as missing', async () => {
+    saveRun('1700000000002', {
+      'statistics_1700000000002.json': { datasets: 'not a list' },
+      'analysis_1700000000002.json': '{ broken json'
+    });
+    const run = loadRun({ runId: '1700000000002', directory: dir });
+    const prompts: string[] = [];
+    const model = defineProvider('spy', 'spy', async prompt => {
+      prompts.push(prompt);
+      return { text: '{"subject": "s", "summary": ["p"]}' };
+    });
+    await generateEmailSummary(model, run);
+    expect(prompts[0]).toContain('(statistics not saved for this run)');
+    expect(prompts[0]).toContain('(no analysis saved for this run)');
+    expect(fallbackEmailSummary(run).summary[0]).toMatch(/The analysis of .* is complete/);
+  });
+
+  it('falls back to the saved insights', () => {
+    saveRun('1700000000003', { 'analysis_1700000000003.json': { valid: true, attempts: 1, insights } });
+    const summary = fallbackEmailSummary(loadRun({ runId: '1700000000003', directory: dir }));
+    expect(summary.summary).toEqual(['Revenue grew in the north.']);
+    expect(summary.highlights).toEqual(['North leads: 60% of revenue']);
+  });
+});
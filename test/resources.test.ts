@@ -0,0 +1,90 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { renderBarChartSvg } from '../src/charts.js';
+import { createRunCatalog, RESOURCE_PAGE_SIZE, runUri } from '../src/resources.js';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'resources-test-'));
+const catalog = createRunCatalog(root);
+
+// An older analysis run (report and statistics next to a plots folder) and a thinking response
+const analysisDir = path.join(root, 'analysis', 'quarterly', '1700000000000');
+fs.mkdirSync(path.join(analysisDir, 'plots'), { recursive: true });
+fs.writeFileSync(path.join(analysisDir, 'report_1700000000000.html'), '<html><body>Report</body></html>');
+fs.writeFileSync(path.join(analysisDir, 'statistics_1700000000000.json'), JSON.stringify({ file: 'sales.csv', datasets: [] }));
+fs.writeFileSync(path.join(analysisDir, 'plots', 'bar_region_1700000000000.svg'), renderBarChartSvg({ title: 'Sales', labels: ['a'], values: [1], xLabel: 'x', yLabel: 'y' }));
+fs.mkdirSync(path.join(root, 'thinking'));
+fs.writeFileSync(path.join(root, 'thinking', 'gemini_thinking_1700000000001.txt'), '# Plan');
+fs.mkdirSync(path.join(root, 'emails', 'outbox'), { recursive: true });
+fs.writeFileSync(path.join(root, 'emails', 'outbox', 'report_1700000000002.html'), '<p>draft</p>');
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('createRunCatalog', () => {
+  it('lists runs found below the output folder, newest first', () => {
+    const uris = catalog.list().resources.map(resource => resource.uri);
+    expect(uris[0]).toBe(runUri('thinking', '1700000000001', undefined, 'thinking'));
+    expect(uris).toContain('run://analysis/1700000000000/report?folder=analysis%2Fquarterly%2F1700000000000');
+    expect(uris).toContain('run://analysis/1700000000000/statistics?folder=analysis%2Fquarterly%2F1700000000000');
+    expect(uris).toContain('run://analysis/1700000000000/plots/bar_region_1700000000000.svg?folder=analysis%2Fquarterly%2F1700000000000');
+    expect(uris.some(uri => uri.includes('1700000000002'))).toBe(false);
+  });
+
+  it('reads artifacts and rasterizes charts on request', () => {
+    expect(catalog.read('run://thinking/1700000000001')).toMatchObject({ mimeType: 'text/markdown', text: '# Plan' });
+    expect(catalog.read('run://analysis/1700000000000/report').text).toContain('Report');
+    const manifest = JSON.parse(catalog.read('run://analysis/1700000000000/manifest').text!);
+    expect(manifest.resources.statistics).toBe('run://analysis/1700000000000/statistics?folder=analysis%2Fquarterly%2F1700000000000');
+    const png = catalog.read('run://analysis/1700000000000/plots/bar_region_1700000000000.png');
+    expect(png.mimeType).toBe('image/png');
+    expect(Buffer.from(png.blob!, 'base64').subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('explains unknown URIs and missing artifacts', () => {
+    expect(() => catalog.read('file:///etc/passwd')).toThrow(/Unknown resource URI/);
+    expect(() => catalog.read('run://analysis/1/report')).toThrow('No analysis run 1 found');
+    expect(() => catalog.read('run://analysis/1700000000000/quality')).toThrow(/has no quality resource/);
+    expect(() => catalog.read('run://thinking/1700000000001/extra')).toThrow(/single resource/);
+  });
+
+  it('keeps the scan until it is refreshed', () => {
+    const directory = path.join(root, 'analysis', '1700000000003');
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(path.join(directory, 'report_1700000000003.html'), '<p>Later</p>');
+    expect(catalog.list().resources.some(resource => resource.uri.includes('1700000000003'))).toBe(false);
+    // A run saved since the last scan can still be read
+    expect(catalog.read('run://analysis/1700000000003/report').text).toBe('<p>Later</p>');
+    catalog.refresh();
+    expect(catalog.list().resources.map(resource => resource.uri)).toContain('run://analysis/1700000000003/report');
+  });
+
+  it('reads runs with the same id in different folders', () => {
+    for (const folder of ['analysis/1700000000004', 'monthly/1700000000004']) {
+      fs.mkdirSync(path.join(root, folder), { recursive: true });
+      fs.writeFileSync(path.join(root, folder, 'report_1700000000004.html'), `<p>${folder}</p>`);
+    }
+    fs.mkdirSync(path.join(root, 'yearly', '1700000000004'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'yearly', '1700000000004', 'report_1700000000004.html'), '<p>yearly</p>');
+    catalog.refresh();
+    const uris = catalog.list().resources.map(resource => resource.uri).filter(uri => uri.includes('1700000000004/report'));
+    expect(uris.sort()).toEqual([
+      'run://analysis/1700000000004/report',
+      'run://analysis/1700000000004/report?folder=monthly%2F1700000000004',
+      'run://analysis/1700000000004/report?folder=yearly%2F1700000000004'
+    ]);
+    expect(uris.map(uri => catalog.read(uri).text).sort()).toEqual(['<p>analysis/1700000000004</p>', '<p>monthly/1700000000004</p>', '<p>yearly</p>']);
+    fs.rmSync(path.join(root, 'analysis', '1700000000004'), { recursive: true });
+    catalog.refresh();
+    expect(() => catalog.read('run://analysis/1700000000004/report')).toThrow('There are 2 analysis runs 1700000000004, in monthly/1700000000004, yearly/1700000000004');
+    expect(() => catalog.read('run://analysis/1700000000004/report?folder=weekly')).toThrow('No analysis run 1700000000004 found in weekly');
+  });
+
+  it('pages through the resources with a cursor', () => {
+    expect(catalog.list().nextCursor).toBeUndefined();
+    expect(catalog.list(String(RESOURCE_PAGE_SIZE)).resources).toEqual([]);
+    expect(() => catalog.list('-1')).toThrow(/Invalid cursor/);
+  });
+});
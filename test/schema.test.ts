@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { collectColumns, inferSchema, isMissing, toDate, toNumber } from '../src/schema.js';
+
+describe('cell parsing', () => {
+  it('treats blanks and placeholder strings as missing', () => {
+    for (const value of [null, undefined, '', '  ', 'NA', 'n/a', 'null', '-']) {
+      expect(isMissing(value)).toBe(true);
+    }
+    expect(isMissing(0)).toBe(false);
+    expect(isMissing('none of them')).toBe(false);
+  });
+
+  it('reads numbers with thousands separators but not free text', () => {
+    expect(toNumber('1,234.5')).toBe(1234.5);
+    expect(toNumber(' -3e2 ')).toBe(-300);
+    expect(toNumber('12 apples')).toBeNull();
+    expect(toNumber(Infinity)).toBeNull();
+  });
+
+  it('reads ISO and slashed dates only', () => {
+    expect(toDate('2024-03-01')?.getUTCMonth()).toBe(2);
+    expect(toDate('03/01/2024')).toBeInstanceOf(Date);
+    expect(toDate('March first')).toBeNull();
+  });
+});
+
+describe('inferSchema', () => {
+  it('looks past the first row', () => {
+    const data = [{ amount: '' }, { amount: '10' }, { amount: '12.5' }, { amount: '7' }];
+    const schema = inferSchema(data);
+    expect(schema.amount.type).toBe('numeric');
+    expect(schema.amount.missingCount).toBe(1);
+  });
+
+  it('flags the cells that disagree with the column type', () => {
+    const data = [1, 2, 3, 4, 'five', 6, 7, 8, 9, 10].map((value, index) => ({ value, group: index % 2 ? 'a' : 'b' }));
+    const { value } = inferSchema(data);
+    expect(value.type).toBe('integer');
+    expect(value.mixedCount).toBe(1);
+    expect(value.mixedCells).toEqual([{ row: 4, value: 'five', detectedAs: 'string' }]);
+    expect(value.confidenceLevel).toBe('medium');
+  });
+
+  it('tells identifiers, categories, free text, booleans and dates apart', () => {
+    const data = Array.from({ length: 20 }, (_, index) => ({
+      order_id: index + 1,
+      sku: `SKU${index}`,
+      region: index % 3 ? 'North' : 'South',
+      note: `A much longer free text comment number ${index} about the order`,
+      paid: index % 2 ? 'yes' : 'no',
+      day: `2024-01-${String(index + 1).padStart(2, '0')}`,
+      at: `2024-01-01T10:${String(index).padStart(2, '0')}:00Z`
+    }));
+    const schema = inferSchema(data);
+    expect(schema.order_id.type).toBe('identifier');
+    expect(schema.sku.type).toBe('identifier');
+    expect(schema.region.type).toBe('categorical');
+    expect(schema.note.type).toBe('text');
+    expect(schema.paid.type).toBe('boolean');
+    expect(schema.day.type).toBe('date');
+    expect(schema.at.type).toBe('datetime');
+  });
+
+  it('collects columns that only appear in later rows', () => {
+    const data = [{ a: 1 }, { a: 2, b: 'x' }];
+    expect(collectColumns(data)).toEqual(['a', 'b']);
+    expect(inferSchema(data).b.missingCount).toBe(1);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { computeCategoricalStats, computeNumericStats, createFrequencyAccumulator, createNumericAccumulator, createReservoir } from '../src/stats.js';
+
+describe('computeCategoricalStats', () => {
+  const data = ['b', 'a', 'a', 'c', 'b', 'a', '', 'd', null, ' a '].map(region => ({ region }));
+
+  it('counts values, mode and missing cells', () => {
+    const stats = computeCategoricalStats(data, 'region');
+    expect(stats.cardinality).toBe(4);
+    expect(stats.mode).toBe('a');
+    expect(stats.modeCount).toBe(4);
+    expect(stats.missingCount).toBe(2);
+    expect(stats.topValues.map(({ value }) => value)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('buckets values past the top N as other', () => {
+    const stats = computeCategoricalStats(data, 'region', 2);
+    expect(stats.topValues).toEqual([{ value: 'a', count: 4 }, { value: 'b', count: 2 }]);
+    expect(stats.otherCount).toBe(2);
+  });
+
+  it('reports entropy in bits', () => {
+    const even = [1, 2, 3, 4].map(value => ({ value: `v${value}` }));
+    expect(computeCategoricalStats(even, 'value').entropy).toBe(2);
+    expect(computeCategoricalStats([{ value: 'x' }, { value: 'x' }], 'value').entropy).toBe(0);
+  });
+});
+
+describe('createReservoir', () => {
+  it('keeps a fixed-size sample of everything seen', () => {
+    const reservoir = createReservoir<number>(100);
+    for (let i = 0; i < 10000; i++) {
+      reservoir.add(i);
+    }
+    expect(reservoir.seen()).toBe(10000);
+    expect(reservoir.items()).toHaveLength(100);
+    expect(new Set(reservoir.items()).size).toBe(100);
+    // A uniform sample of 0..9999 averages near the middle
+    const mean = reservoir.items().reduce((sum, value) => sum + value, 0) / 100;
+    expect(mean).toBeGreaterThan(3500);
+    expect(mean).toBeLessThan(6500);
+  });
+
+  it('draws the same sample for the same seed', () => {
+    const draw = () => {
+      const reservoir = createReservoir<number>(5, 7);
+      for (let i = 0; i < 1000; i++) {
+        reservoir.add(i);
+      }
+      return reservoir.items();
+    };
+    expect(draw()).toEqual(draw());
+  });
+});
+
+describe('createNumericAccumulator', () => {
+  const values = Array.from({ length: 5000 }, (_, i) => Math.sin(i) * 100 + i / 10);
+
+  it('matches the exact statistics while the sample holds every value', () => {
+    const streamed = createNumericAccumulator(values.length);
+    values.forEach(value => streamed.add(value));
+    const exact = computeNumericStats(values);
+    const result = streamed.result();
+    expect(result.mean).toBeCloseTo(exact.mean, 9);
+    expect(result.std).toBeCloseTo(exact.std, 9);
+    expect(result.median).toBe(exact.median);
+    expect(result.approximate).toBeUndefined();
+  });
+
+  it('keeps exact moments and approximate quantiles past the sample size', () => {
+    const streamed = createNumericAccumulator(500);
+    values.forEach(value => streamed.add(value));
+    const exact = computeNumericStats(values);
+    const result = streamed.result();
+    expect(result.approximate).toBe(true);
+    expect(result.count).toBe(5000);
+    expect(result.mean).toBeCloseTo(exact.mean, 9);
+    expect(result.min).toBe(exact.min);
+    expect(result.max).toBe(exact.max);
+    expect(Math.abs(result.median - exact.median)).toBeLessThan((exact.max - exact.min) * 0.05);
+  });
+});
+
+describe('createFrequencyAccumulator', () => {
+  it('still finds the heavy hitters with fewer counters than values', () => {
+    const accumulator = createFrequencyAccumulator(10);
+    for (let i = 0; i < 3000; i++) {
+      accumulator.add(i % 3 === 0 ? 'common' : `rare${i}`);
+    }
+    const result = accumulator.result(1);
+    expect(result.approximate).toBe(true);
+    expect(result.mode).toBe('common');
+    expect(result.topValues[0].count + result.otherCount).toBe(3000);
+  });
+});
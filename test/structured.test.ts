@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { defineProvider } from '../src/llm.js';
+import type { LLMProvider } from '../src/llm.js';
+import { extractJson, generateJson } from '../src/structured.js';
+import { generateInsights } from '../src/insights.js';
+
+// Provider answering with the given replies in turn, recording the prompts
+function scripted(replies: string[]): LLMProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  const provider = defineProvider('scripted', 'scripted', async prompt => {
+    prompts.push(prompt);
+    return { text: replies[Math.min(prompts.length - 1, replies.length - 1)] };
+  });
+  return Object.assign(provider, { prompts });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('extractJson', () => {
+  it('finds the object inside prose or a code fence', () => {
+    expect(extractJson('Here you go: {"a": 1} hope it helps')).toEqual({ a: 1 });
+    expect(extractJson('```json\n{"a": {"b": 2}}\n```')).toEqual({ a: { b: 2 } });
+    expect(() => extractJson('no json here')).toThrow('Response contains no JSON object');
+  });
+});
+
+describe('generateJson', () => {
+  const schema = z.object({ count: z.number().int() });
+
+  it('returns the first valid response', async () => {
+    const model = scripted(['{"count": 3}']);
+    expect(await generateJson(model, 'count things', schema)).toEqual({ value: { count: 3 }, valid: true, attempts: 1, errors: [], raw: '{"count": 3}' });
+  });
+
+  it('sends validation errors back for repair', async () => {
+    const model = scripted(['{"count": "three"}', '{"count": 3}']);
+    const result = await generateJson(model, 'count things', schema);
+    expect(result.valid).toBe(true);
+    expect(result.attempts).toBe(2);
+    expect(model.prompts[1]).toContain('count: Expected number, received string');
+    expect(model.prompts[1]).toContain('Previous response:\n{"count": "three"}');
+  });
+
+  it('applies the extra check and gives up after the last attempt', async () => {
+    const model = scripted(['{"count": 3}']);
+    const result = await generateJson(model, 'count things', schema, ({ count }) => count > 2 ? ['count is too high'] : []);
+    expect(result).toMatchObject({ value: null, valid: false, attempts: 3, errors: ['count is too high'] });
+    expect(model.prompts).toHaveLength(3);
+  });
+
+  it('asks again instead of replaying an invalid cached response', async () => {
+    const calls: (boolean | undefined)[] = [];
+    const model = defineProvider('cached', 'm', async (_prompt, options = {}) => {
+      calls.push(options.cache);
+      return options.cache === false ? { text: '{"count": 1}' } : { text: 'stale', cached: true };
+    });
+    expect((await generateJson(model, 'p', schema)).value).toEqual({ count: 1 });
+    expect(calls).toEqual([undefined, false]);
+  });
+});
+
+describe('generateInsights', () => {
+  const insights = (column: string) => JSON.stringify({
+    summary: 'Sales grew.',
+    insights: [{ title: 'Growth', detail: 'Up 10%', columns: [column] }],
+    trends: [],
+    anomalies: [],
+    recommendations: [],
+    confidence: 0.7
+  });
+
+  it('rejects findings about columns the dataset does not have', async () => {
+    const model = scripted([insights('revenu'), insights('revenue')]);
+    const result = await generateInsights(model, 'analyze', ['revenue', 'region']);
+    expect(result.valid).toBe(true);
+    expect(model.prompts[1]).toContain('Unknown columns referenced: revenu. Valid columns are: revenue, region');
+  });
+});
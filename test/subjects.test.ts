@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { defineProvider } from '../src/llm.js';
+import type { LLMProvider } from '../src/llm.js';
+import { cleanSubject, findBannedWords, generateSubjects, lockSubject, SubjectOptionsSchema } from '../src/subjects.js';
+
+// Provider answering with the given replies in turn, recording the prompts
+function scripted(replies: string[]): LLMProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  const provider = defineProvider('scripted', 'scripted', async prompt => {
+    prompts.push(prompt);
+    return { text: replies[Math.min(prompts.length - 1, replies.length - 1)] };
+  });
+  return Object.assign(provider, { prompts });
+}
+
+const variants = (...subjects: string[]) => JSON.stringify({ variants: subjects.map(subject => ({ subject, rationale: 'short and clear' })) });
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('cleanSubject', () => {
+  it('strips labels, quotes and formatting', () => {
+    expect(cleanSubject('Subject line: "**Your March report**"')).toBe('Your March report');
+    expect(cleanSubject('«Rapport de mars»')).toBe('Rapport de mars');
+  });
+});
+
+describe('findBannedWords', () => {
+  it('matches whole words in any script', () => {
+    expect(findBannedWords('FREE shipping today', ['free', 'ship'])).toEqual(['free']);
+    expect(findBannedWords('عرض مجاني اليوم', ['مجاني'])).toEqual(['مجاني']);
+    expect(findBannedWords('freedom', ['free'])).toEqual([]);
+  });
+});
+
+describe('lockSubject', () => {
+  it('keeps the caller subject and rejects multi-line ones', () => {
+    expect(lockSubject(' Quarterly numbers ').variants[0]).toMatchObject({ subject: 'Quarterly numbers', length: 17 });
+    expect(() => lockSubject('Line one\nBcc: x@example.com')).toThrow(/single non-empty line/);
+  });
+});
+
+describe('generateSubjects', () => {
+  it('ranks the variants and adds the brand prefix', async () => {
+    const model = scripted([variants('Your sales are up 12%', 'See what changed in March')]);
+    const options = SubjectOptionsSchema.parse({ variants: 2, brandPrefix: '[Acme]', tone: 'friendly' });
+    const result = await generateSubjects(model, 'monthly sales summary', options);
+    expect(result.valid).toBe(true);
+    expect(result.variants.map(({ rank, subject }) => [rank, subject])).toEqual([[1, '[Acme] Your sales are up 12%'], [2, '[Acme] See what changed in March']]);
+    expect(model.prompts[0]).toContain('At most 53 characters each');
+    expect(model.prompts[0]).toContain('Tone: friendly');
+  });
+
+  it('asks for a repair when a variant is too long or uses a banned word', async () => {
+    const model = scripted([variants('Free upgrade inside'), variants('A quick look at your upgrade')]);
+    const result = await generateSubjects(model, 'upgrade offer', SubjectOptionsSchema.parse({ bannedWords: ['free'] }));
+    expect(result.attempts).toBe(2);
+    expect(result.variants[0].subject).toBe('A quick look at your upgrade');
+    expect(model.prompts[1]).toContain('Variant 1 uses banned words: free');
+  });
+
+  it('falls back to a cleaned, truncated subject when repairs fail', async () => {
+    const model = scripted([variants('Free '.repeat(30))]);
+    const result = await generateSubjects(model, 'upgrade offer', SubjectOptionsSchema.parse({ bannedWords: ['free'], maxLength: 20 }));
+    expect(result.valid).toBe(false);
+    expect(result.errors.length).toBeGreaterThan(0);
+    expect(result.variants).toHaveLength(1);
+    expect(result.variants[0].subject.length).toBeLessThanOrEqual(20);
+    expect(findBannedWords(result.variants[0].subject, ['free'])).toEqual([]);
+  });
+
+  it('rejects a brand prefix that leaves no room for the subject', async () => {
+    await expect(generateSubjects(scripted(['']), 'x', SubjectOptionsSchema.parse({ maxLength: 15, brandPrefix: '[A long brand]' })))
+      .rejects.toThrow(/brandPrefix leaves 0 characters/);
+  });
+});
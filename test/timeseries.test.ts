@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { profileData } from '../src/analysis.js';
+import { forecastSeries } from '../src/forecast.js';
+import { toDate } from '../src/schema.js';
+import { analyzeSheetTimeSeries, analyzeTimeSeries, buildTimeSeriesCharts, describeTimeSeries, fillGaps, partialPeriods, periodStart, renderTimeSeriesSection, resample } from '../src/timeseries.js';
+
+const day = (offset: number) => new Date(Date.UTC(2024, 0, 1) + offset * 86400000).toISOString().slice(0, 10);
+
+// Daily sales from Monday 2024-01-01 to Monday 2024-04-29, with a weekly pattern
+const daily = Array.from({ length: 120 }, (_, i) => ({ day: day(i), sales: 200 + (i % 7) * 5 + (i * 37 % 11) }));
+
+describe('resample and fillGaps', () => {
+  it('aggregate per period and fill the periods without rows', () => {
+    const rows = [{ day: '2024-01-01', sales: 5 }, { day: '2024-01-02', sales: 7 }, { day: '2024-01-15', sales: 1 }, { day: 'soon', sales: 9 }];
+    const { granularity, points } = resample(rows, 'day', 'sales', 'week', 'sum');
+    expect(granularity).toBe('week');
+    expect(points).toEqual([{ period: Date.UTC(2024, 0, 1), value: 12 }, { period: Date.UTC(2024, 0, 15), value: 1 }]);
+    expect(fillGaps(points, 'week', 'sum')).toEqual({ points: [points[0], { period: Date.UTC(2024, 0, 8), value: 0 }, points[1]], filled: 1 });
+  });
+});
+
+describe('partialPeriods', () => {
+  it('finds edge periods the dates cover only partly', () => {
+    // Wednesday 2024-01-03 to Monday 2024-01-15
+    const dates = Array.from({ length: 13 }, (_, i) => new Date(Date.UTC(2024, 0, 3 + i)));
+    expect(partialPeriods(dates, 'week')).toEqual([
+      { period: Date.UTC(2024, 0, 1), coverage: 5 / 7 },
+      { period: Date.UTC(2024, 0, 15), coverage: 1 / 7 }
+    ]);
+    expect(partialPeriods(dates.slice(0, 12), 'week')).toHaveLength(1);
+  });
+
+  it('counts a date as covering the step to the next one', () => {
+    const mondays = Array.from({ length: 9 }, (_, i) => new Date(Date.UTC(2024, 0, 1 + 7 * i)));
+    expect(partialPeriods(mondays, 'week')).toEqual([]);
+    const firsts = Array.from({ length: 6 }, (_, i) => new Date(Date.UTC(2024, i, 1)));
+    expect(partialPeriods(firsts, 'month')).toEqual([]);
+  });
+});
+
+describe('analyzeTimeSeries', () => {
+  it('leaves a partial last week out of sums', () => {
+    const report = analyzeTimeSeries(profileData('sales', daily))!;
+    expect(report.granularity).toBe('week');
+    expect(report.partialPeriods).toEqual([{ period: '2024-04-29T00:00:00.000Z', coverage: 0.142857 }]);
+    const [series] = report.series;
+    expect(series.points.at(-1)?.period).toBe('2024-04-22T00:00:00.000Z');
+    expect(series.changePoints).toEqual([]);
+    expect(series.forecast!.points.every(point => point.value > 1000)).toBe(true);
+    expect(describeTimeSeries(report)).toContain('week of 2024-04-29 (14% covered)');
+    expect(renderTimeSeriesSection(report)).toContain('Left out because the data covers only part of them');
+  });
+
+  it('names the charts after the whole column name', () => {
+    const report = analyzeTimeSeries(profileData('sales', daily.map(row => ({ day: row.day, 'Revenue/Cost': row.sales }))))!;
+    expect(buildTimeSeriesCharts(report).map(chart => chart.id)).toEqual(['Revenue_Cost_timeseries']);
+  });
+
+  it('keeps partial periods in means', () => {
+    const report = analyzeTimeSeries(profileData('sales', daily), { aggregation: 'mean' })!;
+    expect(report.partialPeriods).toEqual([]);
+    expect(report.series[0].points.at(-1)?.period).toBe('2024-04-29T00:00:00.000Z');
+  });
+
+  it('finds a level shift and names unknown columns', () => {
+    const shifted = daily.slice(0, 84).map((row, i) => ({ ...row, sales: row.sales + (i >= 42 ? 300 : 0) }));
+    const report = analyzeTimeSeries(profileData('sales', shifted), { granularity: 'day' })!;
+    expect(report.series[0].changePoints.map(change => change.period)).toEqual(['2024-02-12T00:00:00.000Z']);
+    expect(() => analyzeTimeSeries(profileData('sales', daily), { valueColumns: ['price'] })).toThrow('Unknown column for the time series of sales: price. Available: day, sales');
+  });
+
+  it('rejects value columns that are not numeric', () => {
+    const rows = daily.map((row, i) => ({ ...row, region: ['North', 'South'][i % 2] }));
+    expect(() => analyzeTimeSeries(profileData('sales', rows), { valueColumns: ['region'] })).toThrow('Column "region" of sales is categorical, but time-series value columns must be numeric');
+  });
+});
+
+describe('analyzeSheetTimeSeries', () => {
+  const short = profileData('short', daily.slice(0, 2));
+  const undated = profileData('undated', [{ sales: 1 }, { sales: 2 }]);
+
+  it('skips sheets without a time series, with the reason', () => {
+    const { reports, skipped } = analyzeSheetTimeSeries([profileData('sales', daily), short, undated], {}, 'book.xlsx');
+    expect(reports.map(report => report?.dataset ?? null)).toEqual(['sales', null, null]);
+    expect(skipped).toEqual([
+      { dataset: 'short', reason: expect.stringMatching(/^Too few days with values in short/) },
+      { dataset: 'undated', reason: 'No date column found; pass timeSeries.dateColumn' }
+    ]);
+  });
+
+  it('fails when no sheet has one', () => {
+    expect(() => analyzeSheetTimeSeries([short, undated], {}, 'book.xlsx')).toThrow(/^No time series found in book\.xlsx: short: Too few days.*; undated: No date column found/);
+    expect(() => analyzeSheetTimeSeries([undated], {}, 'data.csv')).toThrow('No time series found in data.csv: No date column found; pass timeSeries.dateColumn');
+  });
+});
+
+describe('east of Greenwich', () => {
+  const timeZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = 'Asia/Baghdad';
+  });
+
+  afterAll(() => {
+    if (timeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = timeZone;
+    }
+  });
+
+  it('buckets local-midnight dates by their calendar day', () => {
+    expect(new Date(2024, 0, 15).getTimezoneOffset()).toBe(-180);
+    expect(periodStart(new Date(2024, 0, 15), 'day')).toBe(Date.UTC(2024, 0, 15));
+    expect(periodStart(toDate('01/15/2024')!, 'week')).toBe(Date.UTC(2024, 0, 15));
+    expect(periodStart(new Date(2024, 1, 1), 'month')).toBe(Date.UTC(2024, 1, 1));
+    expect(periodStart(new Date('2024-01-15T22:30:00Z'), 'day')).toBe(Date.UTC(2024, 0, 15));
+  });
+
+  it('resamples spreadsheet and ISO dates alike', () => {
+    const rows = [{ day: new Date(2024, 0, 1), sales: 1 }, { day: '01/02/2024', sales: 2 }, { day: '2024-01-03', sales: 3 }];
+    expect(resample(rows, 'day', 'sales', 'day', 'sum').points.map(point => point.period)).toEqual([
+      Date.UTC(2024, 0, 1), Date.UTC(2024, 0, 2), Date.UTC(2024, 0, 3)
+    ]);
+  });
+});
+
+describe('forecastSeries', () => {
+  it('continues a linear trend', () => {
+    const forecast = forecastSeries(Array.from({ length: 20 }, (_, i) => 10 + 2 * i), 0, 3, 0.95)!;
+    expect(forecast.method).toBe('holt');
+    expect(forecast.values.map(point => point.value)).toEqual([50, 52, 54].map(value => expect.closeTo(value, 0)));
+    expect(forecast.values[2].high - forecast.values[2].low).toBeGreaterThanOrEqual(forecast.values[0].high - forecast.values[0].low);
+  });
+
+  it('repeats the season and needs enough history', () => {
+    const seasonal = Array.from({ length: 28 }, (_, i) => 100 + [0, 10, 20, 10][i % 4]);
+    const forecast = forecastSeries(seasonal, 4, 4, 0.9)!;
+    expect(forecast.method).toBe('holt-winters');
+    expect(forecast.values.map(point => Math.round(point.value))).toEqual([100, 110, 120, 110]);
+    expect(forecastSeries([1, 2, 3], 0, 2, 0.95)).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadConfig } from '../src/config.js';
+import { createWorkspace, isInside, sanitizeFileName } from '../src/workspace.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-test-'));
+
+function setup(settings: { inputDirs?: string[]; maxRuns?: number; retentionDays?: number } = {}) {
+  const root = fs.mkdtempSync(path.join(dir, 'root-'));
+  const write = (file: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), 'a,b\n1,2\n');
+  };
+  const workspace = createWorkspace({ root, outputDir: 'output', inputDirs: ['data'], retentionDays: 0, maxRuns: 0, ...settings });
+  return { root, write, workspace };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('sanitizeFileName', () => {
+  it('drops directories, leading dots and unsafe characters', () => {
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFileName('C:\\Users\\me\\.hidden report (1).csv')).toBe('hidden_report_1_.csv');
+    expect(sanitizeFileName('...', 'upload')).toBe('upload');
+    expect(sanitizeFileName(`${'x'.repeat(200)}.xlsx`)).toHaveLength(100);
+  });
+
+  it('tells paths inside a folder from those next to it', () => {
+    expect(isInside('/a/b', '/a/b/c')).toBe(true);
+    expect(isInside('/a/b', '/a/bc')).toBe(false);
+  });
+});
+
+describe('createWorkspace input', () => {
+  it('reads from the input folders only', () => {
+    const { root, write, workspace } = setup();
+    write('data/sales.csv');
+    write('secrets.csv');
+    expect(workspace.input('data/sales.csv')).toBe(fs.realpathSync(path.join(root, 'data/sales.csv')));
+    expect(() => workspace.input('secrets.csv')).toThrow(/outside the folders files may be read from: data/);
+    expect(() => workspace.input('data/../secrets.csv')).toThrow(/outside the folders/);
+    expect(() => workspace.input('data/missing.csv')).toThrow(/File not found/);
+  });
+
+  it('reads output files only from the folders a tool names', () => {
+    const { write, workspace } = setup();
+    write('output/datasets/1.csv');
+    write('output/emails/outbox/1.eml');
+    expect(() => workspace.input('output/datasets/1.csv')).toThrow(/outside the folders/);
+    expect(workspace.input('output/datasets/1.csv', ['datasets'])).toMatch(/1\.csv$/);
+    expect(() => workspace.input('output/emails/outbox/1.eml', ['datasets'])).toThrow(/data, output\/datasets/);
+    write('secrets.csv');
+    expect(() => workspace.input('secrets.csv', ['..'])).toThrow(/outside the folders/);
+  });
+
+  it('rejects symbolic links that leave the input folders', () => {
+    const { root, write, workspace } = setup();
+    write('private/key.csv');
+    fs.mkdirSync(path.join(root, 'data'), { recursive: true });
+    fs.symlinkSync(path.join(root, 'private/key.csv'), path.join(root, 'data/link.csv'));
+    expect(() => workspace.input('data/link.csv')).toThrow(/outside the folders/);
+  });
+
+  it('keeps outputDir inside the output folder', () => {
+    const { root, workspace } = setup();
+    expect(workspace.outputDirectory('analysis/q1', 'analysis')).toBe(path.join(fs.realpathSync(root), 'output/analysis/q1'));
+    expect(() => workspace.outputDirectory('../data', 'analysis')).toThrow(/must stay inside the output folder/);
+  });
+});
+
+describe('createWorkspace runs', () => {
+  it('prunes the oldest runs beyond maxRuns', () => {
+    const { workspace } = setup({ maxRuns: 2 });
+    const folder = workspace.output('analysis');
+    fs.mkdirSync(path.join(folder, '1000000000000'), { recursive: true });
+    fs.mkdirSync(path.join(folder, '1000000000001'));
+    fs.mkdirSync(path.join(folder, 'keep-me'));
+    const run = workspace.createRun(folder);
+    expect(fs.readdirSync(folder).sort()).toEqual(['1000000000001', run.runId, 'keep-me'].sort());
+  });
+
+  it('removes an upload once it has been read', () => {
+    const { workspace } = setup();
+    const upload = workspace.saveUpload('../report.csv', Buffer.from('a\n1\n'));
+    expect(path.basename(upload.path)).toBe('report.csv');
+    upload.remove();
+    expect(fs.existsSync(upload.path)).toBe(false);
+  });
+});
+
+describe('workspace settings', () => {
+  it('read only the data folder by default', () => {
+    expect(loadConfig({}).workspace.inputDirs).toEqual(['data']);
+  });
+});